@@ -11,9 +11,20 @@ contract TodoRegistry {
         bool isDeleted;        // Soft delete flag
     }
 
+    struct BatchRecord {
+        bytes32 root;          // Merkle root of the batch's todo leaves
+        uint256 count;         // Number of leaves in the batch
+        address submitter;     // Wallet that anchored the batch
+        uint256 timestamp;     // Anchoring timestamp
+    }
+
     // Mapping from todoId (MongoDB ObjectId as string) to TodoRecord
     mapping(string => TodoRecord) private todos;
 
+    // Mapping from batchId (sequential, starting at 1) to BatchRecord
+    mapping(uint256 => BatchRecord) private batches;
+    uint256 public batchCount;
+
     // Events for logging
     event TodoCreated(
         string indexed todoId,
@@ -39,6 +50,14 @@ contract TodoRegistry {
         uint256 timestamp
     );
 
+    event BatchAnchored(
+        uint256 indexed batchId,
+        bytes32 root,
+        uint256 count,
+        address indexed submitter,
+        uint256 timestamp
+    );
+
 
     modifier onlyTodoOwner(string memory todoId) {
         require(bytes(todoId).length > 0, "Todo ID cannot be empty");
@@ -52,6 +71,12 @@ contract TodoRegistry {
         _;
     }
 
+
+    modifier batchExists(uint256 batchId) {
+        require(batches[batchId].timestamp > 0, "Batch does not exist");
+        _;
+    }
+
  
     function createTodo(
         string memory todoId,
@@ -137,4 +162,61 @@ contract TodoRegistry {
     function todoExistsByID(string memory todoId) external view returns (bool) {
         return todos[todoId].timestamp > 0;
     }
-}
+
+
+    // Batch mode: leaves are keccak256(abi.encode(todoId, todoHash, isDeleted)),
+    // pairs are hashed in sorted order so proofs carry no left/right flags
+    function anchorBatch(
+        bytes32 root,
+        uint256 count
+    ) external returns (uint256 batchId) {
+        require(root != bytes32(0), "Batch root cannot be empty");
+        require(count > 0, "Batch cannot be empty");
+
+        batchId = ++batchCount;
+
+        batches[batchId] = BatchRecord({
+            root: root,
+            count: count,
+            submitter: msg.sender,
+            timestamp: block.timestamp
+        });
+
+        emit BatchAnchored(batchId, root, count, msg.sender, block.timestamp);
+    }
+
+
+    function getBatch(
+        uint256 batchId
+    ) external view batchExists(batchId) returns (
+        bytes32 root,
+        uint256 count,
+        address submitter,
+        uint256 timestamp
+    ) {
+        BatchRecord memory batch = batches[batchId];
+        return (
+            batch.root,
+            batch.count,
+            batch.submitter,
+            batch.timestamp
+        );
+    }
+
+
+    function verifyBatchInclusion(
+        uint256 batchId,
+        bytes32 leaf,
+        bytes32[] calldata proof
+    ) external view batchExists(batchId) returns (bool) {
+        bytes32 computed = leaf;
+
+        for (uint256 i = 0; i < proof.length; i++) {
+            computed = computed < proof[i]
+                ? keccak256(abi.encodePacked(computed, proof[i]))
+                : keccak256(abi.encodePacked(proof[i], computed));
+        }
+
+        return computed == batches[batchId].root;
+    }
+}
\ No newline at end of file
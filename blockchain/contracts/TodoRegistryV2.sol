@@ -0,0 +1,552 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+
+// The parts of TodoRegistry (v1) its successor reads
+interface ITodoRegistryV1 {
+    function todoExistsByID(string memory todoId) external view returns (bool);
+    function batchCount() external view returns (uint256);
+}
+
+
+// Second version of TodoRegistry. It points at the registry it replaces: the migrator
+// copies that registry's todos and batches in (replayed from its event log) until the
+// migration is finalized. Events keep their v1 signatures so existing readers work.
+//
+// Todos can belong to a user's own address: the user approves an operator (the anchoring
+// server) once, directly or with an EIP-712 signature the operator relays, and the
+// operator then creates and writes todos on their behalf.
+contract TodoRegistryV2 {
+
+    uint16 public constant VERSION = 2;
+
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+    bytes32 private constant OPERATOR_APPROVAL_TYPEHASH = keccak256(
+        "OperatorApproval(address owner,address operator,bool approved,uint256 nonce,uint256 deadline)"
+    );
+
+    // secp256k1 order / 2: higher s values are malleable duplicates of a signature
+    uint256 private constant MAX_SIGNATURE_S =
+        0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
+
+    struct TodoRecord {
+        bytes32 todoHash;      // Hash of todo data
+        address owner;         // Account the todo belongs to
+        address operator;      // Account the owner lets write it (e.g. the anchoring server)
+        uint256 timestamp;     // Creation timestamp (kept from v1 for migrated records)
+        bool isDeleted;        // Soft delete flag
+        uint16 schemaVersion;  // Hashing scheme of todoHash (0: migrated, not recorded by v1)
+    }
+
+    struct BatchRecord {
+        bytes32 root;          // Merkle root of the batch's todo leaves
+        uint256 count;         // Number of leaves in the batch
+        address submitter;     // Wallet that anchored the batch
+        uint256 timestamp;     // Anchoring timestamp
+    }
+
+    // Set once in the constructor. Plain storage rather than immutables, so the runtime
+    // bytecode matches the compiled artifact (checked against deployment manifests)
+
+    // Registry this one replaces (zero for a fresh deployment)
+    address public predecessor;
+
+    // Account allowed to import predecessor records, until the migration is finalized
+    address public migrator;
+    bool public migrationFinalized;
+
+    // Predecessor batch IDs (1..migratedBatchLimit) are reserved for migrated batches
+    uint256 public migratedBatchLimit;
+    uint256 public migratedTodoCount;
+    uint256 public migratedBatchCount;
+
+    mapping(string => TodoRecord) private todos;
+    mapping(uint256 => BatchRecord) private batches;
+    uint256 public batchCount;
+
+    // owner => operator => approved
+    mapping(address => mapping(address => bool)) private operatorApprovals;
+
+    // Per-owner counter, so each signed approval can only be used once
+    mapping(address => uint256) public nonces;
+
+    event TodoCreated(
+        string indexed todoId,
+        bytes32 todoHash,
+        address indexed owner,
+        uint256 timestamp
+    );
+
+    event TodoUpdated(
+        string indexed todoId,
+        bytes32 oldHash,
+        bytes32 newHash,
+        uint256 timestamp
+    );
+
+    event TodoDeleted(
+        string indexed todoId,
+        uint256 timestamp
+    );
+
+    event TodoRestored(
+        string indexed todoId,
+        uint256 timestamp
+    );
+
+    event TodoOperatorChanged(
+        string indexed todoId,
+        address indexed operator
+    );
+
+    event OperatorApproval(
+        address indexed owner,
+        address indexed operator,
+        bool approved
+    );
+
+    event BatchAnchored(
+        uint256 indexed batchId,
+        bytes32 root,
+        uint256 count,
+        address indexed submitter,
+        uint256 timestamp
+    );
+
+    event TodoMigrated(
+        string indexed todoId,
+        bytes32 todoHash,
+        address indexed owner,
+        bool isDeleted
+    );
+
+    event BatchMigrated(
+        uint256 indexed batchId,
+        bytes32 root
+    );
+
+    event MigrationFinalized(
+        uint256 todoCount,
+        uint256 batchCount
+    );
+
+
+    modifier todoExists(string memory todoId) {
+        require(todos[todoId].timestamp > 0, "Todo does not exist");
+        _;
+    }
+
+
+    modifier onlyTodoOwner(string memory todoId) {
+        require(todos[todoId].owner == msg.sender, "Not authorized: caller is not the todo owner");
+        _;
+    }
+
+
+    // The owner, the operator it chose for this todo, or an operator it approved for all
+    modifier onlyTodoWriter(string memory todoId) {
+        TodoRecord storage todo = todos[todoId];
+        require(
+            todo.owner == msg.sender ||
+                todo.operator == msg.sender ||
+                operatorApprovals[todo.owner][msg.sender],
+            "Not authorized: caller is not the todo owner or operator"
+        );
+        _;
+    }
+
+
+    modifier batchExists(uint256 batchId) {
+        require(batches[batchId].timestamp > 0, "Batch does not exist");
+        _;
+    }
+
+
+    modifier onlyMigrating() {
+        require(msg.sender == migrator, "Not authorized: caller is not the migrator");
+        require(!migrationFinalized, "Migration is finalized");
+        _;
+    }
+
+
+    constructor(address predecessor_) {
+        predecessor = predecessor_;
+        migrator = msg.sender;
+
+        if (predecessor_ == address(0)) {
+            migrationFinalized = true;
+        } else {
+            migratedBatchLimit = ITodoRegistryV1(predecessor_).batchCount();
+            batchCount = migratedBatchLimit;
+        }
+    }
+
+
+    function createTodo(
+        string memory todoId,
+        bytes32 todoHash,
+        uint16 schemaVersion
+    ) external {
+        _createTodo(todoId, todoHash, schemaVersion, msg.sender, msg.sender);
+    }
+
+
+    // Create a todo owned by another account, which approved the caller as its operator
+    // The caller writes it through that approval, so revoking it cuts the caller off
+    function createTodoFor(
+        string memory todoId,
+        bytes32 todoHash,
+        uint16 schemaVersion,
+        address owner
+    ) external {
+        require(
+            operatorApprovals[owner][msg.sender],
+            "Not authorized: caller is not an approved operator of the owner"
+        );
+
+        _createTodo(todoId, todoHash, schemaVersion, owner, address(0));
+    }
+
+
+    function updateTodo(
+        string memory todoId,
+        bytes32 newHash,
+        uint16 schemaVersion
+    ) external todoExists(todoId) onlyTodoWriter(todoId) {
+        require(newHash != bytes32(0), "New hash cannot be empty");
+        require(!todos[todoId].isDeleted, "Cannot update deleted todo");
+
+        bytes32 oldHash = todos[todoId].todoHash;
+        todos[todoId].todoHash = newHash;
+        todos[todoId].schemaVersion = schemaVersion;
+
+        emit TodoUpdated(todoId, oldHash, newHash, block.timestamp);
+    }
+
+
+    function deleteTodo(
+        string memory todoId
+    ) external todoExists(todoId) onlyTodoWriter(todoId) {
+        require(!todos[todoId].isDeleted, "Todo is already deleted");
+
+        todos[todoId].isDeleted = true;
+
+        emit TodoDeleted(todoId, block.timestamp);
+    }
+
+
+    function restoreTodo(
+        string memory todoId
+    ) external todoExists(todoId) onlyTodoWriter(todoId) {
+        require(todos[todoId].isDeleted, "Todo is not deleted");
+
+        todos[todoId].isDeleted = false;
+
+        emit TodoRestored(todoId, block.timestamp);
+    }
+
+
+    // Let an account write every todo of the caller (or stop it)
+    function setOperatorApproval(address operator, bool approved) external {
+        _setOperatorApproval(msg.sender, operator, approved);
+    }
+
+
+    // Relayed form of setOperatorApproval: the owner signs an EIP-712 OperatorApproval
+    // with its current nonce, and anyone (usually the operator) submits it
+    function setOperatorApprovalBySig(
+        address owner,
+        address operator,
+        bool approved,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= deadline, "Signature expired");
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                OPERATOR_APPROVAL_TYPEHASH,
+                owner,
+                operator,
+                approved,
+                nonces[owner],
+                deadline
+            )
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), structHash));
+
+        require(_recover(digest, signature) == owner, "Invalid signature");
+
+        nonces[owner]++;
+        _setOperatorApproval(owner, operator, approved);
+    }
+
+
+    function isApprovedOperator(address owner, address operator) external view returns (bool) {
+        return operatorApprovals[owner][operator];
+    }
+
+
+    // Computed on every call rather than cached in immutables, so the runtime bytecode
+    // matches the compiled artifact
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                DOMAIN_TYPEHASH,
+                keccak256(bytes("TodoRegistry")),
+                keccak256(bytes("2")),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+
+
+    // Let another account write the todo (zero address to revoke)
+    function setTodoOperator(
+        string memory todoId,
+        address operator
+    ) external todoExists(todoId) onlyTodoOwner(todoId) {
+        todos[todoId].operator = operator;
+
+        emit TodoOperatorChanged(todoId, operator);
+    }
+
+
+    function verifyTodo(
+        string memory todoId,
+        bytes32 expectedHash
+    ) external view todoExists(todoId) returns (bool) {
+        return todos[todoId].todoHash == expectedHash;
+    }
+
+
+    // Same shape as v1's getTodo
+    function getTodo(
+        string memory todoId
+    ) external view todoExists(todoId) returns (
+        bytes32 todoHash,
+        address owner,
+        uint256 timestamp,
+        bool isDeleted
+    ) {
+        TodoRecord memory todo = todos[todoId];
+        return (
+            todo.todoHash,
+            todo.owner,
+            todo.timestamp,
+            todo.isDeleted
+        );
+    }
+
+
+    function getTodoRecord(
+        string memory todoId
+    ) external view todoExists(todoId) returns (TodoRecord memory) {
+        return todos[todoId];
+    }
+
+
+    function todoExistsByID(string memory todoId) external view returns (bool) {
+        return todos[todoId].timestamp > 0;
+    }
+
+
+    // Batch mode: leaves are keccak256(abi.encode(todoId, todoHash, isDeleted)),
+    // pairs are hashed in sorted order so proofs carry no left/right flags
+    function anchorBatch(
+        bytes32 root,
+        uint256 count
+    ) external returns (uint256 batchId) {
+        require(root != bytes32(0), "Batch root cannot be empty");
+        require(count > 0, "Batch cannot be empty");
+
+        batchId = ++batchCount;
+
+        batches[batchId] = BatchRecord({
+            root: root,
+            count: count,
+            submitter: msg.sender,
+            timestamp: block.timestamp
+        });
+
+        emit BatchAnchored(batchId, root, count, msg.sender, block.timestamp);
+    }
+
+
+    function getBatch(
+        uint256 batchId
+    ) external view batchExists(batchId) returns (
+        bytes32 root,
+        uint256 count,
+        address submitter,
+        uint256 timestamp
+    ) {
+        BatchRecord memory batch = batches[batchId];
+        return (
+            batch.root,
+            batch.count,
+            batch.submitter,
+            batch.timestamp
+        );
+    }
+
+
+    function verifyBatchInclusion(
+        uint256 batchId,
+        bytes32 leaf,
+        bytes32[] calldata proof
+    ) external view batchExists(batchId) returns (bool) {
+        bytes32 computed = leaf;
+
+        for (uint256 i = 0; i < proof.length; i++) {
+            computed = computed < proof[i]
+                ? keccak256(abi.encodePacked(computed, proof[i]))
+                : keccak256(abi.encodePacked(proof[i], computed));
+        }
+
+        return computed == batches[batchId].root;
+    }
+
+
+    // Copy predecessor todos as they currently stand there (owner and operator are
+    // the predecessor owner, which could already write them)
+    function migrateTodos(
+        string[] calldata todoIds,
+        bytes32[] calldata todoHashes,
+        address[] calldata owners,
+        uint256[] calldata timestamps,
+        bool[] calldata deleted
+    ) external onlyMigrating {
+        require(
+            todoHashes.length == todoIds.length &&
+                owners.length == todoIds.length &&
+                timestamps.length == todoIds.length &&
+                deleted.length == todoIds.length,
+            "Array lengths do not match"
+        );
+
+        for (uint256 i = 0; i < todoIds.length; i++) {
+            require(bytes(todoIds[i]).length > 0, "Todo ID cannot be empty");
+            require(todoHashes[i] != bytes32(0), "Todo hash cannot be empty");
+            require(timestamps[i] > 0, "Timestamp cannot be empty");
+            require(todos[todoIds[i]].timestamp == 0, "Todo already exists");
+
+            todos[todoIds[i]] = TodoRecord({
+                todoHash: todoHashes[i],
+                owner: owners[i],
+                operator: owners[i],
+                timestamp: timestamps[i],
+                isDeleted: deleted[i],
+                schemaVersion: 0
+            });
+
+            emit TodoMigrated(todoIds[i], todoHashes[i], owners[i], deleted[i]);
+        }
+
+        migratedTodoCount += todoIds.length;
+    }
+
+
+    // Copy predecessor batches under their original IDs
+    function migrateBatches(
+        uint256[] calldata batchIds,
+        bytes32[] calldata roots,
+        uint256[] calldata counts,
+        address[] calldata submitters,
+        uint256[] calldata timestamps
+    ) external onlyMigrating {
+        require(
+            roots.length == batchIds.length &&
+                counts.length == batchIds.length &&
+                submitters.length == batchIds.length &&
+                timestamps.length == batchIds.length,
+            "Array lengths do not match"
+        );
+
+        for (uint256 i = 0; i < batchIds.length; i++) {
+            uint256 batchId = batchIds[i];
+            require(batchId > 0 && batchId <= migratedBatchLimit, "Batch ID not reserved for migration");
+            require(batches[batchId].timestamp == 0, "Batch already exists");
+            require(roots[i] != bytes32(0), "Batch root cannot be empty");
+            require(timestamps[i] > 0, "Timestamp cannot be empty");
+
+            batches[batchId] = BatchRecord({
+                root: roots[i],
+                count: counts[i],
+                submitter: submitters[i],
+                timestamp: timestamps[i]
+            });
+
+            emit BatchMigrated(batchId, roots[i]);
+        }
+
+        migratedBatchCount += batchIds.length;
+    }
+
+
+    // Stop imports for good; the predecessor is read-only history from here on
+    function finalizeMigration() external onlyMigrating {
+        migrationFinalized = true;
+
+        emit MigrationFinalized(migratedTodoCount, migratedBatchCount);
+    }
+
+
+    function _createTodo(
+        string memory todoId,
+        bytes32 todoHash,
+        uint16 schemaVersion,
+        address owner,
+        address operator
+    ) private {
+        require(bytes(todoId).length > 0, "Todo ID cannot be empty");
+        require(todoHash != bytes32(0), "Todo hash cannot be empty");
+        require(todos[todoId].timestamp == 0, "Todo already exists");
+        require(
+            predecessor == address(0) || !ITodoRegistryV1(predecessor).todoExistsByID(todoId),
+            "Todo exists in predecessor registry"
+        );
+
+        todos[todoId] = TodoRecord({
+            todoHash: todoHash,
+            owner: owner,
+            operator: operator,
+            timestamp: block.timestamp,
+            isDeleted: false,
+            schemaVersion: schemaVersion
+        });
+
+        emit TodoCreated(todoId, todoHash, owner, block.timestamp);
+    }
+
+
+    function _setOperatorApproval(address owner, address operator, bool approved) private {
+        require(operator != address(0), "Operator cannot be the zero address");
+        require(operator != owner, "Owner cannot be its own operator");
+
+        operatorApprovals[owner][operator] = approved;
+
+        emit OperatorApproval(owner, operator, approved);
+    }
+
+
+    // ecrecover for a 65-byte (r, s, v) signature, rejecting malleable and invalid ones
+    function _recover(bytes32 digest, bytes calldata signature) private pure returns (address) {
+        require(signature.length == 65, "Invalid signature length");
+
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+
+        require(uint256(s) <= MAX_SIGNATURE_S, "Invalid signature");
+        require(v == 27 || v == 28, "Invalid signature");
+
+        address signer = ecrecover(digest, v, r, s);
+        require(signer != address(0), "Invalid signature");
+
+        return signer;
+    }
+}
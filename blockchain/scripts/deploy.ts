@@ -1,30 +1,211 @@
-import { ethers } from 'hardhat';
+import fs from 'fs';
+import path from 'path';
+import { TransactionReceipt } from 'ethers';
+import { artifacts, ethers, network } from 'hardhat';
+import {
+  DeploymentManifest,
+  DeploymentPredecessor,
+  getAbiHash,
+  getDeploymentsDir,
+} from '../../src/config/deployments';
+
+// TodoRegistryV2 by default; REGISTRY_CONTRACT=TodoRegistry deploys the original registry
+const CONTRACT_NAME = process.env.REGISTRY_CONTRACT || 'TodoRegistryV2';
+const PREDECESSOR_CONTRACT = 'TodoRegistry';
+
+// ADOPT_ADDRESS (with ADOPT_DEPLOY_BLOCK) writes a manifest for a registry that is already
+// deployed instead of deploying a new one
+const ADOPT_ADDRESS = process.env.ADOPT_ADDRESS;
+const ADOPT_DEPLOY_BLOCK = process.env.ADOPT_DEPLOY_BLOCK;
+
+/**
+ * The TodoRegistry (v1) a new TodoRegistryV2 replaces: the one in the network's current
+ * manifest, if its code is still on chain
+ */
+async function findPredecessor(manifestPath: string): Promise<DeploymentPredecessor | undefined> {
+  if (!fs.existsSync(manifestPath)) {
+    return undefined;
+  }
+
+  const current = JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as DeploymentManifest;
+
+  if ((await ethers.provider.getCode(current.address)) === '0x') {
+    console.log(`⚠️  No code at ${current.address} (node reset?), deploying without a predecessor`);
+    return undefined;
+  }
+
+  if (current.contract !== PREDECESSOR_CONTRACT) {
+    throw new Error(
+      `${manifestPath} already holds a ${current.contract} deployment; ` +
+        `${CONTRACT_NAME} can only replace a ${PREDECESSOR_CONTRACT}`
+    );
+  }
+
+  return {
+    contract: current.contract,
+    address: current.address,
+    deployBlock: current.deployBlock,
+    deployedBytecodeHash: current.deployedBytecodeHash,
+    abi: current.abi,
+  };
+}
+
+/**
+ * Write a manifest for a CONTRACT_NAME registry already deployed at ADOPT_ADDRESS, so todos
+ * anchored on it keep verifying. The deploy transaction is looked up in ADOPT_DEPLOY_BLOCK;
+ * the bytecode hash is taken from the chain, since the contract may have been compiled
+ * from an older revision of its source.
+ */
+async function adopt(manifestPath: string): Promise<string> {
+  const address = ethers.getAddress(ADOPT_ADDRESS!);
+  const deployBlock = Number(ADOPT_DEPLOY_BLOCK);
+
+  if (!Number.isInteger(deployBlock) || deployBlock < 0) {
+    throw new Error('ADOPT_DEPLOY_BLOCK must be the block the registry was deployed in');
+  }
+
+  console.log(`📥 Adopting the ${CONTRACT_NAME} deployed at ${address}...\n`);
+
+  const code = await ethers.provider.getCode(address);
+  if (code === '0x') {
+    throw new Error(`No contract deployed at ${address} on ${network.name}`);
+  }
+
+  // Only contracts created directly by a transaction can be found this way
+  const block = await ethers.provider.getBlock(deployBlock, true);
+  let receipt: TransactionReceipt | null = null;
+
+  for (const transaction of block?.prefetchedTransactions ?? []) {
+    if (transaction.to === null) {
+      const candidate = await ethers.provider.getTransactionReceipt(transaction.hash);
+      if (candidate?.contractAddress === address) {
+        receipt = candidate;
+        break;
+      }
+    }
+  }
+
+  if (!receipt) {
+    throw new Error(`No transaction in block ${deployBlock} deployed ${address}`);
+  }
+
+  const artifact = await artifacts.readArtifact(CONTRACT_NAME);
+  const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${CONTRACT_NAME}`);
+  const deployedBytecodeHash = ethers.keccak256(code);
+  const isCurrentBuild = deployedBytecodeHash === ethers.keccak256(artifact.deployedBytecode);
+
+  if (!isCurrentBuild) {
+    console.log(
+      `⚠️  The code at ${address} differs from the compiled ${CONTRACT_NAME}; ` +
+        'functions added to its source since it was deployed will revert'
+    );
+  }
+
+  const { chainId } = await ethers.provider.getNetwork();
+
+  writeManifest(manifestPath, {
+    contract: CONTRACT_NAME,
+    network: network.name,
+    chainId: Number(chainId),
+    address,
+    deployBlock,
+    transactionHash: receipt.hash,
+    deployer: receipt.from,
+    compilerVersion: isCurrentBuild ? buildInfo!.solcLongVersion : 'unknown',
+    abiHash: getAbiHash(artifact.abi),
+    deployedBytecodeHash,
+    deployedAt: new Date(block!.timestamp * 1000).toISOString(),
+    abi: artifact.abi,
+  });
+
+  console.log('\n📋 Adopted Deployment:');
+  console.log('  Network:', network.name);
+  console.log('  Chain ID:', Number(chainId));
+  console.log('  Deploy block:', deployBlock);
+  console.log('  Deploy transaction:', receipt.hash);
+  console.log('  Deployer:', receipt.from);
+  console.log('\n💾 Deployment manifest written to', manifestPath);
+
+  return address;
+}
+
+function writeManifest(manifestPath: string, manifest: DeploymentManifest): void {
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  fs.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+}
 
 async function main() {
-  console.log('🚀 Deploying TodoRegistry contract...\n');
+  const manifestPath = path.join(getDeploymentsDir(), `${network.name}.json`);
+
+  if (ADOPT_ADDRESS) {
+    return adopt(manifestPath);
+  }
+
+  console.log(`🚀 Deploying ${CONTRACT_NAME} contract...\n`);
+
+  // A v2 registry points at the v1 registry it replaces
+  const isSuccessor = CONTRACT_NAME !== PREDECESSOR_CONTRACT;
+  const predecessor = isSuccessor ? await findPredecessor(manifestPath) : undefined;
+
+  if (predecessor) {
+    console.log('🔗 Replacing', PREDECESSOR_CONTRACT, 'at', predecessor.address);
+  }
 
   // Get the contract factory
-  const TodoRegistry = await ethers.getContractFactory('TodoRegistry');
+  const TodoRegistry = await ethers.getContractFactory(CONTRACT_NAME);
 
   // Deploy the contract
   console.log('📝 Deploying contract...');
-  const todoRegistry = await TodoRegistry.deploy();
+  const todoRegistry = isSuccessor
+    ? await TodoRegistry.deploy(predecessor?.address ?? ethers.ZeroAddress)
+    : await TodoRegistry.deploy();
 
   // Wait for deployment to complete
   await todoRegistry.waitForDeployment();
 
   const address = await todoRegistry.getAddress();
+  const receipt = await todoRegistry.deploymentTransaction()!.wait();
+  const { chainId } = await ethers.provider.getNetwork();
 
-  console.log('✅ TodoRegistry deployed successfully!');
+  console.log(`✅ ${CONTRACT_NAME} deployed successfully!`);
   console.log('📍 Contract address:', address);
-  console.log('\n📋 Deployment Summary:');
-  console.log('  Network:', (await ethers.provider.getNetwork()).name);
-  console.log('  Chain ID:', (await ethers.provider.getNetwork()).chainId);
-  console.log('  Deployer:', (await ethers.getSigners())[0].address);
 
-  // Save deployment info
-  console.log('\n💡 Add this to your .env file:');
-  console.log(`BLOCKCHAIN_CONTRACT_ADDRESS=${address}`);
+  // Write the deployment manifest the app reads its contract from
+  const artifact = await artifacts.readArtifact(CONTRACT_NAME);
+  const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${CONTRACT_NAME}`);
+
+  const manifest: DeploymentManifest = {
+    contract: CONTRACT_NAME,
+    network: network.name,
+    chainId: Number(chainId),
+    address,
+    deployBlock: receipt!.blockNumber,
+    transactionHash: receipt!.hash,
+    deployer: receipt!.from,
+    compilerVersion: buildInfo!.solcLongVersion,
+    abiHash: getAbiHash(artifact.abi),
+    deployedBytecodeHash: ethers.keccak256(artifact.deployedBytecode),
+    deployedAt: new Date().toISOString(),
+    abi: artifact.abi,
+    ...(predecessor && { predecessor }),
+  };
+
+  writeManifest(manifestPath, manifest);
+
+  console.log('\n📋 Deployment Summary:');
+  console.log('  Network:', network.name);
+  console.log('  Chain ID:', manifest.chainId);
+  console.log('  Deploy block:', manifest.deployBlock);
+  console.log('  Deployer:', manifest.deployer);
+  console.log('  Compiler:', manifest.compilerVersion);
+  if (predecessor) {
+    console.log('  Predecessor:', predecessor.address);
+    console.log(
+      `\n➡️  Copy the predecessor's records with: ` +
+        `npx hardhat run blockchain/scripts/migrate-v2.ts --network ${network.name}`
+    );
+  }
+  console.log('\n💾 Deployment manifest written to', manifestPath);
 
   return address;
 }
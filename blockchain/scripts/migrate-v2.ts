@@ -0,0 +1,75 @@
+import { ethers, network } from 'hardhat';
+import { getDeployment } from '../../src/config/deployments';
+import { RegistryMigrator } from '../../src/services/registry-migration.service';
+
+// MIGRATION_FINALIZE=true closes the new registry to imports once the copy verifies
+const FINALIZE = process.env.MIGRATION_FINALIZE === 'true';
+const CHUNK_SIZE = Number(process.env.MIGRATION_CHUNK_SIZE) || 50;
+
+async function main() {
+  console.log('🚚 Migrating TodoRegistry records to TodoRegistryV2...\n');
+
+  // Stop the API and workers first, so nothing is written to the old registry meanwhile
+  const deployment = getDeployment(network.name);
+
+  if (!deployment.predecessor) {
+    throw new Error(`The ${network.name} deployment (${deployment.address}) has no predecessor`);
+  }
+
+  const [migrator] = await ethers.getSigners();
+  const registryMigrator = new RegistryMigrator(
+    deployment.predecessor.address,
+    deployment.address,
+    migrator,
+    deployment.predecessor.deployBlock
+  );
+
+  console.log('📜 Replaying', deployment.predecessor.address, 'event log...');
+  const plan = await registryMigrator.plan();
+
+  console.log('  Todos to copy:', plan.todos.length);
+  console.log('  Batches to copy:', plan.batches.length);
+  console.log(
+    `  Already migrated: ${plan.alreadyMigrated.todos} todos, ${plan.alreadyMigrated.batches} batches`
+  );
+
+  if (plan.unresolvedTodoIdHashes.length > 0) {
+    console.log('⚠️  Todo IDs not recoverable from calldata:', plan.unresolvedTodoIdHashes);
+  }
+  if (plan.unreservedBatchIds.length > 0) {
+    console.log(
+      '⚠️  Batches anchored after the upgrade (stay on the old registry):',
+      plan.unreservedBatchIds
+    );
+  }
+
+  const txHashes = await registryMigrator.migrate(plan, CHUNK_SIZE);
+  console.log(`\n📝 Sent ${txHashes.length} migration transaction(s)`);
+
+  const mismatches = await registryMigrator.verify(plan);
+
+  if (mismatches.length > 0) {
+    mismatches.forEach((mismatch) => console.log('  ❌', mismatch));
+    throw new Error(`${mismatches.length} record(s) did not migrate correctly`);
+  }
+  console.log('✅ Every copied record matches the old registry');
+
+  if (FINALIZE) {
+    if (plan.unresolvedTodoIdHashes.length > 0 || plan.unreservedBatchIds.length > 0) {
+      throw new Error('Not finalizing: some records could not be migrated (see warnings above)');
+    }
+
+    const txHash = await registryMigrator.finalize();
+    console.log('🔒 Migration finalized in', txHash);
+  }
+}
+
+main()
+  .then(() => {
+    console.log('\n✨ Migration complete!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,131 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { artifacts, ethers, network } from 'hardhat';
+import { TodoRegistryV2 } from '../typechain-types';
+import { config } from '../../src/config';
+import { getAbiHash } from '../../src/config/deployments';
+import { getNetworkConfig } from '../../src/config/networks';
+import { BlockchainService } from '../../src/services/blockchain.service';
+
+// Default Hardhat account #0, which deploys the registry
+const HARDHAT_ACCOUNT_0_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+interface JsonRpcRequest {
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+describe('BlockchainService', function () {
+  const todoId = '507f1f77bcf86cd799439011';
+  const todoHash = ethers.keccak256(ethers.toUtf8Bytes('todo content'));
+  const privateKey = config.blockchain.privateKey;
+  const deploymentsDir = process.env.BLOCKCHAIN_DEPLOYMENTS_DIR;
+
+  let server: http.Server | undefined;
+  let manifestDir: string;
+  let registry: TodoRegistryV2;
+
+  const handleRequest = async ({ id, method, params }: JsonRpcRequest) => {
+    try {
+      return { jsonrpc: '2.0', id, result: await network.provider.send(method, params) };
+    } catch (error) {
+      // Keep the revert data, which the service matches revert reasons on
+      const { code, message, data } = error as { code?: number; message: string; data?: unknown };
+      return { jsonrpc: '2.0', id, error: { code: code ?? -32000, message, data } };
+    }
+  };
+
+  // The service talks JSON-RPC to the hardhat network's rpcUrl; under `hardhat test` no
+  // node listens there, so the in-process network is served on it (ethers batches requests)
+  const serveNetwork = async (rpcUrl: string): Promise<http.Server> => {
+    const rpcServer = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', async () => {
+        const payload: JsonRpcRequest | JsonRpcRequest[] = JSON.parse(body);
+        res.end(
+          JSON.stringify(
+            Array.isArray(payload)
+              ? await Promise.all(payload.map(handleRequest))
+              : await handleRequest(payload)
+          )
+        );
+      });
+    });
+
+    const { hostname, port } = new URL(rpcUrl);
+    await new Promise<void>((resolve) => rpcServer.listen(Number(port), hostname, resolve));
+    return rpcServer;
+  };
+
+  before(async function () {
+    if (network.name === 'hardhat') {
+      server = await serveNetwork(getNetworkConfig('hardhat').rpcUrl);
+    }
+
+    config.blockchain.privateKey = HARDHAT_ACCOUNT_0_KEY;
+
+    const factory = await ethers.getContractFactory('TodoRegistryV2');
+    registry = await factory.deploy(ethers.ZeroAddress);
+    const receipt = await registry.deploymentTransaction()!.wait();
+
+    // The manifest the deploy script would write, in a directory of its own
+    const artifact = await artifacts.readArtifact('TodoRegistryV2');
+    manifestDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deployments-'));
+    process.env.BLOCKCHAIN_DEPLOYMENTS_DIR = manifestDir;
+
+    fs.writeFileSync(
+      path.join(manifestDir, 'localhost.json'),
+      JSON.stringify({
+        contract: 'TodoRegistryV2',
+        network: 'localhost',
+        chainId: Number((await ethers.provider.getNetwork()).chainId),
+        address: await registry.getAddress(),
+        deployBlock: receipt!.blockNumber,
+        transactionHash: receipt!.hash,
+        deployer: receipt!.from,
+        compilerVersion: 'test',
+        abiHash: getAbiHash(artifact.abi),
+        deployedBytecodeHash: ethers.keccak256(artifact.deployedBytecode),
+        deployedAt: new Date().toISOString(),
+        abi: artifact.abi,
+      })
+    );
+  });
+
+  after(async function () {
+    config.blockchain.privateKey = privateKey;
+    process.env.BLOCKCHAIN_DEPLOYMENTS_DIR = deploymentsDir;
+    fs.rmSync(manifestDir, { recursive: true, force: true });
+
+    if (server) {
+      await new Promise((resolve) => server!.close(resolve));
+    }
+  });
+
+  it('Should anchor a todo and read it back from the registry', async function () {
+    const blockchainService = new BlockchainService('hardhat');
+
+    const result = await blockchainService.createTodo(todoId, todoHash, 2);
+    expect(result.contractAddress).to.equal(await registry.getAddress());
+    expect(result.gasUsed).to.be.greaterThan(0);
+    expect(result.replayed).to.be.undefined;
+
+    const record = await blockchainService.getTodo(todoId);
+    expect(record.todoHash).to.equal(todoHash);
+    expect(record.owner).to.equal(blockchainService.getWalletAddress());
+    expect(record.isDeleted).to.be.false;
+
+    expect(await blockchainService.verifyTodo(todoId, todoHash)).to.be.true;
+    expect((await registry.getTodoRecord(todoId)).schemaVersion).to.equal(2n);
+
+    // A retry of the same create (e.g. by the sync job) points at the original transaction
+    const replay = await blockchainService.createTodo(todoId, todoHash, 2);
+    expect(replay.replayed).to.be.true;
+    expect(replay.txHash).to.equal(result.txHash);
+  });
+});
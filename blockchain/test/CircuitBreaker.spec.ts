@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import { CircuitBreaker, CircuitOpenError } from '../../src/services/circuit-breaker.service';
+
+describe('CircuitBreaker', function () {
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+  const fail = async () => {
+    throw new Error('connect ECONNREFUSED 127.0.0.1:8545');
+  };
+
+  let nodeUp: boolean;
+  let probes: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(function () {
+    nodeUp = false;
+    probes = 0;
+    breaker = new CircuitBreaker(
+      'localhost',
+      async () => {
+        probes++;
+        if (!nodeUp) {
+          await fail();
+        }
+      },
+      { failureThreshold: 3, probeIntervalMs: 50 }
+    );
+  });
+
+  it('Should open after consecutive failures and reject requests without sending them', async function () {
+    for (let i = 0; i < 3; i++) {
+      await breaker.execute(fail).catch(() => undefined);
+    }
+
+    expect(breaker.isOpen()).to.be.true;
+    expect(breaker.getState().consecutiveFailures).to.equal(3);
+
+    let sent = false;
+    const error = await breaker
+      .execute(async () => {
+        sent = true;
+      })
+      .catch((e) => e);
+
+    expect(sent).to.be.false;
+    expect(error).to.be.instanceOf(CircuitOpenError);
+    expect(error.retryAt).to.deep.equal(breaker.getState().nextProbeAt);
+  });
+
+  it('Should reset the failure count on success', async function () {
+    await breaker.execute(fail).catch(() => undefined);
+    await breaker.execute(fail).catch(() => undefined);
+    await breaker.execute(async () => 'ok');
+    await breaker.execute(fail).catch(() => undefined);
+
+    expect(breaker.isOpen()).to.be.false;
+    expect(breaker.getState().consecutiveFailures).to.equal(1);
+  });
+
+  it('Should keep probing while the node is down and close once it recovers', async function () {
+    for (let i = 0; i < 3; i++) {
+      await breaker.execute(fail).catch(() => undefined);
+    }
+
+    await sleep(180);
+    expect(probes).to.be.at.least(2);
+    expect(breaker.isOpen()).to.be.true;
+
+    nodeUp = true;
+    await sleep(100);
+
+    expect(breaker.isOpen()).to.be.false;
+    expect(breaker.getState()).to.include({ state: 'closed', consecutiveFailures: 0 });
+    expect(await breaker.execute(async () => 'ok')).to.equal('ok');
+  });
+});
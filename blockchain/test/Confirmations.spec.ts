@@ -0,0 +1,100 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { TodoRegistry } from '../typechain-types';
+import { checkConfirmation } from '../../src/services/confirmation.service';
+
+describe('Confirmation tracking', function () {
+  let todoRegistry: TodoRegistry;
+
+  const todoId = '507f1f77bcf86cd799439011';
+  const todoHash = ethers.keccak256(ethers.toUtf8Bytes('todo content 1'));
+  const updatedHash = ethers.keccak256(ethers.toUtf8Bytes('updated todo content'));
+  const requiredConfirmations = 3;
+
+  const mineBlocks = (count: number) =>
+    network.provider.send('hardhat_mine', [ethers.toQuantity(count)]);
+
+  beforeEach(async function () {
+    const TodoRegistryFactory = await ethers.getContractFactory('TodoRegistry');
+    todoRegistry = await TodoRegistryFactory.deploy();
+    await todoRegistry.waitForDeployment();
+  });
+
+  it('Should report confirming until the required depth is reached', async function () {
+    const tx = await todoRegistry.createTodo(todoId, todoHash);
+    const receipt = await tx.wait();
+
+    let status = await checkConfirmation(ethers.provider, tx.hash, requiredConfirmations);
+    expect(status.state).to.equal('confirming');
+    expect(status.confirmations).to.equal(1);
+    expect(status.blockNumber).to.equal(receipt!.blockNumber);
+
+    await mineBlocks(requiredConfirmations - 1);
+
+    status = await checkConfirmation(ethers.provider, tx.hash, requiredConfirmations);
+    expect(status.state).to.equal('confirmed');
+    expect(status.confirmations).to.equal(requiredConfirmations);
+  });
+
+  it('Should report a transaction dropped by a reorg', async function () {
+    const snapshot = await network.provider.send('evm_snapshot');
+
+    const tx = await todoRegistry.createTodo(todoId, todoHash);
+    await tx.wait();
+    expect((await checkConfirmation(ethers.provider, tx.hash, requiredConfirmations)).state).to.equal(
+      'confirming'
+    );
+
+    // Reorg: the block holding the tx disappears and the chain grows past it
+    await network.provider.send('evm_revert', [snapshot]);
+    await mineBlocks(requiredConfirmations);
+
+    const status = await checkConfirmation(ethers.provider, tx.hash, requiredConfirmations);
+    expect(status.state).to.equal('dropped');
+    expect(status.confirmations).to.equal(0);
+    expect(await todoRegistry.todoExistsByID(todoId)).to.be.false;
+  });
+
+  it('Should report a transaction that is known but not mined as pending', async function () {
+    await network.provider.send('evm_setAutomine', [false]);
+
+    try {
+      const tx = await todoRegistry.createTodo(todoId, todoHash);
+
+      const status = await checkConfirmation(ethers.provider, tx.hash, requiredConfirmations);
+      expect(status.state).to.equal('pending');
+    } finally {
+      await network.provider.send('evm_setAutomine', [true]);
+    }
+  });
+
+  it('Should report a transaction re-mined into a reverting state after a reorg', async function () {
+    const [, other] = await ethers.getSigners();
+    const snapshot = await network.provider.send('evm_snapshot');
+
+    // Our update lands on the original branch
+    await todoRegistry.createTodo(todoId, todoHash);
+    const update = await todoRegistry.updateTodo(todoId, updatedHash);
+    await update.wait();
+    const signedUpdate = ethers.Transaction.from(update).serialized;
+
+    // The competing branch has the todo created by someone else, then includes our update
+    await network.provider.send('evm_revert', [snapshot]);
+    await todoRegistry.connect(other).createTodo(todoId, todoHash);
+    await network.provider.send('hardhat_setNonce', [
+      update.from,
+      ethers.toQuantity(update.nonce),
+    ]);
+    await network.provider.send('evm_setAutomine', [false]);
+
+    try {
+      await ethers.provider.broadcastTransaction(signedUpdate);
+      await mineBlocks(1);
+    } finally {
+      await network.provider.send('evm_setAutomine', [true]);
+    }
+
+    const status = await checkConfirmation(ethers.provider, update.hash, 1);
+    expect(status.state).to.equal('reverted');
+  });
+});
@@ -0,0 +1,196 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { TodoRegistryV2 } from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { MemoryAnchorBackend } from '../../src/services/memory-anchor-backend.service';
+import { MerkleService } from '../../src/services/merkle.service';
+
+describe('MemoryAnchorBackend', function () {
+  let user1: SignerWithAddress;
+  let backend: MemoryAnchorBackend;
+
+  const todoId1 = '507f1f77bcf86cd799439011';
+  const todoId2 = '507f1f77bcf86cd799439012';
+  const todoHash1 = ethers.keccak256(ethers.toUtf8Bytes('todo content 1'));
+  const todoHash2 = ethers.keccak256(ethers.toUtf8Bytes('todo content 2'));
+  const updatedHash = ethers.keccak256(ethers.toUtf8Bytes('updated todo content'));
+
+  // Error message of a call (naming its revert reason), or undefined if it succeeded
+  const revertMessage = async (call: () => Promise<unknown>): Promise<string | undefined> => {
+    try {
+      await call();
+      return undefined;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  };
+
+  // user1 signs the backend's approval (or revocation) request
+  const approve = async (approved: boolean, deadline = Math.floor(Date.now() / 1000) + 3600) => {
+    const request = await backend.getOperatorApprovalRequest(user1.address, approved, deadline);
+    const signature = await user1.signTypedData(request.domain, request.types, request.message);
+    return { deadline, signature };
+  };
+
+  beforeEach(async function () {
+    [, user1] = await ethers.getSigners();
+    backend = new MemoryAnchorBackend('localhost');
+  });
+
+  it('Should record writes and emit the registry events', async function () {
+    const created = await backend.createTodo(todoId1, todoHash1, 2);
+    await backend.updateTodo(todoId1, updatedHash, 2);
+    await backend.deleteTodo(todoId1);
+    const restored = await backend.restoreTodo(todoId1);
+
+    expect(restored.blockNumber).to.equal(created.blockNumber + 3);
+    expect(created.contractAddress).to.equal(backend.getAnchorTarget().contractAddress);
+
+    const record = await backend.getTodo(todoId1);
+    expect(record.todoHash).to.equal(updatedHash);
+    expect(record.owner).to.equal(backend.getWalletAddress());
+    expect(record.isDeleted).to.be.false;
+    expect(await backend.verifyTodo(todoId1, updatedHash)).to.be.true;
+    expect(await backend.verifyTodo(todoId1, todoHash1)).to.be.false;
+
+    const events = await backend.getTodoEvents(todoId1);
+    expect(events.map((event) => event.event)).to.deep.equal([
+      'TodoCreated',
+      'TodoUpdated',
+      'TodoDeleted',
+      'TodoRestored',
+    ]);
+    expect(events[0].transactionHash).to.equal(created.txHash);
+    expect(events[1].oldHash).to.equal(todoHash1);
+    expect(events[1].todoHash).to.equal(updatedHash);
+  });
+
+  it('Should revert with the same reasons as TodoRegistryV2', async function () {
+    const factory = await ethers.getContractFactory('TodoRegistryV2');
+    const registry: TodoRegistryV2 = await factory.deploy(ethers.ZeroAddress);
+    await registry.waitForDeployment();
+
+    await registry.createTodo(todoId1, todoHash1, 2);
+    await backend.createTodo(todoId1, todoHash1, 2);
+    await registry.createTodo(todoId2, todoHash2, 2);
+    await backend.createTodo(todoId2, todoHash2, 2);
+    await registry.deleteTodo(todoId2);
+    await backend.deleteTodo(todoId2);
+
+    const cases: [string, () => Promise<unknown>, () => Promise<unknown>][] = [
+      [
+        'Todo does not exist',
+        () => registry.updateTodo('missing', updatedHash, 2),
+        () => backend.updateTodo('missing', updatedHash, 2),
+      ],
+      [
+        'Todo hash cannot be empty',
+        () => registry.createTodo('new', ethers.ZeroHash, 2),
+        () => backend.createTodo('new', ethers.ZeroHash, 2),
+      ],
+      [
+        'Todo already exists',
+        () => registry.createTodo(todoId1, updatedHash, 2),
+        () => backend.createTodo(todoId1, updatedHash, 2),
+      ],
+      [
+        'Todo is not deleted',
+        () => registry.restoreTodo(todoId1),
+        () => backend.restoreTodo(todoId1),
+      ],
+      [
+        'Cannot update deleted todo',
+        () => registry.updateTodo(todoId2, updatedHash, 2),
+        () => backend.updateTodo(todoId2, updatedHash, 2),
+      ],
+      [
+        'Batch root cannot be empty',
+        () => registry.anchorBatch(ethers.ZeroHash, 1),
+        () => backend.anchorBatch(ethers.ZeroHash, 1),
+      ],
+      ['Batch does not exist', () => registry.getBatch(1), () => backend.getBatch(1)],
+    ];
+
+    for (const [reason, onContract, onBackend] of cases) {
+      expect(await revertMessage(onContract)).to.include(reason);
+      expect(await revertMessage(onBackend)).to.include(reason);
+    }
+  });
+
+  it('Should answer replayed operations with the original transaction', async function () {
+    const created = await backend.createTodo(todoId1, todoHash1, 2);
+    const deleted = await backend.deleteTodo(todoId1);
+
+    const replayedCreate = await backend.createTodo(todoId1, todoHash1, 2);
+    expect(replayedCreate.replayed).to.be.true;
+    expect(replayedCreate.txHash).to.equal(created.txHash);
+
+    const replayedDelete = await backend.deleteTodo(todoId1);
+    expect(replayedDelete.replayed).to.be.true;
+    expect(replayedDelete.txHash).to.equal(deleted.txHash);
+
+    expect(await backend.getTodoEvents(todoId1)).to.have.length(2);
+  });
+
+  it('Should create todos for wallets that approved it, and stop writing them once revoked', async function () {
+    // Not approved yet: anchored under the backend's own wallet
+    await backend.createTodo(todoId1, todoHash1, 2, user1.address);
+    expect((await backend.getTodo(todoId1)).owner).to.equal(backend.getWalletAddress());
+
+    const approval = await approve(true);
+    await backend.setOperatorApprovalBySig(user1.address, true, approval.deadline, approval.signature);
+    expect(await backend.isApprovedOperator(user1.address)).to.be.true;
+
+    expect(
+      await revertMessage(() =>
+        backend.setOperatorApprovalBySig(user1.address, true, approval.deadline, approval.signature)
+      )
+    ).to.include('Invalid signature');
+
+    await backend.createTodo(todoId2, todoHash2, 2, user1.address);
+    expect((await backend.getTodo(todoId2)).owner).to.equal(user1.address);
+    await backend.updateTodo(todoId2, updatedHash, 2);
+
+    const revocation = await approve(false);
+    await backend.setOperatorApprovalBySig(user1.address, false, revocation.deadline, revocation.signature);
+
+    expect(await revertMessage(() => backend.deleteTodo(todoId2))).to.include(
+      'Not authorized: caller is not the todo owner or operator'
+    );
+  });
+
+  it('Should reject expired approvals', async function () {
+    const expired = await approve(true, 1);
+
+    expect(
+      await revertMessage(() =>
+        backend.setOperatorApprovalBySig(user1.address, true, expired.deadline, expired.signature)
+      )
+    ).to.include('Signature expired');
+  });
+
+  it('Should verify batch inclusion against the anchored root', async function () {
+    const merkleService = new MerkleService();
+    const leaves = [todoHash1, todoHash2].map((hash, i) =>
+      merkleService.computeLeaf(`todo-${i}`, hash, false)
+    );
+    const tree = merkleService.buildTree(leaves);
+
+    const { batchId } = await backend.anchorBatch(tree.root, leaves.length);
+
+    expect(batchId).to.equal(1);
+    expect((await backend.getBatch(batchId)).count).to.equal(2);
+    expect(await backend.verifyBatchInclusion(batchId, leaves[1], tree.proofs[1])).to.be.true;
+    expect(await backend.verifyBatchInclusion(batchId, leaves[1], tree.proofs[0])).to.be.false;
+  });
+
+  it('Should report its writes as confirmed and unknown transactions as dropped', async function () {
+    const { txHash, blockNumber } = await backend.createTodo(todoId1, todoHash1, 2);
+
+    const status = await backend.checkConfirmation(txHash);
+    expect(status.state).to.equal('confirmed');
+    expect(status.blockNumber).to.equal(blockNumber);
+
+    expect((await backend.checkConfirmation(ethers.ZeroHash)).state).to.equal('dropped');
+  });
+});
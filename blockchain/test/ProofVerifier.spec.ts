@@ -0,0 +1,291 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { Wallet } from 'ethers';
+import { TodoRegistry } from '../typechain-types';
+import { HashService } from '../../src/services/hash.service';
+import { MerkleService } from '../../src/services/merkle.service';
+import {
+  getProofSigningPayload,
+  PROOF_BUNDLE_FORMAT,
+  ProofBundle,
+  ProofVerifier,
+  toProofTodoData,
+  UnsignedProofBundle,
+} from '../../src/services/proof-verifier.service';
+import { AnchorMode, HashAlgorithm, HashVersion } from '../../src/types/enums';
+
+// Default Hardhat accounts #0 and #1
+const HARDHAT_ACCOUNT_0_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const HARDHAT_ACCOUNT_1_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+describe('ProofVerifier', function () {
+  let todoRegistry: TodoRegistry;
+  let owner: Wallet;
+  let verifier: ProofVerifier;
+  let chainId: number;
+
+  const hashService = new HashService();
+  const merkleService = new MerkleService();
+
+  const todoId = '507f1f77bcf86cd799439011';
+  const todo = {
+    userId: '507f191e810c19729de860ea',
+    title: 'Ship the proof bundle',
+    description: 'Portable | verifiable',
+    isCompleted: false,
+    completedAt: null,
+    priority: 'high',
+    dueDate: new Date('2026-01-01T00:00:00.000Z'),
+    createdAt: new Date('2025-06-01T12:00:00.000Z'),
+  };
+  const scheme = {
+    version: HashVersion.V2,
+    algorithm: HashAlgorithm.KECCAK256,
+    salt: ethers.hexlify(ethers.randomBytes(32)),
+  };
+  const todoHash = hashService.generateTodoHash(todo, scheme);
+
+  const signBundle = async (
+    unsigned: UnsignedProofBundle,
+    signer: Wallet = owner
+  ): Promise<ProofBundle> => ({
+    ...unsigned,
+    signature: await signer.signMessage(getProofSigningPayload(unsigned)),
+  });
+
+  const unsignedBundle = async (
+    anchor: UnsignedProofBundle['anchor']
+  ): Promise<UnsignedProofBundle> => ({
+    format: PROOF_BUNDLE_FORMAT,
+    todoId,
+    todo: toProofTodoData(todo),
+    isDeleted: false,
+    hashScheme: scheme,
+    todoHash,
+    anchor,
+    issuedAt: new Date().toISOString(),
+    signer: owner.address,
+  });
+
+  const anchorPerTodo = async (): Promise<UnsignedProofBundle> => {
+    const tx = await todoRegistry.createTodo(todoId, todoHash);
+    const receipt = await tx.wait();
+
+    return unsignedBundle({
+      mode: AnchorMode.PER_TODO,
+      chainId,
+      contractAddress: await todoRegistry.getAddress(),
+      transactionHash: tx.hash,
+      blockNumber: receipt!.blockNumber,
+    });
+  };
+
+  beforeEach(async function () {
+    owner = new Wallet(HARDHAT_ACCOUNT_0_KEY, ethers.provider);
+
+    const TodoRegistryFactory = await ethers.getContractFactory('TodoRegistry', owner);
+    todoRegistry = await TodoRegistryFactory.deploy();
+    await todoRegistry.waitForDeployment();
+
+    verifier = new ProofVerifier(ethers.provider);
+    chainId = Number((await ethers.provider.getNetwork()).chainId);
+  });
+
+  it('Should accept a per-todo anchored bundle', async function () {
+    const bundle = await signBundle(await anchorPerTodo());
+
+    const result = await verifier.verify(bundle);
+
+    expect(result.isValid).to.be.true;
+    expect(result.currentOnChain).to.be.true;
+    expect(result.confirmations).to.equal(1);
+    expect(result.chain.owner).to.equal(owner.address);
+    expect(result.checks.signerTrusted).to.be.null;
+
+    const trusted = await verifier.verify(bundle, owner.address);
+    expect(trusted.checks.signerTrusted).to.be.true;
+    expect(trusted.isValid).to.be.true;
+  });
+
+  it('Should still accept a superseded hash but report it is not current', async function () {
+    const bundle = await signBundle(await anchorPerTodo());
+    await (await todoRegistry.updateTodo(todoId, ethers.id('newer content'))).wait();
+
+    const result = await verifier.verify(bundle);
+
+    expect(result.isValid).to.be.true;
+    expect(result.currentOnChain).to.be.false;
+  });
+
+  it('Should reject a bundle whose todo data was edited', async function () {
+    const unsigned = await anchorPerTodo();
+    const edited = await signBundle({
+      ...unsigned,
+      todo: { ...unsigned.todo, isCompleted: true },
+    });
+
+    const result = await verifier.verify(edited);
+
+    expect(result.isValid).to.be.false;
+    expect(result.checks.hashMatchesData).to.be.false;
+  });
+
+  it('Should reject a bundle with a forged or tampered signature', async function () {
+    const unsigned = await anchorPerTodo();
+    const stranger = new Wallet(HARDHAT_ACCOUNT_1_KEY);
+
+    const forged = await signBundle({ ...unsigned, signer: stranger.address }, stranger);
+    const forgedResult = await verifier.verify(forged);
+    expect(forgedResult.checks.signatureValid).to.be.true;
+    expect(forgedResult.checks.signerIsAnchorOwner).to.be.false;
+    expect(forgedResult.isValid).to.be.false;
+
+    const tampered = { ...(await signBundle(unsigned)), isDeleted: true };
+    const tamperedResult = await verifier.verify(tampered);
+    expect(tamperedResult.checks.signatureValid).to.be.false;
+    expect(tamperedResult.isValid).to.be.false;
+  });
+
+  it('Should not trust a bundle a stranger anchored and signed themselves', async function () {
+    const stranger = new Wallet(HARDHAT_ACCOUNT_1_KEY, ethers.provider);
+    const registry = todoRegistry.connect(stranger);
+    const contractAddress = await todoRegistry.getAddress();
+
+    const tx = await registry.createTodo(todoId, todoHash);
+    const receipt = await tx.wait();
+    const perTodo = await signBundle(
+      {
+        ...(await unsignedBundle({
+          mode: AnchorMode.PER_TODO,
+          chainId,
+          contractAddress,
+          transactionHash: tx.hash,
+          blockNumber: receipt!.blockNumber,
+        })),
+        signer: stranger.address,
+      },
+      stranger
+    );
+
+    const tree = merkleService.buildTree([merkleService.computeLeaf(todoId, todoHash, false)]);
+    const batchTx = await registry.anchorBatch(tree.root, 1);
+    const batchReceipt = await batchTx.wait();
+    const batch = await signBundle(
+      {
+        ...(await unsignedBundle({
+          mode: AnchorMode.BATCH,
+          chainId,
+          contractAddress,
+          transactionHash: batchTx.hash,
+          blockNumber: batchReceipt!.blockNumber,
+          batchId: 1,
+          merkleRoot: tree.root,
+          merkleProof: tree.proofs[0],
+        })),
+        signer: stranger.address,
+      },
+      stranger
+    );
+
+    for (const bundle of [perTodo, batch]) {
+      // Consistent on its own: the stranger anchored what they signed
+      expect((await verifier.verify(bundle)).isValid).to.be.true;
+
+      const result = await verifier.verify(bundle, owner.address);
+      expect(result.checks.signerIsAnchorOwner).to.be.true;
+      expect(result.checks.signerTrusted).to.be.false;
+      expect(result.isValid).to.be.false;
+    }
+  });
+
+  it('Should reject a bundle pointing at the wrong transaction', async function () {
+    const unsigned = await anchorPerTodo();
+    const other = await todoRegistry.createTodo('507f1f77bcf86cd799439012', ethers.id('other'));
+    const otherReceipt = await other.wait();
+
+    const bundle = await signBundle({
+      ...unsigned,
+      anchor: {
+        ...unsigned.anchor,
+        transactionHash: other.hash,
+        blockNumber: otherReceipt!.blockNumber,
+      },
+    });
+
+    const result = await verifier.verify(bundle);
+
+    // The hash is still the todo's current record, so it counts as anchored
+    expect(result.checks.anchoredOnChain).to.be.true;
+
+    await (await todoRegistry.updateTodo(todoId, ethers.id('newer content'))).wait();
+    expect((await verifier.verify(bundle)).checks.anchoredOnChain).to.be.false;
+  });
+
+  it('Should accept a batch anchored bundle and reject a foreign leaf', async function () {
+    const leaves = [
+      merkleService.computeLeaf(todoId, todoHash, false),
+      merkleService.computeLeaf('507f1f77bcf86cd799439012', ethers.id('other'), false),
+      merkleService.computeLeaf('507f1f77bcf86cd799439013', ethers.id('third'), true),
+    ];
+    const tree = merkleService.buildTree(leaves);
+
+    const tx = await todoRegistry.anchorBatch(tree.root, leaves.length);
+    const receipt = await tx.wait();
+
+    const unsigned = await unsignedBundle({
+      mode: AnchorMode.BATCH,
+      chainId,
+      contractAddress: await todoRegistry.getAddress(),
+      transactionHash: tx.hash,
+      blockNumber: receipt!.blockNumber,
+      batchId: 1,
+      merkleRoot: tree.root,
+      merkleProof: tree.proofs[0],
+    });
+
+    const result = await verifier.verify(await signBundle(unsigned));
+    expect(result.isValid).to.be.true;
+    expect(result.currentOnChain).to.be.null;
+
+    const deleted = await verifier.verify(await signBundle({ ...unsigned, isDeleted: true }));
+    expect(deleted.checks.anchoredOnChain).to.be.false;
+    expect(deleted.isValid).to.be.false;
+  });
+
+  it('Should accept a bundle for a todo owned by a wallet that approved the signer', async function () {
+    const user = new Wallet(HARDHAT_ACCOUNT_1_KEY, ethers.provider);
+    const TodoRegistryV2Factory = await ethers.getContractFactory('TodoRegistryV2', owner);
+    const registryV2 = await TodoRegistryV2Factory.deploy(ethers.ZeroAddress);
+    await registryV2.waitForDeployment();
+
+    await (await registryV2.connect(user).setOperatorApproval(owner.address, true)).wait();
+    const tx = await registryV2.createTodoFor(todoId, todoHash, HashVersion.V2, user.address);
+    const receipt = await tx.wait();
+
+    const bundle = await signBundle(
+      await unsignedBundle({
+        mode: AnchorMode.PER_TODO,
+        chainId,
+        contractAddress: await registryV2.getAddress(),
+        transactionHash: tx.hash,
+        blockNumber: receipt!.blockNumber,
+      })
+    );
+
+    const result = await verifier.verify(bundle);
+    expect(result.isValid).to.be.true;
+    expect(result.chain.owner).to.equal(user.address);
+
+    await (await registryV2.connect(user).setOperatorApproval(owner.address, false)).wait();
+
+    const revoked = await verifier.verify(bundle);
+    expect(revoked.checks.signerIsAnchorOwner).to.be.false;
+  });
+
+  it('Should refuse to verify against a different chain', async function () {
+    const unsigned = await anchorPerTodo();
+    const bundle = await signBundle({ ...unsigned, anchor: { ...unsigned.anchor, chainId: 1 } });
+
+    await expect(verifier.verify(bundle)).to.be.rejectedWith('but the proof is for chain 1');
+  });
+});
@@ -0,0 +1,161 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import mongoose from 'mongoose';
+import { TodoRegistryV2 } from '../typechain-types';
+import { ITodo, Todo } from '../../src/models/todo.model';
+import { HashService } from '../../src/services/hash.service';
+import { MerkleService } from '../../src/services/merkle.service';
+import {
+  RegistryHistory,
+  RegistryHistoryReader,
+  RecoveryService,
+} from '../../src/services/recovery.service';
+import { RecoveryStatus } from '../../src/types/enums';
+
+describe('RecoveryService', function () {
+  const hashService = new HashService();
+  const merkleService = new MerkleService();
+  const userId = new mongoose.Types.ObjectId();
+
+  let registry: TodoRegistryV2;
+  let reader: RegistryHistoryReader;
+  let anchoringWallet: string;
+
+  // A todo as it would sit in a backup, with the hash scheme it was anchored with
+  const backupTodo = (
+    title: string,
+    fields: Partial<ITodo> = {}
+  ): { todo: ITodo; hash: string } => {
+    const todo = new Todo({
+      userId,
+      title,
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      ...fields,
+    });
+    const { hash, version, algorithm, salt } = hashService.hashTodo(todo);
+    todo.set({ hashVersion: version, hashAlgorithm: algorithm, hashSalt: salt });
+    return { todo, hash };
+  };
+
+  // The same todo with some fields changed (keeping its ID and salt)
+  const copyOf = (todo: ITodo, fields: Partial<ITodo>): ITodo =>
+    new Todo({ ...todo.toObject(), ...fields });
+
+  const assess = (todos: ITodo[], history: RegistryHistory) =>
+    new RecoveryService('localhost')
+      .assess(todos, history, anchoringWallet)
+      .map(({ status, reason }) => ({ status, reason }));
+
+  beforeEach(async function () {
+    anchoringWallet = (await ethers.getSigners())[0].address;
+    const factory = await ethers.getContractFactory('TodoRegistryV2');
+    registry = await factory.deploy(ethers.ZeroAddress);
+    const deployment = await registry.deploymentTransaction()!.wait();
+
+    reader = new RegistryHistoryReader(ethers.provider, [
+      { address: await registry.getAddress(), deployBlock: deployment!.blockNumber },
+    ]);
+  });
+
+  it('Should mark records matching their current anchor as authentic and older copies as outdated', async function () {
+    const { todo, hash } = backupTodo('Original title');
+    await registry.createTodo(todo._id.toString(), hash, 2);
+
+    const edited = copyOf(todo, { title: 'Edited title' });
+    const editedHash = hashService.hashTodo(edited).hash;
+    await registry.updateTodo(todo._id.toString(), editedHash, 2);
+
+    const history = await reader.read();
+    const anchored = history.todos.get(ethers.id(todo._id.toString()))!;
+    expect(anchored.hashes).to.deep.equal([hash, editedHash]);
+
+    expect(assess([edited], history)).to.deep.equal([
+      { status: RecoveryStatus.AUTHENTIC, reason: undefined },
+    ]);
+    expect(assess([todo], history)[0].status).to.equal(RecoveryStatus.OUTDATED);
+
+    // Both copies in the backup: the authentic one is kept
+    const [kept] = new RecoveryService('localhost').assess(
+      [todo, edited],
+      history,
+      anchoringWallet
+    );
+    expect(kept.todo.title).to.equal('Edited title');
+  });
+
+  it('Should flag tampered data, deletion mismatches and anchors the chain never saw', async function () {
+    const { todo: tampered, hash: tamperedHash } = backupTodo('Pay rent');
+    await registry.createTodo(tampered._id.toString(), tamperedHash, 2);
+
+    const { todo: deleted, hash: deletedHash } = backupTodo('Deleted on chain');
+    await registry.createTodo(deleted._id.toString(), deletedHash, 2);
+    await registry.deleteTodo(deleted._id.toString());
+
+    const { todo: claimed } = backupTodo('Claims an anchor', { blockchainTxHash: ethers.ZeroHash });
+    const { todo: pending } = backupTodo('Never anchored');
+
+    const history = await reader.read();
+    const results = assess(
+      [copyOf(tampered, { title: 'Pay nobody' }), deleted, claimed, pending],
+      history
+    );
+
+    expect(results.map(({ status }) => status)).to.deep.equal([
+      RecoveryStatus.UNMATCHED,
+      RecoveryStatus.OUTDATED,
+      RecoveryStatus.UNMATCHED,
+      RecoveryStatus.UNANCHORED,
+    ]);
+    expect(results[1].reason).to.include('Deletion state differs');
+    expect(results[2].reason).to.include('anchor the chain does not have');
+  });
+
+  it('Should prove batch-anchored records against the anchored Merkle root', async function () {
+    const todos = ['First', 'Second', 'Third'].map((title) => backupTodo(title));
+    const tree = merkleService.buildTree(
+      todos.map(({ todo, hash }) => merkleService.computeLeaf(todo._id.toString(), hash, false))
+    );
+    await registry.anchorBatch(tree.root, todos.length);
+
+    todos.forEach(({ todo }, i) => todo.set({ merkleBatchId: 1, merkleProof: tree.proofs[i] }));
+
+    const history = await reader.read();
+    expect(history.batches.get(1)).to.deep.equal({
+      root: tree.root,
+      submitter: anchoringWallet,
+      migrated: false,
+    });
+
+    expect(assess([todos[1].todo], history)[0].status).to.equal(RecoveryStatus.AUTHENTIC);
+    expect(assess([copyOf(todos[1].todo, { isCompleted: true })], history)[0].status).to.equal(
+      RecoveryStatus.UNMATCHED
+    );
+  });
+
+  it('Should not trust a Merkle proof against a batch a stranger anchored', async function () {
+    const [, stranger] = await ethers.getSigners();
+    const { todo, hash } = backupTodo('Forged');
+    const tree = merkleService.buildTree([
+      merkleService.computeLeaf(todo._id.toString(), hash, false),
+    ]);
+    await registry.connect(stranger).anchorBatch(tree.root, 1);
+
+    todo.set({ merkleBatchId: 1, merkleProof: tree.proofs[0] });
+
+    const [result] = assess([todo], await reader.read());
+    expect(result.status).to.equal(RecoveryStatus.UNMATCHED);
+    expect(result.reason).to.include(stranger.address);
+  });
+
+  it('Should read the ID of an anchored todo missing from the backup from its create call', async function () {
+    const { todo, hash } = backupTodo('Only on chain');
+    await registry.createTodo(todo._id.toString(), hash, 2);
+
+    const history = await reader.read();
+    const anchored = history.todos.get(ethers.id(todo._id.toString()))!;
+
+    expect(await reader.findCreatedTodoId(anchored.createdTransactionHash)).to.equal(
+      todo._id.toString()
+    );
+  });
+});
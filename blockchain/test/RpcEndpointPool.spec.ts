@@ -0,0 +1,137 @@
+import { expect } from 'chai';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers, network } from 'hardhat';
+import { TodoRegistryV2 } from '../typechain-types';
+import { CircuitBreaker } from '../../src/services/circuit-breaker.service';
+import {
+  PooledJsonRpcProvider,
+  RpcEndpointPool,
+  RpcMode,
+} from '../../src/services/rpc-provider.service';
+
+describe('RpcEndpointPool', function () {
+  const todoId = '507f1f77bcf86cd799439011';
+  const todoHash = ethers.keccak256(ethers.toUtf8Bytes('todo content'));
+  const otherHash = ethers.keccak256(ethers.toUtf8Bytes('other content'));
+  const TRUE = ethers.AbiCoder.defaultAbiCoder().encode(['bool'], [true]);
+
+  let servers: http.Server[];
+  let registry: TodoRegistryV2;
+  let chainId: number;
+
+  // JSON-RPC endpoint in front of the Hardhat network; lie rewrites its eth_call answers
+  const startEndpoint = async (lie?: string): Promise<string> => {
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', async () => {
+        const { id, method, params } = JSON.parse(body);
+        try {
+          const result = await network.provider.send(method, params);
+          res.end(
+            JSON.stringify({
+              jsonrpc: '2.0',
+              id,
+              result: lie && method === 'eth_call' ? lie : result,
+            })
+          );
+        } catch (error) {
+          res.end(
+            JSON.stringify({
+              jsonrpc: '2.0',
+              id,
+              error: { code: -32000, message: (error as Error).message },
+            })
+          );
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    servers.push(server);
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  // An endpoint nothing listens on
+  const deadEndpoint = async (): Promise<string> => {
+    const url = await startEndpoint();
+    await new Promise((resolve) => servers.pop()!.close(resolve));
+    return url;
+  };
+
+  const poolOf = (urls: string[], quorum: number) =>
+    new RpcEndpointPool(
+      'test',
+      urls.map((url) => ({ url, weight: 1, timeout: 2000 })),
+      quorum
+    );
+
+  const readerOn = (pool: RpcEndpointPool, mode: RpcMode) =>
+    registry.connect(
+      new PooledJsonRpcProvider(
+        chainId,
+        pool,
+        mode,
+        new CircuitBreaker('test', async () => undefined)
+      )
+    );
+
+  beforeEach(async function () {
+    servers = [];
+    chainId = Number((await ethers.provider.getNetwork()).chainId);
+
+    const factory = await ethers.getContractFactory('TodoRegistryV2');
+    registry = await factory.deploy(ethers.ZeroAddress);
+    await registry.waitForDeployment();
+    await registry.createTodo(todoId, todoHash, 2);
+  });
+
+  afterEach(async function () {
+    await Promise.all(servers.map((server) => new Promise((resolve) => server.close(resolve))));
+  });
+
+  it('Should outvote a lying endpoint on quorum reads', async function () {
+    const pool = poolOf(
+      [await startEndpoint(TRUE), await startEndpoint(), await startEndpoint()],
+      2
+    );
+
+    // Failover trusts the first endpoint that answers
+    expect(await readerOn(pool, 'failover').verifyTodo(todoId, otherHash)).to.be.true;
+
+    expect(await readerOn(pool, 'quorum').verifyTodo(todoId, otherHash)).to.be.false;
+    expect(await readerOn(pool, 'quorum').verifyTodo(todoId, todoHash)).to.be.true;
+
+    const [liar, honest] = pool.getHealth().endpoints;
+    expect(liar.outvoted).to.equal(1);
+    expect(honest.outvoted).to.equal(0);
+  });
+
+  it('Should fail a read when endpoints disagree without a quorum', async function () {
+    const pool = poolOf([await startEndpoint(TRUE), await startEndpoint()], 2);
+
+    let error: Error | undefined;
+    try {
+      await readerOn(pool, 'quorum').verifyTodo(todoId, otherHash);
+    } catch (e) {
+      error = e as Error;
+    }
+
+    expect(error?.message).to.include('No RPC quorum on test');
+  });
+
+  it('Should fail over past a dead endpoint and prefer healthy ones once it scores low', async function () {
+    const pool = poolOf([await deadEndpoint(), await startEndpoint()], 1);
+    const reader = readerOn(pool, 'failover');
+
+    for (let i = 0; i < 5; i++) {
+      expect(await reader.verifyTodo(todoId, todoHash)).to.be.true;
+    }
+
+    const [dead, healthy] = pool.getHealth().endpoints;
+    expect(healthy.requests).to.equal(5);
+    expect(dead.failures).to.be.below(5);
+    expect(dead.score).to.be.below(0.5);
+  });
+});
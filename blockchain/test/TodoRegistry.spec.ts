@@ -2,6 +2,7 @@ import { expect } from 'chai';
 import { ethers } from 'hardhat';
 import { TodoRegistry } from '../typechain-types';
 import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { MerkleService } from '../../src/services/merkle.service';
 
 describe('TodoRegistry', function () {
   let todoRegistry: TodoRegistry;
@@ -228,6 +229,83 @@ describe('TodoRegistry', function () {
     });
   });
 
+  describe('Batch Anchoring', function () {
+    const merkle = new MerkleService();
+    const batchLeaves = [1, 2, 3, 4, 5].map((i) =>
+      merkle.computeLeaf(
+        `507f1f77bcf86cd7994390${i}0`,
+        ethers.keccak256(ethers.toUtf8Bytes(`todo content ${i}`)),
+        i === 3
+      )
+    );
+
+    it('Should anchor a batch and assign sequential ids', async function () {
+      const tree = merkle.buildTree(batchLeaves);
+
+      await expect(todoRegistry.connect(user1).anchorBatch(tree.root, batchLeaves.length))
+        .to.emit(todoRegistry, 'BatchAnchored')
+        .withArgs(1, tree.root, batchLeaves.length, user1.address, await ethers.provider.getBlock('latest').then(b => b!.timestamp + 1));
+
+      await todoRegistry.connect(user1).anchorBatch(todoHash1, 1);
+      expect(await todoRegistry.batchCount()).to.equal(2);
+
+      const [root, count, submitter, timestamp] = await todoRegistry.getBatch(1);
+      expect(root).to.equal(tree.root);
+      expect(count).to.equal(batchLeaves.length);
+      expect(submitter).to.equal(user1.address);
+      expect(timestamp).to.be.gt(0);
+    });
+
+    it('Should fail if batch root is empty', async function () {
+      await expect(todoRegistry.anchorBatch(ethers.ZeroHash, 1))
+        .to.be.revertedWith('Batch root cannot be empty');
+    });
+
+    it('Should fail if batch is empty', async function () {
+      await expect(todoRegistry.anchorBatch(todoHash1, 0))
+        .to.be.revertedWith('Batch cannot be empty');
+    });
+
+    it('Should fail if batch does not exist', async function () {
+      await expect(todoRegistry.getBatch(1))
+        .to.be.revertedWith('Batch does not exist');
+    });
+
+    it('Should verify inclusion of every leaf with off-chain proofs', async function () {
+      const tree = merkle.buildTree(batchLeaves);
+      await todoRegistry.anchorBatch(tree.root, batchLeaves.length);
+
+      for (let i = 0; i < batchLeaves.length; i++) {
+        expect(merkle.verifyProof(batchLeaves[i], tree.proofs[i], tree.root)).to.be.true;
+        expect(await todoRegistry.verifyBatchInclusion(1, batchLeaves[i], tree.proofs[i])).to.be.true;
+      }
+    });
+
+    it('Should reject tampered leaves', async function () {
+      const tree = merkle.buildTree(batchLeaves);
+      await todoRegistry.anchorBatch(tree.root, batchLeaves.length);
+
+      // Same todo, but not deleted (leaf 3 was anchored as deleted)
+      const flipped = merkle.computeLeaf(
+        '507f1f77bcf86cd799439030',
+        ethers.keccak256(ethers.toUtf8Bytes('todo content 3')),
+        false
+      );
+      expect(await todoRegistry.verifyBatchInclusion(1, flipped, tree.proofs[2])).to.be.false;
+
+      // Proof for a different leaf
+      expect(await todoRegistry.verifyBatchInclusion(1, batchLeaves[0], tree.proofs[1])).to.be.false;
+    });
+
+    it('Should verify a single-leaf batch with an empty proof', async function () {
+      const tree = merkle.buildTree([batchLeaves[0]]);
+      await todoRegistry.anchorBatch(tree.root, 1);
+
+      expect(tree.root).to.equal(batchLeaves[0]);
+      expect(await todoRegistry.verifyBatchInclusion(1, batchLeaves[0], [])).to.be.true;
+    });
+  });
+
   describe('Complex Scenarios', function () {
     it('Should handle complete lifecycle: create, update, delete, restore', async function () {
       // Create
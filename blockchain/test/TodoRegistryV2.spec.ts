@@ -0,0 +1,343 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { TodoRegistry, TodoRegistryV2 } from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { RegistryMigrator } from '../../src/services/registry-migration.service';
+
+describe('TodoRegistryV2', function () {
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+
+  const todoId1 = '507f1f77bcf86cd799439011';
+  const todoId2 = '507f1f77bcf86cd799439012';
+  const todoId3 = '507f1f77bcf86cd799439013';
+  const todoHash1 = ethers.keccak256(ethers.toUtf8Bytes('todo content 1'));
+  const todoHash2 = ethers.keccak256(ethers.toUtf8Bytes('todo content 2'));
+  const updatedHash = ethers.keccak256(ethers.toUtf8Bytes('updated todo content'));
+  const root1 = ethers.keccak256(ethers.toUtf8Bytes('batch root 1'));
+  const root2 = ethers.keccak256(ethers.toUtf8Bytes('batch root 2'));
+
+  const deployV2 = async (predecessor: string = ethers.ZeroAddress): Promise<TodoRegistryV2> => {
+    const factory = await ethers.getContractFactory('TodoRegistryV2');
+    const registry = await factory.deploy(predecessor);
+    await registry.waitForDeployment();
+    return registry;
+  };
+
+  beforeEach(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+  });
+
+  describe('Fresh deployment', function () {
+    let registry: TodoRegistryV2;
+
+    beforeEach(async function () {
+      registry = await deployV2();
+    });
+
+    it('Should start with no predecessor and migration closed', async function () {
+      expect(await registry.VERSION()).to.equal(2);
+      expect(await registry.predecessor()).to.equal(ethers.ZeroAddress);
+      expect(await registry.migrationFinalized()).to.be.true;
+      expect(await registry.batchCount()).to.equal(0);
+    });
+
+    it('Should record the schema version of created and updated todos', async function () {
+      await expect(registry.connect(user1).createTodo(todoId1, todoHash1, 2)).to.emit(
+        registry,
+        'TodoCreated'
+      );
+
+      let record = await registry.getTodoRecord(todoId1);
+      expect(record.todoHash).to.equal(todoHash1);
+      expect(record.owner).to.equal(user1.address);
+      expect(record.operator).to.equal(user1.address);
+      expect(record.schemaVersion).to.equal(2);
+
+      await registry.connect(user1).updateTodo(todoId1, updatedHash, 3);
+
+      record = await registry.getTodoRecord(todoId1);
+      expect(record.todoHash).to.equal(updatedHash);
+      expect(record.schemaVersion).to.equal(3);
+    });
+
+    it('Should keep the v1 getTodo shape', async function () {
+      await registry.connect(user1).createTodo(todoId1, todoHash1, 2);
+
+      const [hash, todoOwner, timestamp, isDeleted] = await registry.getTodo(todoId1);
+      expect(hash).to.equal(todoHash1);
+      expect(todoOwner).to.equal(user1.address);
+      expect(timestamp).to.be.gt(0);
+      expect(isDeleted).to.be.false;
+    });
+
+    it('Should reject migration calls', async function () {
+      await expect(registry.migrateTodos([todoId1], [todoHash1], [user1.address], [1], [false]))
+        .to.be.revertedWith('Migration is finalized');
+    });
+  });
+
+  describe('Operators', function () {
+    let registry: TodoRegistryV2;
+
+    beforeEach(async function () {
+      registry = await deployV2();
+      await registry.connect(user1).createTodo(todoId1, todoHash1, 2);
+    });
+
+    it('Should let the owner choose an operator that can write the todo', async function () {
+      await expect(registry.connect(user1).setTodoOperator(todoId1, user2.address))
+        .to.emit(registry, 'TodoOperatorChanged')
+        .withArgs(todoId1, user2.address);
+
+      await registry.connect(user2).updateTodo(todoId1, updatedHash, 2);
+      await registry.connect(user2).deleteTodo(todoId1);
+      await registry.connect(user2).restoreTodo(todoId1);
+
+      const [hash, todoOwner] = await registry.getTodo(todoId1);
+      expect(hash).to.equal(updatedHash);
+      expect(todoOwner).to.equal(user1.address);
+    });
+
+    it('Should only let the owner change the operator', async function () {
+      await registry.connect(user1).setTodoOperator(todoId1, user2.address);
+
+      await expect(registry.connect(user2).setTodoOperator(todoId1, user2.address))
+        .to.be.revertedWith('Not authorized: caller is not the todo owner');
+    });
+
+    it('Should reject writes from anyone else', async function () {
+      await expect(registry.connect(user2).updateTodo(todoId1, updatedHash, 2))
+        .to.be.revertedWith('Not authorized: caller is not the todo owner or operator');
+    });
+  });
+
+  describe('Wallet ownership', function () {
+    let registry: TodoRegistryV2;
+
+    // user1 approves owner (the anchoring wallet) with an EIP-712 signature
+    const signApproval = async (
+      signer: SignerWithAddress,
+      approved = true,
+      deadline = Math.floor(Date.now() / 1000) + 3600
+    ): Promise<{ deadline: number; signature: string }> => {
+      const { chainId } = await ethers.provider.getNetwork();
+      const domain = {
+        name: 'TodoRegistry',
+        version: '2',
+        chainId,
+        verifyingContract: await registry.getAddress(),
+      };
+      const types = {
+        OperatorApproval: [
+          { name: 'owner', type: 'address' },
+          { name: 'operator', type: 'address' },
+          { name: 'approved', type: 'bool' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      };
+      const message = {
+        owner: user1.address,
+        operator: owner.address,
+        approved,
+        nonce: await registry.nonces(user1.address),
+        deadline,
+      };
+
+      return { deadline, signature: await signer.signTypedData(domain, types, message) };
+    };
+
+    beforeEach(async function () {
+      registry = await deployV2();
+    });
+
+    it('Should approve an operator with a relayed signature', async function () {
+      const { deadline, signature } = await signApproval(user1);
+
+      await expect(
+        registry.setOperatorApprovalBySig(user1.address, owner.address, true, deadline, signature)
+      )
+        .to.emit(registry, 'OperatorApproval')
+        .withArgs(user1.address, owner.address, true);
+
+      expect(await registry.isApprovedOperator(user1.address, owner.address)).to.be.true;
+      expect(await registry.nonces(user1.address)).to.equal(1);
+    });
+
+    it('Should reject replayed, expired or foreign signatures', async function () {
+      const { deadline, signature } = await signApproval(user1);
+      await registry.setOperatorApprovalBySig(user1.address, owner.address, true, deadline, signature);
+
+      await expect(
+        registry.setOperatorApprovalBySig(user1.address, owner.address, true, deadline, signature)
+      ).to.be.revertedWith('Invalid signature');
+
+      const expired = await signApproval(user1, true, 1);
+      await expect(
+        registry.setOperatorApprovalBySig(user1.address, owner.address, true, expired.deadline, expired.signature)
+      ).to.be.revertedWith('Signature expired');
+
+      const foreign = await signApproval(user2);
+      await expect(
+        registry.setOperatorApprovalBySig(user1.address, owner.address, true, foreign.deadline, foreign.signature)
+      ).to.be.revertedWith('Invalid signature');
+    });
+
+    it('Should create todos owned by the approving wallet', async function () {
+      await registry.connect(user1).setOperatorApproval(owner.address, true);
+
+      await expect(registry.createTodoFor(todoId1, todoHash1, 2, user1.address))
+        .to.emit(registry, 'TodoCreated')
+        .withArgs(todoId1, todoHash1, user1.address, await ethers.provider.getBlock('latest').then(b => b!.timestamp + 1));
+
+      const record = await registry.getTodoRecord(todoId1);
+      expect(record.owner).to.equal(user1.address);
+      expect(record.operator).to.equal(ethers.ZeroAddress);
+
+      await registry.updateTodo(todoId1, updatedHash, 2);
+      expect(await registry.verifyTodo(todoId1, updatedHash)).to.be.true;
+    });
+
+    it('Should only let approved operators create todos for a wallet', async function () {
+      await expect(registry.createTodoFor(todoId1, todoHash1, 2, user1.address))
+        .to.be.revertedWith('Not authorized: caller is not an approved operator of the owner');
+    });
+
+    it('Should cut the operator off when the approval is revoked', async function () {
+      await registry.connect(user1).setOperatorApproval(owner.address, true);
+      await registry.createTodoFor(todoId1, todoHash1, 2, user1.address);
+
+      await registry.connect(user1).setOperatorApproval(owner.address, false);
+
+      await expect(registry.updateTodo(todoId1, updatedHash, 2))
+        .to.be.revertedWith('Not authorized: caller is not the todo owner or operator');
+      await registry.connect(user1).updateTodo(todoId1, updatedHash, 2);
+    });
+  });
+
+  describe('Migration from TodoRegistry', function () {
+    let v1: TodoRegistry;
+    let v2: TodoRegistryV2;
+    let deployBlock: number;
+
+    beforeEach(async function () {
+      const factory = await ethers.getContractFactory('TodoRegistry');
+      v1 = await factory.deploy();
+      await v1.waitForDeployment();
+      deployBlock = (await v1.deploymentTransaction()!.wait())!.blockNumber;
+
+      // Some history: an update, a deletion, two users and two batches
+      await v1.connect(user1).createTodo(todoId1, todoHash1);
+      await v1.connect(user1).updateTodo(todoId1, updatedHash);
+      await v1.connect(user2).createTodo(todoId2, todoHash2);
+      await v1.connect(user2).deleteTodo(todoId2);
+      await v1.anchorBatch(root1, 3);
+      await v1.anchorBatch(root2, 5);
+
+      v2 = await deployV2(await v1.getAddress());
+    });
+
+    const migrator = async (): Promise<RegistryMigrator> =>
+      new RegistryMigrator(await v1.getAddress(), await v2.getAddress(), owner, deployBlock);
+
+    it('Should reserve the predecessor batch IDs', async function () {
+      expect(await v2.migratedBatchLimit()).to.equal(2);
+
+      await expect(v2.anchorBatch(root1, 1))
+        .to.emit(v2, 'BatchAnchored')
+        .withArgs(3, root1, 1, owner.address, await ethers.provider.getBlock('latest').then(b => b!.timestamp + 1));
+    });
+
+    it('Should not create todos that exist in the predecessor', async function () {
+      await expect(v2.connect(user1).createTodo(todoId1, todoHash1, 2))
+        .to.be.revertedWith('Todo exists in predecessor registry');
+
+      await v2.connect(user1).createTodo(todoId3, todoHash1, 2);
+      expect(await v2.todoExistsByID(todoId3)).to.be.true;
+    });
+
+    it('Should copy todos and batches as they stand on the predecessor', async function () {
+      const registryMigrator = await migrator();
+      const plan = await registryMigrator.plan();
+
+      expect(plan.todos.map((todo) => todo.todoId)).to.deep.equal([todoId1, todoId2]);
+      expect(plan.batches.map((batch) => batch.batchId)).to.deep.equal([1, 2]);
+      expect(plan.unresolvedTodoIdHashes).to.be.empty;
+
+      await registryMigrator.migrate(plan, 1);
+      expect(await registryMigrator.verify(plan)).to.be.empty;
+
+      for (const todoId of [todoId1, todoId2]) {
+        expect(await v2.getTodo(todoId)).to.deep.equal(await v1.getTodo(todoId));
+      }
+      for (const batchId of [1, 2]) {
+        expect(await v2.getBatch(batchId)).to.deep.equal(await v1.getBatch(batchId));
+      }
+
+      const record = await v2.getTodoRecord(todoId2);
+      expect(record.isDeleted).to.be.true;
+      expect(record.schemaVersion).to.equal(0);
+      expect(await v2.migratedTodoCount()).to.equal(2);
+      expect(await v2.migratedBatchCount()).to.equal(2);
+    });
+
+    it('Should let the original owner keep writing migrated todos', async function () {
+      const registryMigrator = await migrator();
+      await registryMigrator.migrate(await registryMigrator.plan());
+
+      await v2.connect(user1).updateTodo(todoId1, todoHash1, 2);
+      expect(await v2.verifyTodo(todoId1, todoHash1)).to.be.true;
+
+      await expect(v2.connect(user1).restoreTodo(todoId2))
+        .to.be.revertedWith('Not authorized: caller is not the todo owner or operator');
+    });
+
+    it('Should skip records already migrated when run again', async function () {
+      const registryMigrator = await migrator();
+      const firstPlan = await registryMigrator.plan();
+      await registryMigrator.migrate({ ...firstPlan, todos: firstPlan.todos.slice(0, 1) });
+
+      const plan = await registryMigrator.plan();
+      expect(plan.todos.map((todo) => todo.todoId)).to.deep.equal([todoId2]);
+      expect(plan.batches).to.be.empty;
+      expect(plan.alreadyMigrated).to.deep.equal({ todos: 1, batches: 2 });
+    });
+
+    it('Should report batches anchored on the predecessor after the upgrade', async function () {
+      await v1.anchorBatch(root1, 1);
+
+      const plan = await (await migrator()).plan();
+      expect(plan.unreservedBatchIds).to.deep.equal([3]);
+    });
+
+    it('Should only accept imports from the migrator', async function () {
+      await expect(v2.connect(user1).migrateTodos([todoId3], [todoHash1], [user1.address], [1], [false]))
+        .to.be.revertedWith('Not authorized: caller is not the migrator');
+      await expect(v2.connect(user1).finalizeMigration())
+        .to.be.revertedWith('Not authorized: caller is not the migrator');
+    });
+
+    it('Should reject batch IDs outside the reserved range', async function () {
+      await expect(v2.migrateBatches([3], [root1], [1], [owner.address], [1]))
+        .to.be.revertedWith('Batch ID not reserved for migration');
+    });
+
+    it('Should reject mismatched array lengths', async function () {
+      await expect(v2.migrateTodos([todoId1, todoId2], [todoHash1], [user1.address], [1], [false]))
+        .to.be.revertedWith('Array lengths do not match');
+    });
+
+    it('Should close imports once finalized', async function () {
+      const registryMigrator = await migrator();
+      await registryMigrator.migrate(await registryMigrator.plan());
+
+      await expect(v2.finalizeMigration()).to.emit(v2, 'MigrationFinalized').withArgs(2, 2);
+
+      await expect(v2.migrateTodos([todoId3], [todoHash1], [user1.address], [1], [false]))
+        .to.be.revertedWith('Migration is finalized');
+      await expect(registryMigrator.plan()).to.be.rejectedWith('already finalized');
+    });
+  });
+});
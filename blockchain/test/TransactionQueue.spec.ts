@@ -0,0 +1,174 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { Wallet } from 'ethers';
+import { TodoRegistry } from '../typechain-types';
+import { TransactionQueue } from '../../src/services/transaction-queue.service';
+
+// Default Hardhat account #0 - a real Wallet so gas estimation happens before broadcast,
+// like BlockchainService (Hardhat's own signer lets the node mine reverting txs)
+const HARDHAT_ACCOUNT_0_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+describe('TransactionQueue', function () {
+  let todoRegistry: TodoRegistry;
+  let owner: Wallet;
+  let queue: TransactionQueue;
+
+  const todoIdFor = (i: number) => `507f1f77bcf86cd7994390${i.toString().padStart(2, '0')}`;
+  const todoHashFor = (i: number) => ethers.keccak256(ethers.toUtf8Bytes(`todo content ${i}`));
+
+  const pendingTransactionHashes = async (): Promise<string[]> => {
+    const block = await network.provider.send('eth_getBlockByNumber', ['pending', false]);
+    return block.transactions;
+  };
+
+  beforeEach(async function () {
+    owner = new Wallet(HARDHAT_ACCOUNT_0_KEY, ethers.provider);
+
+    const TodoRegistryFactory = await ethers.getContractFactory('TodoRegistry', owner);
+    todoRegistry = await TodoRegistryFactory.deploy();
+    await todoRegistry.waitForDeployment();
+
+    queue = new TransactionQueue(owner, {
+      stuckTimeoutMs: 500,
+      maxResubmissions: 3,
+      pollIntervalMs: 50,
+    });
+
+    // Transactions sit in the mempool until we mine
+    await network.provider.send('evm_setAutomine', [false]);
+  });
+
+  afterEach(async function () {
+    await network.provider.send('evm_setIntervalMining', [0]);
+    await network.provider.send('evm_setAutomine', [true]);
+  });
+
+  it('Should assign sequential nonces to dozens of concurrent writes', async function () {
+    const count = 40;
+    const startNonce = await ethers.provider.getTransactionCount(owner.address, 'pending');
+
+    const submissions = Array.from({ length: count }, (_, i) =>
+      queue.submit('createTodo', () =>
+        todoRegistry.createTodo.populateTransaction(todoIdFor(i), todoHashFor(i))
+      )
+    );
+
+    // Everything queued or broadcast, nothing mined yet
+    expect(queue.getDepth().waiting + queue.getDepth().inFlight).to.equal(count);
+
+    await network.provider.send('evm_setIntervalMining', [100]);
+    const receipts = (await Promise.all(submissions)).map(({ receipt }) => receipt);
+
+    const nonces = await Promise.all(
+      receipts.map(async (receipt) => (await ethers.provider.getTransaction(receipt.hash))!.nonce)
+    );
+    expect([...nonces].sort((a, b) => a - b)).to.deep.equal(
+      Array.from({ length: count }, (_, i) => startNonce + i)
+    );
+
+    for (let i = 0; i < count; i++) {
+      expect(await todoRegistry.verifyTodo(todoIdFor(i), todoHashFor(i))).to.be.true;
+    }
+
+    expect(queue.getDepth()).to.include({ waiting: 0, inFlight: 0 });
+  });
+
+  it('Should resubmit a dropped transaction with bumped fees', async function () {
+    const submission = queue.submit('createTodo', () =>
+      todoRegistry.createTodo.populateTransaction(todoIdFor(0), todoHashFor(0))
+    );
+
+    // Wait for the broadcast, then make the node forget it
+    while ((await pendingTransactionHashes()).length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    const [droppedHash] = await pendingTransactionHashes();
+    const dropped = await ethers.provider.getTransaction(droppedHash);
+    await network.provider.send('hardhat_dropTransaction', [droppedHash]);
+
+    await network.provider.send('evm_setIntervalMining', [100]);
+    const { receipt, fee } = await submission;
+
+    expect(receipt.hash).to.not.equal(droppedHash);
+    const replacement = await ethers.provider.getTransaction(receipt.hash);
+    expect(replacement!.nonce).to.equal(dropped!.nonce);
+    expect(replacement!.maxFeePerGas).to.be.gt(dropped!.maxFeePerGas!);
+    expect(fee.maxFeePerGas).to.equal(Number(replacement!.maxFeePerGas));
+    expect(await todoRegistry.verifyTodo(todoIdFor(0), todoHashFor(0))).to.be.true;
+  });
+
+  it('Should surface reverts without consuming a nonce', async function () {
+    await network.provider.send('evm_setAutomine', [true]);
+
+    await queue.submit('createTodo', () =>
+      todoRegistry.createTodo.populateTransaction(todoIdFor(0), todoHashFor(0))
+    );
+    const nonceAfterCreate = await ethers.provider.getTransactionCount(owner.address, 'pending');
+
+    await expect(
+      queue.submit('createTodo', () =>
+        todoRegistry.createTodo.populateTransaction(todoIdFor(0), todoHashFor(1))
+      )
+    ).to.be.rejectedWith('Todo already exists');
+
+    await queue.submit('updateTodo', () =>
+      todoRegistry.updateTodo.populateTransaction(todoIdFor(0), todoHashFor(1))
+    );
+
+    expect(await ethers.provider.getTransactionCount(owner.address, 'pending')).to.equal(
+      nonceAfterCreate + 1
+    );
+  });
+
+  it('Should keep fees under the cap and not resubmit a transaction stuck at it', async function () {
+    const baseFee = (await ethers.provider.getBlock('latest'))!.baseFeePerGas!;
+    const tip = 1_000_000n;
+    // Below the node's suggestion (twice the base fee plus tip), whatever the base fee
+    const cap = baseFee + tip;
+
+    const cappedQueue = new TransactionQueue(owner, {
+      stuckTimeoutMs: 300,
+      maxResubmissions: 3,
+      pollIntervalMs: 50,
+      maxFeePerGas: cap,
+      maxPriorityFeePerGas: tip,
+    });
+
+    const submission = cappedQueue.submit('createTodo', () =>
+      todoRegistry.createTodo.populateTransaction(todoIdFor(0), todoHashFor(0))
+    );
+
+    while ((await pendingTransactionHashes()).length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    const [sentHash] = await pendingTransactionHashes();
+
+    // Past the stuck timeout: a bump would go over the cap, so nothing is resubmitted
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    expect(await pendingTransactionHashes()).to.deep.equal([sentHash]);
+
+    await network.provider.send('evm_mine');
+    const { receipt, fee } = await submission;
+
+    expect(receipt.hash).to.equal(sentHash);
+    const sent = await ethers.provider.getTransaction(sentHash);
+    expect(sent!.maxFeePerGas).to.equal(cap);
+    expect(sent!.maxPriorityFeePerGas).to.equal(tip);
+    expect(fee).to.deep.equal({
+      maxFeePerGas: Number(cap),
+      maxPriorityFeePerGas: Number(tip),
+      gasPrice: undefined,
+      capped: true,
+    });
+  });
+
+  it('Should report when network fees are over the cap', async function () {
+    const baseFee = (await ethers.provider.getBlock('latest'))!.baseFeePerGas!;
+    const queueCappedAt = (maxFeePerGas: bigint) =>
+      new TransactionQueue(owner, { maxFeePerGas, maxPriorityFeePerGas: 1n });
+
+    expect(await queue.isOverFeeCap()).to.be.false;
+    expect(await queueCappedAt(baseFee / 2n).isOverFeeCap()).to.be.true;
+    expect(await queueCappedAt(baseFee * 2n).isOverFeeCap()).to.be.false;
+  });
+});
@@ -1,5 +1,9 @@
 require('@nomicfoundation/hardhat-toolbox');
 require('dotenv').config();
+const fs = require('fs');
+const path = require('path');
+const { subtask } = require('hardhat/config');
+const { TASK_TEST_GET_TEST_FILES } = require('hardhat/builtin-tasks/task-names');
 
 // Register ts-node to handle TypeScript test files
 require('ts-node').register({
@@ -10,6 +14,20 @@ require('ts-node').register({
   },
 });
 
+// Hardhat only collects .ts tests when its config is TypeScript, so `hardhat test` with no
+// files runs every spec in the tests directory
+subtask(TASK_TEST_GET_TEST_FILES).setAction(async ({ testFiles }, { config }, runSuper) => {
+  if (testFiles.length > 0) {
+    return runSuper({ testFiles });
+  }
+
+  return fs
+    .readdirSync(config.paths.tests, { recursive: true })
+    .filter((file) => file.endsWith('.spec.ts'))
+    .sort()
+    .map((file) => path.join(config.paths.tests, file));
+});
+
 /** @type import('hardhat/config').HardhatUserConfig */
 module.exports = {
   solidity: {
@@ -9,6 +9,10 @@ import { swaggerSpec } from './config/swagger';
 import { errorMiddleware, notFoundMiddleware } from './middleware';
 import logger from './utils/logger';
 import routes from './routes';
+import { getTransactionQueueDepths } from './services/transaction-queue.service';
+import { getCircuitBreakerStates } from './services/circuit-breaker.service';
+import { getRpcEndpointHealth } from './services/rpc-provider.service';
+import { getDeploymentCheckState } from './services/deployment.service';
 
 const app: Application = express();
 
@@ -41,11 +45,25 @@ app.use((req, _res, next) => {
 });
 
 // Health check endpoint
+// (degraded while any network's RPC circuit is open or the deployment check hasn't passed:
+// blockchain operations are parked)
 app.get('/health', (_req, res) => {
+  const circuitBreakers = getCircuitBreakerStates();
+  const deploymentCheck = getDeploymentCheckState();
+  const degraded =
+    circuitBreakers.some((breaker) => breaker.state !== 'closed') ||
+    deploymentCheck.status === 'pending';
+
   res.status(200).json({
-    status: 'ok',
+    status: degraded ? 'degraded' : 'ok',
     timestamp: new Date().toISOString(),
     environment: config.env,
+    blockchain: {
+      transactionQueues: getTransactionQueueDepths(),
+      deploymentCheck,
+      circuitBreakers,
+      rpcEndpoints: getRpcEndpointHealth(),
+    },
   });
 });
 
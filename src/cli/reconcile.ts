@@ -0,0 +1,41 @@
+import { connectDatabase, disconnectDatabase } from '../config';
+import { ReconciliationService } from '../services/reconciliation.service';
+import logger from '../utils/logger';
+
+/**
+ * One-off Mongo-vs-chain reconciliation
+ *
+ * Usage: npm run reconcile
+ * Prints the drift report summary; exits 1 if drift was found or the run failed
+ */
+const reconcile = async () => {
+  let exitCode = 0;
+
+  try {
+    await connectDatabase();
+
+    const report = await new ReconciliationService().run('cli');
+
+    logger.info('Drift report', {
+      reportId: report._id.toString(),
+      scanned: report.scanned,
+      failedChecks: report.failedChecks,
+      driftCount: report.driftCount,
+      countsByType: report.countsByType,
+      itemsTruncated: report.itemsTruncated,
+    });
+
+    if (report.driftCount > 0) {
+      exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('Reconciliation failed:', error);
+    exitCode = 1;
+  } finally {
+    await disconnectDatabase();
+  }
+
+  process.exit(exitCode);
+};
+
+reconcile();
@@ -0,0 +1,152 @@
+import fs from 'fs';
+import mongoose from 'mongoose';
+import { config, connectDatabase, disconnectDatabase } from '../config';
+import { RecoveryReport, RecoveryService } from '../services/recovery.service';
+
+/**
+ * Chain-to-MongoDB disaster recovery
+ *
+ * Usage: npm run recover -- <backup.json>... [--network <name>] [--dry-run] [--overwrite]
+ * Rebuilds the network's todos from backups (mongoexport output of the todos collection,
+ * as a JSON array or one document per line, or proof bundles from GET /todos/:id/proof),
+ * checking each against the TodoRegistry event log. Encrypted exports are not read; decrypt
+ * them first. Existing todos are only replaced by an authentic copy when they aren't
+ * authentic themselves, or always with --overwrite. --dry-run only prints the report and
+ * needs no MongoDB. Exits 0 if every todo was restored authentic or unanchored, 1 if any
+ * were flagged, lost or invalid, 2 if recovery could not run.
+ */
+
+const USAGE =
+  'Usage: npm run recover -- <backup.json>... [--network <name>] [--dry-run] [--overwrite]';
+
+const { EJSON } = mongoose.mongo.BSON;
+
+const parseArgs = (
+  args: string[]
+): { backupPaths: string[]; network: string; dryRun: boolean; overwrite: boolean } | null => {
+  const networkIndex = args.indexOf('--network');
+  const network = networkIndex >= 0 ? args[networkIndex + 1] : config.blockchain.network;
+  const backupPaths = args.filter(
+    (arg, index) => !arg.startsWith('--') && (networkIndex < 0 || index !== networkIndex + 1)
+  );
+
+  return backupPaths.length > 0 && network
+    ? {
+        backupPaths,
+        network,
+        dryRun: args.includes('--dry-run'),
+        overwrite: args.includes('--overwrite'),
+      }
+    : null;
+};
+
+/**
+ * Read a backup file: a JSON array, one document per line, or a single document (an API
+ * response around a proof bundle is unwrapped). Extended JSON types ($oid, $date) are kept.
+ * Anything else, such as an encrypted export, is rejected.
+ */
+const readBackup = (backupPath: string): Record<string, unknown>[] => {
+  const text = fs.readFileSync(backupPath, 'utf8').trim();
+
+  let parsed: unknown;
+  try {
+    parsed = EJSON.parse(text, { relaxed: true });
+  } catch {
+    try {
+      parsed = text
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => EJSON.parse(line, { relaxed: true }));
+    } catch {
+      throw new Error(
+        `${backupPath} is not JSON or one JSON document per line (encrypted exports are not supported, decrypt it first)`
+      );
+    }
+  }
+
+  const entries = (Array.isArray(parsed) ? parsed : [parsed]) as Record<string, unknown>[];
+
+  return entries.map((entry) =>
+    entry && entry.format === undefined && entry.data && typeof entry.data === 'object'
+      ? (entry.data as Record<string, unknown>)
+      : entry
+  );
+};
+
+const printReport = (report: RecoveryReport, dryRun: boolean): void => {
+  const lines = [
+    `Network:   ${report.network} (chain ${report.chainId}), events read up to block ${report.scannedToBlock}`,
+    `Records:   ${report.records} read, ${report.skipped} for other networks, ${report.invalid.length} invalid`,
+    `Restored:  ${dryRun ? 'none (dry run)' : `${report.restored}, ${report.kept} existing todos kept`}`,
+    '',
+    ...Object.entries(report.countsByStatus).map(
+      ([status, count]) => `  ${status.padEnd(11)} ${count}`
+    ),
+  ];
+
+  if (report.flagged.length > 0) {
+    lines.push('', 'Flagged (restored, but not provably authentic):');
+    for (const { todoId, userId, status, reason } of report.flagged) {
+      lines.push(`  ${todoId}  user ${userId}  ${status}: ${reason}`);
+    }
+  }
+
+  if (report.lost.length > 0) {
+    lines.push('', 'Lost (anchored on chain, missing from every backup):');
+    for (const { todoId, todoIdHash, todoHash, owner, isDeleted } of report.lost) {
+      lines.push(
+        `  ${todoId ?? `unknown ID (${todoIdHash})`}  owner ${owner}  hash ${todoHash}${isDeleted ? '  deleted' : ''}`
+      );
+    }
+  }
+
+  if (report.invalid.length > 0) {
+    lines.push('', 'Invalid entries (not restored):');
+    for (const { index, error } of report.invalid) {
+      lines.push(`  #${index}: ${error}`);
+    }
+  }
+
+  console.log(lines.join('\n'));
+};
+
+const recover = async () => {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  let exitCode = 0;
+
+  try {
+    const entries = args.backupPaths.flatMap(readBackup);
+
+    if (!args.dryRun) {
+      await connectDatabase();
+    }
+
+    const report = await new RecoveryService(args.network).recover(entries, {
+      dryRun: args.dryRun,
+      overwrite: args.overwrite,
+    });
+
+    printReport(report, args.dryRun);
+
+    if (report.flagged.length > 0 || report.lost.length > 0 || report.invalid.length > 0) {
+      exitCode = 1;
+    }
+  } catch (error) {
+    console.error(`Recovery could not run: ${error instanceof Error ? error.message : error}`);
+    exitCode = 2;
+  } finally {
+    if (!args.dryRun) {
+      await disconnectDatabase();
+    }
+  }
+
+  process.exit(exitCode);
+};
+
+recover();
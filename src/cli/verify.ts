@@ -0,0 +1,147 @@
+import fs from 'fs';
+import { ethers } from 'ethers';
+import type { verifyProofSchema } from '../dtos/proof';
+import type { ProofBundle, ProofVerificationResult } from '../services/proof-verifier.service';
+
+/**
+ * Offline proof bundle verification
+ *
+ * Usage: npm run verify-proof -- <bundle.json> --rpc <url> [--signer <address>]
+ * Checks a bundle from GET /todos/:id/proof against TodoRegistry through the given node
+ * only (no MongoDB, no API, no app config). --signer is the issuing service's wallet;
+ * without it the bundle is only checked against whoever signed it. Exits 0 if valid, 1 if
+ * not, 2 if it could not be checked.
+ */
+
+const USAGE = 'Usage: npm run verify-proof -- <bundle.json> --rpc <url> [--signer <address>]';
+
+const FAILURE_REASONS: Record<keyof ProofVerificationResult['checks'], string> = {
+  hashMatchesData: 'The todo data does not hash to todoHash with the bundle hash scheme',
+  signatureValid: 'The signature does not match the bundle contents and signer',
+  signerTrusted: 'The bundle was not signed by the --signer wallet',
+  signerIsAnchorOwner:
+    'The signer neither owns the todo on chain nor is an operator its owner approved',
+  transactionConfirmed:
+    'The anchor transaction is not mined in that block, reverted or did not call the contract',
+  anchoredOnChain: 'The contract has no record of this hash for the todo',
+};
+
+const CHECK_LABELS: Record<keyof ProofVerificationResult['checks'], string> = {
+  hashMatchesData: 'Hash matches todo data',
+  signatureValid: 'Bundle signature',
+  signerTrusted: 'Signer is the issuing wallet',
+  signerIsAnchorOwner: 'Signer owns or operates the todo',
+  transactionConfirmed: 'Anchor transaction confirmed',
+  anchoredOnChain: 'Hash anchored on chain',
+};
+
+const parseArgs = (
+  args: string[]
+): { bundlePath: string; rpcUrl: string; signer?: string } | null => {
+  const option = (name: string): string | undefined => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const optionValues = ['--rpc', '--signer']
+    .filter((name) => args.includes(name))
+    .map((name) => args.indexOf(name) + 1);
+  const rpcUrl = option('--rpc');
+  const signer = option('--signer');
+  const bundlePath = args.find(
+    (arg, index) => !arg.startsWith('--') && !optionValues.includes(index)
+  );
+
+  if (!bundlePath || !rpcUrl || (args.includes('--signer') && !ethers.isAddress(signer))) {
+    return null;
+  }
+
+  return { bundlePath, rpcUrl, signer };
+};
+
+/**
+ * Read a bundle file, accepting either the bare bundle or the API response around it
+ */
+const readBundle = (bundlePath: string, schema: typeof verifyProofSchema): ProofBundle => {
+  const json = JSON.parse(fs.readFileSync(bundlePath, 'utf8'));
+  const candidate = json && json.format === undefined && json.data ? json.data : json;
+  const parsed = schema.safeParse(candidate);
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(
+      (issue) => `  - ${issue.path.join('.') || '(bundle)'}: ${issue.message}`
+    );
+    throw new Error(`Malformed proof bundle:\n${issues.join('\n')}`);
+  }
+
+  return parsed.data as ProofBundle;
+};
+
+const printReport = (bundle: ProofBundle, result: ProofVerificationResult): void => {
+  const { anchor, hashScheme } = bundle;
+  const lines = [
+    `Todo:      ${bundle.todoId}`,
+    `Hash:      ${bundle.todoHash} (v${hashScheme.version}, ${hashScheme.algorithm}${hashScheme.salt ? ', salted' : ''})`,
+    `Anchor:    ${anchor.mode} on chain ${anchor.chainId}, contract ${anchor.contractAddress}`,
+    `Tx:        ${anchor.transactionHash} (block ${anchor.blockNumber}, ${result.confirmations} confirmations)`,
+    ...(anchor.batchId ? [`Batch:     #${anchor.batchId}, root ${anchor.merkleRoot}`] : []),
+    `Signer:    ${bundle.signer}`,
+    '',
+  ];
+
+  for (const [check, passed] of Object.entries(result.checks)) {
+    const key = check as keyof ProofVerificationResult['checks'];
+    lines.push(`  ${passed === null ? 'SKIP' : passed ? 'PASS' : 'FAIL'}  ${CHECK_LABELS[key]}`);
+    if (passed === false) {
+      lines.push(`        ${FAILURE_REASONS[key]}`);
+    }
+  }
+
+  if (result.checks.signerTrusted === null) {
+    lines.push(
+      '',
+      'Note: pass --signer <address> to check the bundle came from the issuing service'
+    );
+  }
+
+  if (result.currentOnChain === false) {
+    lines.push('', 'Note: the todo was changed or deleted on chain after this proof was issued');
+  }
+
+  lines.push('', `Result: ${result.isValid ? 'VALID' : 'INVALID'}`);
+
+  console.log(lines.join('\n'));
+};
+
+const verify = async () => {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  let exitCode = 0;
+
+  try {
+    // Loaded here, so a failure while loading them also exits 2 rather than 1
+    const [{ verifyProofSchema }, { ProofVerifier }] = await Promise.all([
+      import('../dtos/proof'),
+      import('../services/proof-verifier.service'),
+    ]);
+
+    const bundle = readBundle(args.bundlePath, verifyProofSchema);
+    const provider = new ethers.JsonRpcProvider(args.rpcUrl, undefined, { staticNetwork: true });
+
+    const result = await new ProofVerifier(provider).verify(bundle, args.signer);
+
+    printReport(bundle, result);
+    exitCode = result.isValid ? 0 : 1;
+  } catch (error) {
+    console.error(`Verification could not run: ${error instanceof Error ? error.message : error}`);
+    exitCode = 2;
+  }
+
+  process.exit(exitCode);
+};
+
+verify();
@@ -24,6 +24,10 @@ export const CONSTANTS = {
       WINDOW_MS: 15 * 60 * 1000, // 15 minutes
       MAX_REQUESTS: 200,
     },
+    PUBLIC_VERIFY: {
+      WINDOW_MS: 15 * 60 * 1000, // 15 minutes
+      MAX_REQUESTS: 30, // Each verification makes several RPC calls
+    },
   },
 
   // Blockchain
@@ -31,6 +35,40 @@ export const CONSTANTS = {
     MAX_RETRY_ATTEMPTS: 10,
     RETRY_DELAYS: [0, 60000, 300000, 900000, 3600000, 21600000], // 0, 1m, 5m, 15m, 1h, 6h
     SYNC_JOB_INTERVAL: 300000, // 5 minutes
+    SYNC_JOB_BATCH_SIZE: 20,
+    STUCK_PENDING_THRESHOLD: 600000, // 10 minutes without a sync attempt finishing
+    OUTBOX_POLL_INTERVAL: 2000, // 2 seconds
+    OUTBOX_LOCK_TIMEOUT: 120000, // 2 minutes before a claimed entry can be reclaimed
+    OUTBOX_BATCH_SIZE: 20,
+    TX_STUCK_TIMEOUT: 180000, // 3 minutes before a pending tx is resubmitted
+    TX_FEE_BUMP_PERCENT: 15, // Replacement txs need at least +10% fees
+    TX_MAX_RESUBMISSIONS: 3,
+    TX_RECEIPT_POLL_INTERVAL: 2000, // 2 seconds
+    FEE_DEFERRAL_WINDOW: 900000, // 15 minutes before fees over a network's cap are re-checked
+    BATCH_ANCHOR_INTERVAL: 60000, // 1 minute window per Merkle batch (batch anchor mode)
+    BATCH_MAX_SIZE: 500,
+    CONFIRMATION_CHECK_INTERVAL: 15000, // 15 seconds (about one block)
+    CONFIRMATION_BATCH_SIZE: 100,
+    INDEXER_POLL_INTERVAL: 15000, // 15 seconds (about one block)
+    INDEXER_BLOCK_RANGE: 2000, // Blocks per eth_getLogs call (RPC providers cap the range)
+    INDEXER_REORG_REWIND: 64, // Blocks re-indexed when the cursor block was reorged out
+    RECONCILIATION_INTERVAL: 86400000, // 24 hours
+    RECONCILIATION_PAGE_SIZE: 200,
+    RECONCILIATION_MAX_REPORT_ITEMS: 1000, // Counts stay exact past this; items are truncated
+    RECONCILIATION_STALE_RUN: 21600000, // 6 hours before a 'running' report is treated as dead
+    GAS_REPORT_MAX_USERS: 100, // Users listed in a gas cost report (highest spend first)
+    RPC_REQUEST_TIMEOUT: 30000, // 30 seconds before an RPC request counts as failed
+    RPC_ENDPOINT_MIN_SCORE: 0.5, // Endpoints scoring lower are tried after healthy ones
+    RPC_ENDPOINT_RECOVERY_TIME: 300000, // 5 minutes for an unused endpoint's score to recover
+    CIRCUIT_BREAKER_FAILURE_THRESHOLD: 5, // Consecutive RPC failures that open the circuit
+    CIRCUIT_BREAKER_PROBE_INTERVAL: 30000, // 30 seconds between probes while open
+    DEPLOYMENT_CHECK_RETRY_INTERVAL: 30000, // 30 seconds between startup deployment checks
+  },
+
+  // Wallets
+  WALLET: {
+    APPROVAL_SIGNATURE_TTL: 600, // Seconds a wallet has to sign an operator approval
+    SIWE_NONCE_TTL: 600, // Seconds a Sign-In with Ethereum nonce stays valid
   },
 
   // Todo
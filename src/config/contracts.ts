@@ -1,275 +1,77 @@
-// TodoRegistry ABI (imported from compiled artifacts)
-export const TODO_REGISTRY_ABI = [
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: 'string',
-        name: 'todoId',
-        type: 'string',
-      },
-      {
-        indexed: false,
-        internalType: 'bytes32',
-        name: 'todoHash',
-        type: 'bytes32',
-      },
-      {
-        indexed: true,
-        internalType: 'address',
-        name: 'owner',
-        type: 'address',
-      },
-      {
-        indexed: false,
-        internalType: 'uint256',
-        name: 'timestamp',
-        type: 'uint256',
-      },
-    ],
-    name: 'TodoCreated',
-    type: 'event',
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: 'string',
-        name: 'todoId',
-        type: 'string',
-      },
-      {
-        indexed: false,
-        internalType: 'uint256',
-        name: 'timestamp',
-        type: 'uint256',
-      },
-    ],
-    name: 'TodoDeleted',
-    type: 'event',
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: 'string',
-        name: 'todoId',
-        type: 'string',
-      },
-      {
-        indexed: false,
-        internalType: 'uint256',
-        name: 'timestamp',
-        type: 'uint256',
-      },
-    ],
-    name: 'TodoRestored',
-    type: 'event',
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: 'string',
-        name: 'todoId',
-        type: 'string',
-      },
-      {
-        indexed: false,
-        internalType: 'bytes32',
-        name: 'oldHash',
-        type: 'bytes32',
-      },
-      {
-        indexed: false,
-        internalType: 'bytes32',
-        name: 'newHash',
-        type: 'bytes32',
-      },
-      {
-        indexed: false,
-        internalType: 'uint256',
-        name: 'timestamp',
-        type: 'uint256',
-      },
-    ],
-    name: 'TodoUpdated',
-    type: 'event',
-  },
-  {
-    inputs: [
-      {
-        internalType: 'string',
-        name: 'todoId',
-        type: 'string',
-      },
-      {
-        internalType: 'bytes32',
-        name: 'todoHash',
-        type: 'bytes32',
-      },
-    ],
-    name: 'createTodo',
-    outputs: [],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [
-      {
-        internalType: 'string',
-        name: 'todoId',
-        type: 'string',
-      },
-    ],
-    name: 'deleteTodo',
-    outputs: [],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [
-      {
-        internalType: 'string',
-        name: 'todoId',
-        type: 'string',
-      },
-    ],
-    name: 'getTodo',
-    outputs: [
-      {
-        internalType: 'bytes32',
-        name: 'todoHash',
-        type: 'bytes32',
-      },
-      {
-        internalType: 'address',
-        name: 'owner',
-        type: 'address',
-      },
-      {
-        internalType: 'uint256',
-        name: 'timestamp',
-        type: 'uint256',
-      },
-      {
-        internalType: 'bool',
-        name: 'isDeleted',
-        type: 'bool',
-      },
-    ],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [
-      {
-        internalType: 'string',
-        name: 'todoId',
-        type: 'string',
-      },
-    ],
-    name: 'restoreTodo',
-    outputs: [],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [
-      {
-        internalType: 'string',
-        name: 'todoId',
-        type: 'string',
-      },
-    ],
-    name: 'todoExistsByID',
-    outputs: [
-      {
-        internalType: 'bool',
-        name: '',
-        type: 'bool',
-      },
-    ],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [
-      {
-        internalType: 'string',
-        name: 'todoId',
-        type: 'string',
-      },
-      {
-        internalType: 'bytes32',
-        name: 'newHash',
-        type: 'bytes32',
-      },
-    ],
-    name: 'updateTodo',
-    outputs: [],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [
-      {
-        internalType: 'string',
-        name: 'todoId',
-        type: 'string',
-      },
-      {
-        internalType: 'bytes32',
-        name: 'expectedHash',
-        type: 'bytes32',
-      },
-    ],
-    name: 'verifyTodo',
-    outputs: [
-      {
-        internalType: 'bool',
-        name: '',
-        type: 'bool',
-      },
-    ],
-    stateMutability: 'view',
-    type: 'function',
-  },
-] as const;
+import { ethers } from 'ethers';
+import { getDeployment } from './deployments';
+import { getNetworkConfig } from './networks';
 
 /**
- * Contract Addresses by Network
+ * Registry contracts the app can talk to, by artifact name
+ * v2 adds schema versions, operators and a predecessor registry
  */
-export const CONTRACT_ADDRESSES = {
-  // Sepolia Testnet (Primary)
-  sepolia: '0x24907eC5abCEeD2FfC0b0db9DFDee98898a85172',
+export const REGISTRY_VERSIONS: Record<string, number> = {
+  TodoRegistry: 1,
+  TodoRegistryV2: 2,
+};
 
-  // Local Hardhat Network (Development)
-  localhost: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
-  hardhat: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+export interface PredecessorConfig {
+  address: string;
+  abi: ethers.JsonFragment[];
+  deployBlock: number;
+  deployedBytecodeHash: string;
+  version: number;
+}
 
-  // Future: Ethereum Mainnet
-  // mainnet: '0x...',
-} as const;
+export interface ContractConfig {
+  address: string;
+  abi: ethers.JsonFragment[];
+  deployBlock: number;
+  deployedBytecodeHash: string;
+  version: number;
+  predecessor?: PredecessorConfig; // Registry this deployment replaced (still read for legacy todos)
+}
+
+const getRegistryVersion = (contract: string): number => {
+  const version = REGISTRY_VERSIONS[contract];
+
+  if (!version) {
+    throw new Error(
+      `Unsupported registry contract ${contract} (supported: ${Object.keys(REGISTRY_VERSIONS).join(', ')})`
+    );
+  }
+
+  return version;
+};
 
 /**
- * Get contract configuration for a specific network
+ * Get the TodoRegistry deployment for a network (from its deployment manifest)
+ * Throws if the manifest is missing, was written for a different chain, or names a
+ * contract the app doesn't support
  */
-export function getContractConfig(network: string = 'sepolia') {
-  const address =
-    CONTRACT_ADDRESSES[network as keyof typeof CONTRACT_ADDRESSES] || CONTRACT_ADDRESSES.sepolia;
+export function getContractConfig(network: string): ContractConfig {
+  const networkConfig = getNetworkConfig(network);
+  const deployment = getDeployment(networkConfig.deployment);
+
+  if (deployment.chainId !== networkConfig.chainId) {
+    throw new Error(
+      `Deployment manifest ${networkConfig.deployment} is for chain ${deployment.chainId}, ` +
+        `but network ${network} is chain ${networkConfig.chainId}`
+    );
+  }
+
+  const { predecessor } = deployment;
 
   return {
-    address,
-    abi: TODO_REGISTRY_ABI,
+    address: deployment.address,
+    abi: deployment.abi,
+    deployBlock: deployment.deployBlock,
+    deployedBytecodeHash: deployment.deployedBytecodeHash,
+    version: getRegistryVersion(deployment.contract),
+    ...(predecessor && {
+      predecessor: {
+        address: predecessor.address,
+        abi: predecessor.abi,
+        deployBlock: predecessor.deployBlock,
+        deployedBytecodeHash: predecessor.deployedBytecodeHash,
+        version: getRegistryVersion(predecessor.contract),
+      },
+    }),
   };
 }
-
-/**
- * Export default configuration (Sepolia)
- */
-export const defaultContract = getContractConfig('sepolia');
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { canonicalizeJson } from '../utils/canonical-json';
+
+/**
+ * Contract Deployments
+ *
+ * blockchain/scripts/deploy.ts writes one manifest per network to blockchain/deployments
+ * (or the directory named by BLOCKCHAIN_DEPLOYMENTS_DIR), for a registry it deploys or one
+ * already deployed that it adopts. The contract address, ABI and deploy block are read
+ * from it, and its bytecode hash is checked against the chain at startup.
+ *
+ * A registry that replaced an earlier one (TodoRegistryV2) also records its predecessor,
+ * which stays readable for todos and batches anchored before the upgrade.
+ */
+
+/**
+ * The registry a deployment replaced
+ */
+export interface DeploymentPredecessor {
+  contract: string;
+  address: string;
+  deployBlock: number;
+  deployedBytecodeHash: string;
+  abi: ethers.JsonFragment[];
+}
+
+export interface DeploymentManifest {
+  contract: string;
+  network: string;
+  chainId: number;
+  address: string;
+  deployBlock: number; // Block the contract was deployed in (event queries start here)
+  transactionHash: string;
+  deployer: string;
+  compilerVersion: string; // solc long version, e.g. 0.8.27+commit.40a35a09
+  abiHash: string; // keccak256 of the ABI's canonical JSON
+  deployedBytecodeHash: string; // keccak256 of the runtime bytecode
+  deployedAt: string;
+  abi: ethers.JsonFragment[];
+  predecessor?: DeploymentPredecessor;
+}
+
+const hexString = (length: number, message: string) =>
+  z.string().regex(new RegExp(`^0x[0-9a-fA-F]{${length}}$`), message);
+
+const deploymentSchema = z.object({
+  contract: z.string().min(1),
+  network: z.string().min(1),
+  chainId: z.number().int().positive(),
+  address: hexString(40, 'Must be an Ethereum address'),
+  deployBlock: z.number().int().nonnegative(),
+  transactionHash: hexString(64, 'Must be a transaction hash'),
+  deployer: hexString(40, 'Must be an Ethereum address'),
+  compilerVersion: z.string().min(1),
+  abiHash: hexString(64, 'Must be a keccak256 hash'),
+  deployedBytecodeHash: hexString(64, 'Must be a keccak256 hash'),
+  deployedAt: z.string().datetime(),
+  abi: z.array(z.record(z.string(), z.unknown())).min(1),
+  predecessor: z
+    .object({
+      contract: z.string().min(1),
+      address: hexString(40, 'Must be an Ethereum address'),
+      deployBlock: z.number().int().nonnegative(),
+      deployedBytecodeHash: hexString(64, 'Must be a keccak256 hash'),
+      abi: z.array(z.record(z.string(), z.unknown())).min(1),
+    })
+    .optional(),
+});
+
+const deployments = new Map<string, DeploymentManifest>();
+
+export const getDeploymentsDir = (): string =>
+  process.env.BLOCKCHAIN_DEPLOYMENTS_DIR || path.join(__dirname, '../../blockchain/deployments');
+
+/**
+ * Hash of an ABI, independent of key order and whitespace
+ */
+export const getAbiHash = (abi: readonly unknown[]): string => ethers.id(canonicalizeJson(abi));
+
+/**
+ * Read and validate a deployment manifest (cached after the first call)
+ * Throws if the manifest is missing, malformed, or its ABI doesn't match its abiHash
+ */
+export function getDeployment(name: string): DeploymentManifest {
+  const cached = deployments.get(name);
+  if (cached) {
+    return cached;
+  }
+
+  const filePath = path.join(getDeploymentsDir(), `${name}.json`);
+
+  if (!fs.existsSync(filePath)) {
+    throw new Error(
+      `No deployment manifest for ${name} at ${filePath}. ` +
+        `Deploy with: npx hardhat run blockchain/scripts/deploy.ts --network ${name} ` +
+        '(set ADOPT_ADDRESS and ADOPT_DEPLOY_BLOCK to adopt a registry that is already deployed)'
+    );
+  }
+
+  let deployment: DeploymentManifest;
+  try {
+    deployment = deploymentSchema.parse(
+      JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    ) as DeploymentManifest;
+  } catch (error) {
+    const reason =
+      error instanceof z.ZodError
+        ? error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    throw new Error(`Invalid deployment manifest ${filePath}: ${reason}`);
+  }
+
+  if (getAbiHash(deployment.abi) !== deployment.abiHash) {
+    throw new Error(`Invalid deployment manifest ${filePath}: abi does not match abiHash`);
+  }
+
+  deployments.set(name, deployment);
+  return deployment;
+}
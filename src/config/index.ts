@@ -1,5 +1,7 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { AnchorBackendType, AnchorMode, HashAlgorithm } from '../types/enums';
+import { DEFAULT_NETWORK, getNetworkConfig } from './networks';
 
 // Load environment variables
 dotenv.config({ path: path.join(__dirname, '../../.env') });
@@ -25,12 +27,34 @@ export const config = {
     refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
   },
 
+  // Sign-In with Ethereum
+  siwe: {
+    domain: process.env.SIWE_DOMAIN || `localhost:${process.env.PORT || '3000'}`, // Messages must name it
+  },
+
   // Blockchain
   blockchain: {
-    rpcUrl: process.env.BLOCKCHAIN_RPC_URL || 'http://127.0.0.1:8545',
+    // Where todos are anchored: the contract, an in-memory simulation, or nowhere
+    backend: (process.env.BLOCKCHAIN_BACKEND || AnchorBackendType.ETHERS) as AnchorBackendType,
     privateKey: process.env.BLOCKCHAIN_PRIVATE_KEY || '',
-    contractAddress: process.env.BLOCKCHAIN_CONTRACT_ADDRESS || '',
-    network: process.env.BLOCKCHAIN_NETWORK || 'hardhat',
+    network: process.env.BLOCKCHAIN_NETWORK || DEFAULT_NETWORK, // Default for new todos
+    // Every network todos can be anchored on (the default plus BLOCKCHAIN_NETWORKS)
+    networks: [
+      ...new Set([
+        process.env.BLOCKCHAIN_NETWORK || DEFAULT_NETWORK,
+        ...(process.env.BLOCKCHAIN_NETWORKS || '')
+          .split(',')
+          .map((network) => network.trim())
+          .filter(Boolean),
+      ]),
+    ],
+    anchorMode: (process.env.BLOCKCHAIN_ANCHOR_MODE || AnchorMode.PER_TODO) as AnchorMode,
+  },
+
+  // Todo Hashing (new anchors only)
+  hashing: {
+    algorithm: (process.env.TODO_HASH_ALGORITHM || HashAlgorithm.SHA256) as HashAlgorithm,
+    salted: process.env.TODO_HASH_SALTED !== 'false',
   },
 
   // CORS
@@ -56,6 +80,31 @@ if (config.isProduction) {
   }
 }
 
+// Validate anchoring backend
+if (!Object.values(AnchorBackendType).includes(config.blockchain.backend)) {
+  throw new Error(
+    `Invalid BLOCKCHAIN_BACKEND: ${config.blockchain.backend} (expected ${Object.values(AnchorBackendType).join(', ')})`
+  );
+}
+
+// Validate anchoring mode
+if (!Object.values(AnchorMode).includes(config.blockchain.anchorMode)) {
+  throw new Error(
+    `Invalid BLOCKCHAIN_ANCHOR_MODE: ${config.blockchain.anchorMode} (expected ${Object.values(AnchorMode).join(' or ')})`
+  );
+}
+
+// Validate blockchain networks (throws for names missing from the networks file)
+// Their deployments are checked against the chain at startup (verifyDeployments)
+config.blockchain.networks.forEach((network) => getNetworkConfig(network));
+
+// Validate hash algorithm
+if (!Object.values(HashAlgorithm).includes(config.hashing.algorithm)) {
+  throw new Error(
+    `Invalid TODO_HASH_ALGORITHM: ${config.hashing.algorithm} (expected ${Object.values(HashAlgorithm).join(' or ')})`
+  );
+}
+
 export * from './constants';
 export * from './database.config';
 export * from './jwt.config';
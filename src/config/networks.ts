@@ -1,72 +1,217 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { CONSTANTS } from './constants';
+
 /**
  * Blockchain Network Configurations
  *
- * This file contains network configurations for different Ethereum networks.
- * RPC URLs can be overridden via environment variables for custom providers.
+ * Networks are loaded from networks.json (or the file named by BLOCKCHAIN_NETWORKS_FILE)
+ * and validated on first use. Unknown network names throw instead of falling back to
+ * another network. Each network's TodoRegistry deployment is read from its deployment
+ * manifest (see deployments.ts).
+ *
+ * A network has one rpcUrl, or an ordered list of rpcEndpoints (most preferred first) that
+ * are failed over between and vote on reads (see rpc-provider.service.ts).
+ *
+ * RPC URLs can be overridden via environment variables: an endpoint's own urlEnv, and for
+ * the primary (first) endpoint a network's rpcUrlEnv and BLOCKCHAIN_RPC_URL for the
+ * default network (BLOCKCHAIN_NETWORK).
+ *
+ * A network's optional fees (EIP-1559, in gwei) cap what a write may pay and set its
+ * priority tip; while the base fee plus tip is over the cap, anchoring is deferred.
  */
 
+export interface RpcEndpointConfig {
+  url: string;
+  weight: number; // Votes in a read quorum
+  timeout: number; // Milliseconds before a request counts as failed
+}
+
+/**
+ * Fee strategy for a network's writes (unset fields are left to the node's suggestion)
+ */
+export interface FeeStrategy {
+  maxFeePerGas?: bigint; // Cap (wei per gas) a write never pays more than
+  maxPriorityFeePerGas?: bigint; // Tip (wei per gas) offered to validators
+  deferralMs: number; // How long anchoring waits before fees over the cap are re-checked
+}
+
 export interface NetworkConfig {
   name: string;
   chainId: number;
-  rpcUrl: string;
+  rpcUrl: string; // Primary endpoint
+  rpcEndpoints: RpcEndpointConfig[]; // In order of preference
+  rpcQuorum: number; // Endpoint weight that must agree on a read
   blockExplorer: string;
+  confirmations: number; // Blocks (including its own) before a write counts as final
+  deployment: string; // Deployment manifest name (defaults to the network's own name)
+  fees: FeeStrategy;
 }
 
 /**
- * Network configurations by network name
+ * Network used when BLOCKCHAIN_NETWORK is not set
  */
-export const NETWORKS = {
-  // Sepolia Testnet (Primary)
-  sepolia: {
-    name: 'Sepolia',
-    chainId: 11155111,
-    rpcUrl: process.env.SEPOLIA_RPC_URL || 'https://ethereum-sepolia-rpc.publicnode.com',
-    blockExplorer: 'https://sepolia.etherscan.io',
-  },
-
-  // Local Hardhat Network (Development)
-  localhost: {
-    name: 'Localhost',
-    chainId: 1337,
-    rpcUrl: 'http://127.0.0.1:8545',
-    blockExplorer: 'http://localhost:8545',
-  },
-
-  hardhat: {
-    name: 'Hardhat',
-    chainId: 1337,
-    rpcUrl: 'http://127.0.0.1:8545',
-    blockExplorer: 'http://localhost:8545',
-  },
-
-  // Future: Ethereum Mainnet
-  // mainnet: {
-  //   name: 'Ethereum Mainnet',
-  //   chainId: 1,
-  //   rpcUrl: process.env.MAINNET_RPC_URL || 'https://ethereum-rpc.publicnode.com',
-  //   blockExplorer: 'https://etherscan.io',
-  // },
-} as const;
+export const DEFAULT_NETWORK = 'hardhat';
+
+const rpcEndpointSchema = z.object({
+  url: z.string().url(),
+  urlEnv: z.string().min(1).optional(), // Environment variable that overrides url
+  weight: z.number().int().positive().default(1),
+  timeout: z.number().int().positive().default(CONSTANTS.BLOCKCHAIN.RPC_REQUEST_TIMEOUT),
+});
+
+const feesSchema = z
+  .object({
+    maxFeeGwei: z.number().positive().optional(),
+    priorityFeeGwei: z.number().nonnegative().optional(),
+    deferralSeconds: z
+      .number()
+      .int()
+      .positive()
+      .default(CONSTANTS.BLOCKCHAIN.FEE_DEFERRAL_WINDOW / 1000),
+  })
+  .refine(
+    (fees) =>
+      fees.maxFeeGwei === undefined ||
+      fees.priorityFeeGwei === undefined ||
+      fees.priorityFeeGwei <= fees.maxFeeGwei,
+    'priorityFeeGwei exceeds maxFeeGwei'
+  );
+
+const networkBaseSchema = z.object({
+  name: z.string().min(1),
+  chainId: z.number().int().positive(),
+  rpcUrlEnv: z.string().min(1).optional(), // Environment variable that overrides the primary
+  rpcQuorum: z.number().int().positive().optional(), // Defaults to a majority of the weight
+  blockExplorer: z.string(),
+  confirmations: z.number().int().min(1),
+  deployment: z.string().min(1).optional(), // e.g. a local network sharing another's node
+  fees: feesSchema.optional(),
+});
+
+const networkSchema = z
+  .union(
+    [
+      networkBaseSchema.extend({ rpcUrl: z.string().url(), rpcEndpoints: z.undefined() }),
+      networkBaseSchema.extend({
+        rpcUrl: z.undefined(),
+        rpcEndpoints: z.array(rpcEndpointSchema).min(1),
+      }),
+    ],
+    { error: 'Set either rpcUrl or rpcEndpoints' }
+  )
+  .refine(
+    (network) =>
+      network.rpcQuorum === undefined ||
+      network.rpcQuorum <= totalWeight(network.rpcEndpoints ?? [{ weight: 1 }]),
+    'rpcQuorum exceeds the total endpoint weight'
+  );
+
+const networksFileSchema = z
+  .record(z.string().regex(/^[a-z0-9-]+$/, 'Network names are lowercase'), networkSchema)
+  .refine((networks) => Object.keys(networks).length > 0, 'At least one network is required');
+
+let networks: Record<string, NetworkConfig> | undefined;
+
+function totalWeight(endpoints: { weight: number }[]): number {
+  return endpoints.reduce((total, endpoint) => total + endpoint.weight, 0);
+}
+
+function toWei(gwei: number | undefined): bigint | undefined {
+  return gwei === undefined ? undefined : ethers.parseUnits(gwei.toFixed(9), 'gwei');
+}
+
+function toFeeStrategy(fees: z.infer<typeof feesSchema> | undefined): FeeStrategy {
+  return {
+    maxFeePerGas: toWei(fees?.maxFeeGwei),
+    maxPriorityFeePerGas: toWei(fees?.priorityFeeGwei),
+    deferralMs: fees ? fees.deferralSeconds * 1000 : CONSTANTS.BLOCKCHAIN.FEE_DEFERRAL_WINDOW,
+  };
+}
 
 /**
- * Get network configuration for a specific network
- * Falls back to Sepolia if network not found
+ * Read and validate the networks file (cached after the first call)
  */
-export function getNetworkConfig(network: string = 'sepolia'): NetworkConfig {
-  const networkConfig = NETWORKS[network as keyof typeof NETWORKS] || NETWORKS.sepolia;
-
-  // Allow RPC URL override via environment variable
-  if (process.env.BLOCKCHAIN_RPC_URL) {
-    return {
-      ...networkConfig,
-      rpcUrl: process.env.BLOCKCHAIN_RPC_URL,
-    };
+function loadNetworks(): Record<string, NetworkConfig> {
+  if (networks) {
+    return networks;
   }
 
-  return networkConfig;
+  const filePath =
+    process.env.BLOCKCHAIN_NETWORKS_FILE || path.join(__dirname, '../../networks.json');
+
+  let parsed: z.infer<typeof networksFileSchema>;
+  try {
+    parsed = networksFileSchema.parse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  } catch (error) {
+    const reason =
+      error instanceof z.ZodError
+        ? error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    throw new Error(`Invalid blockchain networks file ${filePath}: ${reason}`);
+  }
+
+  const defaultNetwork = process.env.BLOCKCHAIN_NETWORK || DEFAULT_NETWORK;
+
+  networks = Object.fromEntries(
+    Object.entries(parsed).map(([key, { rpcUrlEnv, rpcQuorum, deployment, fees, ...network }]) => {
+      // Each listed endpoint's urlEnv overrides its url
+      const endpoints: RpcEndpointConfig[] =
+        network.rpcUrl === undefined
+          ? network.rpcEndpoints.map(({ url, urlEnv, weight, timeout }) => ({
+              url: (urlEnv && process.env[urlEnv]) || url,
+              weight,
+              timeout,
+            }))
+          : [{ url: network.rpcUrl, weight: 1, timeout: CONSTANTS.BLOCKCHAIN.RPC_REQUEST_TIMEOUT }];
+
+      const primaryUrl =
+        (key === defaultNetwork && process.env.BLOCKCHAIN_RPC_URL) ||
+        (rpcUrlEnv && process.env[rpcUrlEnv]);
+      if (primaryUrl) {
+        endpoints[0] = { ...endpoints[0], url: primaryUrl };
+      }
+
+      return [
+        key,
+        {
+          ...network,
+          deployment: deployment ?? key,
+          rpcUrl: endpoints[0].url,
+          rpcEndpoints: endpoints,
+          rpcQuorum: rpcQuorum ?? Math.floor(totalWeight(endpoints) / 2) + 1,
+          fees: toFeeStrategy(fees),
+        },
+      ];
+    })
+  );
+
+  return networks;
 }
 
 /**
- * Export default configuration (Sepolia)
+ * Names of all configured networks
  */
-export const defaultNetwork = getNetworkConfig('sepolia');
+export function getNetworkNames(): string[] {
+  return Object.keys(loadNetworks());
+}
+
+/**
+ * Get network configuration for a specific network
+ * Throws for a network that isn't in the networks file
+ */
+export function getNetworkConfig(network: string): NetworkConfig {
+  const networkConfig = loadNetworks()[network];
+
+  if (!networkConfig) {
+    throw new Error(
+      `Unknown blockchain network: ${network} (configured: ${getNetworkNames().join(', ')})`
+    );
+  }
+
+  return networkConfig;
+}
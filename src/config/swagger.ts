@@ -185,6 +185,11 @@ Access tokens expire in 15 minutes. Use the refresh token endpoint to get a new
               enum: ['user', 'admin'],
               example: 'user',
             },
+            walletAddress: {
+              type: 'string',
+              example: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+              description: "Linked wallet; owns the user's todos on chain",
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -192,6 +197,62 @@ Access tokens expire in 15 minutes. Use the refresh token endpoint to get a new
             },
           },
         },
+        WalletApprovalRequest: {
+          type: 'object',
+          required: ['address'],
+          properties: {
+            address: {
+              type: 'string',
+              example: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+            },
+            network: {
+              type: 'string',
+              example: 'sepolia',
+              description:
+                'Network whose registry records the approval (defaults to BLOCKCHAIN_NETWORK)',
+            },
+          },
+        },
+        SiweVerifyRequest: {
+          type: 'object',
+          required: ['message', 'signature'],
+          properties: {
+            message: {
+              type: 'string',
+              description:
+                "EIP-4361 message as signed, naming SIWE_DOMAIN, an enabled network's chain ID and a nonce from /auth/siwe/nonce",
+              example:
+                'localhost:3000 wants you to sign in with your Ethereum account:\n0x70997970C51812dc3A010C7d01b50e0d17dc79C8\n\nSign in to Todo\n\nURI: http://localhost:3000\nVersion: 1\nChain ID: 31337\nNonce: 5f2b8c0e9a7d41c6b3e0f18d2a6c947e\nIssued At: 2025-12-27T17:16:35.289Z',
+            },
+            signature: {
+              type: 'string',
+              description: 'personal_sign (EIP-191) signature of the message',
+            },
+          },
+        },
+        LinkWalletRequest: {
+          type: 'object',
+          required: ['address', 'deadline', 'signature'],
+          properties: {
+            address: {
+              type: 'string',
+              example: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+            },
+            network: {
+              type: 'string',
+              example: 'sepolia',
+            },
+            deadline: {
+              type: 'integer',
+              example: 1767225600,
+              description: 'message.deadline of the approval request',
+            },
+            signature: {
+              type: 'string',
+              description: 'eth_signTypedData_v4 signature of the approval request',
+            },
+          },
+        },
 
         // Todo Schemas
         CreateTodoRequest: {
@@ -223,6 +284,12 @@ Access tokens expire in 15 minutes. Use the refresh token endpoint to get a new
               example: '2025-12-31T23:59:59Z',
               description: 'ISO 8601 datetime',
             },
+            network: {
+              type: 'string',
+              example: 'sepolia',
+              description:
+                'Network to anchor the todo on (any enabled network; defaults to BLOCKCHAIN_NETWORK). Cannot be changed later',
+            },
           },
         },
         UpdateTodoRequest: {
@@ -297,9 +364,34 @@ Access tokens expire in 15 minutes. Use the refresh token endpoint to get a new
             },
             blockchainSyncStatus: {
               type: 'string',
-              enum: ['pending', 'synced', 'failed'],
+              enum: ['pending', 'confirming', 'synced', 'failed', 'local-only'],
               example: 'synced',
-              description: 'Status of blockchain synchronization',
+              description:
+                'Status of blockchain synchronization (confirming: mined, waiting for the network confirmation depth; local-only: kept in MongoDB only because anchoring is disabled)',
+            },
+            blockchainNetwork: {
+              type: 'string',
+              example: 'sepolia',
+              description: 'Network the todo is anchored on (absent = BLOCKCHAIN_NETWORK)',
+            },
+            recoveryStatus: {
+              type: 'string',
+              enum: ['authentic', 'outdated', 'unmatched', 'unanchored'],
+              example: 'authentic',
+              description:
+                'Set on todos restored by npm run recover: how the backup copy compared with its on-chain anchors',
+            },
+            blockchainChainId: {
+              type: 'integer',
+              nullable: true,
+              example: 11155111,
+              description: 'Chain ID blockchainHash was anchored on',
+            },
+            blockchainContractAddress: {
+              type: 'string',
+              nullable: true,
+              example: '0x24907eC5abCEeD2FfC0b0db9DFDee98898a85172',
+              description: 'TodoRegistry deployment blockchainHash was anchored to',
             },
             blockchainHash: {
               type: 'string',
@@ -307,12 +399,33 @@ Access tokens expire in 15 minutes. Use the refresh token endpoint to get a new
               example: '0x7f5e37ed8c5a5b4c9d3e2f1a0b9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1c',
               description: 'SHA256 hash stored on blockchain',
             },
+            hashVersion: {
+              type: 'integer',
+              enum: [1, 2],
+              nullable: true,
+              example: 2,
+              description:
+                'Hashing scheme that produced blockchainHash (1: legacy field join, 2: RFC 8785 canonical JSON; absent = 1)',
+            },
+            hashAlgorithm: {
+              type: 'string',
+              enum: ['sha256', 'keccak256'],
+              nullable: true,
+              example: 'sha256',
+              description: 'Digest that produced blockchainHash (absent = sha256)',
+            },
             blockchainTxHash: {
               type: 'string',
               nullable: true,
               example: '0xa9952bc1b94e84322657b11e08a2bcbf714771717ea25d8e9bfad0b7e463b14f',
               description: 'Ethereum transaction hash',
             },
+            blockchainBlockNumber: {
+              type: 'integer',
+              nullable: true,
+              example: 9876543,
+              description: 'Block the transaction was mined in (latest receipt)',
+            },
             blockchainSyncedAt: {
               type: 'string',
               format: 'date-time',
@@ -404,10 +517,28 @@ Access tokens expire in 15 minutes. Use the refresh token endpoint to get a new
               type: 'object',
               properties: {
                 isValid: {
+                  type: 'boolean',
+                  example: true,
+                  description: 'True if the hash matches and deletion state agrees',
+                },
+                hashMatches: {
                   type: 'boolean',
                   example: true,
                   description: 'True if MongoDB hash matches blockchain hash',
                 },
+                deletionMismatch: {
+                  type: 'boolean',
+                  example: false,
+                  description: 'True if MongoDB isDeleted disagrees with on-chain isDeleted',
+                },
+                mongoIsDeleted: {
+                  type: 'boolean',
+                  example: false,
+                },
+                blockchainSyncStatus: {
+                  type: 'string',
+                  example: 'synced',
+                },
                 mongoHash: {
                   type: 'string',
                   example: '0x7f5e37ed8c5a5b4c9d3e2f1a0b9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1c',
@@ -418,13 +549,36 @@ Access tokens expire in 15 minutes. Use the refresh token endpoint to get a new
                   example: '0x7f5e37ed8c5a5b4c9d3e2f1a0b9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1c',
                   description: 'Hash stored on blockchain (immutable)',
                 },
+                hashVersion: {
+                  type: 'integer',
+                  enum: [1, 2],
+                  example: 2,
+                  description: 'Hashing scheme of the anchored hash, used to compute mongoHash',
+                },
+                hashAlgorithm: {
+                  type: 'string',
+                  enum: ['sha256', 'keccak256'],
+                  example: 'sha256',
+                },
+                salted: {
+                  type: 'boolean',
+                  example: true,
+                  description: 'Whether the anchored hash commits to a per-todo salt',
+                },
+                anchorMode: {
+                  type: 'string',
+                  enum: ['per-todo', 'batch'],
+                  example: 'per-todo',
+                  description:
+                    'How the todo was last anchored: its own record, or a Merkle batch (verified by proof)',
+                },
                 blockchainData: {
                   type: 'object',
                   properties: {
                     owner: {
                       type: 'string',
                       example: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
-                      description: 'Ethereum address of owner',
+                      description: 'Ethereum address of owner (per-todo mode)',
                     },
                     timestamp: {
                       type: 'string',
@@ -435,6 +589,292 @@ Access tokens expire in 15 minutes. Use the refresh token endpoint to get a new
                       type: 'boolean',
                       example: false,
                     },
+                    batchId: {
+                      type: 'integer',
+                      example: 42,
+                      description: 'Anchored batch (batch mode)',
+                    },
+                    merkleRoot: {
+                      type: 'string',
+                      description: 'Batch root stored on blockchain (batch mode)',
+                    },
+                    merkleProof: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Sibling hashes from the leaf to the root (batch mode)',
+                    },
+                    leaf: {
+                      type: 'string',
+                      description:
+                        'keccak256(abi.encode(todoId, mongoHash, isDeleted)) (batch mode)',
+                    },
+                    batchSize: { type: 'integer', example: 37 },
+                    submitter: {
+                      type: 'string',
+                      description: 'Wallet that anchored the batch (batch mode)',
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        HistoryResponse: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: true,
+            },
+            data: {
+              type: 'object',
+              properties: {
+                todoId: { type: 'string', example: '6950a1b2c3d4e5f6a7b8c9d0' },
+                isDeleted: { type: 'boolean', example: false },
+                blockchainSyncStatus: { type: 'string', example: 'synced' },
+                currentHash: {
+                  type: 'string',
+                  example: '0x7f5e37ed8c5a5b4c9d3e2f1a0b9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1c',
+                },
+                timeline: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      operation: {
+                        type: 'string',
+                        enum: ['create', 'update', 'delete', 'restore'],
+                      },
+                      status: { type: 'string', enum: ['pending', 'confirmed', 'failed'] },
+                      todoHash: { type: 'string', description: 'Hash written by this operation' },
+                      hashVersion: { type: 'integer', enum: [1, 2] },
+                      hashAlgorithm: { type: 'string', enum: ['sha256', 'keccak256'] },
+                      transactionHash: { type: 'string' },
+                      blockNumber: { type: 'number' },
+                      gasUsed: { type: 'number' },
+                      effectiveGasPrice: { type: 'number', description: 'Wei per gas paid' },
+                      retryCount: { type: 'number' },
+                      errorMessage: { type: 'string' },
+                      createdAt: { type: 'string', format: 'date-time' },
+                      confirmedAt: { type: 'string', format: 'date-time' },
+                      batchId: {
+                        type: 'integer',
+                        description: 'Merkle batch that anchored this operation (batch mode)',
+                      },
+                      recordedInLedger: {
+                        type: 'boolean',
+                        description: 'False for on-chain events with no BlockchainSync record',
+                      },
+                      chainEvent: {
+                        type: 'object',
+                        nullable: true,
+                        properties: {
+                          event: {
+                            type: 'string',
+                            enum: ['TodoCreated', 'TodoUpdated', 'TodoDeleted', 'TodoRestored'],
+                          },
+                          todoHash: { type: 'string' },
+                          oldHash: { type: 'string' },
+                          owner: { type: 'string' },
+                          timestamp: { type: 'string', example: '1766855794' },
+                          blockNumber: { type: 'number' },
+                          transactionHash: { type: 'string' },
+                          logIndex: { type: 'number' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        DriftReportResponse: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: true,
+            },
+            data: {
+              type: 'object',
+              properties: {
+                _id: { type: 'string', example: '6950a1b2c3d4e5f6a7b8c9d0' },
+                status: { type: 'string', enum: ['running', 'completed', 'failed'] },
+                trigger: { type: 'string', enum: ['schedule', 'admin', 'cli'] },
+                triggeredBy: { type: 'string', description: 'Admin user ID (admin runs)' },
+                scanned: { type: 'number', example: 1250 },
+                failedChecks: {
+                  type: 'number',
+                  example: 0,
+                  description: 'Todos that could not be read from the chain',
+                },
+                driftCount: { type: 'number', example: 2 },
+                countsByType: {
+                  type: 'object',
+                  properties: {
+                    tampered_in_db: { type: 'number', example: 1 },
+                    missing_on_chain: { type: 'number', example: 0 },
+                    deletion_mismatch: { type: 'number', example: 1 },
+                    owner_mismatch: { type: 'number', example: 0 },
+                  },
+                },
+                items: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      todoId: { type: 'string' },
+                      userId: { type: 'string' },
+                      types: {
+                        type: 'array',
+                        items: {
+                          type: 'string',
+                          enum: [
+                            'tampered_in_db',
+                            'missing_on_chain',
+                            'deletion_mismatch',
+                            'owner_mismatch',
+                          ],
+                        },
+                      },
+                      anchorMode: { type: 'string', enum: ['per-todo', 'batch'] },
+                      mongoHash: { type: 'string', description: 'Hash recomputed from MongoDB' },
+                      chainHash: { type: 'string', description: 'Hash anchored on chain' },
+                      mongoIsDeleted: { type: 'boolean' },
+                      chainIsDeleted: { type: 'boolean' },
+                      expectedOwner: { type: 'string', description: 'Backend wallet address' },
+                      chainOwner: { type: 'string' },
+                      batchId: { type: 'integer' },
+                    },
+                  },
+                },
+                itemsTruncated: {
+                  type: 'boolean',
+                  description: 'More drift than listed items (counts are still exact)',
+                },
+                errorMessage: { type: 'string', description: 'Why a failed run stopped' },
+                startedAt: { type: 'string', format: 'date-time' },
+                completedAt: { type: 'string', format: 'date-time' },
+              },
+            },
+          },
+        },
+        ProofBundle: {
+          type: 'object',
+          description:
+            'Portable proof of an anchored todo, signed (EIP-191) by the anchoring wallet over the RFC 8785 canonical JSON of every other field',
+          required: [
+            'format',
+            'todoId',
+            'todo',
+            'isDeleted',
+            'hashScheme',
+            'todoHash',
+            'anchor',
+            'issuedAt',
+            'signer',
+            'signature',
+          ],
+          properties: {
+            format: { type: 'string', enum: ['todo-proof/v1'] },
+            todoId: { type: 'string', example: '507f1f77bcf86cd799439011' },
+            todo: {
+              type: 'object',
+              description: 'Todo content exactly as hashed',
+              properties: {
+                userId: { type: 'string' },
+                title: { type: 'string' },
+                description: { type: 'string', nullable: true },
+                isCompleted: { type: 'boolean' },
+                completedAt: { type: 'string', format: 'date-time', nullable: true },
+                priority: { type: 'string', nullable: true },
+                dueDate: { type: 'string', format: 'date-time', nullable: true },
+                createdAt: { type: 'string', format: 'date-time' },
+              },
+            },
+            isDeleted: { type: 'boolean' },
+            hashScheme: {
+              type: 'object',
+              properties: {
+                version: { type: 'integer', enum: [1, 2] },
+                algorithm: { type: 'string', enum: ['sha256', 'keccak256'] },
+                salt: { type: 'string', description: 'Commitment salt (salted hashes only)' },
+              },
+            },
+            todoHash: { type: 'string' },
+            anchor: {
+              type: 'object',
+              properties: {
+                mode: { type: 'string', enum: ['per-todo', 'batch'] },
+                chainId: { type: 'integer', example: 11155111 },
+                contractAddress: { type: 'string' },
+                transactionHash: { type: 'string' },
+                blockNumber: { type: 'integer' },
+                batchId: { type: 'integer', description: 'Batch mode only' },
+                merkleRoot: { type: 'string', description: 'Batch mode only' },
+                merkleProof: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Batch mode only',
+                },
+              },
+            },
+            issuedAt: { type: 'string', format: 'date-time' },
+            signer: { type: 'string', description: 'Backend wallet address' },
+            signature: { type: 'string' },
+          },
+        },
+        ProofBundleResponse: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: true,
+            },
+            data: {
+              $ref: '#/components/schemas/ProofBundle',
+            },
+          },
+        },
+        ProofVerificationResponse: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: true,
+            },
+            data: {
+              type: 'object',
+              properties: {
+                isValid: { type: 'boolean', description: 'Every check passed' },
+                checks: {
+                  type: 'object',
+                  properties: {
+                    hashMatchesData: { type: 'boolean' },
+                    signatureValid: { type: 'boolean' },
+                    signerTrusted: {
+                      type: 'boolean',
+                      description: "The signer is this deployment's anchoring wallet",
+                    },
+                    signerIsAnchorOwner: { type: 'boolean' },
+                    transactionConfirmed: { type: 'boolean' },
+                    anchoredOnChain: { type: 'boolean' },
+                  },
+                },
+                currentOnChain: {
+                  type: 'boolean',
+                  nullable: true,
+                  description:
+                    'Per-todo: the proven hash and deletion state are still the latest (null for batches)',
+                },
+                confirmations: { type: 'number' },
+                chain: {
+                  type: 'object',
+                  properties: {
+                    owner: { type: 'string', nullable: true },
+                    todoHash: { type: 'string', nullable: true },
+                    isDeleted: { type: 'boolean', nullable: true },
                   },
                 },
               },
@@ -521,6 +961,10 @@ Access tokens expire in 15 minutes. Use the refresh token endpoint to get a new
         name: 'Blockchain',
         description: 'Blockchain-specific operations',
       },
+      {
+        name: 'Admin',
+        description: 'Administrative operations (admin role required)',
+      },
     ],
     paths: {
       '/auth/register': {
@@ -679,52 +1123,67 @@ Access tokens expire in 15 minutes. Use the refresh token endpoint to get a new
           },
         },
       },
-      '/auth/logout': {
+      '/auth/siwe/nonce': {
         post: {
           tags: ['Authentication'],
-          summary: 'Logout user',
-          description: 'Invalidate current refresh token',
-          security: [{ bearerAuth: [] }],
+          summary: 'Get a Sign-In with Ethereum nonce',
+          description: 'Single-use nonce to put in the EIP-4361 message (valid for 10 minutes)',
+          responses: {
+            '200': {
+              description: 'Nonce issued (nonce, expiresAt)',
+            },
+          },
+        },
+      },
+      '/auth/siwe/verify': {
+        post: {
+          tags: ['Authentication'],
+          summary: 'Sign in with Ethereum',
+          description:
+            'Log in with a signed EIP-4361 message. Logs in the user the wallet is linked to, or creates an account (no email or password) for a new wallet.',
           requestBody: {
             required: true,
             content: {
               'application/json': {
                 schema: {
-                  type: 'object',
-                  required: ['refreshToken'],
-                  properties: {
-                    refreshToken: {
-                      type: 'string',
-                      example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
-                    },
-                  },
+                  $ref: '#/components/schemas/SiweVerifyRequest',
                 },
               },
             },
           },
           responses: {
             '200': {
-              description: 'Logout successful',
+              description: 'Login successful',
               content: {
                 'application/json': {
                   schema: {
-                    type: 'object',
-                    properties: {
-                      success: {
-                        type: 'boolean',
-                        example: true,
-                      },
-                      message: {
-                        type: 'string',
-                        example: 'Logged out successfully',
-                      },
-                    },
+                    $ref: '#/components/schemas/AuthResponse',
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Malformed message, wrong domain or unsupported chain',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
                   },
                 },
               },
             },
             '401': {
-              description: 'Unauthorized',
+              description: 'Invalid signature, expired message or unknown or used nonce',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '403': {
+              description: 'The account linked to this wallet has been deleted',
               content: {
                 'application/json': {
                   schema: {
@@ -736,21 +1195,242 @@ Access tokens expire in 15 minutes. Use the refresh token endpoint to get a new
           },
         },
       },
-      '/todos': {
-        get: {
-          tags: ['Todos'],
-          summary: 'Get all todos',
-          description: 'Retrieve paginated list of todos with filtering and sorting',
+      '/auth/siwe/link': {
+        post: {
+          tags: ['Authentication'],
+          summary: 'Link a wallet with Sign-In with Ethereum',
+          description:
+            'Link the wallet that signed the message to the current account, so it can sign in with it. Its todos are owned by it once it has also approved the anchoring wallet (/auth/wallet).',
           security: [{ bearerAuth: [] }],
-          parameters: [
-            {
-              name: 'page',
-              in: 'query',
-              schema: { type: 'number', default: 1 },
-              description: 'Page number',
-            },
-            {
-              name: 'limit',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/SiweVerifyRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Wallet linked (walletAddress)',
+            },
+            '400': {
+              description: 'Malformed message, wrong domain or unsupported chain',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Invalid signature, expired message or unknown or used nonce',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '409': {
+              description: 'Wallet is linked to another account',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/auth/wallet/approval-request': {
+        post: {
+          tags: ['Authentication'],
+          summary: 'Get a wallet approval to sign',
+          description:
+            "EIP-712 typed data approving the anchoring wallet as the operator of the wallet's todos. Sign it with eth_signTypedData_v4 and submit it to /auth/wallet before message.deadline.",
+          security: [{ bearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/WalletApprovalRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Typed data (domain, types, primaryType, message)',
+            },
+            '400': {
+              description: "The network's registry does not support wallet ownership",
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '409': {
+              description: 'Wallet is linked to another account',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/auth/wallet': {
+        post: {
+          tags: ['Authentication'],
+          summary: 'Link a wallet',
+          description:
+            'Relays the signed approval to the registry and links the wallet. Todos anchored afterwards are owned by the wallet on chain.',
+          security: [{ bearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/LinkWalletRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Wallet linked (walletAddress, network, txHash)',
+            },
+            '400': {
+              description: 'Invalid or expired signature',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '409': {
+              description: 'Wallet is linked to another account',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+        delete: {
+          tags: ['Authentication'],
+          summary: 'Unlink the wallet',
+          description:
+            'New todos are anchored under the backend wallet again; todos the wallet owns stay its own on chain. Accounts created by signing in with the wallet cannot unlink it.',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            '200': {
+              description: 'Wallet unlinked',
+            },
+            '400': {
+              description: 'No wallet is linked, or it is the only way the account signs in',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/auth/logout': {
+        post: {
+          tags: ['Authentication'],
+          summary: 'Logout user',
+          description: 'Invalidate current refresh token',
+          security: [{ bearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['refreshToken'],
+                  properties: {
+                    refreshToken: {
+                      type: 'string',
+                      example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Logout successful',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                        example: true,
+                      },
+                      message: {
+                        type: 'string',
+                        example: 'Logged out successfully',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/todos': {
+        get: {
+          tags: ['Todos'],
+          summary: 'Get all todos',
+          description: 'Retrieve paginated list of todos with filtering and sorting',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            {
+              name: 'page',
+              in: 'query',
+              schema: { type: 'number', default: 1 },
+              description: 'Page number',
+            },
+            {
+              name: 'limit',
               in: 'query',
               schema: { type: 'number', default: 10 },
               description: 'Items per page',
@@ -804,7 +1484,10 @@ Access tokens expire in 15 minutes. Use the refresh token endpoint to get a new
             {
               name: 'blockchainSyncStatus',
               in: 'query',
-              schema: { type: 'string', enum: ['pending', 'synced', 'failed'] },
+              schema: {
+                type: 'string',
+                enum: ['pending', 'confirming', 'synced', 'failed', 'local-only'],
+              },
               description: 'Filter by blockchain sync status',
             },
           ],
@@ -1208,7 +1891,27 @@ Access tokens expire in 15 minutes. Use the refresh token endpoint to get a new
               },
             },
             '400': {
-              description: 'Todo not synced to blockchain yet',
+              description: 'Todo never anchored to blockchain, or kept local-only (LOCAL_ONLY)',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Todo not found',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
               content: {
                 'application/json': {
                   schema: {
@@ -1217,6 +1920,36 @@ Access tokens expire in 15 minutes. Use the refresh token endpoint to get a new
                 },
               },
             },
+          },
+        },
+      },
+      '/todos/{id}/history': {
+        get: {
+          tags: ['Todos', 'Blockchain'],
+          summary: 'Get todo anchoring history',
+          description:
+            'Complete anchoring timeline: BlockchainSync ledger entries merged with TodoRegistry events',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Todo ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'History retrieved',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/HistoryResponse',
+                  },
+                },
+              },
+            },
             '404': {
               description: 'Todo not found',
               content: {
@@ -1240,6 +1973,484 @@ Access tokens expire in 15 minutes. Use the refresh token endpoint to get a new
           },
         },
       },
+      '/todos/{id}/proof': {
+        get: {
+          tags: ['Todos', 'Blockchain'],
+          summary: 'Get a signed proof bundle',
+          description:
+            "Signed, portable proof of the todo's anchored state that anyone can check with POST /verify",
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Todo ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Proof bundle generated',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ProofBundleResponse',
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Todo not anchored yet',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Todo not found',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '409': {
+              description: 'Todo data no longer matches its anchored hash',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/verify': {
+        post: {
+          tags: ['Blockchain'],
+          summary: 'Verify a proof bundle',
+          description:
+            "Public (no account needed, rate limited): checks a proof bundle's hash, signature and anchor against TodoRegistry",
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/ProofBundle',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Verification complete (see isValid and checks)',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ProofVerificationResponse',
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Proof was not anchored by this deployment',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '422': {
+              description: 'Malformed proof bundle',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '429': {
+              description: 'Too many verification requests',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/admin/reconciliation/reports/latest': {
+        get: {
+          tags: ['Admin', 'Blockchain'],
+          summary: 'Get the latest drift report',
+          description:
+            'Latest completed Mongo-vs-chain reconciliation: every SYNCED todo checked against its anchor',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            '200': {
+              description: 'Drift report retrieved',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/DriftReportResponse',
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'No completed reconciliation yet',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '403': {
+              description: 'Admin role required',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/admin/reconciliation/reports/{id}': {
+        get: {
+          tags: ['Admin', 'Blockchain'],
+          summary: 'Get a drift report',
+          description: 'A reconciliation report by ID, including running and failed runs',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Report ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Drift report retrieved',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/DriftReportResponse',
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Report not found',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '403': {
+              description: 'Admin role required',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/admin/reconciliation/runs': {
+        post: {
+          tags: ['Admin', 'Blockchain'],
+          summary: 'Start a reconciliation run',
+          description:
+            'Starts a reconciliation in the background and returns its running report; poll it by ID',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            '202': {
+              description: 'Reconciliation started',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/DriftReportResponse',
+                  },
+                },
+              },
+            },
+            '409': {
+              description: 'A reconciliation run is already in progress',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '403': {
+              description: 'Admin role required',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/admin/gas-costs': {
+        get: {
+          tags: ['Admin', 'Blockchain'],
+          summary: 'Get gas costs',
+          description:
+            'Gas used and cost of confirmed anchoring operations on a network, in total and by user (top 100), operation type and UTC day. Batch operations count their share of the batch transaction.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            {
+              name: 'from',
+              in: 'query',
+              schema: { type: 'string', format: 'date-time' },
+              description: 'Start (default: start of the current month, UTC)',
+            },
+            {
+              name: 'to',
+              in: 'query',
+              schema: { type: 'string', format: 'date-time' },
+              description: 'End, exclusive (default: now)',
+            },
+            {
+              name: 'network',
+              in: 'query',
+              schema: { type: 'string' },
+              description: 'Network (default: BLOCKCHAIN_NETWORK)',
+            },
+          ],
+          responses: {
+            '200': {
+              description:
+                'Gas cost report (network, from, to, total, byUser, byOperation, byDay); each line has operations, gasUsed, costWei and costEth',
+            },
+            '400': {
+              description: 'Invalid date, date range or network',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '403': {
+              description: 'Admin role required',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/admin/users/{id}/gas-budget': {
+        get: {
+          tags: ['Admin', 'Blockchain'],
+          summary: "Get a user's gas budget",
+          description: "The user's monthly gas budget and the gas their operations used this month",
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'User ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Budget status (monthlyGasBudget, gasUsedThisMonth, deferredUntil)',
+            },
+            '401': {
+              description: 'Unauthorized',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '403': {
+              description: 'Admin role required',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'User not found',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+        put: {
+          tags: ['Admin', 'Blockchain'],
+          summary: "Set a user's gas budget",
+          description:
+            "Gas units per calendar month (UTC), across all networks. Once used up, the user's chain operations are deferred to the next month. Setting it releases todos deferred under the old budget.",
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'User ID',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['monthlyGasBudget'],
+                  properties: {
+                    monthlyGasBudget: {
+                      type: 'integer',
+                      nullable: true,
+                      example: 5000000,
+                      description: 'null removes the budget',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Budget updated (budget status plus releasedTodos)',
+            },
+            '401': {
+              description: 'Unauthorized',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '403': {
+              description: 'Admin role required',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'User not found',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
     },
   },
   apis: [], // We're using the definition above instead of file scanning
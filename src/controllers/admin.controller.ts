@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import { ReconciliationService } from '../services/reconciliation.service';
+import { GasAccountingService } from '../services/gas-accounting.service';
+import { GasBudgetDTO } from '../dtos/admin/gas-budget.dto';
+import { ApiError } from '../utils/api-error';
+import { ApiResponse } from '../utils/api-response';
+import { asyncHandler } from '../utils/async-handler';
+
+export class AdminController {
+  private reconciliationService: ReconciliationService;
+  private gasAccountingService: GasAccountingService;
+
+  constructor() {
+    this.reconciliationService = new ReconciliationService();
+    this.gasAccountingService = new GasAccountingService();
+
+    // Bind methods to preserve 'this' context
+    this.getLatestReconciliationReport = this.getLatestReconciliationReport.bind(this);
+    this.getReconciliationReport = this.getReconciliationReport.bind(this);
+    this.triggerReconciliation = this.triggerReconciliation.bind(this);
+    this.getGasCosts = this.getGasCosts.bind(this);
+    this.getGasBudget = this.getGasBudget.bind(this);
+    this.setGasBudget = this.setGasBudget.bind(this);
+  }
+
+  /**
+   * Get the latest completed drift report
+   * GET /api/v1/admin/reconciliation/reports/latest
+   */
+  getLatestReconciliationReport = asyncHandler(async (_req: Request, res: Response) => {
+    const report = await this.reconciliationService.getLatestReport();
+
+    ApiResponse.success(res, report, 'Drift report retrieved successfully');
+  });
+
+  /**
+   * Get a drift report by ID (running, completed or failed)
+   * GET /api/v1/admin/reconciliation/reports/:id
+   */
+  getReconciliationReport = asyncHandler(async (req: Request, res: Response) => {
+    const report = await this.reconciliationService.getReport(req.params.id);
+
+    ApiResponse.success(res, report, 'Drift report retrieved successfully');
+  });
+
+  /**
+   * Start a reconciliation run in the background
+   * POST /api/v1/admin/reconciliation/runs
+   *
+   * Responds 202 with the running report; poll it by ID for the result
+   */
+  triggerReconciliation = asyncHandler(async (req: Request, res: Response) => {
+    const adminId = req.user!._id.toString();
+
+    const report = await this.reconciliationService.start('admin', adminId);
+
+    ApiResponse.success(res, report, 'Reconciliation started', 202);
+  });
+
+  /**
+   * Get gas spent on anchoring by user, operation type and day
+   * GET /api/v1/admin/gas-costs
+   *
+   * Query params:
+   * - from: ISO date (default: start of the current month, UTC)
+   * - to: ISO date (default: now)
+   * - network: string (default: BLOCKCHAIN_NETWORK)
+   */
+  getGasCosts = asyncHandler(async (req: Request, res: Response) => {
+    const report = await this.gasAccountingService.getCostReport({
+      from: parseDateParam(req.query.from, 'from'),
+      to: parseDateParam(req.query.to, 'to'),
+      network: req.query.network as string | undefined,
+    });
+
+    ApiResponse.success(res, report, 'Gas costs retrieved successfully');
+  });
+
+  /**
+   * Get a user's monthly gas budget and this month's usage
+   * GET /api/v1/admin/users/:id/gas-budget
+   */
+  getGasBudget = asyncHandler(async (req: Request, res: Response) => {
+    const budget = await this.gasAccountingService.getBudget(req.params.id);
+
+    ApiResponse.success(res, budget, 'Gas budget retrieved successfully');
+  });
+
+  /**
+   * Set or remove a user's monthly gas budget
+   * PUT /api/v1/admin/users/:id/gas-budget
+   */
+  setGasBudget = asyncHandler(async (req: Request, res: Response) => {
+    const { monthlyGasBudget } = req.body as GasBudgetDTO;
+
+    const budget = await this.gasAccountingService.setMonthlyBudget(
+      req.params.id,
+      monthlyGasBudget
+    );
+
+    ApiResponse.success(res, budget, 'Gas budget updated successfully');
+  });
+}
+
+const parseDateParam = (value: unknown, name: string): Date | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const date = new Date(value as string);
+
+  if (Number.isNaN(date.getTime())) {
+    throw ApiError.badRequest(`${name} must be an ISO date`, 'INVALID_DATE');
+  }
+
+  return date;
+};
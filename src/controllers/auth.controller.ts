@@ -1,21 +1,32 @@
 import { Request, Response } from 'express';
 import { AuthService } from '../services/auth.service';
+import { WalletService } from '../services/wallet.service';
 import { ApiResponse } from '../utils/api-response';
 import { asyncHandler } from '../middleware/async-handler.middleware';
 import { RegisterDTO } from '../dtos/auth/register.dto';
 import { LoginDTO } from '../dtos/auth/login.dto';
+import { LinkWalletDTO, WalletApprovalRequestDTO } from '../dtos/auth/wallet.dto';
+import { SiweVerifyDTO } from '../dtos/auth/siwe.dto';
 
 export class AuthController {
   private authService: AuthService;
+  private walletService: WalletService;
 
   constructor() {
     this.authService = new AuthService();
+    this.walletService = new WalletService();
 
     this.register = this.register.bind(this);
     this.login = this.login.bind(this);
     this.refreshToken = this.refreshToken.bind(this);
     this.logout = this.logout.bind(this);
     this.getCurrentUser = this.getCurrentUser.bind(this);
+    this.getWalletApprovalRequest = this.getWalletApprovalRequest.bind(this);
+    this.linkWallet = this.linkWallet.bind(this);
+    this.getSiweNonce = this.getSiweNonce.bind(this);
+    this.siweLogin = this.siweLogin.bind(this);
+    this.linkSiweWallet = this.linkSiweWallet.bind(this);
+    this.unlinkWallet = this.unlinkWallet.bind(this);
   }
 
   register = asyncHandler(async (req: Request, res: Response) => {
@@ -65,9 +76,56 @@ export class AuthController {
       role: req.user!.role,
       firstName: req.user?.firstName,
       lastName: req.user?.lastName,
+      walletAddress: req.user?.walletAddress,
       createdAt: req.user!.createdAt,
     };
 
     ApiResponse.success(res, user, 'User retrieved successfully');
   });
+
+  getWalletApprovalRequest = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!._id.toString();
+    const request = await this.walletService.getApprovalRequest(
+      userId,
+      req.body as WalletApprovalRequestDTO
+    );
+
+    ApiResponse.success(res, request, 'Sign this approval with the wallet to link it');
+  });
+
+  linkWallet = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!._id.toString();
+    const wallet = await this.walletService.linkWallet(userId, req.body as LinkWalletDTO);
+
+    ApiResponse.success(res, wallet, 'Wallet linked successfully');
+  });
+
+  getSiweNonce = asyncHandler(async (_req: Request, res: Response) => {
+    const nonce = await this.authService.createSiweNonce();
+
+    ApiResponse.success(res, nonce, 'Nonce issued');
+  });
+
+  siweLogin = asyncHandler(async (req: Request, res: Response) => {
+    const result = await this.authService.siweLogin(req.body as SiweVerifyDTO);
+
+    ApiResponse.success(res, result, 'Login successful');
+  });
+
+  linkSiweWallet = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!._id.toString();
+    const walletAddress = await this.walletService.linkSiweWallet(
+      userId,
+      req.body as SiweVerifyDTO
+    );
+
+    ApiResponse.success(res, { walletAddress }, 'Wallet linked successfully');
+  });
+
+  unlinkWallet = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!._id.toString();
+    await this.walletService.unlinkWallet(userId);
+
+    ApiResponse.success(res, null, 'Wallet unlinked successfully');
+  });
 }
@@ -3,3 +3,5 @@
  */
 
 export * from './auth.controller';
+export * from './admin.controller';
+export * from './proof.controller';
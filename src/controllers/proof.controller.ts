@@ -0,0 +1,42 @@
+import { Request, Response } from 'express';
+import { ProofService } from '../services/proof.service';
+import { ProofBundle } from '../services/proof-verifier.service';
+import { ApiResponse } from '../utils/api-response';
+import { asyncHandler } from '../utils/async-handler';
+
+export class ProofController {
+  private proofService: ProofService;
+
+  constructor() {
+    this.proofService = new ProofService();
+
+    // Bind methods to preserve 'this' context
+    this.getTodoProof = this.getTodoProof.bind(this);
+    this.verifyProof = this.verifyProof.bind(this);
+  }
+
+  /**
+   * Get a signed, portable proof bundle for an anchored todo
+   * GET /api/v1/todos/:id/proof
+   */
+  getTodoProof = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!._id.toString();
+    const todoId = req.params.id;
+
+    const proof = await this.proofService.getProof(todoId, userId);
+
+    ApiResponse.success(res, proof, 'Proof bundle generated successfully');
+  });
+
+  /**
+   * Verify a proof bundle against the blockchain (public)
+   * POST /api/v1/verify
+   */
+  verifyProof = asyncHandler(async (req: Request, res: Response) => {
+    const bundle: ProofBundle = req.body;
+
+    const result = await this.proofService.verifyProof(bundle);
+
+    ApiResponse.success(res, result, 'Proof verification complete');
+  });
+}
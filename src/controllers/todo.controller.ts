@@ -21,6 +21,7 @@ export class TodoController {
     this.deleteTodo = this.deleteTodo.bind(this);
     this.restoreTodo = this.restoreTodo.bind(this);
     this.verifyTodo = this.verifyTodo.bind(this);
+    this.getTodoHistory = this.getTodoHistory.bind(this);
     this.getStats = this.getStats.bind(this);
   }
 
@@ -51,7 +52,7 @@ export class TodoController {
    * - search: string (searches title and description)
    * - dueDateFrom: ISO date string
    * - dueDateTo: ISO date string
-   * - blockchainSyncStatus: 'pending' | 'synced' | 'failed'
+   * - blockchainSyncStatus: 'pending' | 'confirming' | 'synced' | 'failed'
    */
   getTodos = asyncHandler(async (req: Request, res: Response) => {
     const userId = req.user!._id.toString();
@@ -182,6 +183,19 @@ export class TodoController {
     ApiResponse.success(res, verification, 'Todo verification complete');
   });
 
+  /**
+   * Get the blockchain anchoring timeline of a todo
+   * GET /api/v1/todos/:id/history
+   */
+  getTodoHistory = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!._id.toString();
+    const todoId = req.params.id;
+
+    const history = await this.todoService.getTodoHistory(todoId, userId);
+
+    ApiResponse.success(res, history, 'Todo history retrieved successfully');
+  });
+
   /**
    * Get user's todo statistics
    * GET /api/v1/todos/stats
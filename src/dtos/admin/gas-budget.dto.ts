@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+/**
+ * GasBudgetDTO - Validation schema for setting a user's monthly gas budget
+ * null removes the budget (anchoring is never deferred)
+ */
+export const gasBudgetSchema = z.object({
+  monthlyGasBudget: z.number().int().nonnegative().nullable(),
+});
+
+export type GasBudgetDTO = z.infer<typeof gasBudgetSchema>;
@@ -0,0 +1 @@
+export * from './gas-budget.dto';
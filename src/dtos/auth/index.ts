@@ -1,2 +1,4 @@
 export * from './register.dto';
 export * from './login.dto';
+export * from './wallet.dto';
+export * from './siwe.dto';
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+/**
+ * SiweVerifyDTO - Validation schema for a signed Sign-In with Ethereum (EIP-4361) message
+ */
+export const siweVerifySchema = z.object({
+  // The exact text the wallet signed
+  message: z.string().min(1, 'Message is required').max(4096, 'Message is too long'),
+
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/, 'Must be a 65-byte hex signature'),
+});
+
+export type SiweVerifyDTO = z.infer<typeof siweVerifySchema>;
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { config } from '../../config';
+
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Must be an Ethereum address');
+
+// Network whose registry records the approval (defaults to BLOCKCHAIN_NETWORK)
+const network = z
+  .enum(config.blockchain.networks as [string, ...string[]], {
+    message: `Network must be one of: ${config.blockchain.networks.join(', ')}`,
+  })
+  .optional();
+
+/**
+ * WalletApprovalRequestDTO - Validation schema for requesting the typed data a wallet signs
+ */
+export const walletApprovalRequestSchema = z.object({
+  address,
+  network,
+});
+
+/**
+ * LinkWalletDTO - Validation schema for linking a wallet with its signed operator approval
+ */
+export const linkWalletSchema = z.object({
+  address,
+  network,
+
+  deadline: z.number().int().positive(),
+
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/, 'Must be a 65-byte hex signature'),
+});
+
+export type WalletApprovalRequestDTO = z.infer<typeof walletApprovalRequestSchema>;
+export type LinkWalletDTO = z.infer<typeof linkWalletSchema>;
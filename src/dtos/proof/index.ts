@@ -0,0 +1 @@
+export * from './verify-proof.dto';
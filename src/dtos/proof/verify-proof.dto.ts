@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { AnchorMode, HashAlgorithm, HashVersion } from '../../types/enums';
+import { PROOF_BUNDLE_FORMAT } from '../../services/proof-verifier.service';
+
+const hex32 = z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'Must be a 32-byte hex string');
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Must be an Ethereum address');
+const isoDate = z.string().datetime();
+
+/**
+ * VerifyProofDTO - Validation schema for a proof bundle submitted for verification
+ * Values are not trimmed or transformed: they must hash and sign exactly as issued
+ */
+export const verifyProofSchema = z.object({
+  format: z.literal(PROOF_BUNDLE_FORMAT),
+
+  todoId: z.string().min(1, 'Todo ID is required').max(64),
+
+  todo: z.object({
+    userId: z.string().min(1).max(64),
+    title: z.string().max(200),
+    description: z.string().max(2000).nullable(),
+    isCompleted: z.boolean(),
+    completedAt: isoDate.nullable(),
+    priority: z.string().max(20).nullable(),
+    dueDate: isoDate.nullable(),
+    createdAt: isoDate,
+  }),
+
+  isDeleted: z.boolean(),
+
+  hashScheme: z.object({
+    version: z.union([z.literal(HashVersion.V1), z.literal(HashVersion.V2)]),
+    algorithm: z.enum([HashAlgorithm.SHA256, HashAlgorithm.KECCAK256]),
+    salt: hex32.optional(),
+  }),
+
+  todoHash: hex32,
+
+  anchor: z.object({
+    mode: z.enum([AnchorMode.PER_TODO, AnchorMode.BATCH]),
+    chainId: z.number().int().positive(),
+    contractAddress: address,
+    transactionHash: hex32,
+    blockNumber: z.number().int().nonnegative(),
+    batchId: z.number().int().positive().optional(),
+    merkleRoot: hex32.optional(),
+    merkleProof: z.array(hex32).max(64).optional(),
+  }),
+
+  issuedAt: isoDate,
+
+  signer: address,
+
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/, 'Must be a 65-byte hex signature'),
+});
+
+export type VerifyProofDTO = z.infer<typeof verifyProofSchema>;
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { TodoPriority } from '../../types/enums';
+import { config } from '../../config';
 
 /**
  * CreateTodoDTO - Validation schema for creating a new todo
@@ -26,6 +27,13 @@ export const createTodoSchema = z.object({
     .datetime()
     .transform((str) => new Date(str))
     .optional(),
+
+  // The one network to anchor on (defaults to BLOCKCHAIN_NETWORK); fixed for the todo's lifetime
+  network: z
+    .enum(config.blockchain.networks as [string, ...string[]], {
+      message: `Network must be one of: ${config.blockchain.networks.join(', ')}`,
+    })
+    .optional(),
 });
 
 export type CreateTodoDTO = z.infer<typeof createTodoSchema>;
@@ -0,0 +1,60 @@
+import { connectDatabase, disconnectDatabase, config } from './config';
+import { EventIndexerJob } from './jobs';
+import { getEventIndexerService } from './services/event-indexer.service';
+import { verifyDeployments } from './services/deployment.service';
+import { AnchorBackendType } from './types/enums';
+import logger from './utils/logger';
+
+/**
+ * Standalone event indexer process
+ *
+ * Usage: npm run indexer [-- --rebuild]
+ * Indexes every enabled network (BLOCKCHAIN_NETWORK plus BLOCKCHAIN_NETWORKS)
+ * --rebuild drops each network's index and backfills from its deploy block
+ */
+const startIndexer = async () => {
+  try {
+    // Only the contract backend has event logs to index
+    if (config.blockchain.backend !== AnchorBackendType.ETHERS) {
+      throw new Error(
+        `The event indexer needs BLOCKCHAIN_BACKEND=ethers (it is ${config.blockchain.backend})`
+      );
+    }
+
+    await connectDatabase();
+
+    // Indexing a different contract's logs would corrupt the index
+    await verifyDeployments();
+
+    const eventIndexerJobs: EventIndexerJob[] = [];
+
+    for (const network of config.blockchain.networks) {
+      const eventIndexerService = getEventIndexerService(network);
+
+      if (process.argv.includes('--rebuild')) {
+        await eventIndexerService.rebuild();
+      }
+
+      eventIndexerJobs.push(new EventIndexerJob(eventIndexerService));
+    }
+
+    eventIndexerJobs.forEach((job) => job.start());
+
+    const shutdown = async (signal: string) => {
+      logger.info(`${signal} received. Stopping indexer...`);
+
+      await Promise.all(eventIndexerJobs.map((job) => job.stop()));
+      await disconnectDatabase();
+
+      logger.info('Indexer terminated');
+    };
+
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+    process.on('SIGINT', () => shutdown('SIGINT'));
+  } catch (error) {
+    logger.error('Failed to start indexer:', error);
+    process.exit(1);
+  }
+};
+
+startIndexer();
@@ -0,0 +1,147 @@
+import { TodoRepository } from '../repositories/todo.repository';
+import { TodoService } from '../services/todo.service';
+import { CircuitOpenError } from '../services/circuit-breaker.service';
+import { CONSTANTS } from '../config/constants';
+import logger from '../utils/logger';
+import { ITodo } from '../models/todo.model';
+
+export interface SyncJobResult {
+  attempted: number;
+  failed: number;
+  parked: number; // Of those attempted, skipped while their network's RPC circuit was open
+}
+
+/**
+ * BlockchainSyncJob
+ * Periodically retries todos whose blockchain sync FAILED or got stuck in PENDING
+ *
+ * - FAILED todos are retried once their backoff delay (RETRY_DELAYS) has elapsed
+ * - PENDING todos with no finished attempt for STUCK_PENDING_THRESHOLD are replayed
+ * - Todos that reached MAX_RETRY_ATTEMPTS are left FAILED for manual inspection
+ * - Todos on a network whose RPC circuit is open are skipped (no retry is used up)
+ */
+export class BlockchainSyncJob {
+  private todoRepository: TodoRepository;
+  private todoService: TodoService;
+  private interval: number;
+  private timer?: NodeJS.Timeout;
+  private currentRun?: Promise<SyncJobResult>;
+  private isStopped = true;
+
+  constructor(
+    todoService: TodoService = new TodoService(),
+    todoRepository: TodoRepository = new TodoRepository(),
+    interval: number = CONSTANTS.BLOCKCHAIN.SYNC_JOB_INTERVAL
+  ) {
+    this.todoService = todoService;
+    this.todoRepository = todoRepository;
+    this.interval = interval;
+  }
+
+  /**
+   * Start the job loop (first run happens after one interval)
+   */
+  start(): void {
+    if (!this.isStopped) {
+      return;
+    }
+
+    this.isStopped = false;
+    this.scheduleNextRun();
+
+    logger.info('Blockchain sync job started', { intervalMs: this.interval });
+  }
+
+  /**
+   * Stop scheduling new runs and wait for the in-flight run to finish
+   */
+  async stop(): Promise<void> {
+    this.isStopped = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    if (this.currentRun) {
+      await this.currentRun.catch(() => undefined);
+    }
+
+    logger.info('Blockchain sync job stopped');
+  }
+
+  /**
+   * Run a single sweep over failed and stuck todos
+   * Runs never overlap: a call while a sweep is in progress joins that sweep
+   */
+  async runOnce(): Promise<SyncJobResult> {
+    if (!this.currentRun) {
+      this.currentRun = this.sweep().finally(() => {
+        this.currentRun = undefined;
+      });
+    }
+
+    return this.currentRun;
+  }
+
+  private scheduleNextRun(): void {
+    if (this.isStopped) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        logger.error('Blockchain sync job run failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        this.scheduleNextRun();
+      }
+    }, this.interval);
+  }
+
+  private async sweep(): Promise<SyncJobResult> {
+    const batchSize = CONSTANTS.BLOCKCHAIN.SYNC_JOB_BATCH_SIZE;
+    const stuckBefore = new Date(Date.now() - CONSTANTS.BLOCKCHAIN.STUCK_PENDING_THRESHOLD);
+
+    const [failed, stuck] = await Promise.all([
+      this.todoRepository.getFailedSyncs(batchSize),
+      this.todoRepository.getStuckPendingSyncs(stuckBefore, batchSize),
+    ]);
+
+    const todos: ITodo[] = [...failed, ...stuck];
+    const result: SyncJobResult = { attempted: 0, failed: 0, parked: 0 };
+
+    // Retry sequentially so a burst of retries doesn't flood the wallet with transactions
+    for (const todo of todos) {
+      if (this.isStopped) {
+        break;
+      }
+
+      result.attempted++;
+
+      try {
+        await this.todoService.retrySync(todo);
+      } catch (error) {
+        if (error instanceof CircuitOpenError) {
+          result.parked++;
+          continue;
+        }
+
+        result.failed++;
+        logger.error('Blockchain sync retry failed', {
+          todoId: todo._id.toString(),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (result.attempted > 0) {
+      logger.info('Blockchain sync job run complete', { ...result });
+    }
+
+    return result;
+  }
+}
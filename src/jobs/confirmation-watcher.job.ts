@@ -0,0 +1,107 @@
+import { TodoService } from '../services/todo.service';
+import { CONSTANTS } from '../config/constants';
+import logger from '../utils/logger';
+
+export interface ConfirmationJobResult {
+  confirmed: number;
+  requeued: number;
+}
+
+/**
+ * ConfirmationWatcherJob
+ * Finalizes CONFIRMING todos once their transaction has the network's confirmation depth
+ *
+ * Receipts are re-read on every run, so a transaction dropped by a reorg (or re-mined
+ * and reverted) is noticed and its operation re-queued through the outbox.
+ */
+export class ConfirmationWatcherJob {
+  private todoService: TodoService;
+  private interval: number;
+  private timer?: NodeJS.Timeout;
+  private currentRun?: Promise<ConfirmationJobResult>;
+  private isStopped = true;
+
+  constructor(
+    todoService: TodoService = new TodoService(),
+    interval: number = CONSTANTS.BLOCKCHAIN.CONFIRMATION_CHECK_INTERVAL
+  ) {
+    this.todoService = todoService;
+    this.interval = interval;
+  }
+
+  /**
+   * Start the watcher loop
+   */
+  start(): void {
+    if (!this.isStopped) {
+      return;
+    }
+
+    this.isStopped = false;
+    this.scheduleNextRun();
+
+    logger.info('Confirmation watcher started', { intervalMs: this.interval });
+  }
+
+  /**
+   * Stop scheduling new runs and wait for the in-flight run to finish
+   */
+  async stop(): Promise<void> {
+    this.isStopped = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    if (this.currentRun) {
+      await this.currentRun.catch(() => undefined);
+    }
+
+    logger.info('Confirmation watcher stopped');
+  }
+
+  /**
+   * Check one page of CONFIRMING todos
+   * Runs never overlap: a call while a check is in progress joins that check
+   */
+  async runOnce(): Promise<ConfirmationJobResult> {
+    if (!this.currentRun) {
+      this.currentRun = this.check().finally(() => {
+        this.currentRun = undefined;
+      });
+    }
+
+    return this.currentRun;
+  }
+
+  private scheduleNextRun(): void {
+    if (this.isStopped) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        logger.error('Confirmation watcher run failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        this.scheduleNextRun();
+      }
+    }, this.interval);
+  }
+
+  private async check(): Promise<ConfirmationJobResult> {
+    const result = await this.todoService.checkConfirmations(
+      CONSTANTS.BLOCKCHAIN.CONFIRMATION_BATCH_SIZE
+    );
+
+    if (result.confirmed > 0 || result.requeued > 0) {
+      logger.info('Confirmation watcher run complete', { ...result });
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,124 @@
+import { EventIndexerService, getEventIndexerService } from '../services/event-indexer.service';
+import { CONSTANTS } from '../config/constants';
+import logger from '../utils/logger';
+
+export interface IndexerJobResult {
+  chunks: number;
+  events: number;
+  lastBlock?: number;
+}
+
+/**
+ * EventIndexerJob
+ * Backfills one network's TodoRegistry event index, then tails new blocks every
+ * INDEXER_POLL_INTERVAL
+ *
+ * Each run indexes chunk after chunk until it reaches the safe head, so a backfill after
+ * an outage catches up in one run (and can be stopped between chunks).
+ */
+export class EventIndexerJob {
+  private eventIndexerService: EventIndexerService;
+  private interval: number;
+  private timer?: NodeJS.Timeout;
+  private currentRun?: Promise<IndexerJobResult>;
+  private isStopped = true;
+
+  constructor(
+    eventIndexerService: EventIndexerService = getEventIndexerService(),
+    interval: number = CONSTANTS.BLOCKCHAIN.INDEXER_POLL_INTERVAL
+  ) {
+    this.eventIndexerService = eventIndexerService;
+    this.interval = interval;
+  }
+
+  /**
+   * Start indexing (the first run starts immediately to backfill)
+   */
+  start(): void {
+    if (!this.isStopped) {
+      return;
+    }
+
+    this.isStopped = false;
+    this.scheduleNextRun(0);
+
+    logger.info('Event indexer started', {
+      network: this.eventIndexerService.getNetwork(),
+      intervalMs: this.interval,
+    });
+  }
+
+  /**
+   * Stop scheduling new runs and wait for the in-flight chunk to finish
+   */
+  async stop(): Promise<void> {
+    this.isStopped = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    if (this.currentRun) {
+      await this.currentRun.catch(() => undefined);
+    }
+
+    logger.info('Event indexer stopped', { network: this.eventIndexerService.getNetwork() });
+  }
+
+  /**
+   * Index until caught up with the safe head
+   * Runs never overlap: a call while a run is in progress joins that run
+   */
+  async runOnce(): Promise<IndexerJobResult> {
+    if (!this.currentRun) {
+      this.currentRun = this.catchUp().finally(() => {
+        this.currentRun = undefined;
+      });
+    }
+
+    return this.currentRun;
+  }
+
+  private scheduleNextRun(delay: number = this.interval): void {
+    if (this.isStopped) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        logger.error('Event indexer run failed', {
+          network: this.eventIndexerService.getNetwork(),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        this.scheduleNextRun();
+      }
+    }, delay);
+  }
+
+  private async catchUp(): Promise<IndexerJobResult> {
+    const result: IndexerJobResult = { chunks: 0, events: 0 };
+
+    // A run from the job loop ends early on stop(); a manual runOnce() goes to the head
+    const isLoopRun = !this.isStopped;
+
+    for (;;) {
+      const chunk = await this.eventIndexerService.syncOnce();
+
+      if (chunk.fromBlock <= chunk.toBlock) {
+        result.chunks++;
+        result.events += chunk.events;
+        result.lastBlock = chunk.toBlock;
+      }
+
+      if (chunk.caughtUp || (isLoopRun && this.isStopped)) {
+        break;
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Background job exports
+ */
+
+export * from './blockchain-sync.job';
+export * from './confirmation-watcher.job';
+export * from './outbox-dispatcher.job';
+export * from './merkle-batch.job';
+export * from './event-indexer.job';
+export * from './reconciliation.job';
@@ -0,0 +1,90 @@
+import { TodoService } from '../services/todo.service';
+import { CONSTANTS } from '../config/constants';
+import logger from '../utils/logger';
+
+/**
+ * MerkleBatchJob
+ * Closes a Merkle batch every BATCH_ANCHOR_INTERVAL (batch anchor mode only)
+ *
+ * Each run anchors the root of up to BATCH_MAX_SIZE queued todos in one transaction.
+ * A failed anchor marks the batch's todos FAILED, and the sync retry job re-queues them.
+ */
+export class MerkleBatchJob {
+  private todoService: TodoService;
+  private interval: number;
+  private timer?: NodeJS.Timeout;
+  private currentRun?: Promise<number>;
+  private isStopped = true;
+
+  constructor(
+    todoService: TodoService = new TodoService(),
+    interval: number = CONSTANTS.BLOCKCHAIN.BATCH_ANCHOR_INTERVAL
+  ) {
+    this.todoService = todoService;
+    this.interval = interval;
+  }
+
+  /**
+   * Start the batch window loop
+   */
+  start(): void {
+    if (!this.isStopped) {
+      return;
+    }
+
+    this.isStopped = false;
+    this.scheduleNextRun();
+
+    logger.info('Merkle batch job started', { intervalMs: this.interval });
+  }
+
+  /**
+   * Stop scheduling new batches and wait for the in-flight batch to finish
+   */
+  async stop(): Promise<void> {
+    this.isStopped = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    if (this.currentRun) {
+      await this.currentRun.catch(() => undefined);
+    }
+
+    logger.info('Merkle batch job stopped');
+  }
+
+  /**
+   * Anchor one batch, returning how many todos it anchored
+   * Runs never overlap: a call while a batch is in progress joins that batch
+   */
+  async runOnce(): Promise<number> {
+    if (!this.currentRun) {
+      this.currentRun = this.todoService.anchorPendingBatch().finally(() => {
+        this.currentRun = undefined;
+      });
+    }
+
+    return this.currentRun;
+  }
+
+  private scheduleNextRun(): void {
+    if (this.isStopped) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        logger.error('Merkle batch job run failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        this.scheduleNextRun();
+      }
+    }, this.interval);
+  }
+}
@@ -0,0 +1,139 @@
+import { OutboxRepository } from '../repositories/outbox.repository';
+import { TodoService } from '../services/todo.service';
+import { CircuitOpenError } from '../services/circuit-breaker.service';
+import { CONSTANTS } from '../config/constants';
+import logger from '../utils/logger';
+
+/**
+ * OutboxDispatcherJob
+ * Drains the blockchain outbox written by TodoService transactions
+ *
+ * Delivery is at-least-once: an entry is only marked dispatched after the chain
+ * operation has been attempted and its outcome recorded on the todo. If the process
+ * dies mid-dispatch the entry's lock expires and it is replayed; BlockchainService
+ * treats operations that already landed on chain as success.
+ *
+ * Entries for a network whose RPC circuit is open are parked until its next probe,
+ * without using up a retry, and drain once the circuit closes.
+ */
+export class OutboxDispatcherJob {
+  private outboxRepository: OutboxRepository;
+  private todoService: TodoService;
+  private interval: number;
+  private timer?: NodeJS.Timeout;
+  private currentRun?: Promise<number>;
+  private isStopped = true;
+
+  constructor(
+    todoService: TodoService = new TodoService(),
+    outboxRepository: OutboxRepository = new OutboxRepository(),
+    interval: number = CONSTANTS.BLOCKCHAIN.OUTBOX_POLL_INTERVAL
+  ) {
+    this.todoService = todoService;
+    this.outboxRepository = outboxRepository;
+    this.interval = interval;
+  }
+
+  /**
+   * Start polling the outbox
+   */
+  start(): void {
+    if (!this.isStopped) {
+      return;
+    }
+
+    this.isStopped = false;
+    this.scheduleNextRun();
+
+    logger.info('Outbox dispatcher started', { intervalMs: this.interval });
+  }
+
+  /**
+   * Stop polling and wait for the in-flight entry to finish
+   */
+  async stop(): Promise<void> {
+    this.isStopped = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    if (this.currentRun) {
+      await this.currentRun.catch(() => undefined);
+    }
+
+    logger.info('Outbox dispatcher stopped');
+  }
+
+  /**
+   * Dispatch up to OUTBOX_BATCH_SIZE entries, returning how many were handled
+   */
+  async runOnce(): Promise<number> {
+    if (!this.currentRun) {
+      this.currentRun = this.drain().finally(() => {
+        this.currentRun = undefined;
+      });
+    }
+
+    return this.currentRun;
+  }
+
+  private scheduleNextRun(): void {
+    if (this.isStopped) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        logger.error('Outbox dispatcher run failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        this.scheduleNextRun();
+      }
+    }, this.interval);
+  }
+
+  private async drain(): Promise<number> {
+    const { OUTBOX_BATCH_SIZE, OUTBOX_LOCK_TIMEOUT, RETRY_DELAYS } = CONSTANTS.BLOCKCHAIN;
+    let handled = 0;
+
+    while (!this.isStopped && handled < OUTBOX_BATCH_SIZE) {
+      const entry = await this.outboxRepository.claimNext(OUTBOX_LOCK_TIMEOUT);
+
+      if (!entry) {
+        break;
+      }
+
+      handled++;
+
+      try {
+        await this.todoService.dispatchOutboxEntry(entry);
+        await this.outboxRepository.markDispatched(entry._id);
+      } catch (error) {
+        if (error instanceof CircuitOpenError) {
+          await this.outboxRepository.park(entry._id, error.message, error.retryAt);
+          continue;
+        }
+
+        // Outcome couldn't be recorded (e.g. MongoDB hiccup) - put it back with backoff
+        const delay = RETRY_DELAYS[Math.min(entry.attempts, RETRY_DELAYS.length - 1)];
+        const message = error instanceof Error ? error.message : String(error);
+
+        await this.outboxRepository.release(entry._id, message, new Date(Date.now() + delay));
+
+        logger.error('Outbox entry dispatch failed', {
+          entryId: entry._id.toString(),
+          todoId: entry.todoId.toString(),
+          operation: entry.operation,
+          error: message,
+        });
+      }
+    }
+
+    return handled;
+  }
+}
@@ -0,0 +1,93 @@
+import { ReconciliationService } from '../services/reconciliation.service';
+import { CONSTANTS } from '../config/constants';
+import logger from '../utils/logger';
+
+/**
+ * ReconciliationJob
+ * Compares all SYNCED todos with the chain every RECONCILIATION_INTERVAL
+ *
+ * Each run writes a drift report (see ReconciliationService). Admins can also start
+ * a run through the API or `npm run reconcile`; overlapping runs are refused.
+ */
+export class ReconciliationJob {
+  private reconciliationService: ReconciliationService;
+  private interval: number;
+  private timer?: NodeJS.Timeout;
+  private currentRun?: Promise<void>;
+  private isStopped = true;
+
+  constructor(
+    reconciliationService: ReconciliationService = new ReconciliationService(),
+    interval: number = CONSTANTS.BLOCKCHAIN.RECONCILIATION_INTERVAL
+  ) {
+    this.reconciliationService = reconciliationService;
+    this.interval = interval;
+  }
+
+  /**
+   * Start the reconciliation schedule
+   */
+  start(): void {
+    if (!this.isStopped) {
+      return;
+    }
+
+    this.isStopped = false;
+    this.scheduleNextRun();
+
+    logger.info('Reconciliation job started', { intervalMs: this.interval });
+  }
+
+  /**
+   * Stop scheduling new runs and wait for the in-flight run to finish
+   */
+  async stop(): Promise<void> {
+    this.isStopped = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    if (this.currentRun) {
+      await this.currentRun.catch(() => undefined);
+    }
+
+    logger.info('Reconciliation job stopped');
+  }
+
+  /**
+   * Run one scheduled reconciliation
+   * Runs never overlap: a call while a run is in progress joins that run
+   */
+  async runOnce(): Promise<void> {
+    if (!this.currentRun) {
+      this.currentRun = this.reconciliationService
+        .run('schedule')
+        .then(() => undefined)
+        .finally(() => {
+          this.currentRun = undefined;
+        });
+    }
+
+    return this.currentRun;
+  }
+
+  private scheduleNextRun(): void {
+    if (this.isStopped) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        logger.error('Reconciliation job run failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        this.scheduleNextRun();
+      }
+    }, this.interval);
+  }
+}
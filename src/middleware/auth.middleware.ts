@@ -7,7 +7,7 @@ import { UserRole } from '../types/enums';
 
 interface TokenPayload {
   userId: string;
-  email: string;
+  email?: string;
   role: UserRole;
 }
 
@@ -3,3 +3,4 @@ export * from './error.middleware';
 export * from './auth.middleware';
 export * from './rbac.middleware';
 export * from './validation.middleware';
+export * from './rate-limit.middleware';
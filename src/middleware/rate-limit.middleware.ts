@@ -0,0 +1,17 @@
+import rateLimit from 'express-rate-limit';
+import { ApiError } from '../utils/api-error';
+import { CONSTANTS } from '../config/constants';
+
+/**
+ * Per-IP limit for the unauthenticated verification endpoint
+ * Rejections go through the error middleware like any other ApiError
+ */
+export const publicVerifyRateLimit = rateLimit({
+  windowMs: CONSTANTS.RATE_LIMIT.PUBLIC_VERIFY.WINDOW_MS,
+  limit: CONSTANTS.RATE_LIMIT.PUBLIC_VERIFY.MAX_REQUESTS,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  handler: (_req, _res, next) => {
+    next(ApiError.tooManyRequests('Too many verification requests, please try again later'));
+  },
+});
@@ -1,17 +1,21 @@
 import mongoose, { Document, Schema } from 'mongoose';
-import { BlockchainSyncOperation } from '../types/enums';
+import { BlockchainSyncOperation, HashAlgorithm, HashVersion } from '../types/enums';
 
 export interface IBlockchainSync extends Document {
   _id: mongoose.Types.ObjectId;
   todoId: mongoose.Types.ObjectId;
   userId: mongoose.Types.ObjectId;
   operation: BlockchainSyncOperation;
+  network?: string; // Network the operation was sent to (absent on rows from before it was recorded)
 
   // Blockchain data
   todoHash: string;
+  hashVersion?: HashVersion; // Scheme that produced todoHash (absent = V1)
+  hashAlgorithm?: HashAlgorithm; // Digest of todoHash (absent = sha256)
   transactionHash?: string;
   blockNumber?: number;
-  gasUsed?: number;
+  gasUsed?: number; // For batch rows, this row's share of the batch transaction
+  effectiveGasPrice?: number; // Wei per gas paid
 
   // Status
   status: 'pending' | 'confirmed' | 'failed';
@@ -45,10 +49,21 @@ const blockchainSyncSchema = new Schema<IBlockchainSync>(
       enum: Object.values(BlockchainSyncOperation),
       required: true,
     },
+    network: {
+      type: String,
+    },
     todoHash: {
       type: String,
       required: true,
     },
+    hashVersion: {
+      type: Number,
+      enum: Object.values(HashVersion).filter((value) => typeof value === 'number'),
+    },
+    hashAlgorithm: {
+      type: String,
+      enum: Object.values(HashAlgorithm),
+    },
     transactionHash: {
       type: String,
       index: true,
@@ -60,6 +75,9 @@ const blockchainSyncSchema = new Schema<IBlockchainSync>(
     gasUsed: {
       type: Number,
     },
+    effectiveGasPrice: {
+      type: Number,
+    },
     status: {
       type: String,
       enum: ['pending', 'confirmed', 'failed'],
@@ -96,6 +114,8 @@ const blockchainSyncSchema = new Schema<IBlockchainSync>(
 blockchainSyncSchema.index({ todoId: 1, createdAt: -1 }); // Audit trail
 blockchainSyncSchema.index({ status: 1, retryCount: 1 }); // For retry jobs
 blockchainSyncSchema.index({ createdAt: 1 }); // For cleanup/archival
+blockchainSyncSchema.index({ status: 1, confirmedAt: 1 }); // Gas cost reports
+blockchainSyncSchema.index({ userId: 1, status: 1, confirmedAt: 1 }); // Monthly gas budgets
 
 export const BlockchainSync = mongoose.model<IBlockchainSync>(
   'BlockchainSync',
@@ -0,0 +1,118 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ChainEventName =
+  | 'TodoCreated'
+  | 'TodoUpdated'
+  | 'TodoDeleted'
+  | 'TodoRestored'
+  | 'BatchAnchored';
+
+export interface IChainEvent extends Document {
+  _id: mongoose.Types.ObjectId;
+  chainId: number;
+  contractAddress: string; // Lowercase
+  event: ChainEventName;
+
+  // todoId is an indexed string in TodoRegistry events: logs only carry keccak256(todoId)
+  todoIdHash?: string;
+  todoHash?: string;
+  oldHash?: string;
+  owner?: string;
+
+  // BatchAnchored
+  batchId?: number;
+  merkleRoot?: string;
+  batchSize?: number;
+
+  // Log position
+  timestamp: number; // Block timestamp emitted by the contract (seconds)
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const chainEventSchema = new Schema<IChainEvent>(
+  {
+    chainId: {
+      type: Number,
+      required: true,
+    },
+    contractAddress: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    event: {
+      type: String,
+      enum: ['TodoCreated', 'TodoUpdated', 'TodoDeleted', 'TodoRestored', 'BatchAnchored'],
+      required: true,
+    },
+    todoIdHash: {
+      type: String,
+    },
+    todoHash: {
+      type: String,
+    },
+    oldHash: {
+      type: String,
+    },
+    owner: {
+      type: String,
+    },
+    batchId: {
+      type: Number,
+    },
+    merkleRoot: {
+      type: String,
+    },
+    batchSize: {
+      type: Number,
+    },
+    timestamp: {
+      type: Number,
+      required: true,
+    },
+    blockNumber: {
+      type: Number,
+      required: true,
+    },
+    blockHash: {
+      type: String,
+      required: true,
+    },
+    transactionHash: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    logIndex: {
+      type: Number,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'chain_events',
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Compound indexes
+chainEventSchema.index(
+  { chainId: 1, contractAddress: 1, blockNumber: 1, logIndex: 1 },
+  { unique: true }
+); // One row per log (re-indexing is an upsert)
+chainEventSchema.index({ chainId: 1, contractAddress: 1, todoIdHash: 1, blockNumber: 1 }); // Todo history
+chainEventSchema.index({ chainId: 1, contractAddress: 1, batchId: 1 }, { sparse: true }); // Batch lookups
+
+export const ChainEvent = mongoose.model<IChainEvent>('ChainEvent', chainEventSchema);
@@ -0,0 +1,127 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { AnchorMode, DriftType } from '../types/enums';
+
+export type DriftReportStatus = 'running' | 'completed' | 'failed';
+export type DriftReportTrigger = 'schedule' | 'admin' | 'cli';
+
+export interface IDriftItem {
+  todoId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  types: DriftType[];
+  anchorMode: AnchorMode;
+  mongoHash: string;
+  chainHash?: string;
+  mongoIsDeleted: boolean;
+  chainIsDeleted?: boolean;
+  expectedOwner: string;
+  chainOwner?: string;
+  batchId?: number;
+}
+
+export interface IDriftReport extends Document {
+  _id: mongoose.Types.ObjectId;
+  status: DriftReportStatus;
+  trigger: DriftReportTrigger;
+  triggeredBy?: string;
+
+  // Results
+  scanned: number;
+  failedChecks: number; // Todos that couldn't be read (e.g. RPC errors); not counted as drift
+  driftCount: number;
+  countsByType: Record<DriftType, number>;
+  items: IDriftItem[];
+  itemsTruncated: boolean;
+  errorMessage?: string;
+
+  // Timestamps
+  startedAt: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const driftItemSchema = new Schema<IDriftItem>(
+  {
+    todoId: { type: Schema.Types.ObjectId, ref: 'Todo', required: true },
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    types: [{ type: String, enum: Object.values(DriftType), required: true }],
+    anchorMode: { type: String, enum: Object.values(AnchorMode), required: true },
+    mongoHash: { type: String, required: true },
+    chainHash: { type: String },
+    mongoIsDeleted: { type: Boolean, required: true },
+    chainIsDeleted: { type: Boolean },
+    expectedOwner: { type: String, required: true },
+    chainOwner: { type: String },
+    batchId: { type: Number },
+  },
+  { _id: false }
+);
+
+const driftReportSchema = new Schema<IDriftReport>(
+  {
+    status: {
+      type: String,
+      enum: ['running', 'completed', 'failed'],
+      required: true,
+      default: 'running',
+    },
+    trigger: {
+      type: String,
+      enum: ['schedule', 'admin', 'cli'],
+      required: true,
+    },
+    triggeredBy: {
+      type: String,
+    },
+    scanned: {
+      type: Number,
+      default: 0,
+    },
+    failedChecks: {
+      type: Number,
+      default: 0,
+    },
+    driftCount: {
+      type: Number,
+      default: 0,
+    },
+    countsByType: {
+      type: Schema.Types.Mixed,
+      default: () => Object.fromEntries(Object.values(DriftType).map((type) => [type, 0])),
+    },
+    items: {
+      type: [driftItemSchema],
+      default: [],
+    },
+    itemsTruncated: {
+      type: Boolean,
+      default: false,
+    },
+    errorMessage: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'drift_reports',
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Compound indexes
+driftReportSchema.index({ status: 1, startedAt: -1 }); // Latest completed report
+
+export const DriftReport = mongoose.model<IDriftReport>('DriftReport', driftReportSchema);
@@ -1,3 +1,8 @@
 export * from './user.model';
 export * from './todo.model';
 export * from './blockchain-sync.model';
+export * from './outbox.model';
+export * from './chain-event.model';
+export * from './indexer-cursor.model';
+export * from './drift-report.model';
+export * from './siwe-nonce.model';
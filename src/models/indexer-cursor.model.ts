@@ -0,0 +1,50 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IIndexerCursor extends Document {
+  _id: mongoose.Types.ObjectId;
+  chainId: number;
+  contractAddress: string; // Lowercase
+  lastBlock: number; // Last block fully indexed
+  lastBlockHash: string; // Used to detect a reorg below the cursor
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const indexerCursorSchema = new Schema<IIndexerCursor>(
+  {
+    chainId: {
+      type: Number,
+      required: true,
+    },
+    contractAddress: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    lastBlock: {
+      type: Number,
+      required: true,
+    },
+    lastBlockHash: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'indexer_cursors',
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// One cursor per indexed contract
+indexerCursorSchema.index({ chainId: 1, contractAddress: 1 }, { unique: true });
+
+export const IndexerCursor = mongoose.model<IIndexerCursor>('IndexerCursor', indexerCursorSchema);
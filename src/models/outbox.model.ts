@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { BlockchainSyncOperation } from '../types/enums';
+
+export type OutboxStatus = 'pending' | 'processing' | 'dispatched';
+
+export interface IOutboxEntry extends Document {
+  _id: mongoose.Types.ObjectId;
+  todoId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  operation: BlockchainSyncOperation;
+
+  // Delivery state
+  status: OutboxStatus;
+  attempts: number;
+  availableAt: Date;
+  lockedUntil?: Date;
+  lastError?: string;
+  dispatchedAt?: Date;
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const outboxSchema = new Schema<IOutboxEntry>(
+  {
+    todoId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Todo',
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    operation: {
+      type: String,
+      enum: Object.values(BlockchainSyncOperation),
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'dispatched'],
+      required: true,
+      default: 'pending',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    availableAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+    dispatchedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'blockchain_outbox',
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Compound indexes
+outboxSchema.index({ status: 1, availableAt: 1, createdAt: 1 }); // Dispatcher polling
+outboxSchema.index({ status: 1, lockedUntil: 1 }); // Reclaiming expired locks
+outboxSchema.index({ status: 1, createdAt: 1 }); // Finding each todo's oldest undelivered entry
+outboxSchema.index({ dispatchedAt: 1 }); // For cleanup/archival
+
+export const OutboxEntry = mongoose.model<IOutboxEntry>('OutboxEntry', outboxSchema);
@@ -0,0 +1,40 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISiweNonce extends Document {
+  _id: mongoose.Types.ObjectId;
+  nonce: string;
+  expiresAt: Date; // Removed by MongoDB once passed
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const siweNonceSchema = new Schema<ISiweNonce>(
+  {
+    nonce: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'siwe_nonces',
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Unused nonces expire on their own
+siweNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const SiweNonce = mongoose.model<ISiweNonce>('SiweNonce', siweNonceSchema);
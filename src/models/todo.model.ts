@@ -1,5 +1,12 @@
 import mongoose, { Document, Schema } from 'mongoose';
-import { TodoPriority, BlockchainSyncStatus } from '../types/enums';
+import {
+  TodoPriority,
+  BlockchainSyncStatus,
+  BlockchainSyncOperation,
+  HashAlgorithm,
+  HashVersion,
+  RecoveryStatus,
+} from '../types/enums';
 import { CONSTANTS } from '../config/constants';
 
 export interface ITodo extends Document {
@@ -14,12 +21,31 @@ export interface ITodo extends Document {
 
   // Blockchain integration
   blockchainHash?: string;
+  hashVersion?: HashVersion; // Scheme that produced blockchainHash (absent = V1)
+  hashAlgorithm?: HashAlgorithm; // Digest of blockchainHash (absent = sha256)
+  hashSalt?: string; // Commitment salt; never leaves MongoDB
+  blockchainNetwork?: string; // Network the todo is anchored on (absent = BLOCKCHAIN_NETWORK)
+  blockchainChainId?: number; // Chain and contract the latest hash was anchored to
+  blockchainContractAddress?: string;
   blockchainTxHash?: string;
+  blockchainBlockNumber?: number;
   blockchainSyncStatus: BlockchainSyncStatus;
+  blockchainSyncOperation?: BlockchainSyncOperation;
   blockchainSyncError?: string;
   blockchainSyncedAt?: Date;
   lastSyncAttempt?: Date;
   syncRetryCount: number;
+  anchorDeferredUntil?: Date; // Over a gas budget or a network fee cap; retried after this
+
+  // Merkle batch anchoring (batch anchor mode)
+  batchQueuedAt?: Date;
+  merkleBatchId?: number;
+  merkleRoot?: string;
+  merkleProof?: string[];
+
+  // Chain recovery (npm run recover)
+  recoveryStatus?: RecoveryStatus; // How the restored data compared to the chain
+  recoveredAt?: Date;
 
   // Timestamps
   createdAt: Date;
@@ -78,15 +104,42 @@ const todoSchema = new Schema<ITodo>(
       index: true,
       sparse: true, // Allow multiple null values
     },
+    hashVersion: {
+      type: Number,
+      enum: Object.values(HashVersion).filter((value) => typeof value === 'number'),
+    },
+    hashAlgorithm: {
+      type: String,
+      enum: Object.values(HashAlgorithm),
+    },
+    hashSalt: {
+      type: String,
+    },
+    blockchainNetwork: {
+      type: String,
+    },
+    blockchainChainId: {
+      type: Number,
+    },
+    blockchainContractAddress: {
+      type: String,
+    },
     blockchainTxHash: {
       type: String,
     },
+    blockchainBlockNumber: {
+      type: Number,
+    },
     blockchainSyncStatus: {
       type: String,
       enum: Object.values(BlockchainSyncStatus),
       default: BlockchainSyncStatus.PENDING,
       index: true,
     },
+    blockchainSyncOperation: {
+      type: String,
+      enum: Object.values(BlockchainSyncOperation),
+    },
     blockchainSyncError: {
       type: String,
     },
@@ -100,6 +153,35 @@ const todoSchema = new Schema<ITodo>(
       type: Number,
       default: 0,
     },
+    anchorDeferredUntil: {
+      type: Date,
+    },
+
+    // Merkle batch anchoring fields
+    batchQueuedAt: {
+      type: Date,
+    },
+    merkleBatchId: {
+      type: Number,
+      index: true,
+      sparse: true,
+    },
+    merkleRoot: {
+      type: String,
+    },
+    merkleProof: {
+      type: [String],
+      default: undefined,
+    },
+
+    // Chain recovery fields
+    recoveryStatus: {
+      type: String,
+      enum: Object.values(RecoveryStatus),
+    },
+    recoveredAt: {
+      type: Date,
+    },
 
     // Soft delete
     isDeleted: {
@@ -120,6 +202,7 @@ const todoSchema = new Schema<ITodo>(
     toJSON: {
       transform: (_doc, ret: any) => {
         delete ret.__v;
+        delete ret.hashSalt; // Would let anyone brute-force the anchored hash
         return ret;
       },
     },
@@ -130,6 +213,7 @@ const todoSchema = new Schema<ITodo>(
 todoSchema.index({ userId: 1, isDeleted: 1, isCompleted: 1 });
 todoSchema.index({ userId: 1, dueDate: 1 });
 todoSchema.index({ blockchainSyncStatus: 1, syncRetryCount: 1 });
+todoSchema.index({ blockchainSyncStatus: 1, batchQueuedAt: 1 }); // Next Merkle batch
 todoSchema.index({ userId: 1, createdAt: -1 });
 
 // Update completedAt when isCompleted changes
@@ -12,12 +12,14 @@ export interface IRefreshToken {
 
 export interface IUser extends Document {
   _id: mongoose.Types.ObjectId;
-  email: string;
+  email?: string; // Absent for accounts created by signing in with a wallet
   username: string;
-  password: string;
+  password?: string; // Absent for accounts created by signing in with a wallet
   role: UserRole;
   firstName?: string;
   lastName?: string;
+  walletAddress?: string; // Linked Ethereum address (checksummed); owns the user's todos on chain
+  monthlyGasBudget?: number; // Gas units per calendar month (UTC); anchoring past it is deferred
   refreshTokens: IRefreshToken[];
   passwordResetToken?: string;
   passwordResetExpires?: Date;
@@ -43,12 +45,18 @@ const refreshTokenSchema = new Schema<IRefreshToken>(
   { _id: false }
 );
 
+// Wallet accounts sign in with the wallet, so they need no email or password
+function requiredWithoutWallet(this: IUser): boolean {
+  return !this.walletAddress;
+}
+
 const userSchema = new Schema<IUser>(
   {
     email: {
       type: String,
-      required: [true, 'Email is required'],
+      required: [requiredWithoutWallet, 'Email is required'],
       unique: true,
+      sparse: true,
       lowercase: true,
       trim: true,
       index: true,
@@ -65,7 +73,7 @@ const userSchema = new Schema<IUser>(
     },
     password: {
       type: String,
-      required: [true, 'Password is required'],
+      required: [requiredWithoutWallet, 'Password is required'],
       minlength: [6, 'Password must be at least 6 characters long'],
       select: false, // Don't include password in queries by default
     },
@@ -85,6 +93,16 @@ const userSchema = new Schema<IUser>(
       trim: true,
       maxlength: [50, 'Last name cannot exceed 50 characters'],
     },
+    walletAddress: {
+      type: String,
+      unique: true,
+      sparse: true,
+      match: [/^0x[0-9a-fA-F]{40}$/, 'Please provide a valid Ethereum address'],
+    },
+    monthlyGasBudget: {
+      type: Number,
+      min: [0, 'Gas budget cannot be negative'],
+    },
     refreshTokens: [refreshTokenSchema],
     passwordResetToken: String,
     passwordResetExpires: Date,
@@ -115,7 +133,7 @@ userSchema.index({ username: 1, isDeleted: 1 });
 
 // Hash password before saving
 userSchema.pre('save', async function () {
-  if (!this.isModified('password')) {
+  if (!this.password || !this.isModified('password')) {
     return;
   }
 
@@ -127,6 +145,9 @@ userSchema.pre('save', async function () {
 userSchema.methods.comparePassword = async function (
   candidatePassword: string
 ): Promise<boolean> {
+  if (!this.password) {
+    return false;
+  }
   return bcrypt.compare(candidatePassword, this.password);
 };
 
@@ -0,0 +1,281 @@
+import mongoose from 'mongoose';
+import { BlockchainSync, IBlockchainSync } from '../models/blockchain-sync.model';
+import { BlockchainSyncOperation, HashAlgorithm, HashVersion } from '../types/enums';
+import { TransactionResult } from '../services/blockchain.service';
+
+export interface CreateBlockchainSyncData {
+  todoId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  operation: BlockchainSyncOperation;
+  network: string;
+  todoHash: string;
+  hashVersion: HashVersion;
+  hashAlgorithm: HashAlgorithm;
+  retryCount?: number;
+}
+
+/**
+ * Gas spent by a group of confirmed operations
+ * costWei is an exact decimal string (summed as Decimal128, since wei totals pass 2^53)
+ */
+export interface GasCostGroup {
+  key: string;
+  operations: number;
+  gasUsed: number;
+  costWei: string;
+}
+
+export interface GasCostBreakdown {
+  total: Omit<GasCostGroup, 'key'>;
+  byUser: GasCostGroup[];
+  byOperation: GasCostGroup[];
+  byDay: GasCostGroup[];
+}
+
+export interface GasCostFilter {
+  from: Date;
+  to: Date;
+  network: string;
+  includeUnlabelled: boolean; // Count rows recorded before the network was (the default network's)
+  userLimit: number;
+}
+
+export class BlockchainSyncRepository {
+  /**
+   * Record a chain operation that is about to be sent
+   */
+  async create(data: CreateBlockchainSyncData): Promise<IBlockchainSync> {
+    return BlockchainSync.create({
+      ...data,
+      status: 'pending',
+      retryCount: data.retryCount ?? 0,
+    });
+  }
+
+  /**
+   * Record the operations of a Merkle batch that is about to be anchored
+   */
+  async createMany(data: CreateBlockchainSyncData[]): Promise<IBlockchainSync[]> {
+    return BlockchainSync.insertMany(
+      data.map((item) => ({
+        ...item,
+        status: 'pending',
+        retryCount: item.retryCount ?? 0,
+      }))
+    );
+  }
+
+  /**
+   * Mark an operation as confirmed with its receipt data (and the fee it was sent with)
+   * A replay points at the transaction an earlier row already paid for, so it is marked
+   * replayed and records no gas
+   */
+  async markConfirmed(
+    syncId: string | mongoose.Types.ObjectId,
+    receipt: TransactionResult
+  ): Promise<IBlockchainSync | null> {
+    return BlockchainSync.findByIdAndUpdate(
+      syncId,
+      {
+        $set: {
+          status: 'confirmed',
+          transactionHash: receipt.txHash,
+          blockNumber: receipt.blockNumber,
+          confirmedAt: new Date(),
+          ...(receipt.replayed
+            ? { 'metadata.replayed': true }
+            : {
+                gasUsed: receipt.gasUsed,
+                effectiveGasPrice: receipt.effectiveGasPrice,
+                ...(receipt.fee && { 'metadata.fee': receipt.fee }),
+              }),
+        },
+      },
+      { new: true }
+    );
+  }
+
+  /**
+   * Mark every operation of an anchored Merkle batch as confirmed
+   * receipt.gasUsed is each row's share; metadata carries the shared batch details (and
+   * the fee the batch was sent with)
+   */
+  async markManyConfirmed(
+    syncIds: mongoose.Types.ObjectId[],
+    receipt: TransactionResult,
+    metadata: Record<string, unknown>
+  ): Promise<void> {
+    await BlockchainSync.updateMany(
+      { _id: { $in: syncIds } },
+      {
+        $set: {
+          status: 'confirmed',
+          transactionHash: receipt.txHash,
+          blockNumber: receipt.blockNumber,
+          gasUsed: receipt.gasUsed,
+          effectiveGasPrice: receipt.effectiveGasPrice,
+          confirmedAt: new Date(),
+          metadata: receipt.fee ? { ...metadata, fee: receipt.fee } : metadata,
+        },
+      }
+    );
+  }
+
+  /**
+   * Mark every operation of a Merkle batch as failed
+   */
+  async markManyFailed(syncIds: mongoose.Types.ObjectId[], errorMessage: string): Promise<void> {
+    await BlockchainSync.updateMany(
+      { _id: { $in: syncIds } },
+      {
+        $set: {
+          status: 'failed',
+          errorMessage,
+        },
+      }
+    );
+  }
+
+  /**
+   * Mark every operation sent in a transaction as failed
+   * Used when a reorg drops a transaction that was already recorded as confirmed
+   */
+  async markFailedByTransaction(txHash: string, errorMessage: string): Promise<void> {
+    await BlockchainSync.updateMany(
+      { transactionHash: txHash },
+      {
+        $set: {
+          status: 'failed',
+          errorMessage,
+        },
+      }
+    );
+  }
+
+  /**
+   * Mark an operation as failed
+   */
+  async markFailed(
+    syncId: string | mongoose.Types.ObjectId,
+    errorMessage: string
+  ): Promise<IBlockchainSync | null> {
+    return BlockchainSync.findByIdAndUpdate(
+      syncId,
+      {
+        $set: {
+          status: 'failed',
+          errorMessage,
+        },
+      },
+      { new: true }
+    );
+  }
+
+  /**
+   * Find the confirmed create/update that wrote a hash to chain (latest first)
+   */
+  async findAnchoringSync(
+    todoId: string | mongoose.Types.ObjectId,
+    todoHash: string
+  ): Promise<IBlockchainSync | null> {
+    return BlockchainSync.findOne({
+      todoId,
+      todoHash,
+      status: 'confirmed',
+      operation: { $in: [BlockchainSyncOperation.CREATE, BlockchainSyncOperation.UPDATE] },
+    }).sort({ confirmedAt: -1 });
+  }
+
+  /**
+   * Get the audit trail for a todo, oldest first
+   */
+  async findByTodo(todoId: string | mongoose.Types.ObjectId): Promise<IBlockchainSync[]> {
+    return BlockchainSync.find({ todoId }).sort({ createdAt: 1 });
+  }
+
+  /**
+   * Sum gas used by confirmed operations, grouped by user, operation type and day (UTC)
+   * byUser is sorted by gas used, highest first, and capped at filter.userLimit
+   * Replays are left out: their transaction is counted on the row that sent it
+   */
+  async aggregateGasCosts(filter: GasCostFilter): Promise<GasCostBreakdown> {
+    // Longs converted to Decimal128 multiply and sum exactly
+    const toDecimal = (field: string) => ({ $toDecimal: { $toLong: { $ifNull: [field, 0] } } });
+    const sums = {
+      operations: { $sum: 1 },
+      gasUsed: { $sum: { $ifNull: ['$gasUsed', 0] } },
+      costWei: {
+        $sum: { $multiply: [toDecimal('$gasUsed'), toDecimal('$effectiveGasPrice')] },
+      },
+    };
+    const totals = { _id: 0, operations: 1, gasUsed: 1, costWei: { $toString: '$costWei' } };
+    const toGroup = { ...totals, key: { $toString: '$_id' } };
+
+    const [result] = await BlockchainSync.aggregate([
+      {
+        $match: {
+          status: 'confirmed',
+          'metadata.replayed': { $ne: true },
+          confirmedAt: { $gte: filter.from, $lt: filter.to },
+          $or: [
+            { network: filter.network },
+            ...(filter.includeUnlabelled ? [{ network: { $exists: false } }] : []),
+          ],
+        },
+      },
+      {
+        $facet: {
+          total: [{ $group: { _id: null, ...sums } }, { $project: totals }],
+          byUser: [
+            { $group: { _id: '$userId', ...sums } },
+            { $sort: { gasUsed: -1 } },
+            { $limit: filter.userLimit },
+            { $project: toGroup },
+          ],
+          byOperation: [
+            { $group: { _id: '$operation', ...sums } },
+            { $sort: { _id: 1 } },
+            { $project: toGroup },
+          ],
+          byDay: [
+            {
+              $group: {
+                _id: { $dateToString: { format: '%Y-%m-%d', date: '$confirmedAt' } },
+                ...sums,
+              },
+            },
+            { $sort: { _id: 1 } },
+            { $project: toGroup },
+          ],
+        },
+      },
+    ]);
+
+    return {
+      total: result.total[0] ?? { operations: 0, gasUsed: 0, costWei: '0' },
+      byUser: result.byUser,
+      byOperation: result.byOperation,
+      byDay: result.byDay,
+    };
+  }
+
+  /**
+   * Total gas used by a user's confirmed operations since a date (all networks, not
+   * counting replays)
+   */
+  async sumGasUsedByUser(userId: string | mongoose.Types.ObjectId, since: Date): Promise<number> {
+    const [result] = await BlockchainSync.aggregate([
+      {
+        $match: {
+          userId: new mongoose.Types.ObjectId(userId.toString()),
+          status: 'confirmed',
+          'metadata.replayed': { $ne: true },
+          confirmedAt: { $gte: since },
+        },
+      },
+      { $group: { _id: null, gasUsed: { $sum: { $ifNull: ['$gasUsed', 0] } } } },
+    ]);
+
+    return result?.gasUsed ?? 0;
+  }
+}
@@ -0,0 +1,105 @@
+import { ChainEvent, ChainEventName, IChainEvent } from '../models/chain-event.model';
+
+/**
+ * The contract an index belongs to
+ */
+export interface IndexedContract {
+  chainId: number;
+  contractAddress: string;
+}
+
+export interface ChainEventData extends IndexedContract {
+  event: ChainEventName;
+  todoIdHash?: string;
+  todoHash?: string;
+  oldHash?: string;
+  owner?: string;
+  batchId?: number;
+  merkleRoot?: string;
+  batchSize?: number;
+  timestamp: number;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export class ChainEventRepository {
+  /**
+   * Insert indexed logs; re-indexing the same block range overwrites instead of duplicating
+   */
+  async upsertMany(events: ChainEventData[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    await ChainEvent.bulkWrite(
+      events.map((event) => ({
+        updateOne: {
+          filter: {
+            chainId: event.chainId,
+            contractAddress: event.contractAddress.toLowerCase(),
+            blockNumber: event.blockNumber,
+            logIndex: event.logIndex,
+          },
+          update: { $set: { ...event, contractAddress: event.contractAddress.toLowerCase() } },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  }
+
+  /**
+   * Remove events above a block (reorged out, about to be re-indexed)
+   * The read and delete methods take every contract an index covers (a registry and the
+   * one it replaced)
+   */
+  async deleteAfterBlock(contracts: IndexedContract[], blockNumber: number): Promise<number> {
+    const result = await ChainEvent.deleteMany({
+      ...this.contractFilter(contracts),
+      blockNumber: { $gt: blockNumber },
+    });
+
+    return result.deletedCount;
+  }
+
+  /**
+   * Remove every event of a contract (full rebuild)
+   */
+  async deleteAll(contracts: IndexedContract[]): Promise<number> {
+    const result = await ChainEvent.deleteMany(this.contractFilter(contracts));
+    return result.deletedCount;
+  }
+
+  /**
+   * Get a todo's events in chain order
+   */
+  async findByTodoIdHash(contracts: IndexedContract[], todoIdHash: string): Promise<IChainEvent[]> {
+    return ChainEvent.find({ ...this.contractFilter(contracts), todoIdHash }).sort({
+      blockNumber: 1,
+      logIndex: 1,
+    });
+  }
+
+  /**
+   * Get the BatchAnchored event of a batch (the latest, if more than one contract
+   * anchored that ID)
+   */
+  async findBatch(contracts: IndexedContract[], batchId: number): Promise<IChainEvent | null> {
+    return ChainEvent.findOne({
+      ...this.contractFilter(contracts),
+      event: 'BatchAnchored',
+      batchId,
+    }).sort({ blockNumber: -1 });
+  }
+
+  private contractFilter(contracts: IndexedContract[]) {
+    return {
+      $or: contracts.map((contract) => ({
+        chainId: contract.chainId,
+        contractAddress: contract.contractAddress.toLowerCase(),
+      })),
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import mongoose from 'mongoose';
+import {
+  DriftReport,
+  IDriftItem,
+  IDriftReport,
+  DriftReportTrigger,
+} from '../models/drift-report.model';
+import { DriftType } from '../types/enums';
+
+export class DriftReportRepository {
+  /**
+   * Open a report for a reconciliation run
+   */
+  async start(trigger: DriftReportTrigger, triggeredBy?: string): Promise<IDriftReport> {
+    return DriftReport.create({
+      status: 'running',
+      trigger,
+      triggeredBy,
+      startedAt: new Date(),
+    });
+  }
+
+  /**
+   * Find a run still in progress that started after the given time
+   */
+  async findRunningSince(since: Date): Promise<IDriftReport | null> {
+    return DriftReport.findOne({ status: 'running', startedAt: { $gte: since } });
+  }
+
+  /**
+   * Close a report with its results
+   */
+  async complete(
+    reportId: string | mongoose.Types.ObjectId,
+    results: {
+      scanned: number;
+      failedChecks: number;
+      driftCount: number;
+      countsByType: Record<DriftType, number>;
+      items: IDriftItem[];
+      itemsTruncated: boolean;
+    }
+  ): Promise<IDriftReport | null> {
+    return DriftReport.findByIdAndUpdate(
+      reportId,
+      { $set: { ...results, status: 'completed', completedAt: new Date() } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Close a report whose run crashed
+   */
+  async fail(
+    reportId: string | mongoose.Types.ObjectId,
+    errorMessage: string,
+    scanned: number
+  ): Promise<IDriftReport | null> {
+    return DriftReport.findByIdAndUpdate(
+      reportId,
+      { $set: { status: 'failed', errorMessage, scanned, completedAt: new Date() } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Get the most recent completed report
+   */
+  async findLatestCompleted(): Promise<IDriftReport | null> {
+    return DriftReport.findOne({ status: 'completed' }).sort({ startedAt: -1 });
+  }
+
+  /**
+   * Get a report by ID
+   */
+  async findById(reportId: string): Promise<IDriftReport | null> {
+    if (!mongoose.Types.ObjectId.isValid(reportId)) {
+      return null;
+    }
+
+    return DriftReport.findById(reportId);
+  }
+}
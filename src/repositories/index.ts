@@ -1 +1,8 @@
 export * from './user.repository';
+export * from './todo.repository';
+export * from './blockchain-sync.repository';
+export * from './outbox.repository';
+export * from './chain-event.repository';
+export * from './indexer-cursor.repository';
+export * from './drift-report.repository';
+export * from './siwe-nonce.repository';
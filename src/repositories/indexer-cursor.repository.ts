@@ -0,0 +1,40 @@
+import { IndexerCursor, IIndexerCursor } from '../models/indexer-cursor.model';
+import { IndexedContract } from './chain-event.repository';
+
+export class IndexerCursorRepository {
+  /**
+   * Get the indexing position for a contract
+   */
+  async find(contract: IndexedContract): Promise<IIndexerCursor | null> {
+    return IndexerCursor.findOne(this.contractFilter(contract));
+  }
+
+  /**
+   * Move the cursor after a block range has been indexed
+   */
+  async save(
+    contract: IndexedContract,
+    lastBlock: number,
+    lastBlockHash: string
+  ): Promise<IIndexerCursor | null> {
+    return IndexerCursor.findOneAndUpdate(
+      this.contractFilter(contract),
+      { $set: { lastBlock, lastBlockHash } },
+      { new: true, upsert: true }
+    );
+  }
+
+  /**
+   * Forget the position (next run starts from the deployment block)
+   */
+  async reset(contract: IndexedContract): Promise<void> {
+    await IndexerCursor.deleteOne(this.contractFilter(contract));
+  }
+
+  private contractFilter(contract: IndexedContract) {
+    return {
+      chainId: contract.chainId,
+      contractAddress: contract.contractAddress.toLowerCase(),
+    };
+  }
+}
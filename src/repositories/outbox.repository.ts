@@ -0,0 +1,139 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { OutboxEntry, IOutboxEntry } from '../models/outbox.model';
+import { BlockchainSyncOperation } from '../types/enums';
+
+export interface EnqueueOutboxData {
+  todoId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  operation: BlockchainSyncOperation;
+}
+
+// Heads tried per claim before giving up until the next poll (others may be claiming them)
+const CLAIM_CANDIDATES = 10;
+
+export class OutboxRepository {
+  /**
+   * Add an entry to the outbox (inside the caller's transaction)
+   */
+  async enqueue(data: EnqueueOutboxData, session?: ClientSession): Promise<IOutboxEntry> {
+    const [entry] = await OutboxEntry.create(
+      [
+        {
+          ...data,
+          status: 'pending',
+          availableAt: new Date(),
+        },
+      ],
+      { session }
+    );
+
+    return entry;
+  }
+
+  /**
+   * Claim the oldest deliverable entry that heads its todo's queue
+   *
+   * Deliverable means pending and available, or processing with an expired lock
+   * (the dispatcher that held it died). Only a todo's oldest undelivered entry can be
+   * claimed, so operations on the same todo are delivered one at a time and in order:
+   * while that entry is being processed or backing off, the todo's later entries wait.
+   *
+   * Heads are looked up first, then claimed one by one with an update that re-checks the
+   * entry is still deliverable. A head stays the head until it is dispatched, so whichever
+   * dispatcher's update lands first owns the todo and the others move on.
+   */
+  async claimNext(lockTimeoutMs: number): Promise<IOutboxEntry | null> {
+    const now = new Date();
+    const deliverable = [
+      { status: 'pending', availableAt: { $lte: now } },
+      { status: 'processing', lockedUntil: { $lte: now } },
+    ];
+
+    const heads = await OutboxEntry.aggregate<{ _id: mongoose.Types.ObjectId }>([
+      { $match: { status: { $in: ['pending', 'processing'] } } },
+      { $sort: { createdAt: 1, _id: 1 } },
+      { $group: { _id: '$todoId', head: { $first: '$$ROOT' } } },
+      { $replaceWith: '$head' },
+      { $match: { $or: deliverable } },
+      { $sort: { createdAt: 1, _id: 1 } },
+      { $limit: CLAIM_CANDIDATES },
+      { $project: { _id: 1 } },
+    ]);
+
+    for (const { _id } of heads) {
+      const entry = await OutboxEntry.findOneAndUpdate(
+        { _id, $or: deliverable },
+        {
+          $set: {
+            status: 'processing',
+            lockedUntil: new Date(now.getTime() + lockTimeoutMs),
+          },
+          $inc: { attempts: 1 },
+        },
+        { new: true }
+      );
+
+      if (entry) {
+        return entry;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Mark an entry as delivered to the blockchain layer
+   */
+  async markDispatched(entryId: string | mongoose.Types.ObjectId): Promise<void> {
+    await OutboxEntry.updateOne(
+      { _id: entryId },
+      {
+        $set: { status: 'dispatched', dispatchedAt: new Date() },
+        $unset: { lockedUntil: 1 },
+      }
+    );
+  }
+
+  /**
+   * Put an entry back in the queue after an unexpected dispatch error
+   */
+  async release(
+    entryId: string | mongoose.Types.ObjectId,
+    error: string,
+    availableAt: Date
+  ): Promise<void> {
+    await OutboxEntry.updateOne(
+      { _id: entryId },
+      {
+        $set: { status: 'pending', lastError: error, availableAt },
+        $unset: { lockedUntil: 1 },
+      }
+    );
+  }
+
+  /**
+   * Put an entry back until availableAt without counting the claim as an attempt
+   * (its chain operation was never sent, e.g. while the RPC circuit is open)
+   */
+  async park(
+    entryId: string | mongoose.Types.ObjectId,
+    reason: string,
+    availableAt: Date
+  ): Promise<void> {
+    await OutboxEntry.updateOne(
+      { _id: entryId },
+      {
+        $set: { status: 'pending', lastError: reason, availableAt },
+        $unset: { lockedUntil: 1 },
+        $inc: { attempts: -1 },
+      }
+    );
+  }
+
+  /**
+   * Count entries not yet delivered (for monitoring)
+   */
+  async countUndelivered(): Promise<number> {
+    return OutboxEntry.countDocuments({ status: { $ne: 'dispatched' } });
+  }
+}
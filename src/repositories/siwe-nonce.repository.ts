@@ -0,0 +1,16 @@
+import { SiweNonce, ISiweNonce } from '../models/siwe-nonce.model';
+
+export class SiweNonceRepository {
+  async create(nonce: string, expiresAt: Date): Promise<ISiweNonce> {
+    return SiweNonce.create({ nonce, expiresAt });
+  }
+
+  /**
+   * Use up a nonce: true if it was issued and hadn't expired
+   * Deleting it makes a signed message single-use
+   */
+  async consume(nonce: string): Promise<boolean> {
+    const deleted = await SiweNonce.findOneAndDelete({ nonce, expiresAt: { $gt: new Date() } });
+    return deleted !== null;
+  }
+}
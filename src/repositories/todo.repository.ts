@@ -1,6 +1,9 @@
-import mongoose from 'mongoose';
+import mongoose, { ClientSession } from 'mongoose';
 import { Todo, ITodo } from '../models/todo.model';
-import { TodoPriority, BlockchainSyncStatus } from '../types/enums';
+import { TodoPriority, BlockchainSyncStatus, BlockchainSyncOperation } from '../types/enums';
+import { CONSTANTS } from '../config/constants';
+import { VersionedHash } from '../services/hash.service';
+import { AnchorTarget } from '../services/blockchain.service';
 
 export interface TodoFilters {
   isCompleted?: boolean;
@@ -18,6 +21,26 @@ export interface PaginationOptions {
   sortOrder?: 'asc' | 'desc';
 }
 
+/**
+ * Todo fields recording an anchored hash and the scheme that produced it
+ * The salt is only written with an anchor, so a stored salt always belongs to the anchored hash
+ */
+const toAnchoredHashFields = (anchoredHash: VersionedHash) => ({
+  blockchainHash: anchoredHash.hash,
+  hashVersion: anchoredHash.version,
+  hashAlgorithm: anchoredHash.algorithm,
+  ...(anchoredHash.salt && { hashSalt: anchoredHash.salt }),
+});
+
+/**
+ * Todo fields recording the deployment an anchored hash was written to
+ */
+const toAnchorTargetFields = (target: AnchorTarget) => ({
+  blockchainNetwork: target.network,
+  blockchainChainId: target.chainId,
+  blockchainContractAddress: target.contractAddress,
+});
+
 export class TodoRepository {
   /**
    * Find todo by ID for a specific user
@@ -33,6 +56,19 @@ export class TodoRepository {
     });
   }
 
+  /**
+   * Find todo by ID for a specific user, including soft-deleted todos
+   */
+  async findByIdWithDeleted(
+    todoId: string | mongoose.Types.ObjectId,
+    userId: string | mongoose.Types.ObjectId
+  ): Promise<ITodo | null> {
+    return Todo.findOne({
+      _id: todoId,
+      userId,
+    });
+  }
+
   /**
    * Find all todos for a user with filters and pagination
    */
@@ -104,8 +140,8 @@ export class TodoRepository {
   /**
    * Create a new todo
    */
-  async create(todoData: Partial<ITodo>): Promise<ITodo> {
-    const todo = await Todo.create(todoData);
+  async create(todoData: Partial<ITodo>, session?: ClientSession): Promise<ITodo> {
+    const [todo] = await Todo.create([todoData], { session });
     return todo;
   }
 
@@ -115,12 +151,13 @@ export class TodoRepository {
   async update(
     todoId: string | mongoose.Types.ObjectId,
     userId: string | mongoose.Types.ObjectId,
-    updateData: Partial<ITodo>
+    updateData: Partial<ITodo>,
+    session?: ClientSession
   ): Promise<ITodo | null> {
     const todo = await Todo.findOneAndUpdate(
       { _id: todoId, userId, isDeleted: false },
       { $set: updateData },
-      { new: true, runValidators: true }
+      { new: true, runValidators: true, session }
     );
 
     return todo;
@@ -131,7 +168,8 @@ export class TodoRepository {
    */
   async softDelete(
     todoId: string | mongoose.Types.ObjectId,
-    userId: string | mongoose.Types.ObjectId
+    userId: string | mongoose.Types.ObjectId,
+    session?: ClientSession
   ): Promise<ITodo | null> {
     const todo = await Todo.findOneAndUpdate(
       { _id: todoId, userId, isDeleted: false },
@@ -141,7 +179,7 @@ export class TodoRepository {
           deletedAt: new Date(),
         },
       },
-      { new: true }
+      { new: true, session }
     );
 
     return todo;
@@ -152,7 +190,8 @@ export class TodoRepository {
    */
   async restore(
     todoId: string | mongoose.Types.ObjectId,
-    userId: string | mongoose.Types.ObjectId
+    userId: string | mongoose.Types.ObjectId,
+    session?: ClientSession
   ): Promise<ITodo | null> {
     const todo = await Todo.findOneAndUpdate(
       { _id: todoId, userId, isDeleted: true },
@@ -164,7 +203,7 @@ export class TodoRepository {
           deletedAt: 1,
         },
       },
-      { new: true }
+      { new: true, session }
     );
 
     return todo;
@@ -175,9 +214,12 @@ export class TodoRepository {
    */
   async toggleComplete(
     todoId: string | mongoose.Types.ObjectId,
-    userId: string | mongoose.Types.ObjectId
+    userId: string | mongoose.Types.ObjectId,
+    session?: ClientSession
   ): Promise<ITodo | null> {
-    const todo = await this.findById(todoId, userId);
+    const todo = await Todo.findOne({ _id: todoId, userId, isDeleted: false }).session(
+      session ?? null
+    );
 
     if (!todo) {
       return null;
@@ -185,7 +227,7 @@ export class TodoRepository {
 
     todo.isCompleted = !todo.isCompleted;
     todo.completedAt = todo.isCompleted ? new Date() : undefined;
-    await todo.save();
+    await todo.save({ session });
 
     return todo;
   }
@@ -200,21 +242,25 @@ export class TodoRepository {
     error?: string
   ): Promise<ITodo | null> {
     const updateData: any = {
-      blockchainSyncStatus: status,
+      $set: {
+        blockchainSyncStatus: status,
+      },
     };
 
     if (txHash) {
-      updateData.blockchainTxHash = txHash;
-      updateData.blockchainSyncedAt = new Date();
+      updateData.$set.blockchainTxHash = txHash;
+      updateData.$set.blockchainSyncedAt = new Date();
     }
 
     if (error) {
-      updateData.blockchainSyncError = error;
-      updateData.syncRetryCount = { $inc: 1 };
+      updateData.$set.blockchainSyncError = error;
+      updateData.$inc = { syncRetryCount: 1 };
     }
 
     if (status === BlockchainSyncStatus.SYNCED) {
-      updateData.blockchainSyncedAt = new Date();
+      updateData.$set.blockchainSyncedAt = new Date();
+      updateData.$set.syncRetryCount = 0;
+      updateData.$unset = { blockchainSyncError: 1 };
     }
 
     const todo = await Todo.findByIdAndUpdate(todoId, updateData, { new: true });
@@ -223,18 +269,463 @@ export class TodoRepository {
   }
 
   /**
-   * Get todos that failed blockchain sync
+   * Mark the start of a blockchain sync attempt
+   * Records which operation is in flight so a retry knows what to replay
+   */
+  async markSyncAttempt(
+    todoId: string | mongoose.Types.ObjectId,
+    operation: BlockchainSyncOperation
+  ): Promise<ITodo | null> {
+    return Todo.findByIdAndUpdate(
+      todoId,
+      {
+        $set: {
+          blockchainSyncStatus: BlockchainSyncStatus.PENDING,
+          blockchainSyncOperation: operation,
+          lastSyncAttempt: new Date(),
+        },
+        $unset: { anchorDeferredUntil: 1 },
+      },
+      { new: true }
+    );
+  }
+
+  /**
+   * Hold a chain operation until a date (its owner is over their gas budget, or network
+   * fees are over the cap)
+   * The todo stays PENDING; the sync job picks it up again once the date has passed
+   */
+  async markAnchorDeferred(
+    todoId: string | mongoose.Types.ObjectId,
+    operation: BlockchainSyncOperation,
+    until: Date
+  ): Promise<ITodo | null> {
+    return Todo.findByIdAndUpdate(
+      todoId,
+      {
+        $set: {
+          blockchainSyncStatus: BlockchainSyncStatus.PENDING,
+          blockchainSyncOperation: operation,
+          lastSyncAttempt: new Date(),
+          anchorDeferredUntil: until,
+        },
+      },
+      { new: true }
+    );
+  }
+
+  /**
+   * Mark a todo as kept in MongoDB only (anchoring is disabled)
+   * The operation is kept so it is clear what was never anchored
+   */
+  async markLocalOnly(
+    todoId: string | mongoose.Types.ObjectId,
+    operation: BlockchainSyncOperation
+  ): Promise<ITodo | null> {
+    return Todo.findByIdAndUpdate(
+      todoId,
+      {
+        $set: {
+          blockchainSyncStatus: BlockchainSyncStatus.LOCAL_ONLY,
+          blockchainSyncOperation: operation,
+          lastSyncAttempt: new Date(),
+          syncRetryCount: 0,
+        },
+        $unset: { blockchainSyncError: 1, anchorDeferredUntil: 1 },
+      },
+      { new: true }
+    );
+  }
+
+  /**
+   * Release a user's deferred chain operations (e.g. after their gas budget was raised)
+   */
+  async clearAnchorDeferrals(userId: string | mongoose.Types.ObjectId): Promise<number> {
+    const result = await Todo.updateMany(
+      { userId, anchorDeferredUntil: { $exists: true } },
+      { $unset: { anchorDeferredUntil: 1 } }
+    );
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Queue a chain operation: status goes back to PENDING until it is anchored
+   * Works on soft-deleted todos too (deletions go through the same lifecycle)
+   */
+  async markSyncQueued(
+    todoId: string | mongoose.Types.ObjectId,
+    operation: BlockchainSyncOperation,
+    session?: ClientSession
+  ): Promise<ITodo | null> {
+    return Todo.findByIdAndUpdate(
+      todoId,
+      {
+        $set: {
+          blockchainSyncStatus: BlockchainSyncStatus.PENDING,
+          blockchainSyncOperation: operation,
+        },
+      },
+      { new: true, session }
+    );
+  }
+
+  /**
+   * Mark a chain operation as anchored
+   * txHash is omitted when the chain already had the desired state (nothing was sent);
+   * anchoredHash (and the target it went to) is only passed by operations that write a
+   * new hash (create/update); a new per-todo hash supersedes any earlier Merkle batch anchor
+   */
+  async markSynced(
+    todoId: string | mongoose.Types.ObjectId,
+    txHash?: string,
+    anchoredHash?: VersionedHash,
+    target?: AnchorTarget
+  ): Promise<ITodo | null> {
+    return Todo.findByIdAndUpdate(
+      todoId,
+      {
+        $set: {
+          ...(anchoredHash && toAnchoredHashFields(anchoredHash)),
+          ...(target && toAnchorTargetFields(target)),
+          ...(txHash && { blockchainTxHash: txHash }),
+          blockchainSyncStatus: BlockchainSyncStatus.SYNCED,
+          blockchainSyncedAt: new Date(),
+          syncRetryCount: 0,
+        },
+        $unset: {
+          blockchainSyncError: 1,
+          ...(anchoredHash && { merkleBatchId: 1, merkleRoot: 1, merkleProof: 1 }),
+        },
+      },
+      { new: true }
+    );
+  }
+
+  /**
+   * Mark a chain operation as mined but not yet final (CONFIRMING)
+   * The confirmation watcher moves it to SYNCED once the network's depth is reached
+   */
+  async markConfirming(
+    todoId: string | mongoose.Types.ObjectId,
+    txHash: string,
+    blockNumber: number,
+    anchoredHash?: VersionedHash,
+    target?: AnchorTarget
+  ): Promise<ITodo | null> {
+    return Todo.findByIdAndUpdate(
+      todoId,
+      {
+        $set: {
+          ...(anchoredHash && toAnchoredHashFields(anchoredHash)),
+          ...(target && toAnchorTargetFields(target)),
+          blockchainTxHash: txHash,
+          blockchainBlockNumber: blockNumber,
+          blockchainSyncStatus: BlockchainSyncStatus.CONFIRMING,
+          syncRetryCount: 0,
+        },
+        $unset: {
+          blockchainSyncError: 1,
+          ...(anchoredHash && { merkleBatchId: 1, merkleRoot: 1, merkleProof: 1 }),
+        },
+      },
+      { new: true }
+    );
+  }
+
+  /**
+   * Get todos waiting for confirmations, least recently attempted first
+   */
+  async getConfirmingSyncs(limit = 10): Promise<ITodo[]> {
+    return Todo.find({ blockchainSyncStatus: BlockchainSyncStatus.CONFIRMING })
+      .sort({ lastSyncAttempt: 1 })
+      .limit(limit);
+  }
+
+  /**
+   * Mark a CONFIRMING todo as final (SYNCED)
+   * Only applies if the todo is still waiting on the same transaction
+   */
+  async markConfirmed(
+    todoId: string | mongoose.Types.ObjectId,
+    txHash: string,
+    blockNumber: number
+  ): Promise<boolean> {
+    const result = await Todo.updateOne(
+      {
+        _id: todoId,
+        blockchainSyncStatus: BlockchainSyncStatus.CONFIRMING,
+        blockchainTxHash: txHash,
+      },
+      {
+        $set: {
+          blockchainSyncStatus: BlockchainSyncStatus.SYNCED,
+          blockchainBlockNumber: blockNumber,
+          blockchainSyncedAt: new Date(),
+        },
+      }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Put a CONFIRMING todo back to PENDING after a reorg dropped its transaction
+   * The anchor it pointed at no longer exists (a dropped create anchored no hash at all)
+   */
+  async markReorgDropped(
+    todo: ITodo,
+    operation: BlockchainSyncOperation,
+    error: string,
+    session?: ClientSession
+  ): Promise<ITodo | null> {
+    return Todo.findOneAndUpdate(
+      {
+        _id: todo._id,
+        blockchainSyncStatus: BlockchainSyncStatus.CONFIRMING,
+        blockchainTxHash: todo.blockchainTxHash,
+      },
+      {
+        $set: {
+          blockchainSyncStatus: BlockchainSyncStatus.PENDING,
+          blockchainSyncOperation: operation,
+          blockchainSyncError: error,
+        },
+        $unset: {
+          blockchainTxHash: 1,
+          blockchainBlockNumber: 1,
+          merkleBatchId: 1,
+          merkleRoot: 1,
+          merkleProof: 1,
+          ...(operation === BlockchainSyncOperation.CREATE && {
+            blockchainHash: 1,
+            hashVersion: 1,
+            hashAlgorithm: 1,
+            blockchainChainId: 1,
+            blockchainContractAddress: 1,
+          }),
+        },
+      },
+      { new: true, session }
+    );
+  }
+
+  /**
+   * Queue a todo for the next Merkle batch (batch anchor mode)
+   * Keeps the original queue time when re-queued, so retries don't lose their place
+   */
+  async markBatchQueued(
+    todoId: string | mongoose.Types.ObjectId,
+    operation: BlockchainSyncOperation
+  ): Promise<ITodo | null> {
+    const now = new Date();
+
+    return Todo.findByIdAndUpdate(
+      todoId,
+      {
+        $set: {
+          blockchainSyncStatus: BlockchainSyncStatus.PENDING,
+          blockchainSyncOperation: operation,
+          lastSyncAttempt: now,
+        },
+        $min: { batchQueuedAt: now },
+        $unset: { anchorDeferredUntil: 1 },
+      },
+      { new: true }
+    );
+  }
+
+  /**
+   * Get todos waiting for the next Merkle batch, oldest first
+   * Includes soft-deleted todos: their deletion state is part of the leaf
+   */
+  async getBatchQueue(limit: number): Promise<ITodo[]> {
+    return Todo.find({
+      blockchainSyncStatus: BlockchainSyncStatus.PENDING,
+      batchQueuedAt: { $exists: true },
+    })
+      .sort({ batchQueuedAt: 1 })
+      .limit(limit);
+  }
+
+  /**
+   * Record a todo's inclusion in an anchored Merkle batch
+   * Only applies if the todo is unchanged since it was read for the batch; otherwise it
+   * stays queued and its new state goes into the next batch. Returns whether it applied.
+   */
+  async markBatchAnchored(
+    todo: ITodo,
+    anchor: {
+      anchoredHash: VersionedHash;
+      target: AnchorTarget;
+      txHash: string;
+      blockNumber: number;
+      batchId: number;
+      merkleRoot: string;
+      merkleProof: string[];
+      status: BlockchainSyncStatus.SYNCED | BlockchainSyncStatus.CONFIRMING;
+    }
+  ): Promise<boolean> {
+    const result = await Todo.updateOne(
+      { _id: todo._id, updatedAt: todo.updatedAt },
+      {
+        $set: {
+          ...toAnchoredHashFields(anchor.anchoredHash),
+          ...toAnchorTargetFields(anchor.target),
+          blockchainTxHash: anchor.txHash,
+          blockchainBlockNumber: anchor.blockNumber,
+          merkleBatchId: anchor.batchId,
+          merkleRoot: anchor.merkleRoot,
+          merkleProof: anchor.merkleProof,
+          blockchainSyncStatus: anchor.status,
+          ...(anchor.status === BlockchainSyncStatus.SYNCED && { blockchainSyncedAt: new Date() }),
+          syncRetryCount: 0,
+        },
+        $unset: { blockchainSyncError: 1, batchQueuedAt: 1 },
+      }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Mark every todo of a batch whose anchoring transaction failed
+   * The retry job re-queues them with the usual backoff
+   */
+  async markBatchFailed(todoIds: mongoose.Types.ObjectId[], error: string): Promise<void> {
+    await Todo.updateMany(
+      { _id: { $in: todoIds } },
+      {
+        $set: {
+          blockchainSyncStatus: BlockchainSyncStatus.FAILED,
+          blockchainSyncError: error,
+        },
+        $inc: { syncRetryCount: 1 },
+      }
+    );
+  }
+
+  /**
+   * Get todos that failed blockchain sync and whose backoff delay has elapsed
+   * Includes soft-deleted todos so pending deletions are retried too
    */
   async getFailedSyncs(limit = 10): Promise<ITodo[]> {
+    const { MAX_RETRY_ATTEMPTS, RETRY_DELAYS } = CONSTANTS.BLOCKCHAIN;
+    const now = Date.now();
+
+    // One clause per backoff step: retry N waits RETRY_DELAYS[N] since the last attempt
+    const dueClauses = RETRY_DELAYS.map((delay, index) => ({
+      syncRetryCount: index === RETRY_DELAYS.length - 1 ? { $gte: index } : index,
+      $or: [
+        { lastSyncAttempt: { $lte: new Date(now - delay) } },
+        { lastSyncAttempt: { $exists: false } },
+      ],
+    }));
+
     return Todo.find({
       blockchainSyncStatus: BlockchainSyncStatus.FAILED,
-      syncRetryCount: { $lt: 10 }, // Max 10 retries
-      isDeleted: false,
+      syncRetryCount: { $lt: MAX_RETRY_ATTEMPTS },
+      $or: dueClauses,
+    })
+      .sort({ lastSyncAttempt: 1 })
+      .limit(limit);
+  }
+
+  /**
+   * Page through SYNCED todos in _id order (for reconciliation)
+   * Includes soft-deleted todos: their deletion state is anchored too
+   */
+  async getSyncedPage(afterId: mongoose.Types.ObjectId | null, limit: number): Promise<ITodo[]> {
+    return Todo.find({
+      blockchainSyncStatus: BlockchainSyncStatus.SYNCED,
+      ...(afterId && { _id: { $gt: afterId } }),
+    })
+      .sort({ _id: 1 })
+      .limit(limit);
+  }
+
+  /**
+   * Whether a todo is still SYNCED and unchanged since it was read
+   */
+  async isUnchangedSince(todo: ITodo): Promise<boolean> {
+    const count = await Todo.countDocuments({
+      _id: todo._id,
+      updatedAt: todo.updatedAt,
+      blockchainSyncStatus: BlockchainSyncStatus.SYNCED,
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Get todos stuck in PENDING (e.g. the process died mid-sync)
+   */
+  async getStuckPendingSyncs(olderThan: Date, limit = 10): Promise<ITodo[]> {
+    return Todo.find({
+      blockchainSyncStatus: BlockchainSyncStatus.PENDING,
+      $and: [
+        {
+          $or: [
+            { lastSyncAttempt: { $lte: olderThan } },
+            { lastSyncAttempt: { $exists: false }, updatedAt: { $lte: olderThan } },
+          ],
+        },
+        // Deferred (gas budget or fee cap): not stuck, just waiting
+        {
+          $or: [
+            { anchorDeferredUntil: { $exists: false } },
+            { anchorDeferredUntil: { $lte: new Date() } },
+          ],
+        },
+      ],
     })
       .sort({ updatedAt: 1 })
       .limit(limit);
   }
 
+  /**
+   * Find todos by ID, including soft-deleted todos (any user)
+   */
+  async findManyByIdsWithDeleted(todoIds: mongoose.Types.ObjectId[]): Promise<ITodo[]> {
+    return Todo.find({ _id: { $in: todoIds } });
+  }
+
+  /**
+   * Write recovered todos under their original IDs
+   * A todo is only inserted if it is missing, unless replace is set. Timestamps are kept
+   * as restored (createdAt is part of the anchored hash).
+   */
+  async restoreMany(restores: { todo: ITodo; replace: boolean }[]): Promise<void> {
+    if (restores.length === 0) {
+      return;
+    }
+
+    await Todo.bulkWrite(
+      restores.map(({ todo, replace }) => {
+        const { _id, ...fields } = todo.toObject();
+
+        return replace
+          ? {
+              replaceOne: {
+                filter: { _id },
+                replacement: fields,
+                upsert: true,
+                timestamps: false,
+              },
+            }
+          : {
+              updateOne: {
+                filter: { _id },
+                update: { $setOnInsert: fields },
+                upsert: true,
+                timestamps: false,
+              },
+            };
+      }),
+      { ordered: false }
+    );
+  }
+
   /**
    * Count todos by status
    */
@@ -18,6 +18,48 @@ export class UserRepository {
     return User.findOne({ _id: id, isDeleted: false });
   }
 
+  async findByWalletAddress(walletAddress: string): Promise<IUser | null> {
+    return User.findOne({ walletAddress, isDeleted: false });
+  }
+
+  // A deleted user keeps its wallet address, which stays unique
+
+  async findByWalletAddressWithDeleted(walletAddress: string): Promise<IUser | null> {
+    return User.findOne({ walletAddress });
+  }
+
+  async setWalletAddress(
+    id: string | mongoose.Types.ObjectId,
+    walletAddress: string
+  ): Promise<IUser | null> {
+    return User.findOneAndUpdate(
+      { _id: id, isDeleted: false },
+      { $set: { walletAddress } },
+      { new: true }
+    );
+  }
+
+  async unsetWalletAddress(id: string | mongoose.Types.ObjectId): Promise<IUser | null> {
+    return User.findOneAndUpdate(
+      { _id: id, isDeleted: false },
+      { $unset: { walletAddress: 1 } },
+      { new: true }
+    );
+  }
+
+  async setMonthlyGasBudget(
+    id: string | mongoose.Types.ObjectId,
+    monthlyGasBudget: number | null
+  ): Promise<IUser | null> {
+    return User.findOneAndUpdate(
+      { _id: id, isDeleted: false },
+      monthlyGasBudget === null
+        ? { $unset: { monthlyGasBudget: 1 } }
+        : { $set: { monthlyGasBudget } },
+      { new: true }
+    );
+  }
+
   async findByEmailOrUsername(email: string): Promise<IUser | null> {
     return User.findOne({
       $or: [{ email }, { username: email }],
@@ -59,4 +101,32 @@ export class UserRepository {
     const count = await User.countDocuments({ username, isDeleted: false });
     return count > 0;
   }
+
+  /**
+   * Rebuild the unique email index as sparse on databases created before wallet accounts
+   * (autoIndex never changes an existing index, and a non-sparse one indexes every missing
+   * email as null, so only one account could have none)
+   * @returns true if the index was rebuilt
+   */
+  async migrateEmailIndex(): Promise<boolean> {
+    let indexes: { name?: string; sparse?: boolean }[];
+    try {
+      indexes = await User.listIndexes();
+    } catch (error) {
+      // No users collection yet: autoIndex creates the index as declared
+      if ((error as { codeName?: string }).codeName === 'NamespaceNotFound') {
+        return false;
+      }
+      throw error;
+    }
+
+    const emailIndex = indexes.find((index) => index.name === 'email_1');
+    if (!emailIndex || emailIndex.sparse) {
+      return false;
+    }
+
+    await User.collection.dropIndex('email_1');
+    await User.createIndexes();
+    return true;
+  }
 }
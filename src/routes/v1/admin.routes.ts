@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { AdminController } from '../../controllers/admin.controller';
+import { authMiddleware } from '../../middleware/auth.middleware';
+import { rbac } from '../../middleware/rbac.middleware';
+import { validate } from '../../middleware/validation.middleware';
+import { gasBudgetSchema } from '../../dtos/admin';
+import { UserRole } from '../../types/enums';
+
+const router = Router();
+const adminController = new AdminController();
+
+// All admin routes require an authenticated admin
+router.use(authMiddleware, rbac([UserRole.ADMIN]));
+
+/**
+ * GET /api/v1/admin/reconciliation/reports/latest
+ * Get the latest completed Mongo-vs-chain drift report
+ * Must be before /reports/:id to avoid treating 'latest' as an ID
+ */
+router.get('/reconciliation/reports/latest', adminController.getLatestReconciliationReport);
+
+/**
+ * GET /api/v1/admin/reconciliation/reports/:id
+ * Get a drift report by ID
+ */
+router.get('/reconciliation/reports/:id', adminController.getReconciliationReport);
+
+/**
+ * POST /api/v1/admin/reconciliation/runs
+ * Start a reconciliation run
+ */
+router.post('/reconciliation/runs', adminController.triggerReconciliation);
+
+/**
+ * GET /api/v1/admin/gas-costs
+ * Get gas spent on anchoring by user, operation type and day
+ */
+router.get('/gas-costs', adminController.getGasCosts);
+
+/**
+ * GET /api/v1/admin/users/:id/gas-budget
+ * Get a user's monthly gas budget and this month's usage
+ */
+router.get('/users/:id/gas-budget', adminController.getGasBudget);
+
+/**
+ * PUT /api/v1/admin/users/:id/gas-budget
+ * Set or remove (null) a user's monthly gas budget
+ */
+router.put(
+  '/users/:id/gas-budget',
+  validate(gasBudgetSchema, 'body'),
+  adminController.setGasBudget
+);
+
+export default router;
@@ -2,7 +2,13 @@ import { Router } from 'express';
 import { AuthController } from '../../controllers/auth.controller';
 import { validate } from '../../middleware/validation.middleware';
 import { authMiddleware } from '../../middleware/auth.middleware';
-import { registerSchema, loginSchema } from '../../dtos/auth';
+import {
+  registerSchema,
+  loginSchema,
+  walletApprovalRequestSchema,
+  linkWalletSchema,
+  siweVerifySchema,
+} from '../../dtos/auth';
 
 const router = Router();
 
@@ -18,4 +24,32 @@ router.post('/logout', authMiddleware, authController.logout);
 
 router.get('/me', authMiddleware, authController.getCurrentUser);
 
+// Sign-In with Ethereum (EIP-4361)
+router.post('/siwe/nonce', authController.getSiweNonce);
+
+router.post('/siwe/verify', validate(siweVerifySchema, 'body'), authController.siweLogin);
+
+router.post(
+  '/siwe/link',
+  authMiddleware,
+  validate(siweVerifySchema, 'body'),
+  authController.linkSiweWallet
+);
+
+router.post(
+  '/wallet/approval-request',
+  authMiddleware,
+  validate(walletApprovalRequestSchema, 'body'),
+  authController.getWalletApprovalRequest
+);
+
+router.post(
+  '/wallet',
+  authMiddleware,
+  validate(linkWalletSchema, 'body'),
+  authController.linkWallet
+);
+
+router.delete('/wallet', authMiddleware, authController.unlinkWallet);
+
 export default router;
@@ -1,10 +1,14 @@
 import { Router } from 'express';
+import adminRoutes from './admin.routes';
 import authRoutes from './auth.routes';
 import todoRoutes from './todo.routes';
+import verifyRoutes from './verify.routes';
 
 const router = Router();
 
 router.use('/auth', authRoutes);
 router.use('/todos', todoRoutes);
+router.use('/admin', adminRoutes);
+router.use('/verify', verifyRoutes);
 
 export default router;
@@ -1,11 +1,13 @@
 import { Router } from 'express';
 import { TodoController } from '../../controllers/todo.controller';
+import { ProofController } from '../../controllers/proof.controller';
 import { validate } from '../../middleware/validation.middleware';
 import { authMiddleware } from '../../middleware/auth.middleware';
 import { createTodoSchema, updateTodoSchema } from '../../dtos/todo';
 
 const router = Router();
 const todoController = new TodoController();
+const proofController = new ProofController();
 
 // All todo routes require authentication
 router.use(authMiddleware);
@@ -65,4 +67,16 @@ router.post('/:id/restore', todoController.restoreTodo);
  */
 router.get('/:id/verify', todoController.verifyTodo);
 
+/**
+ * GET /api/v1/todos/:id/history
+ * Get the blockchain anchoring timeline (ledger + on-chain events)
+ */
+router.get('/:id/history', todoController.getTodoHistory);
+
+/**
+ * GET /api/v1/todos/:id/proof
+ * Get a signed proof bundle that anyone can check via POST /api/v1/verify
+ */
+router.get('/:id/proof', proofController.getTodoProof);
+
 export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { ProofController } from '../../controllers/proof.controller';
+import { validate } from '../../middleware/validation.middleware';
+import { publicVerifyRateLimit } from '../../middleware/rate-limit.middleware';
+import { verifyProofSchema } from '../../dtos/proof';
+
+const router = Router();
+const proofController = new ProofController();
+
+/**
+ * POST /api/v1/verify
+ * Verify a todo proof bundle against the blockchain
+ * Public: no account needed, rate limited per IP
+ */
+router.post(
+  '/',
+  publicVerifyRateLimit,
+  validate(verifyProofSchema, 'body'),
+  proofController.verifyProof
+);
+
+export default router;
@@ -1,5 +1,17 @@
 import app from './app';
-import { config, connectDatabase } from './config';
+import { config, connectDatabase, disconnectDatabase } from './config';
+import {
+  BlockchainSyncJob,
+  ConfirmationWatcherJob,
+  MerkleBatchJob,
+  OutboxDispatcherJob,
+  ReconciliationJob,
+} from './jobs';
+import { AnchorBackendType, AnchorMode } from './types/enums';
+import { TodoService } from './services/todo.service';
+import { UserRepository } from './repositories/user.repository';
+import { waitForVerifiedDeployments } from './services/deployment.service';
+import { isAnchoringEnabled } from './services/anchor-backend.service';
 import logger from './utils/logger';
 
 const PORT = config.port;
@@ -19,7 +31,12 @@ const startServer = async () => {
     // Connect to MongoDB
     await connectDatabase();
 
-    // Start Express server
+    // Wallet accounts have no email, which the pre-SIWE email index doesn't allow
+    if (await new UserRepository().migrateEmailIndex()) {
+      logger.info('Rebuilt the users email index as sparse');
+    }
+
+    // Start Express server (the API works without the chain: chain work queues up)
     const server = app.listen(PORT, () => {
       logger.info(`Server started successfully`, {
         port: PORT,
@@ -28,6 +45,53 @@ const startServer = async () => {
       });
     });
 
+    // Background jobs share one TodoService (and so one blockchain wallet)
+    const todoService = new TodoService();
+
+    // Drains queued blockchain operations
+    const outboxDispatcherJob = new OutboxDispatcherJob(todoService);
+
+    // Retries failed/stuck blockchain syncs
+    const blockchainSyncJob = new BlockchainSyncJob(todoService);
+
+    // The remaining jobs read the chain, so they only run while anchoring is enabled
+    const anchoring = isAnchoringEnabled();
+
+    // Finalizes mined writes once they reach the network's confirmation depth
+    const confirmationWatcherJob = anchoring ? new ConfirmationWatcherJob(todoService) : null;
+
+    // In batch anchor mode, periodically anchors queued todos as one Merkle root
+    const merkleBatchJob =
+      anchoring && config.blockchain.anchorMode === AnchorMode.BATCH
+        ? new MerkleBatchJob(todoService)
+        : null;
+
+    // Periodically compares synced todos with the chain and writes a drift report
+    const reconciliationJob = anchoring ? new ReconciliationJob() : null;
+
+    const startJobs = () => {
+      outboxDispatcherJob.start();
+      blockchainSyncJob.start();
+      confirmationWatcherJob?.start();
+      merkleBatchJob?.start();
+      reconciliationJob?.start();
+    };
+
+    // Chain work waits until every contract matches its deployment manifest (only the
+    // ethers backend talks to a node). The check runs in the background and is retried
+    // while the node is down, so an RPC outage doesn't keep the API from starting.
+    const deploymentCheck = new AbortController();
+
+    if (config.blockchain.backend === AnchorBackendType.ETHERS) {
+      waitForVerifiedDeployments(deploymentCheck.signal).then((verified) => {
+        if (verified) {
+          startJobs();
+        }
+      });
+    } else {
+      startJobs();
+    }
+
     // Handle unhandled promise rejections
     process.on('unhandledRejection', (reason: any) => {
       logger.error('UNHANDLED REJECTION! Shutting down...', {
@@ -41,19 +105,28 @@ const startServer = async () => {
     });
 
     // Graceful shutdown
-    process.on('SIGTERM', () => {
-      logger.info('SIGTERM received. Shutting down gracefully...');
-      server.close(() => {
-        logger.info('Process terminated');
-      });
-    });
+    const shutdown = async (signal: string) => {
+      logger.info(`${signal} received. Shutting down gracefully...`);
 
-    process.on('SIGINT', () => {
-      logger.info('SIGINT received. Shutting down gracefully...');
-      server.close(() => {
+      deploymentCheck.abort();
+
+      // Let in-flight chain operations finish before closing connections
+      await Promise.all([
+        outboxDispatcherJob.stop(),
+        blockchainSyncJob.stop(),
+        confirmationWatcherJob?.stop(),
+        merkleBatchJob?.stop(),
+        reconciliationJob?.stop(),
+      ]);
+
+      server.close(async () => {
+        await disconnectDatabase();
         logger.info('Process terminated');
       });
-    });
+    };
+
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+    process.on('SIGINT', () => shutdown('SIGINT'));
   } catch (error) {
     logger.error('Failed to start server:', error);
     process.exit(1);
@@ -0,0 +1,125 @@
+import { config } from '../config';
+import { AnchorBackendType } from '../types/enums';
+import { ConfirmationStatus } from './confirmation.service';
+import {
+  AnchorTarget,
+  BatchAnchorResult,
+  BatchRecord,
+  getBlockchainService,
+  OperatorApprovalRequest,
+  TodoChainEvent,
+  TodoRecord,
+  TransactionResult,
+} from './blockchain.service';
+import { MemoryAnchorBackend } from './memory-anchor-backend.service';
+import { DisabledAnchorBackend } from './disabled-anchor-backend.service';
+
+/**
+ * Where todo hashes are anchored, on one network
+ * Failed contract checks are thrown as errors carrying the TodoRegistry revert reason
+ * (e.g. "Todo already exists"), whichever backend raised them
+ */
+export interface AnchorBackend {
+  getType(): AnchorBackendType;
+
+  // Availability (false, or CircuitOpenError, while the network's RPC circuit is open)
+  isAvailable(): boolean;
+  assertAvailable(): void;
+
+  // When set, fees are over the network's cap: hold writes until then
+  getFeeDeferral(): Promise<Date | undefined>;
+
+  // Writes (create/update return with the anchored hash recorded)
+  createTodo(
+    todoId: string,
+    todoHash: string,
+    schemaVersion: number,
+    owner?: string
+  ): Promise<TransactionResult>;
+  updateTodo(todoId: string, newHash: string, schemaVersion: number): Promise<TransactionResult>;
+  deleteTodo(todoId: string): Promise<TransactionResult>;
+  restoreTodo(todoId: string): Promise<TransactionResult>;
+  anchorBatch(root: string, count: number): Promise<BatchAnchorResult>;
+
+  // Reads
+  verifyTodo(todoId: string, expectedHash: string): Promise<boolean>;
+  getTodo(todoId: string): Promise<TodoRecord>;
+  todoExists(todoId: string): Promise<boolean>;
+  getTodoEvents(todoId: string): Promise<TodoChainEvent[]>;
+  getBatch(batchId: number): Promise<BatchRecord>;
+  verifyBatchInclusion(batchId: number, leaf: string, proof: string[]): Promise<boolean>;
+
+  // Wallet ownership (operator approvals)
+  supportsWalletOwnership(): boolean;
+  isApprovedOperator(owner: string): Promise<boolean>;
+  getOperatorApprovalRequest(
+    owner: string,
+    approved: boolean,
+    deadline: number
+  ): Promise<OperatorApprovalRequest>;
+  setOperatorApprovalBySig(
+    owner: string,
+    approved: boolean,
+    deadline: number,
+    signature: string
+  ): Promise<TransactionResult>;
+
+  // Finality
+  checkConfirmation(txHash: string): Promise<ConfirmationStatus>;
+  getRequiredConfirmations(): number;
+
+  // The anchoring wallet
+  signMessage(message: string): Promise<string>;
+  getWalletAddress(): string;
+
+  getNetwork(): string;
+  getAnchorTarget(): AnchorTarget;
+}
+
+/**
+ * One simulated or disabled backend per network (ethers backends are shared through
+ * getBlockchainService)
+ */
+const anchorBackends = new Map<string, AnchorBackend>();
+
+/**
+ * Get the anchor backend (BLOCKCHAIN_BACKEND) for an enabled network (the default
+ * network if omitted, e.g. for a todo anchored before todos recorded their network)
+ */
+export function getAnchorBackend(network: string = config.blockchain.network): AnchorBackend {
+  if (config.blockchain.backend === AnchorBackendType.ETHERS) {
+    return getBlockchainService(network);
+  }
+
+  if (!config.blockchain.networks.includes(network)) {
+    throw new Error(
+      `Blockchain network ${network} is not enabled (enabled: ${config.blockchain.networks.join(', ')})`
+    );
+  }
+
+  let backend = anchorBackends.get(network);
+
+  if (!backend) {
+    backend =
+      config.blockchain.backend === AnchorBackendType.MEMORY
+        ? new MemoryAnchorBackend(network)
+        : new DisabledAnchorBackend(network);
+    anchorBackends.set(network, backend);
+  }
+
+  return backend;
+}
+
+/**
+ * Whether todos are anchored at all (BLOCKCHAIN_BACKEND is not disabled)
+ */
+export function isAnchoringEnabled(): boolean {
+  return config.blockchain.backend !== AnchorBackendType.DISABLED;
+}
+
+/**
+ * Whether anchors are contract events the indexer can serve (the ethers backend)
+ */
+export function hasEventIndex(): boolean {
+  return config.blockchain.backend === AnchorBackendType.ETHERS;
+}
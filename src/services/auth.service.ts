@@ -2,6 +2,8 @@ import jwt from 'jsonwebtoken';
 import { UserRepository } from '../repositories/user.repository';
 import { RegisterDTO } from '../dtos/auth/register.dto';
 import { LoginDTO } from '../dtos/auth/login.dto';
+import { SiweVerifyDTO } from '../dtos/auth/siwe.dto';
+import { SiweNonce, SiweService } from './siwe.service';
 import { ApiError } from '../utils/api-error';
 import { config } from '../config';
 import { IUser } from '../models/user.model';
@@ -9,18 +11,19 @@ import { UserRole } from '../types/enums';
 
 interface TokenPayload {
   userId: string; // User's ID
-  email: string; // User's email
+  email?: string; // User's email (absent for wallet accounts)
   role: UserRole; // User's role (for authorization)
 }
 
 interface AuthResponse {
   user: {
     id: string;
-    email: string;
+    email?: string;
     username: string;
     role: UserRole;
     firstName?: string;
     lastName?: string;
+    walletAddress?: string;
   };
   accessToken: string; // JWT token for API requests
   refreshToken: string; // Token to get new access tokens
@@ -28,9 +31,11 @@ interface AuthResponse {
 
 export class AuthService {
   private userRepository: UserRepository;
+  private siweService: SiweService;
 
   constructor() {
     this.userRepository = new UserRepository();
+    this.siweService = new SiweService();
   }
 
   async register(data: RegisterDTO): Promise<AuthResponse> {
@@ -109,6 +114,61 @@ export class AuthService {
     };
   }
 
+  /**
+   * SIGN-IN WITH ETHEREUM NONCE
+   *
+   * The wallet puts it in the EIP-4361 message it signs, so a message can't be replayed
+   */
+  async createSiweNonce(): Promise<SiweNonce> {
+    return this.siweService.createNonce();
+  }
+
+  /**
+   * SIGN-IN WITH ETHEREUM
+   *
+   * Log in the user the wallet is linked to, or create an account for a new wallet
+   */
+  async siweLogin(data: SiweVerifyDTO): Promise<AuthResponse> {
+    // Step 1: Check the signed message and consume its nonce
+    const walletAddress = await this.siweService.verify(data);
+
+    // Step 2: Find the linked user, or create one (no email or password)
+    // A deleted account keeps its wallet, so the wallet can't get a new account either
+    const linkedUser = await this.userRepository.findByWalletAddressWithDeleted(walletAddress);
+    if (linkedUser?.isDeleted) {
+      throw ApiError.forbidden(
+        'The account linked to this wallet has been deleted',
+        'ACCOUNT_DELETED'
+      );
+    }
+
+    const user =
+      linkedUser ??
+      (await this.userRepository.create({
+        username: this.getWalletUsername(walletAddress),
+        walletAddress,
+        role: UserRole.USER,
+      }));
+
+    // Step 3: Generate tokens
+    const { accessToken, refreshToken } = this.generateTokens(user);
+
+    // Step 4: Store refresh token
+    const refreshTokenExpiry = this.getRefreshTokenExpiry();
+    await user.addRefreshToken(refreshToken, refreshTokenExpiry);
+
+    // Step 5: Update last login time
+    user.lastLoginAt = new Date();
+    await user.save();
+
+    // Step 6: Return response
+    return {
+      user: this.formatUserResponse(user),
+      accessToken,
+      refreshToken,
+    };
+  }
+
   /**
    * GENERATE TOKENS (Private helper method)
    */
@@ -204,9 +264,20 @@ export class AuthService {
       role: user.role,
       firstName: user.firstName,
       lastName: user.lastName,
+      walletAddress: user.walletAddress,
     };
   }
 
+  /**
+   * HELPER: Username for an account created by signing in with a wallet
+   *
+   * 'eth.' + 26 hex digits of the address. Registration doesn't allow '.', so a
+   * registered user can't take a wallet's username first.
+   */
+  private getWalletUsername(walletAddress: string): string {
+    return `eth.${walletAddress.slice(2, 28).toLowerCase()}`;
+  }
+
   /**
    * HELPER: Calculate refresh token expiry date
    */
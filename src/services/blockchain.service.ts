@@ -1,51 +1,269 @@
 import { ethers, Contract, Wallet } from 'ethers';
 import { config } from '../config';
+import { AnchorBackendType } from '../types/enums';
 import logger from '../utils/logger';
-import { getContractConfig } from '../config/contracts';
-import { getNetworkConfig } from '../config/networks';
+import { ContractConfig, getContractConfig } from '../config/contracts';
+import { getNetworkConfig, NetworkConfig } from '../config/networks';
+import { checkConfirmation, ConfirmationStatus } from './confirmation.service';
+import {
+  getTransactionQueue,
+  TransactionFee,
+  TransactionQueue,
+  TransactionQueueDepth,
+} from './transaction-queue.service';
+import { getRpcProvider, PooledJsonRpcProvider } from './rpc-provider.service';
+import { AnchorBackend } from './anchor-backend.service';
+
+/**
+ * Receipt data recorded for every confirmed write
+ */
+export interface TransactionResult {
+  txHash: string;
+  blockNumber: number;
+  gasUsed: number;
+  effectiveGasPrice: number; // Wei per gas actually paid (base fee + tip)
+  contractAddress: string; // Registry the transaction wrote to
+  fee?: TransactionFee; // Fee the transaction was sent with (not known for replays)
+  replayed?: boolean; // Operation was already on chain; result points at the original tx
+}
+
+/**
+ * Receipt data for an anchored Merkle batch
+ */
+export interface BatchAnchorResult extends TransactionResult {
+  batchId: number;
+}
+
+/**
+ * A todo's anchor as stored on chain
+ */
+export interface TodoRecord {
+  todoHash: string;
+  owner: string;
+  timestamp: bigint;
+  isDeleted: boolean;
+}
+
+/**
+ * An anchored Merkle batch as stored on chain
+ */
+export interface BatchRecord {
+  root: string;
+  count: number;
+  submitter: string;
+  timestamp: bigint;
+}
+
+/**
+ * A TodoRegistry event emitted for a single todo
+ */
+export interface TodoChainEvent {
+  event: 'TodoCreated' | 'TodoUpdated' | 'TodoDeleted' | 'TodoRestored';
+  todoHash?: string;
+  oldHash?: string;
+  owner?: string;
+  timestamp: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+const TODO_EVENT_NAMES: TodoChainEvent['event'][] = [
+  'TodoCreated',
+  'TodoUpdated',
+  'TodoDeleted',
+  'TodoRestored',
+];
+
+/**
+ * The deployment a hash was anchored to
+ */
+export interface AnchorTarget {
+  network: string;
+  chainId: number;
+  contractAddress: string;
+}
+
+/**
+ * EIP-712 typed data a wallet signs to approve (or revoke) the anchoring wallet as the
+ * operator of its todos (TodoRegistryV2)
+ */
+export interface OperatorApprovalRequest {
+  domain: ethers.TypedDataDomain;
+  types: Record<string, ethers.TypedDataField[]>;
+  primaryType: 'OperatorApproval';
+  message: {
+    owner: string;
+    operator: string;
+    approved: boolean;
+    nonce: string;
+    deadline: number;
+  };
+}
+
+export const OPERATOR_APPROVAL_TYPES = {
+  OperatorApproval: [
+    { name: 'owner', type: 'address' },
+    { name: 'operator', type: 'address' },
+    { name: 'approved', type: 'bool' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+/**
+ * A registry contract and its version (v2 writes take a hash schema version)
+ * reader is the same contract on the quorum provider, for reads that verify anchors
+ */
+interface Registry {
+  contract: Contract;
+  reader: Contract;
+  version: number;
+  deployBlock: number;
+}
+
+/**
+ * Check whether a contract call reverted with a specific require() message
+ */
+function isRevertWith(error: unknown, reason: string): boolean {
+  const err = error as { reason?: string; message?: string } | undefined;
+  return err?.reason === reason || Boolean(err?.message?.includes(reason));
+}
 
 /**
  * BlockchainService
- * Handles all interactions with the TodoRegistry smart contract
+ * Handles all interactions with the TodoRegistry smart contract on one network
+ * The ethers anchor backend; use getBlockchainService() to share one instance per network
+ *
+ * When the deployment replaced an earlier registry, todos still only on the predecessor
+ * (not migrated yet) are read and written there; everything else goes to the current one.
+ *
+ * Writes go through the network's RPC endpoints with failover; reads that decide whether
+ * an anchor exists or matches (verify, getTodo, batches) need a quorum of them to agree.
  */
-export class BlockchainService {
+export class BlockchainService implements AnchorBackend {
   private contract: Contract;
-  private provider: ethers.Provider;
+  private registry: Registry;
+  private predecessor?: Registry;
+  private provider: PooledJsonRpcProvider;
   private wallet: Wallet;
+  private transactionQueue: TransactionQueue;
+  private network: string;
+  private networkConfig: NetworkConfig;
+  private contractConfig: ContractConfig;
+  private requiredConfirmations: number;
 
-  constructor() {
+  constructor(network: string = config.blockchain.network) {
     // Get network configuration
-    const network = config.blockchain.network || 'sepolia';
     const networkConfig = getNetworkConfig(network);
+    this.network = network;
+    this.networkConfig = networkConfig;
+    this.requiredConfirmations = networkConfig.confirmations;
 
-    // Get contract configuration
+    // Get contract configuration (from the network's deployment manifest)
     const contractConfig = getContractConfig(network);
+    this.contractConfig = contractConfig;
 
-    // Initialize provider
-    this.provider = new ethers.JsonRpcProvider(networkConfig.rpcUrl);
+    // Initialize providers (the network's RPC endpoints, behind its circuit breaker)
+    this.provider = getRpcProvider(network);
+    const quorumProvider = getRpcProvider(network, 'quorum');
 
     // Initialize wallet
     this.wallet = new ethers.Wallet(config.blockchain.privateKey, this.provider);
 
-    // Initialize contract instance with hardcoded ABI and address
+    // All writes from this wallet go through one nonce-managed queue
+    this.transactionQueue = getTransactionQueue(this.wallet, network);
+
+    // Initialize contract instances with the deployment manifest's ABI and address
     this.contract = new ethers.Contract(contractConfig.address, contractConfig.abi, this.wallet);
+    this.registry = {
+      contract: this.contract,
+      reader: new ethers.Contract(contractConfig.address, contractConfig.abi, quorumProvider),
+      version: contractConfig.version,
+      deployBlock: contractConfig.deployBlock,
+    };
+
+    if (contractConfig.predecessor) {
+      const { address, abi, version, deployBlock } = contractConfig.predecessor;
+      this.predecessor = {
+        contract: new ethers.Contract(address, abi, this.wallet),
+        reader: new ethers.Contract(address, abi, quorumProvider),
+        version,
+        deployBlock,
+      };
+    }
 
     logger.info('Blockchain service initialized', {
-      network: networkConfig.name,
+      network,
       chainId: networkConfig.chainId,
       contract: contractConfig.address,
+      registryVersion: contractConfig.version,
+      predecessor: contractConfig.predecessor?.address,
+      confirmations: networkConfig.confirmations,
     });
   }
 
+  getType(): AnchorBackendType {
+    return AnchorBackendType.ETHERS;
+  }
+
   /**
-   * Create a todo record on blockchain
+   * False while the network's RPC circuit is open
    */
-  async createTodo(todoId: string, todoHash: string): Promise<string> {
+  isAvailable(): boolean {
+    return !this.provider.getCircuitBreaker().isOpen();
+  }
+
+  /**
+   * Throw CircuitOpenError while the network's RPC circuit is open
+   */
+  assertAvailable(): void {
+    this.provider.getCircuitBreaker().assertClosed();
+  }
+
+  /**
+   * When the network's fees (base fee plus tip) are over its fee cap, the time to check
+   * them again; undefined when writes can go ahead
+   */
+  async getFeeDeferral(): Promise<Date | undefined> {
+    if (!(await this.transactionQueue.isOverFeeCap())) {
+      return undefined;
+    }
+
+    return new Date(Date.now() + this.networkConfig.fees.deferralMs);
+  }
+
+  /**
+   * Create a todo record on blockchain (always on the current registry)
+   * schemaVersion is the hash scheme version, recorded by v2 registries
+   * owner is the user's linked wallet: the todo is created for it when it has approved
+   * the anchoring wallet as its operator, otherwise the anchoring wallet owns it
+   */
+  async createTodo(
+    todoId: string,
+    todoHash: string,
+    schemaVersion: number,
+    owner?: string
+  ): Promise<TransactionResult> {
     try {
-      logger.info('Creating todo on blockchain', { todoId, todoHash });
+      const createFor = owner ? await this.isApprovedOperator(owner) : false;
+
+      if (owner && !createFor) {
+        logger.warn('Wallet has not approved the anchoring wallet, anchoring under it instead', {
+          todoId,
+          owner,
+        });
+      }
 
-      const tx = await this.contract.createTodo(todoId, todoHash);
-      const receipt = await tx.wait();
+      logger.info('Creating todo on blockchain', { todoId, todoHash, ...(createFor && { owner }) });
+
+      const { receipt, fee } = await this.transactionQueue.submit('createTodo', () =>
+        createFor
+          ? this.contract.createTodoFor.populateTransaction(todoId, todoHash, schemaVersion, owner)
+          : this.contract.createTodo.populateTransaction(
+              ...this.withSchemaVersion(this.registry, [todoId, todoHash], schemaVersion)
+            )
+      );
 
       logger.info('Todo created on blockchain', {
         todoId,
@@ -53,8 +271,20 @@ export class BlockchainService {
         blockNumber: receipt.blockNumber,
       });
 
-      return receipt.hash;
+      return this.toTransactionResult(receipt, fee);
     } catch (error) {
+      // Replay of a create that already landed: success if the anchored hash matches
+      if (isRevertWith(error, 'Todo already exists')) {
+        const applied = await this.findAppliedTransaction(
+          todoId,
+          ['TodoCreated', 'TodoUpdated'],
+          todoHash
+        );
+        if (applied) {
+          return applied;
+        }
+      }
+
       logger.error('Failed to create todo on blockchain', {
         todoId,
         error: error instanceof Error ? error.message : String(error),
@@ -65,13 +295,36 @@ export class BlockchainService {
 
   /**
    * Update a todo's hash on blockchain
+   * schemaVersion is the hash scheme version, recorded by v2 registries
    */
-  async updateTodo(todoId: string, newHash: string): Promise<string> {
+  async updateTodo(
+    todoId: string,
+    newHash: string,
+    schemaVersion: number
+  ): Promise<TransactionResult> {
     try {
       logger.info('Updating todo on blockchain', { todoId, newHash });
 
-      const tx = await this.contract.updateTodo(todoId, newHash);
-      const receipt = await tx.wait();
+      const registry = await this.getRegistry(todoId);
+
+      // Replay of an update that already landed: don't pay for a no-op transaction
+      const [currentHash] = await registry.contract.getTodo(todoId);
+      if (currentHash.toLowerCase() === newHash.toLowerCase()) {
+        const applied = await this.findAppliedTransaction(
+          todoId,
+          ['TodoCreated', 'TodoUpdated'],
+          newHash
+        );
+        if (applied) {
+          return applied;
+        }
+      }
+
+      const { receipt, fee } = await this.transactionQueue.submit('updateTodo', () =>
+        registry.contract.updateTodo.populateTransaction(
+          ...this.withSchemaVersion(registry, [todoId, newHash], schemaVersion)
+        )
+      );
 
       logger.info('Todo updated on blockchain', {
         todoId,
@@ -79,7 +332,7 @@ export class BlockchainService {
         blockNumber: receipt.blockNumber,
       });
 
-      return receipt.hash;
+      return this.toTransactionResult(receipt, fee);
     } catch (error) {
       logger.error('Failed to update todo on blockchain', {
         todoId,
@@ -92,12 +345,14 @@ export class BlockchainService {
   /**
    * Soft delete a todo on blockchain
    */
-  async deleteTodo(todoId: string): Promise<string> {
+  async deleteTodo(todoId: string): Promise<TransactionResult> {
     try {
       logger.info('Deleting todo on blockchain', { todoId });
 
-      const tx = await this.contract.deleteTodo(todoId);
-      const receipt = await tx.wait();
+      const { contract } = await this.getRegistry(todoId);
+      const { receipt, fee } = await this.transactionQueue.submit('deleteTodo', () =>
+        contract.deleteTodo.populateTransaction(todoId)
+      );
 
       logger.info('Todo deleted on blockchain', {
         todoId,
@@ -105,8 +360,15 @@ export class BlockchainService {
         blockNumber: receipt.blockNumber,
       });
 
-      return receipt.hash;
+      return this.toTransactionResult(receipt, fee);
     } catch (error) {
+      if (isRevertWith(error, 'Todo is already deleted')) {
+        const applied = await this.findAppliedTransaction(todoId, ['TodoDeleted']);
+        if (applied) {
+          return applied;
+        }
+      }
+
       logger.error('Failed to delete todo on blockchain', {
         todoId,
         error: error instanceof Error ? error.message : String(error),
@@ -118,12 +380,14 @@ export class BlockchainService {
   /**
    * Restore a deleted todo on blockchain
    */
-  async restoreTodo(todoId: string): Promise<string> {
+  async restoreTodo(todoId: string): Promise<TransactionResult> {
     try {
       logger.info('Restoring todo on blockchain', { todoId });
 
-      const tx = await this.contract.restoreTodo(todoId);
-      const receipt = await tx.wait();
+      const { contract } = await this.getRegistry(todoId);
+      const { receipt, fee } = await this.transactionQueue.submit('restoreTodo', () =>
+        contract.restoreTodo.populateTransaction(todoId)
+      );
 
       logger.info('Todo restored on blockchain', {
         todoId,
@@ -131,8 +395,15 @@ export class BlockchainService {
         blockNumber: receipt.blockNumber,
       });
 
-      return receipt.hash;
+      return this.toTransactionResult(receipt, fee);
     } catch (error) {
+      if (isRevertWith(error, 'Todo is not deleted')) {
+        const applied = await this.findAppliedTransaction(todoId, ['TodoRestored']);
+        if (applied) {
+          return applied;
+        }
+      }
+
       logger.error('Failed to restore todo on blockchain', {
         todoId,
         error: error instanceof Error ? error.message : String(error),
@@ -142,13 +413,97 @@ export class BlockchainService {
   }
 
   /**
-   * Verify a todo's hash against blockchain
+   * Anchor the Merkle root of a batch of todo leaves
+   */
+  async anchorBatch(root: string, count: number): Promise<BatchAnchorResult> {
+    try {
+      logger.info('Anchoring todo batch on blockchain', { root, count });
+
+      const { receipt, fee } = await this.transactionQueue.submit('anchorBatch', () =>
+        this.contract.anchorBatch.populateTransaction(root, count)
+      );
+
+      const anchored = receipt.logs
+        .map((log) => this.contract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === 'BatchAnchored');
+
+      if (!anchored) {
+        throw new Error(`BatchAnchored event missing from transaction ${receipt.hash}`);
+      }
+
+      const batchId = Number(anchored.args.batchId);
+
+      logger.info('Todo batch anchored on blockchain', {
+        batchId,
+        txHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+      });
+
+      return { ...this.toTransactionResult(receipt, fee), batchId };
+    } catch (error) {
+      logger.error('Failed to anchor todo batch on blockchain', {
+        root,
+        count,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get an anchored batch from blockchain
+   */
+  async getBatch(batchId: number): Promise<BatchRecord> {
+    try {
+      const [root, count, submitter, timestamp] = await this.readBatch((contract) =>
+        contract.getBatch(batchId)
+      );
+
+      return {
+        root,
+        count: Number(count),
+        submitter,
+        timestamp,
+      };
+    } catch (error) {
+      logger.error('Failed to get batch from blockchain', {
+        batchId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Verify a leaf's Merkle proof against an anchored batch root
+   */
+  async verifyBatchInclusion(batchId: number, leaf: string, proof: string[]): Promise<boolean> {
+    try {
+      const isIncluded = await this.readBatch((contract) =>
+        contract.verifyBatchInclusion(batchId, leaf, proof)
+      );
+
+      logger.info('Batch inclusion result', { batchId, leaf, isIncluded });
+
+      return isIncluded;
+    } catch (error) {
+      logger.error('Failed to verify batch inclusion on blockchain', {
+        batchId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Verify a todo's hash against blockchain (a quorum read across the network's endpoints)
    */
   async verifyTodo(todoId: string, expectedHash: string): Promise<boolean> {
     try {
       logger.info('Verifying todo on blockchain', { todoId, expectedHash });
 
-      const isValid = await this.contract.verifyTodo(todoId, expectedHash);
+      const { reader } = await this.getRegistry(todoId);
+      const isValid = await reader.verifyTodo(todoId, expectedHash);
 
       logger.info('Todo verification result', { todoId, isValid });
 
@@ -165,16 +520,12 @@ export class BlockchainService {
   /**
    * Get todo details from blockchain
    */
-  async getTodo(todoId: string): Promise<{
-    todoHash: string;
-    owner: string;
-    timestamp: bigint;
-    isDeleted: boolean;
-  }> {
+  async getTodo(todoId: string): Promise<TodoRecord> {
     try {
       logger.info('Getting todo from blockchain', { todoId });
 
-      const [todoHash, owner, timestamp, isDeleted] = await this.contract.getTodo(todoId);
+      const { reader } = await this.getRegistry(todoId);
+      const [todoHash, owner, timestamp, isDeleted] = await reader.getTodo(todoId);
 
       return {
         todoHash,
@@ -192,11 +543,45 @@ export class BlockchainService {
   }
 
   /**
-   * Check if a todo exists on blockchain
+   * Get all TodoRegistry events for a todo, in chain order (a migrated todo's history
+   * starts on the predecessor registry)
+   * todoId is an indexed string, so logs are matched by its keccak256 topic
+   */
+  async getTodoEvents(todoId: string): Promise<TodoChainEvent[]> {
+    try {
+      const registries = this.predecessor ? [this.predecessor, this.registry] : [this.registry];
+
+      const logsByEvent = await Promise.all(
+        registries.flatMap(({ contract, deployBlock }) =>
+          TODO_EVENT_NAMES.map((name) =>
+            contract.queryFilter(contract.filters[name](todoId), deployBlock)
+          )
+        )
+      );
+
+      const events = logsByEvent
+        .flat()
+        .filter((log): log is ethers.EventLog => log instanceof ethers.EventLog)
+        .map((log) => this.toTodoChainEvent(log));
+
+      return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    } catch (error) {
+      logger.error('Failed to get todo events from blockchain', {
+        todoId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a todo exists on blockchain (on either registry)
    */
   async todoExists(todoId: string): Promise<boolean> {
     try {
-      const exists = await this.contract.todoExistsByID(todoId);
+      const exists =
+        (await this.registry.reader.todoExistsByID(todoId)) ||
+        (this.predecessor !== undefined && (await this.predecessor.reader.todoExistsByID(todoId)));
       return exists;
     } catch (error) {
       logger.error('Failed to check todo existence on blockchain', {
@@ -207,6 +592,247 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Whether this network's registry can record todos under users' own wallets (v2)
+   */
+  supportsWalletOwnership(): boolean {
+    return this.registry.version >= 2;
+  }
+
+  /**
+   * Whether a wallet has approved the anchoring wallet as the operator of its todos
+   */
+  async isApprovedOperator(owner: string): Promise<boolean> {
+    if (!this.supportsWalletOwnership()) {
+      return false;
+    }
+
+    return this.registry.reader.isApprovedOperator(owner, this.wallet.address);
+  }
+
+  /**
+   * Typed data for a wallet to sign, approving (or revoking) the anchoring wallet as the
+   * operator of its todos; valid until deadline (unix seconds) and for the wallet's
+   * current nonce
+   */
+  async getOperatorApprovalRequest(
+    owner: string,
+    approved: boolean,
+    deadline: number
+  ): Promise<OperatorApprovalRequest> {
+    const nonce: bigint = await this.contract.nonces(owner);
+
+    return {
+      domain: {
+        name: 'TodoRegistry',
+        version: '2',
+        chainId: this.networkConfig.chainId,
+        verifyingContract: this.contractConfig.address,
+      },
+      types: OPERATOR_APPROVAL_TYPES,
+      primaryType: 'OperatorApproval',
+      message: {
+        owner: ethers.getAddress(owner),
+        operator: this.wallet.address,
+        approved,
+        nonce: nonce.toString(),
+        deadline,
+      },
+    };
+  }
+
+  /**
+   * Relay a wallet's signed operator approval (or revocation) to the registry
+   */
+  async setOperatorApprovalBySig(
+    owner: string,
+    approved: boolean,
+    deadline: number,
+    signature: string
+  ): Promise<TransactionResult> {
+    try {
+      logger.info('Relaying operator approval to blockchain', { owner, approved });
+
+      const { receipt, fee } = await this.transactionQueue.submit('setOperatorApprovalBySig', () =>
+        this.contract.setOperatorApprovalBySig.populateTransaction(
+          owner,
+          this.wallet.address,
+          approved,
+          deadline,
+          signature
+        )
+      );
+
+      logger.info('Operator approval relayed to blockchain', {
+        owner,
+        approved,
+        txHash: receipt.hash,
+      });
+
+      return this.toTransactionResult(receipt, fee);
+    } catch (error) {
+      logger.error('Failed to relay operator approval to blockchain', {
+        owner,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check a write transaction against the network's confirmation depth
+   */
+  async checkConfirmation(txHash: string): Promise<ConfirmationStatus> {
+    try {
+      return await checkConfirmation(this.provider, txHash, this.requiredConfirmations);
+    } catch (error) {
+      logger.error('Failed to check transaction confirmations', {
+        txHash,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Confirmations a write needs before it counts as final on this network
+   */
+  getRequiredConfirmations(): number {
+    return this.requiredConfirmations;
+  }
+
+  /**
+   * Registry holding a todo: the current one, unless the todo is only on the predecessor
+   * (anchored before the upgrade and not migrated yet). New todos go to the current one.
+   */
+  private async getRegistry(todoId: string): Promise<Registry> {
+    if (!this.predecessor || (await this.registry.reader.todoExistsByID(todoId))) {
+      return this.registry;
+    }
+
+    return (await this.predecessor.reader.todoExistsByID(todoId))
+      ? this.predecessor
+      : this.registry;
+  }
+
+  /**
+   * Read a batch from the current registry, falling back to the predecessor for batches
+   * anchored before the upgrade and not migrated yet
+   */
+  private async readBatch<T>(read: (contract: Contract) => Promise<T>): Promise<T> {
+    try {
+      return await read(this.registry.reader);
+    } catch (error) {
+      if (this.predecessor && isRevertWith(error, 'Batch does not exist')) {
+        return read(this.predecessor.reader);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write arguments for a registry: v2 takes the hash schema version as a last argument
+   */
+  private withSchemaVersion(
+    registry: Registry,
+    args: [string, string],
+    schemaVersion: number
+  ): [string, string] | [string, string, number] {
+    return registry.version >= 2 ? [...args, schemaVersion] : args;
+  }
+
+  /**
+   * Find the latest transaction that already applied an operation (idempotent replay)
+   * When todoHash is given, only events that wrote that hash count
+   */
+  private async findAppliedTransaction(
+    todoId: string,
+    eventNames: TodoChainEvent['event'][],
+    todoHash?: string
+  ): Promise<TransactionResult | null> {
+    const events = await this.getTodoEvents(todoId);
+
+    const applied = events
+      .reverse()
+      .find(
+        (event) =>
+          eventNames.includes(event.event) &&
+          (!todoHash || event.todoHash?.toLowerCase() === todoHash.toLowerCase())
+      );
+
+    if (!applied) {
+      return null;
+    }
+
+    const receipt = await this.provider.getTransactionReceipt(applied.transactionHash);
+
+    if (!receipt) {
+      return null;
+    }
+
+    logger.info('Operation already applied on blockchain, treating replay as success', {
+      todoId,
+      event: applied.event,
+      txHash: receipt.hash,
+    });
+
+    return { ...this.toTransactionResult(receipt), replayed: true };
+  }
+
+  /**
+   * Normalize a decoded TodoRegistry log
+   */
+  private toTodoChainEvent(log: ethers.EventLog): TodoChainEvent {
+    const event = log.eventName as TodoChainEvent['event'];
+    const base = {
+      event,
+      timestamp: log.args.timestamp.toString(),
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    };
+
+    switch (event) {
+      case 'TodoCreated':
+        return { ...base, todoHash: log.args.todoHash, owner: log.args.owner };
+      case 'TodoUpdated':
+        return { ...base, todoHash: log.args.newHash, oldHash: log.args.oldHash };
+      default:
+        return base;
+    }
+  }
+
+  /**
+   * Extract the receipt fields we persist (and the fee our own writes were sent with)
+   */
+  private toTransactionResult(
+    receipt: ethers.TransactionReceipt,
+    fee?: TransactionFee
+  ): TransactionResult {
+    return {
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      gasUsed: Number(receipt.gasUsed),
+      effectiveGasPrice: Number(receipt.gasPrice),
+      contractAddress: receipt.to!,
+      fee,
+    };
+  }
+
+  /**
+   * Sign a message (EIP-191) with the anchoring wallet
+   */
+  async signMessage(message: string): Promise<string> {
+    return this.wallet.signMessage(message);
+  }
+
+  /**
+   * Pending transaction count for this wallet (for monitoring)
+   */
+  getQueueDepth(): TransactionQueueDepth {
+    return this.transactionQueue.getDepth();
+  }
+
   /**
    * Get wallet address (for testing/debugging)
    */
@@ -218,8 +844,59 @@ export class BlockchainService {
    * Get contract address
    */
   getContractAddress(): string {
-    const network = config.blockchain.network || 'sepolia';
-    const contractConfig = getContractConfig(network);
-    return contractConfig.address;
+    return this.contractConfig.address;
   }
+
+  /**
+   * Name of the network this service writes to
+   */
+  getNetwork(): string {
+    return this.network;
+  }
+
+  /**
+   * Chain ID of this service's network
+   */
+  getChainId(): number {
+    return this.networkConfig.chainId;
+  }
+
+  /**
+   * Where this service anchors (recorded on todos with each anchored hash)
+   */
+  getAnchorTarget(): AnchorTarget {
+    return {
+      network: this.network,
+      chainId: this.networkConfig.chainId,
+      contractAddress: this.contractConfig.address,
+    };
+  }
+}
+
+/**
+ * One BlockchainService per network, shared across services
+ */
+const blockchainServices = new Map<string, BlockchainService>();
+
+/**
+ * Get the BlockchainService for an enabled network (the default network if omitted,
+ * e.g. for a todo anchored before todos recorded their network)
+ */
+export function getBlockchainService(
+  network: string = config.blockchain.network
+): BlockchainService {
+  if (!config.blockchain.networks.includes(network)) {
+    throw new Error(
+      `Blockchain network ${network} is not enabled (enabled: ${config.blockchain.networks.join(', ')})`
+    );
+  }
+
+  let service = blockchainServices.get(network);
+
+  if (!service) {
+    service = new BlockchainService(network);
+    blockchainServices.set(network, service);
+  }
+
+  return service;
 }
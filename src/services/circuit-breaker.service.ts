@@ -0,0 +1,215 @@
+import { CONSTANTS } from '../config/constants';
+import logger from '../utils/logger';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  probeIntervalMs: number; // Delay between probes while open
+}
+
+/**
+ * - closed: requests go through
+ * - open: requests are rejected without being sent; a probe runs every probeIntervalMs
+ * - half-open: a probe is in flight; its outcome closes or re-opens the circuit
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerState {
+  network: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: Date;
+  nextProbeAt?: Date;
+  lastError?: string;
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: CONSTANTS.BLOCKCHAIN.CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+  probeIntervalMs: CONSTANTS.BLOCKCHAIN.CIRCUIT_BREAKER_PROBE_INTERVAL,
+};
+
+/**
+ * A request refused because the network's RPC circuit is open
+ * retryAt is when the next probe runs (work parked until then is picked up right after)
+ */
+export class CircuitOpenError extends Error {
+  public readonly network: string;
+  public readonly retryAt: Date;
+
+  constructor(network: string, retryAt: Date) {
+    super(`RPC circuit for ${network} is open, next probe at ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.network = network;
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * CircuitBreaker
+ * Stops sending requests to a network's RPC endpoints while they keep failing
+ *
+ * - failureThreshold consecutive failures open the circuit; any success resets the count
+ * - While open, execute() throws CircuitOpenError right away and the probe request (sent
+ *   around the breaker) runs every probeIntervalMs; the first one that succeeds closes it
+ * - Only errors thrown by the wrapped request count, so callers should wrap transport
+ *   calls (an RPC error response such as a revert comes from a working node)
+ */
+export class CircuitBreaker {
+  private network: string;
+  private probeRequest: () => Promise<unknown>;
+  private options: CircuitBreakerOptions;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: Date;
+  private nextProbeAt?: Date;
+  private lastError?: string;
+  private probeTimer?: NodeJS.Timeout;
+
+  constructor(
+    network: string,
+    probeRequest: () => Promise<unknown>,
+    options: Partial<CircuitBreakerOptions> = {}
+  ) {
+    this.network = network;
+    this.probeRequest = probeRequest;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Send a request through the breaker
+   */
+  async execute<T>(request: () => Promise<T>): Promise<T> {
+    this.assertClosed();
+
+    try {
+      const result = await request();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      this.recordFailure(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Throw CircuitOpenError while the circuit is open
+   */
+  assertClosed(): void {
+    if (this.state === 'open') {
+      throw new CircuitOpenError(this.network, this.nextProbeAt!);
+    }
+  }
+
+  isOpen(): boolean {
+    return this.state === 'open';
+  }
+
+  /**
+   * Current state (for the health endpoint)
+   */
+  getState(): CircuitBreakerState {
+    return {
+      network: this.network,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      nextProbeAt: this.nextProbeAt,
+      lastError: this.lastError,
+    };
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+
+    if (this.state === 'closed') {
+      return;
+    }
+
+    logger.info('RPC circuit closed, provider recovered', {
+      network: this.network,
+      openedAt: this.openedAt,
+    });
+
+    clearTimeout(this.probeTimer);
+    this.state = 'closed';
+    this.openedAt = undefined;
+    this.nextProbeAt = undefined;
+    this.lastError = undefined;
+  }
+
+  private recordFailure(error: unknown): void {
+    this.consecutiveFailures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+
+    if (this.state === 'half-open') {
+      this.open();
+      logger.warn('RPC probe failed, circuit stays open', {
+        network: this.network,
+        nextProbeAt: this.nextProbeAt,
+        error: this.lastError,
+      });
+      return;
+    }
+
+    if (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = new Date();
+      this.open();
+      logger.error('RPC circuit opened, parking blockchain operations', {
+        network: this.network,
+        consecutiveFailures: this.consecutiveFailures,
+        nextProbeAt: this.nextProbeAt,
+        error: this.lastError,
+      });
+    }
+  }
+
+  private open(): void {
+    this.state = 'open';
+    this.nextProbeAt = new Date(Date.now() + this.options.probeIntervalMs);
+
+    clearTimeout(this.probeTimer);
+    this.probeTimer = setTimeout(() => this.probe(), this.options.probeIntervalMs);
+    // Don't keep the process alive just to probe
+    this.probeTimer.unref();
+  }
+
+  private async probe(): Promise<void> {
+    this.state = 'half-open';
+
+    try {
+      await this.probeRequest();
+      this.recordSuccess();
+    } catch (error) {
+      this.recordFailure(error);
+    }
+  }
+}
+
+/**
+ * One breaker per network, shared by every client of that network's RPC endpoints
+ */
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get a network's breaker; probeRequest (a cheap RPC call that doesn't go through the
+ * breaker) is used when it's created
+ */
+export function getCircuitBreaker(
+  network: string,
+  probeRequest: () => Promise<unknown>
+): CircuitBreaker {
+  let breaker = breakers.get(network);
+
+  if (!breaker) {
+    breaker = new CircuitBreaker(network, probeRequest);
+    breakers.set(network, breaker);
+  }
+
+  return breaker;
+}
+
+/**
+ * State of every network's breaker (for the health endpoint)
+ */
+export function getCircuitBreakerStates(): CircuitBreakerState[] {
+  return Array.from(breakers.values()).map((breaker) => breaker.getState());
+}
@@ -0,0 +1,52 @@
+import { ethers } from 'ethers';
+
+/**
+ * Where a broadcast transaction stands relative to the required confirmation depth
+ * - pending: not mined (yet, or again after a reorg put it back in the mempool)
+ * - confirming: mined, fewer than the required confirmations
+ * - confirmed: mined with at least the required confirmations
+ * - dropped: unknown to the node (its block was reorged out and the tx discarded)
+ * - reverted: mined but failed (e.g. re-included after a reorg into a different state)
+ */
+export type ConfirmationState = 'pending' | 'confirming' | 'confirmed' | 'dropped' | 'reverted';
+
+export interface ConfirmationStatus {
+  state: ConfirmationState;
+  confirmations: number;
+  blockNumber?: number;
+  blockHash?: string;
+}
+
+/**
+ * Check a transaction against a confirmation depth
+ * Always reads the current receipt, so a tx re-mined in another block after a
+ * reorg is reported with its new block
+ */
+export async function checkConfirmation(
+  provider: ethers.Provider,
+  txHash: string,
+  requiredConfirmations: number
+): Promise<ConfirmationStatus> {
+  const receipt = await provider.getTransactionReceipt(txHash);
+
+  if (!receipt) {
+    const tx = await provider.getTransaction(txHash);
+    return { state: tx ? 'pending' : 'dropped', confirmations: 0 };
+  }
+
+  const confirmations = await receipt.confirmations();
+  const mined = {
+    confirmations,
+    blockNumber: receipt.blockNumber,
+    blockHash: receipt.blockHash,
+  };
+
+  if (receipt.status !== 1) {
+    return { state: 'reverted', ...mined };
+  }
+
+  return {
+    state: confirmations >= requiredConfirmations ? 'confirmed' : 'confirming',
+    ...mined,
+  };
+}
@@ -0,0 +1,149 @@
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { CONSTANTS } from '../config/constants';
+import { getContractConfig } from '../config/contracts';
+import { getNetworkConfig } from '../config/networks';
+import logger from '../utils/logger';
+import { getRpcProvider } from './rpc-provider.service';
+import { CircuitOpenError } from './circuit-breaker.service';
+
+/**
+ * - unchecked: no check was started (the backend has no contract)
+ * - pending: the check hasn't passed yet, so no chain work runs
+ * - verified: every deployment matched its manifest
+ */
+export interface DeploymentCheckState {
+  status: 'unchecked' | 'pending' | 'verified';
+  attempts: number;
+  lastError?: string;
+}
+
+const checkState: DeploymentCheckState = { status: 'unchecked', attempts: 0 };
+
+/**
+ * Check that a network's node and contract match its deployment manifest
+ * Throws if the node is on another chain, or the code at the manifest address (or at its
+ * predecessor's) is missing or differs from the deployed bytecode (e.g. after a node reset
+ * or a redeploy)
+ */
+export async function verifyDeployment(network: string): Promise<void> {
+  const networkConfig = getNetworkConfig(network);
+  const contractConfig = getContractConfig(network);
+
+  // Code is compared on a quorum of the network's RPC endpoints
+  const provider = getRpcProvider(network, 'quorum');
+
+  const chainId = Number(await provider.send('eth_chainId', []));
+  if (chainId !== networkConfig.chainId) {
+    throw new Error(
+      `Network ${network} expects chain ${networkConfig.chainId}, but its node is on chain ${chainId}`
+    );
+  }
+
+  const contracts = [
+    contractConfig,
+    ...(contractConfig.predecessor ? [contractConfig.predecessor] : []),
+  ];
+
+  for (const { address, deployedBytecodeHash } of contracts) {
+    const code = await provider.getCode(address);
+    if (code === '0x') {
+      throw new Error(`No contract deployed at ${address} on network ${network}`);
+    }
+
+    if (ethers.keccak256(code) !== deployedBytecodeHash.toLowerCase()) {
+      throw new Error(
+        `Contract at ${address} on network ${network} does not match its deployment manifest`
+      );
+    }
+  }
+
+  logger.info('Contract deployment verified', {
+    network,
+    chainId,
+    contract: contractConfig.address,
+    predecessor: contractConfig.predecessor?.address,
+  });
+}
+
+/**
+ * Check every enabled network's deployment before the app starts using them
+ * Two networks can't share a deployment: todos and proofs are matched to a network by
+ * chain ID and contract address
+ */
+export async function verifyDeployments(
+  networks: string[] = config.blockchain.networks
+): Promise<void> {
+  const deployments = new Map<string, string>();
+
+  for (const network of networks) {
+    const { chainId } = getNetworkConfig(network);
+    const { address } = getContractConfig(network);
+    const deployment = `${chainId}:${address.toLowerCase()}`;
+
+    if (deployments.has(deployment)) {
+      throw new Error(
+        `Blockchain networks ${deployments.get(deployment)} and ${network} point at the same deployment`
+      );
+    }
+    deployments.set(deployment, network);
+  }
+
+  await Promise.all(networks.map((network) => verifyDeployment(network)));
+}
+
+/**
+ * Check every enabled network's deployment until the check passes
+ * For a process that must come up while a node is down: failures are logged and retried
+ * every DEPLOYMENT_CHECK_RETRY_INTERVAL (or at the next probe, while a circuit is open).
+ * A mismatch is retried too, but logged as an error, since no chain work runs until it's fixed.
+ * Resolves true once verified, or false if the signal aborts first.
+ */
+export async function waitForVerifiedDeployments(signal?: AbortSignal): Promise<boolean> {
+  checkState.status = 'pending';
+
+  while (!signal?.aborted) {
+    checkState.attempts++;
+
+    try {
+      await verifyDeployments();
+      checkState.status = 'verified';
+      checkState.lastError = undefined;
+      return true;
+    } catch (error) {
+      checkState.lastError = error instanceof Error ? error.message : String(error);
+
+      const retryAt =
+        error instanceof CircuitOpenError
+          ? error.retryAt.getTime()
+          : Date.now() + CONSTANTS.BLOCKCHAIN.DEPLOYMENT_CHECK_RETRY_INTERVAL;
+
+      logger.error('Deployment check failed, blockchain operations wait for it to pass', {
+        attempts: checkState.attempts,
+        nextAttemptAt: new Date(retryAt),
+        error: checkState.lastError,
+      });
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, Math.max(retryAt - Date.now(), 0));
+        signal?.addEventListener(
+          'abort',
+          () => {
+            clearTimeout(timer);
+            resolve();
+          },
+          { once: true }
+        );
+      });
+    }
+  }
+
+  return false;
+}
+
+/**
+ * State of the startup deployment check (for the health endpoint)
+ */
+export function getDeploymentCheckState(): DeploymentCheckState {
+  return { ...checkState };
+}
@@ -0,0 +1,141 @@
+import { config } from '../config';
+import { AnchorBackendType } from '../types/enums';
+import { ApiError } from '../utils/api-error';
+import logger from '../utils/logger';
+import { AnchorBackend } from './anchor-backend.service';
+import {
+  AnchorTarget,
+  BatchAnchorResult,
+  BatchRecord,
+  OperatorApprovalRequest,
+  TodoChainEvent,
+  TodoRecord,
+  TransactionResult,
+} from './blockchain.service';
+import { ConfirmationStatus } from './confirmation.service';
+
+/**
+ * DisabledAnchorBackend
+ * Stand-in backend when anchoring is turned off (BLOCKCHAIN_BACKEND=disabled)
+ *
+ * TodoService never sends operations here: it marks todos LOCAL_ONLY instead. Anything
+ * that still needs the chain (verifying or proving a todo anchored before anchoring was
+ * turned off) gets a 503 ANCHORING_DISABLED.
+ */
+export class DisabledAnchorBackend implements AnchorBackend {
+  private network: string;
+
+  constructor(network: string = config.blockchain.network) {
+    this.network = network;
+
+    logger.warn('Blockchain anchoring is disabled, todos are kept in MongoDB only', { network });
+  }
+
+  getType(): AnchorBackendType {
+    return AnchorBackendType.DISABLED;
+  }
+
+  // No RPC endpoint whose circuit could open
+  isAvailable(): boolean {
+    return true;
+  }
+
+  assertAvailable(): void {
+    // Never unavailable
+  }
+
+  // Nothing is sent
+  async getFeeDeferral(): Promise<Date | undefined> {
+    return undefined;
+  }
+
+  async createTodo(): Promise<TransactionResult> {
+    throw anchoringDisabled();
+  }
+
+  async updateTodo(): Promise<TransactionResult> {
+    throw anchoringDisabled();
+  }
+
+  async deleteTodo(): Promise<TransactionResult> {
+    throw anchoringDisabled();
+  }
+
+  async restoreTodo(): Promise<TransactionResult> {
+    throw anchoringDisabled();
+  }
+
+  async anchorBatch(): Promise<BatchAnchorResult> {
+    throw anchoringDisabled();
+  }
+
+  async verifyTodo(): Promise<boolean> {
+    throw anchoringDisabled();
+  }
+
+  async getTodo(): Promise<TodoRecord> {
+    throw anchoringDisabled();
+  }
+
+  async todoExists(): Promise<boolean> {
+    throw anchoringDisabled();
+  }
+
+  /**
+   * No chain to read, so a todo's history is its ledger alone
+   */
+  async getTodoEvents(): Promise<TodoChainEvent[]> {
+    return [];
+  }
+
+  async getBatch(): Promise<BatchRecord> {
+    throw anchoringDisabled();
+  }
+
+  async verifyBatchInclusion(): Promise<boolean> {
+    throw anchoringDisabled();
+  }
+
+  supportsWalletOwnership(): boolean {
+    return false;
+  }
+
+  async isApprovedOperator(): Promise<boolean> {
+    return false;
+  }
+
+  async getOperatorApprovalRequest(): Promise<OperatorApprovalRequest> {
+    throw anchoringDisabled();
+  }
+
+  async setOperatorApprovalBySig(): Promise<TransactionResult> {
+    throw anchoringDisabled();
+  }
+
+  async checkConfirmation(): Promise<ConfirmationStatus> {
+    throw anchoringDisabled();
+  }
+
+  getRequiredConfirmations(): number {
+    return 1;
+  }
+
+  async signMessage(): Promise<string> {
+    throw anchoringDisabled();
+  }
+
+  getWalletAddress(): string {
+    throw anchoringDisabled();
+  }
+
+  getNetwork(): string {
+    return this.network;
+  }
+
+  getAnchorTarget(): AnchorTarget {
+    throw anchoringDisabled();
+  }
+}
+
+const anchoringDisabled = (): ApiError =>
+  ApiError.serviceUnavailable('Blockchain anchoring is disabled', 'ANCHORING_DISABLED');
@@ -0,0 +1,383 @@
+import { ethers, Contract } from 'ethers';
+import { config } from '../config';
+import { CONSTANTS } from '../config/constants';
+import { getContractConfig } from '../config/contracts';
+import { getNetworkConfig } from '../config/networks';
+import {
+  ChainEventData,
+  ChainEventRepository,
+  IndexedContract,
+} from '../repositories/chain-event.repository';
+import { IndexerCursorRepository } from '../repositories/indexer-cursor.repository';
+import { IChainEvent, ChainEventName } from '../models/chain-event.model';
+import { TodoChainEvent } from './blockchain.service';
+import { getRpcProvider } from './rpc-provider.service';
+import logger from '../utils/logger';
+
+export interface IndexerRunResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  caughtUp: boolean;
+  rewound: boolean;
+}
+
+/**
+ * A todo's on-chain record, rebuilt from its indexed events
+ */
+export interface IndexedTodoState {
+  todoHash: string;
+  owner: string;
+  isDeleted: boolean;
+}
+
+/**
+ * An anchored Merkle batch, from its indexed BatchAnchored event
+ */
+export interface IndexedBatch {
+  batchId: number;
+  root: string;
+  count: number;
+  submitter: string;
+}
+
+export interface IndexerStatus {
+  chainId: number;
+  contractAddress: string;
+  lastIndexedBlock: number | null;
+  safeHeadBlock: number;
+  lagBlocks: number | null;
+}
+
+const INDEXED_EVENTS: ChainEventName[] = [
+  'TodoCreated',
+  'TodoUpdated',
+  'TodoDeleted',
+  'TodoRestored',
+  'BatchAnchored',
+];
+
+/**
+ * EventIndexerService
+ * Copies TodoRegistry logs into MongoDB (chain_events) so reads don't hit the RPC
+ *
+ * - One instance per network; rows and cursors are keyed by chain ID and contract
+ * - A registry that replaced an earlier one is indexed together with its predecessor
+ *   (from the predecessor's deploy block), so migrated todos keep their full history
+ * - Backfills from the network's deploy block, then tails new blocks, one
+ *   INDEXER_BLOCK_RANGE chunk per call; the cursor is saved after every chunk
+ * - Only indexes up to the network's confirmation depth (the "safe head")
+ * - If the cursor block was reorged out, rewinds INDEXER_REORG_REWIND blocks and
+ *   re-indexes them (writes are upserts keyed by block and log index)
+ */
+export class EventIndexerService {
+  private network: string;
+  private provider: ethers.Provider;
+  private contract: Contract;
+  private indexedContract: IndexedContract; // Current registry (keys the cursor)
+  private indexedContracts: IndexedContract[]; // Every registry whose events are indexed
+  private confirmations: number;
+  private deployBlock: number;
+  private chainEventRepository: ChainEventRepository;
+  private indexerCursorRepository: IndexerCursorRepository;
+
+  constructor(network: string = config.blockchain.network) {
+    const networkConfig = getNetworkConfig(network);
+    const contractConfig = getContractConfig(network);
+
+    this.network = network;
+    this.provider = getRpcProvider(network);
+    this.contract = new ethers.Contract(contractConfig.address, contractConfig.abi, this.provider);
+    this.indexedContract = {
+      chainId: networkConfig.chainId,
+      contractAddress: contractConfig.address.toLowerCase(),
+    };
+    this.indexedContracts = [
+      this.indexedContract,
+      ...(contractConfig.predecessor
+        ? [
+            {
+              chainId: networkConfig.chainId,
+              contractAddress: contractConfig.predecessor.address.toLowerCase(),
+            },
+          ]
+        : []),
+    ];
+    this.confirmations = networkConfig.confirmations;
+    this.deployBlock = contractConfig.predecessor?.deployBlock ?? contractConfig.deployBlock;
+    this.chainEventRepository = new ChainEventRepository();
+    this.indexerCursorRepository = new IndexerCursorRepository();
+  }
+
+  /**
+   * Name of the network this indexer reads
+   */
+  getNetwork(): string {
+    return this.network;
+  }
+
+  /**
+   * Index the next chunk of blocks
+   */
+  async syncOnce(): Promise<IndexerRunResult> {
+    const { fromBlock, rewound } = await this.getStartBlock();
+    const safeHead = await this.getSafeHead();
+
+    if (fromBlock > safeHead) {
+      return { fromBlock, toBlock: safeHead, events: 0, caughtUp: true, rewound };
+    }
+
+    const toBlock = Math.min(fromBlock + CONSTANTS.BLOCKCHAIN.INDEXER_BLOCK_RANGE - 1, safeHead);
+
+    const logs = await this.provider.getLogs({
+      address: this.indexedContracts.map((contract) => contract.contractAddress),
+      topics: [INDEXED_EVENTS.map((name) => this.contract.interface.getEvent(name)!.topicHash)],
+      fromBlock,
+      toBlock,
+    });
+
+    const events = logs
+      .map((log) => this.toChainEventData(log))
+      .filter((event): event is ChainEventData => event !== null);
+
+    await this.chainEventRepository.upsertMany(events);
+
+    const lastBlock = await this.provider.getBlock(toBlock);
+    if (!lastBlock?.hash) {
+      throw new Error(`Block ${toBlock} not found while indexing`);
+    }
+    await this.indexerCursorRepository.save(this.indexedContract, toBlock, lastBlock.hash);
+
+    logger.info('Indexed TodoRegistry events', { fromBlock, toBlock, events: events.length });
+
+    return { fromBlock, toBlock, events: events.length, caughtUp: toBlock >= safeHead, rewound };
+  }
+
+  /**
+   * Drop the index and cursor so the next run backfills from the deployment block
+   */
+  async rebuild(): Promise<void> {
+    await this.indexerCursorRepository.reset(this.indexedContract);
+    const deleted = await this.chainEventRepository.deleteAll(this.indexedContracts);
+
+    logger.warn('Event index reset for rebuild', { ...this.indexedContract, deleted });
+  }
+
+  /**
+   * Whether the index has been populated (a cursor exists)
+   */
+  async isReady(): Promise<boolean> {
+    return (await this.indexerCursorRepository.find(this.indexedContract)) !== null;
+  }
+
+  /**
+   * Indexing position versus the chain (for monitoring)
+   */
+  async getStatus(): Promise<IndexerStatus> {
+    const [cursor, safeHead] = await Promise.all([
+      this.indexerCursorRepository.find(this.indexedContract),
+      this.getSafeHead(),
+    ]);
+
+    return {
+      ...this.indexedContract,
+      lastIndexedBlock: cursor?.lastBlock ?? null,
+      safeHeadBlock: safeHead,
+      lagBlocks: cursor ? Math.max(0, safeHead - cursor.lastBlock) : null,
+    };
+  }
+
+  /**
+   * Get a todo's indexed events in chain order (same shape as the RPC query)
+   */
+  async getTodoEvents(todoId: string): Promise<TodoChainEvent[]> {
+    const events = await this.chainEventRepository.findByTodoIdHash(
+      this.indexedContracts,
+      ethers.id(todoId)
+    );
+
+    return events.map((event) => this.toTodoChainEvent(event));
+  }
+
+  /**
+   * Replay a todo's indexed events into its current on-chain record
+   * Returns null if the index has no TodoCreated event for it
+   */
+  async getTodoState(todoId: string): Promise<IndexedTodoState | null> {
+    const events = await this.chainEventRepository.findByTodoIdHash(
+      this.indexedContracts,
+      ethers.id(todoId)
+    );
+
+    let state: IndexedTodoState | null = null;
+
+    for (const event of events) {
+      if (event.event === 'TodoCreated') {
+        state = { todoHash: event.todoHash!, owner: event.owner!, isDeleted: false };
+      } else if (state) {
+        if (event.event === 'TodoUpdated') {
+          state.todoHash = event.todoHash!;
+        } else {
+          state.isDeleted = event.event === 'TodoDeleted';
+        }
+      }
+    }
+
+    return state;
+  }
+
+  /**
+   * Get an anchored batch from the index
+   */
+  async getBatch(batchId: number): Promise<IndexedBatch | null> {
+    const event = await this.chainEventRepository.findBatch(this.indexedContracts, batchId);
+
+    if (!event) {
+      return null;
+    }
+
+    return {
+      batchId,
+      root: event.merkleRoot!,
+      count: event.batchSize!,
+      submitter: event.owner!,
+    };
+  }
+
+  /**
+   * Where the next chunk starts, rewinding if the cursor block is no longer canonical
+   */
+  private async getStartBlock(): Promise<{ fromBlock: number; rewound: boolean }> {
+    const deployBlock = this.deployBlock;
+    const cursor = await this.indexerCursorRepository.find(this.indexedContract);
+
+    if (!cursor) {
+      return { fromBlock: deployBlock, rewound: false };
+    }
+
+    const block = await this.provider.getBlock(cursor.lastBlock);
+
+    if (block?.hash === cursor.lastBlockHash) {
+      return { fromBlock: cursor.lastBlock + 1, rewound: false };
+    }
+
+    const rewindTo = cursor.lastBlock - CONSTANTS.BLOCKCHAIN.INDEXER_REORG_REWIND;
+
+    logger.warn('Indexed block was reorged out, rewinding', {
+      block: cursor.lastBlock,
+      indexedHash: cursor.lastBlockHash,
+      canonicalHash: block?.hash,
+      rewindTo,
+    });
+
+    if (rewindTo < deployBlock) {
+      await this.rebuild();
+      return { fromBlock: deployBlock, rewound: true };
+    }
+
+    const rewindBlock = await this.provider.getBlock(rewindTo);
+    if (!rewindBlock?.hash) {
+      throw new Error(`Block ${rewindTo} not found while rewinding the indexer`);
+    }
+
+    await this.chainEventRepository.deleteAfterBlock(this.indexedContracts, rewindTo);
+    await this.indexerCursorRepository.save(this.indexedContract, rewindTo, rewindBlock.hash);
+
+    return { fromBlock: rewindTo + 1, rewound: true };
+  }
+
+  /**
+   * Latest block with the network's confirmation depth
+   */
+  private async getSafeHead(): Promise<number> {
+    const latest = await this.provider.getBlockNumber();
+    return latest - (this.confirmations - 1);
+  }
+
+  /**
+   * Decode a raw TodoRegistry log into an index row
+   */
+  private toChainEventData(log: ethers.Log): ChainEventData | null {
+    const parsed = this.contract.interface.parseLog(log);
+
+    if (!parsed) {
+      return null;
+    }
+
+    const event = parsed.name as ChainEventName;
+    const base: ChainEventData = {
+      chainId: this.indexedContract.chainId,
+      contractAddress: log.address.toLowerCase(),
+      event,
+      timestamp: Number(parsed.args.timestamp),
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    };
+
+    switch (event) {
+      case 'TodoCreated':
+        return {
+          ...base,
+          todoIdHash: log.topics[1],
+          todoHash: parsed.args.todoHash,
+          owner: parsed.args.owner,
+        };
+      case 'TodoUpdated':
+        return {
+          ...base,
+          todoIdHash: log.topics[1],
+          todoHash: parsed.args.newHash,
+          oldHash: parsed.args.oldHash,
+        };
+      case 'TodoDeleted':
+      case 'TodoRestored':
+        return { ...base, todoIdHash: log.topics[1] };
+      case 'BatchAnchored':
+        return {
+          ...base,
+          batchId: Number(parsed.args.batchId),
+          merkleRoot: parsed.args.root,
+          batchSize: Number(parsed.args.count),
+          owner: parsed.args.submitter,
+        };
+      default:
+        return null;
+    }
+  }
+
+  private toTodoChainEvent(event: IChainEvent): TodoChainEvent {
+    return {
+      event: event.event as TodoChainEvent['event'],
+      ...(event.todoHash && { todoHash: event.todoHash }),
+      ...(event.oldHash && { oldHash: event.oldHash }),
+      ...(event.owner && { owner: event.owner }),
+      timestamp: event.timestamp.toString(),
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash,
+      logIndex: event.logIndex,
+    };
+  }
+}
+
+/**
+ * One EventIndexerService per network, shared across services
+ */
+const eventIndexerServices = new Map<string, EventIndexerService>();
+
+/**
+ * Get the EventIndexerService for a network (the default network if omitted)
+ */
+export function getEventIndexerService(
+  network: string = config.blockchain.network
+): EventIndexerService {
+  let service = eventIndexerServices.get(network);
+
+  if (!service) {
+    service = new EventIndexerService(network);
+    eventIndexerServices.set(network, service);
+  }
+
+  return service;
+}
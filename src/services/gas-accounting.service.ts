@@ -0,0 +1,188 @@
+import mongoose from 'mongoose';
+import { ethers } from 'ethers';
+import { BlockchainSyncRepository, GasCostGroup } from '../repositories/blockchain-sync.repository';
+import { TodoRepository } from '../repositories/todo.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { ApiError } from '../utils/api-error';
+import logger from '../utils/logger';
+import { config } from '../config';
+import { CONSTANTS } from '../config/constants';
+
+/**
+ * Gas spent by a group of operations, with the cost in the network's native currency
+ */
+export interface GasCostLine {
+  key?: string;
+  operations: number;
+  gasUsed: number;
+  costWei: string;
+  costEth: string;
+}
+
+export interface GasCostReport {
+  network: string;
+  from: Date;
+  to: Date;
+  total: GasCostLine;
+  byUser: GasCostLine[]; // Highest spend first, capped at GAS_REPORT_MAX_USERS
+  byOperation: GasCostLine[];
+  byDay: GasCostLine[]; // UTC days
+}
+
+export interface GasBudgetStatus {
+  userId: string;
+  monthlyGasBudget: number | null;
+  gasUsedThisMonth: number;
+  deferredUntil: Date | null; // Set while the user is over budget
+  releasedTodos?: number; // Deferred todos released by a budget change
+}
+
+/**
+ * GasAccountingService
+ * Reports what anchoring costs, and enforces per-user monthly gas budgets
+ *
+ * Costs come from the BlockchainSync ledger: each confirmed operation records the gas
+ * its transaction used and the price paid (batch rows carry their share of the batch).
+ * A user's budget is in gas units per calendar month (UTC), across all networks. Once
+ * it is used up, their chain operations are deferred to the next month rather than
+ * rejected: the todos stay PENDING and are anchored when the month turns over, or as
+ * soon as an admin raises or removes the budget.
+ */
+export class GasAccountingService {
+  private blockchainSyncRepository: BlockchainSyncRepository;
+  private todoRepository: TodoRepository;
+  private userRepository: UserRepository;
+
+  constructor() {
+    this.blockchainSyncRepository = new BlockchainSyncRepository();
+    this.todoRepository = new TodoRepository();
+    this.userRepository = new UserRepository();
+  }
+
+  /**
+   * Gas cost on a network between two dates, by user, operation type and day
+   * Defaults to the current month on the default network
+   */
+  async getCostReport(
+    options: { from?: Date; to?: Date; network?: string } = {}
+  ): Promise<GasCostReport> {
+    const network = options.network ?? config.blockchain.network;
+    const from = options.from ?? startOfMonth(new Date());
+    const to = options.to ?? new Date();
+
+    if (!config.blockchain.networks.includes(network)) {
+      throw ApiError.badRequest(
+        `Network must be one of: ${config.blockchain.networks.join(', ')}`,
+        'INVALID_NETWORK'
+      );
+    }
+    if (from >= to) {
+      throw ApiError.badRequest('from must be before to', 'INVALID_DATE_RANGE');
+    }
+
+    const breakdown = await this.blockchainSyncRepository.aggregateGasCosts({
+      from,
+      to,
+      network,
+      // Rows recorded before operations were labelled with their network went to the default
+      includeUnlabelled: network === config.blockchain.network,
+      userLimit: CONSTANTS.BLOCKCHAIN.GAS_REPORT_MAX_USERS,
+    });
+
+    return {
+      network,
+      from,
+      to,
+      total: toCostLine(breakdown.total),
+      byUser: breakdown.byUser.map(toCostLine),
+      byOperation: breakdown.byOperation.map(toCostLine),
+      byDay: breakdown.byDay.map(toCostLine),
+    };
+  }
+
+  /**
+   * A user's budget and what they have used of it this month
+   */
+  async getBudget(userId: string): Promise<GasBudgetStatus> {
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+
+    return this.getBudgetStatus(userId, user.monthlyGasBudget);
+  }
+
+  /**
+   * Set (or remove, with null) a user's monthly gas budget
+   * Todos deferred under the old budget are released; they are re-checked against the
+   * new one when the sync job retries them
+   */
+  async setMonthlyBudget(
+    userId: string,
+    monthlyGasBudget: number | null
+  ): Promise<GasBudgetStatus> {
+    const user = await this.userRepository.setMonthlyGasBudget(userId, monthlyGasBudget);
+
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+
+    const releasedTodos = await this.todoRepository.clearAnchorDeferrals(userId);
+
+    logger.info('Monthly gas budget set', { userId, monthlyGasBudget, releasedTodos });
+
+    return { ...(await this.getBudgetStatus(userId, user.monthlyGasBudget)), releasedTodos };
+  }
+
+  /**
+   * When a user's next chain operation may be sent, or null if it may be sent now
+   */
+  async getAnchorDeferral(userId: string | mongoose.Types.ObjectId): Promise<Date | null> {
+    const user = await this.userRepository.findById(userId);
+
+    if (user?.monthlyGasBudget === undefined) {
+      return null;
+    }
+
+    const { deferredUntil } = await this.getBudgetStatus(userId.toString(), user.monthlyGasBudget);
+    return deferredUntil;
+  }
+
+  private async getBudgetStatus(
+    userId: string,
+    monthlyGasBudget: number | undefined
+  ): Promise<GasBudgetStatus> {
+    const now = new Date();
+    const gasUsedThisMonth = await this.blockchainSyncRepository.sumGasUsedByUser(
+      userId,
+      startOfMonth(now)
+    );
+    const overBudget = monthlyGasBudget !== undefined && gasUsedThisMonth >= monthlyGasBudget;
+
+    return {
+      userId,
+      monthlyGasBudget: monthlyGasBudget ?? null,
+      gasUsedThisMonth,
+      deferredUntil: overBudget ? startOfNextMonth(now) : null,
+    };
+  }
+}
+
+const startOfMonth = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+const startOfNextMonth = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+
+const toCostLine = (group: Partial<GasCostGroup> & Omit<GasCostGroup, 'key'>): GasCostLine => {
+  const costWei = BigInt(group.costWei);
+
+  return {
+    ...(group.key !== undefined && { key: group.key }),
+    operations: group.operations,
+    gasUsed: group.gasUsed,
+    costWei: costWei.toString(),
+    costEth: ethers.formatEther(costWei),
+  };
+};
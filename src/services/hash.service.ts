@@ -1,8 +1,136 @@
 import crypto from 'crypto';
-import { ITodo } from '../models/todo.model';
+import { ethers } from 'ethers';
+import { HashAlgorithm, HashVersion } from '../types/enums';
+import { canonicalizeJson } from '../utils/canonical-json';
 
+/**
+ * Scheme used for every new anchor
+ */
+export const CURRENT_HASH_VERSION = HashVersion.V2;
+
+/**
+ * Todo fields read when hashing (an ITodo, or todo data from a proof bundle)
+ */
+export interface HashableTodo {
+  userId?: { toString(): string };
+  title?: string;
+  description?: string | null;
+  isCompleted?: boolean;
+  completedAt?: Date | null;
+  priority?: string | null;
+  dueDate?: Date | null;
+  createdAt?: Date;
+  hashVersion?: HashVersion;
+  hashAlgorithm?: HashAlgorithm;
+  hashSalt?: string;
+}
+
+/**
+ * How a todo hash is computed: serialization version, digest and optional salt
+ */
+export interface HashScheme {
+  version: HashVersion;
+  algorithm: HashAlgorithm;
+  salt?: string;
+}
+
+/**
+ * A todo hash and the scheme that produced it
+ */
+export interface VersionedHash extends HashScheme {
+  hash: string;
+}
+
+/**
+ * Scheme settings for new anchors (config.hashing); verifying an anchor only needs the
+ * scheme recorded with it
+ */
+export interface HashServiceOptions {
+  algorithm: HashAlgorithm;
+  salted: boolean;
+}
+
+const DEFAULT_OPTIONS: HashServiceOptions = {
+  algorithm: HashAlgorithm.SHA256,
+  salted: true,
+};
+
+/**
+ * HashService
+ * Computes the todo hashes anchored on chain
+ *
+ * Salted hashes are commitments: the random per-todo salt lives only in MongoDB, so
+ * the on-chain hash can't be brute-forced from guessable fields (priority, short titles)
+ */
 export class HashService {
-  generateTodoHash(todo: Partial<ITodo>): string {
+  private options: HashServiceOptions;
+
+  constructor(options: Partial<HashServiceOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Hash a todo's content with the given scheme
+   * To verify an anchor, pass the scheme recorded with it (getAnchoredScheme)
+   */
+  generateTodoHash(todo: HashableTodo, scheme: HashScheme): string {
+    switch (scheme.version) {
+      case HashVersion.V1:
+        return this.generateV1Hash(todo);
+      case HashVersion.V2:
+        return this.generateV2Hash(todo, scheme);
+      default:
+        throw new Error(`Unknown todo hash version: ${scheme.version}`);
+    }
+  }
+
+  /**
+   * Hash a todo for a new anchor, with the current version and configured algorithm
+   * A todo keeps its salt once it has one; otherwise a new salt is drawn if salting
+   * is enabled (it is stored when the anchor is)
+   */
+  hashTodo(todo: HashableTodo): VersionedHash {
+    const scheme: HashScheme = {
+      version: CURRENT_HASH_VERSION,
+      algorithm: this.options.algorithm,
+      salt: todo.hashSalt ?? (this.options.salted ? this.generateSalt() : undefined),
+    };
+
+    return { ...scheme, hash: this.generateTodoHash(todo, scheme) };
+  }
+
+  /**
+   * Scheme that produced a todo's anchored hash (todos anchored before versioning are V1)
+   */
+  getAnchoredScheme(todo: HashableTodo): HashScheme {
+    return {
+      version: todo.hashVersion ?? HashVersion.V1,
+      algorithm: todo.hashAlgorithm ?? HashAlgorithm.SHA256,
+      salt: todo.hashSalt,
+    };
+  }
+
+  verifyTodoHash(todo: HashableTodo, expectedHash: string): boolean {
+    const calculatedHash = this.generateTodoHash(todo, this.getAnchoredScheme(todo));
+    return calculatedHash.toLowerCase() === expectedHash.toLowerCase();
+  }
+
+  hexToBytes32(hex: string): string {
+    // Remove 0x prefix if present
+    const cleanHex = hex.startsWith('0x') ? hex.slice(2) : hex;
+
+    // Pad to 64 characters (32 bytes)
+    const paddedHex = cleanHex.padStart(64, '0');
+
+    return `0x${paddedHex}`;
+  }
+
+  /**
+   * V1: '|'-joined fields
+   * Ambiguous ('|' inside a field) and non-deterministic without createdAt; only kept
+   * so todos anchored before V2 still verify
+   */
+  private generateV1Hash(todo: HashableTodo): string {
     // Create a deterministic string representation of the todo
     const dataString = [
       todo.userId?.toString() || '',
@@ -14,25 +142,47 @@ export class HashService {
       todo.createdAt?.toISOString() || new Date().toISOString(),
     ].join('|');
 
-    // Generate SHA256 hash
-    const hash = crypto.createHash('sha256').update(dataString).digest('hex');
-
-    // Return as 0x-prefixed hex string (Ethereum format)
-    return `0x${hash}`;
+    return this.digest(HashAlgorithm.SHA256, dataString);
   }
 
-  verifyTodoHash(todo: Partial<ITodo>, expectedHash: string): boolean {
-    const calculatedHash = this.generateTodoHash(todo);
-    return calculatedHash.toLowerCase() === expectedHash.toLowerCase();
+  /**
+   * V2: RFC 8785 canonical JSON of the todo's content (and salt), tagged with the version
+   * Absent optional fields are null, so every todo serializes the same set of keys
+   */
+  private generateV2Hash(todo: HashableTodo, scheme: HashScheme): string {
+    if (!todo.userId || !todo.createdAt) {
+      throw new Error('Cannot hash a todo without userId and createdAt');
+    }
+
+    return this.digest(
+      scheme.algorithm,
+      canonicalizeJson({
+        version: HashVersion.V2,
+        userId: todo.userId.toString(),
+        title: todo.title ?? '',
+        description: todo.description ?? null,
+        isCompleted: todo.isCompleted ?? false,
+        completedAt: todo.completedAt?.toISOString() ?? null,
+        priority: todo.priority ?? null,
+        dueDate: todo.dueDate?.toISOString() ?? null,
+        createdAt: todo.createdAt.toISOString(),
+        ...(scheme.salt && { salt: scheme.salt }),
+      })
+    );
   }
 
-  hexToBytes32(hex: string): string {
-    // Remove 0x prefix if present
-    const cleanHex = hex.startsWith('0x') ? hex.slice(2) : hex;
+  private digest(algorithm: HashAlgorithm, data: string): string {
+    if (algorithm === HashAlgorithm.KECCAK256) {
+      return ethers.keccak256(ethers.toUtf8Bytes(data));
+    }
 
-    // Pad to 64 characters (32 bytes)
-    const paddedHex = cleanHex.padStart(64, '0');
+    const hash = crypto.createHash('sha256').update(data).digest('hex');
 
-    return `0x${paddedHex}`;
+    // Return as 0x-prefixed hex string (Ethereum format)
+    return `0x${hash}`;
+  }
+
+  private generateSalt(): string {
+    return `0x${crypto.randomBytes(32).toString('hex')}`;
   }
 }
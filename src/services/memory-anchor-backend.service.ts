@@ -0,0 +1,506 @@
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { getNetworkConfig, NetworkConfig } from '../config/networks';
+import { AnchorBackendType } from '../types/enums';
+import logger from '../utils/logger';
+import { AnchorBackend } from './anchor-backend.service';
+import {
+  AnchorTarget,
+  BatchAnchorResult,
+  BatchRecord,
+  OPERATOR_APPROVAL_TYPES,
+  OperatorApprovalRequest,
+  TodoChainEvent,
+  TodoRecord,
+  TransactionResult,
+} from './blockchain.service';
+import { ConfirmationStatus } from './confirmation.service';
+import { MerkleService } from './merkle.service';
+
+/**
+ * A contract check that failed, with the revert reason TodoRegistry gives for it
+ * The message has the same shape as an ethers revert, so callers matching reasons work
+ * against either backend
+ */
+export class SimulatedRevertError extends Error {
+  public readonly reason: string;
+
+  constructor(reason: string) {
+    super(`execution reverted: "${reason}"`);
+    this.name = 'SimulatedRevertError';
+    this.reason = reason;
+  }
+}
+
+interface SimulatedTodo extends TodoRecord {
+  operator: string; // Zero address for todos created for an owner (written via its approval)
+  schemaVersion: number;
+}
+
+interface SimulatedTransaction {
+  txHash: string;
+  blockNumber: number;
+  timestamp: bigint;
+}
+
+/**
+ * MemoryAnchorBackend
+ * In-process simulation of a TodoRegistryV2 deployment (BLOCKCHAIN_BACKEND=memory), so the
+ * API runs and can be tested without a node
+ *
+ * Follows the contract's rules: its checks and revert reasons, owner/operator
+ * authorization, EIP-712 operator approvals and Merkle batches, and the same events.
+ * Replayed operations are answered with the original transaction, as BlockchainService does. Every write is mined at once in its own block and costs no gas.
+ * State lives in this process only and is lost on restart.
+ */
+export class MemoryAnchorBackend implements AnchorBackend {
+  private network: string;
+  private networkConfig: NetworkConfig;
+  private wallet: ethers.BaseWallet;
+  private contractAddress: string;
+  private merkleService: MerkleService;
+  private todos: Map<string, SimulatedTodo>;
+  private events: Map<string, TodoChainEvent[]>; // By todo ID, in chain order
+  private batches: Map<number, BatchRecord>;
+  private operatorApprovals: Set<string>; // owner:operator
+  private nonces: Map<string, bigint>;
+  private transactions: Map<string, SimulatedTransaction>;
+  private blockNumber: number;
+  private blockTimestamp: bigint;
+
+  constructor(network: string = config.blockchain.network) {
+    this.network = network;
+    this.networkConfig = getNetworkConfig(network);
+
+    // Same signer as the ethers backend when configured, so addresses carry over
+    this.wallet = config.blockchain.privateKey
+      ? new ethers.Wallet(config.blockchain.privateKey)
+      : ethers.Wallet.createRandom();
+    this.contractAddress = ethers.getCreateAddress({ from: this.wallet.address, nonce: 0 });
+
+    this.merkleService = new MerkleService();
+    this.todos = new Map();
+    this.events = new Map();
+    this.batches = new Map();
+    this.operatorApprovals = new Set();
+    this.nonces = new Map();
+    this.transactions = new Map();
+    this.blockNumber = 0;
+    this.blockTimestamp = 0n;
+
+    logger.warn('Simulated blockchain initialized, anchors are lost when the process exits', {
+      network,
+      chainId: this.networkConfig.chainId,
+      contract: this.contractAddress,
+      wallet: this.wallet.address,
+    });
+  }
+
+  getType(): AnchorBackendType {
+    return AnchorBackendType.MEMORY;
+  }
+
+  // No RPC endpoint whose circuit could open
+  isAvailable(): boolean {
+    return true;
+  }
+
+  assertAvailable(): void {
+    // Never unavailable
+  }
+
+  // Simulated writes cost nothing
+  async getFeeDeferral(): Promise<Date | undefined> {
+    return undefined;
+  }
+
+  /**
+   * Create a todo record, for owner when it has approved the anchoring wallet
+   */
+  async createTodo(
+    todoId: string,
+    todoHash: string,
+    schemaVersion: number,
+    owner?: string
+  ): Promise<TransactionResult> {
+    const createFor = owner ? await this.isApprovedOperator(owner) : false;
+
+    if (owner && !createFor) {
+      logger.warn('Wallet has not approved the anchoring wallet, anchoring under it instead', {
+        todoId,
+        owner,
+      });
+    }
+
+    // Replay of a create that already landed: success if the anchored hash matches
+    if (this.todos.has(todoId)) {
+      const applied = this.findAppliedTransaction(todoId, ['TodoCreated', 'TodoUpdated'], todoHash);
+      if (applied) {
+        return applied;
+      }
+    }
+
+    revertUnless(todoId.length > 0, 'Todo ID cannot be empty');
+    revertUnless(BigInt(todoHash) !== 0n, 'Todo hash cannot be empty');
+    revertUnless(!this.todos.has(todoId), 'Todo already exists');
+
+    const todoOwner = createFor ? ethers.getAddress(owner!) : this.wallet.address;
+    const tx = this.mine();
+
+    this.todos.set(todoId, {
+      todoHash,
+      owner: todoOwner,
+      operator: createFor ? ethers.ZeroAddress : this.wallet.address,
+      timestamp: tx.timestamp,
+      isDeleted: false,
+      schemaVersion,
+    });
+    this.emit(todoId, tx, { event: 'TodoCreated', todoHash, owner: todoOwner });
+
+    logger.info('Todo created on simulated chain', { todoId, txHash: tx.txHash });
+
+    return this.toTransactionResult(tx);
+  }
+
+  async updateTodo(
+    todoId: string,
+    newHash: string,
+    schemaVersion: number
+  ): Promise<TransactionResult> {
+    const todo = this.getWritableTodo(todoId);
+
+    // Replay of an update that already landed
+    if (todo.todoHash.toLowerCase() === newHash.toLowerCase()) {
+      const applied = this.findAppliedTransaction(todoId, ['TodoCreated', 'TodoUpdated'], newHash);
+      if (applied) {
+        return applied;
+      }
+    }
+
+    revertUnless(BigInt(newHash) !== 0n, 'New hash cannot be empty');
+    revertUnless(!todo.isDeleted, 'Cannot update deleted todo');
+
+    const oldHash = todo.todoHash;
+    const tx = this.mine();
+
+    todo.todoHash = newHash;
+    todo.schemaVersion = schemaVersion;
+    this.emit(todoId, tx, { event: 'TodoUpdated', todoHash: newHash, oldHash });
+
+    logger.info('Todo updated on simulated chain', { todoId, txHash: tx.txHash });
+
+    return this.toTransactionResult(tx);
+  }
+
+  async deleteTodo(todoId: string): Promise<TransactionResult> {
+    const todo = this.getWritableTodo(todoId);
+
+    if (todo.isDeleted) {
+      const applied = this.findAppliedTransaction(todoId, ['TodoDeleted']);
+      if (applied) {
+        return applied;
+      }
+    }
+    revertUnless(!todo.isDeleted, 'Todo is already deleted');
+
+    const tx = this.mine();
+
+    todo.isDeleted = true;
+    this.emit(todoId, tx, { event: 'TodoDeleted' });
+
+    logger.info('Todo deleted on simulated chain', { todoId, txHash: tx.txHash });
+
+    return this.toTransactionResult(tx);
+  }
+
+  async restoreTodo(todoId: string): Promise<TransactionResult> {
+    const todo = this.getWritableTodo(todoId);
+
+    if (!todo.isDeleted) {
+      const applied = this.findAppliedTransaction(todoId, ['TodoRestored']);
+      if (applied) {
+        return applied;
+      }
+    }
+    revertUnless(todo.isDeleted, 'Todo is not deleted');
+
+    const tx = this.mine();
+
+    todo.isDeleted = false;
+    this.emit(todoId, tx, { event: 'TodoRestored' });
+
+    logger.info('Todo restored on simulated chain', { todoId, txHash: tx.txHash });
+
+    return this.toTransactionResult(tx);
+  }
+
+  async anchorBatch(root: string, count: number): Promise<BatchAnchorResult> {
+    revertUnless(BigInt(root) !== 0n, 'Batch root cannot be empty');
+    revertUnless(count > 0, 'Batch cannot be empty');
+
+    const tx = this.mine();
+    const batchId = this.batches.size + 1;
+
+    this.batches.set(batchId, {
+      root,
+      count,
+      submitter: this.wallet.address,
+      timestamp: tx.timestamp,
+    });
+
+    logger.info('Todo batch anchored on simulated chain', { batchId, txHash: tx.txHash });
+
+    return { ...this.toTransactionResult(tx), batchId };
+  }
+
+  async verifyTodo(todoId: string, expectedHash: string): Promise<boolean> {
+    return this.getExistingTodo(todoId).todoHash.toLowerCase() === expectedHash.toLowerCase();
+  }
+
+  async getTodo(todoId: string): Promise<TodoRecord> {
+    const { todoHash, owner, timestamp, isDeleted } = this.getExistingTodo(todoId);
+    return { todoHash, owner, timestamp, isDeleted };
+  }
+
+  async todoExists(todoId: string): Promise<boolean> {
+    return this.todos.has(todoId);
+  }
+
+  async getTodoEvents(todoId: string): Promise<TodoChainEvent[]> {
+    return (this.events.get(todoId) ?? []).map((event) => ({ ...event }));
+  }
+
+  async getBatch(batchId: number): Promise<BatchRecord> {
+    const batch = this.batches.get(batchId);
+    revertUnless(batch !== undefined, 'Batch does not exist');
+    return { ...batch! };
+  }
+
+  async verifyBatchInclusion(batchId: number, leaf: string, proof: string[]): Promise<boolean> {
+    const { root } = await this.getBatch(batchId);
+    return this.merkleService.verifyProof(leaf, proof, root);
+  }
+
+  supportsWalletOwnership(): boolean {
+    return true;
+  }
+
+  async isApprovedOperator(owner: string): Promise<boolean> {
+    return this.operatorApprovals.has(approvalKey(owner, this.wallet.address));
+  }
+
+  async getOperatorApprovalRequest(
+    owner: string,
+    approved: boolean,
+    deadline: number
+  ): Promise<OperatorApprovalRequest> {
+    return {
+      domain: {
+        name: 'TodoRegistry',
+        version: '2',
+        chainId: this.networkConfig.chainId,
+        verifyingContract: this.contractAddress,
+      },
+      types: OPERATOR_APPROVAL_TYPES,
+      primaryType: 'OperatorApproval',
+      message: {
+        owner: ethers.getAddress(owner),
+        operator: this.wallet.address,
+        approved,
+        nonce: (this.nonces.get(owner.toLowerCase()) ?? 0n).toString(),
+        deadline,
+      },
+    };
+  }
+
+  async setOperatorApprovalBySig(
+    owner: string,
+    approved: boolean,
+    deadline: number,
+    signature: string
+  ): Promise<TransactionResult> {
+    revertUnless(BigInt(Math.floor(Date.now() / 1000)) <= BigInt(deadline), 'Signature expired');
+
+    const request = await this.getOperatorApprovalRequest(owner, approved, deadline);
+    let signer: string | null;
+    try {
+      signer = ethers.verifyTypedData(request.domain, request.types, request.message, signature);
+    } catch {
+      signer = null;
+    }
+    revertUnless(signer === request.message.owner, 'Invalid signature');
+    revertUnless(signer !== this.wallet.address, 'Owner cannot be its own operator');
+
+    const tx = this.mine();
+    const key = approvalKey(owner, this.wallet.address);
+
+    this.nonces.set(owner.toLowerCase(), BigInt(request.message.nonce) + 1n);
+    if (approved) {
+      this.operatorApprovals.add(key);
+    } else {
+      this.operatorApprovals.delete(key);
+    }
+
+    logger.info('Operator approval set on simulated chain', { owner, approved, txHash: tx.txHash });
+
+    return this.toTransactionResult(tx);
+  }
+
+  async checkConfirmation(txHash: string): Promise<ConfirmationStatus> {
+    const tx = this.transactions.get(txHash);
+
+    if (!tx) {
+      return { state: 'dropped', confirmations: 0 };
+    }
+
+    const confirmations = this.blockNumber - tx.blockNumber + 1;
+
+    return {
+      state: confirmations >= this.getRequiredConfirmations() ? 'confirmed' : 'confirming',
+      confirmations,
+      blockNumber: tx.blockNumber,
+    };
+  }
+
+  /**
+   * Blocks are only mined by writes, so a deeper requirement could stall; every write is
+   * final once mined
+   */
+  getRequiredConfirmations(): number {
+    return 1;
+  }
+
+  async signMessage(message: string): Promise<string> {
+    return this.wallet.signMessage(message);
+  }
+
+  getWalletAddress(): string {
+    return this.wallet.address;
+  }
+
+  getNetwork(): string {
+    return this.network;
+  }
+
+  getAnchorTarget(): AnchorTarget {
+    return {
+      network: this.network,
+      chainId: this.networkConfig.chainId,
+      contractAddress: this.contractAddress,
+    };
+  }
+
+  private getExistingTodo(todoId: string): SimulatedTodo {
+    const todo = this.todos.get(todoId);
+    revertUnless(todo !== undefined, 'Todo does not exist');
+    return todo!;
+  }
+
+  /**
+   * A todo the anchoring wallet may write: its owner, its operator, or approved by its owner
+   */
+  private getWritableTodo(todoId: string): SimulatedTodo {
+    const todo = this.getExistingTodo(todoId);
+    const sender = this.wallet.address;
+
+    revertUnless(
+      todo.owner === sender ||
+        todo.operator === sender ||
+        this.operatorApprovals.has(approvalKey(todo.owner, sender)),
+      'Not authorized: caller is not the todo owner or operator'
+    );
+
+    return todo;
+  }
+
+  /**
+   * Mine a block holding one transaction
+   */
+  private mine(): SimulatedTransaction {
+    this.blockNumber++;
+    // Block time moves forward by at least a second per block, like Hardhat's
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    this.blockTimestamp = now > this.blockTimestamp ? now : this.blockTimestamp + 1n;
+
+    const tx = {
+      txHash: ethers.hexlify(ethers.randomBytes(32)),
+      blockNumber: this.blockNumber,
+      timestamp: this.blockTimestamp,
+    };
+    this.transactions.set(tx.txHash, tx);
+
+    return tx;
+  }
+
+  private emit(
+    todoId: string,
+    tx: SimulatedTransaction,
+    event: Pick<TodoChainEvent, 'event' | 'todoHash' | 'oldHash' | 'owner'>
+  ): void {
+    this.events.set(todoId, [
+      ...(this.events.get(todoId) ?? []),
+      {
+        ...event,
+        timestamp: tx.timestamp.toString(),
+        blockNumber: tx.blockNumber,
+        transactionHash: tx.txHash,
+        logIndex: 0,
+      },
+    ]);
+  }
+
+  /**
+   * Find the latest transaction that already applied an operation (idempotent replay)
+   * When todoHash is given, only events that wrote that hash count
+   */
+  private findAppliedTransaction(
+    todoId: string,
+    eventNames: TodoChainEvent['event'][],
+    todoHash?: string
+  ): TransactionResult | null {
+    const applied = [...(this.events.get(todoId) ?? [])]
+      .reverse()
+      .find(
+        (event) =>
+          eventNames.includes(event.event) &&
+          (!todoHash || event.todoHash?.toLowerCase() === todoHash.toLowerCase())
+      );
+
+    if (!applied) {
+      return null;
+    }
+
+    logger.info('Operation already applied on simulated chain, treating replay as success', {
+      todoId,
+      event: applied.event,
+      txHash: applied.transactionHash,
+    });
+
+    return {
+      ...this.toTransactionResult(this.transactions.get(applied.transactionHash)!),
+      replayed: true,
+    };
+  }
+
+  private toTransactionResult(tx: SimulatedTransaction): TransactionResult {
+    return {
+      txHash: tx.txHash,
+      blockNumber: tx.blockNumber,
+      gasUsed: 0,
+      effectiveGasPrice: 0,
+      contractAddress: this.contractAddress,
+    };
+  }
+}
+
+/**
+ * Solidity's require(): revert with reason unless condition holds
+ */
+function revertUnless(condition: boolean, reason: string): void {
+  if (!condition) {
+    throw new SimulatedRevertError(reason);
+  }
+}
+
+const approvalKey = (owner: string, operator: string): string =>
+  `${owner.toLowerCase()}:${operator.toLowerCase()}`;
@@ -0,0 +1,69 @@
+import { ethers } from 'ethers';
+
+export interface MerkleTree {
+  root: string;
+  leaves: string[];
+  proofs: string[][]; // proofs[i] proves leaves[i]
+}
+
+/**
+ * MerkleService
+ * Builds the Merkle trees anchored by TodoRegistry.anchorBatch
+ *
+ * Must stay in step with TodoRegistry.verifyBatchInclusion:
+ * - leaf = keccak256(abi.encode(todoId, todoHash, isDeleted))
+ * - parent = keccak256(min(a, b) ++ max(a, b)), so proofs are just sibling hashes
+ * - an unpaired node at the end of a level is promoted unchanged
+ */
+export class MerkleService {
+  computeLeaf(todoId: string, todoHash: string, isDeleted: boolean): string {
+    return ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ['string', 'bytes32', 'bool'],
+        [todoId, todoHash, isDeleted]
+      )
+    );
+  }
+
+  buildTree(leaves: string[]): MerkleTree {
+    if (leaves.length === 0) {
+      throw new Error('Cannot build a Merkle tree without leaves');
+    }
+
+    const proofs: string[][] = leaves.map(() => []);
+
+    // positions[i] is the index of leaf i's ancestor in the current level
+    let positions = leaves.map((_, index) => index);
+    let level = leaves;
+
+    while (level.length > 1) {
+      const nextLevel: string[] = [];
+
+      for (let i = 0; i < level.length; i += 2) {
+        nextLevel.push(i + 1 < level.length ? this.hashPair(level[i], level[i + 1]) : level[i]);
+      }
+
+      positions = positions.map((position, leafIndex) => {
+        const sibling = position % 2 === 0 ? position + 1 : position - 1;
+        if (sibling < level.length) {
+          proofs[leafIndex].push(level[sibling]);
+        }
+        return Math.floor(position / 2);
+      });
+
+      level = nextLevel;
+    }
+
+    return { root: level[0], leaves, proofs };
+  }
+
+  verifyProof(leaf: string, proof: string[], root: string): boolean {
+    const computed = proof.reduce((node, sibling) => this.hashPair(node, sibling), leaf);
+    return computed.toLowerCase() === root.toLowerCase();
+  }
+
+  private hashPair(a: string, b: string): string {
+    const [first, second] = BigInt(a) < BigInt(b) ? [a, b] : [b, a];
+    return ethers.keccak256(ethers.concat([first, second]));
+  }
+}
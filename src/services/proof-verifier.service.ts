@@ -0,0 +1,329 @@
+import { ethers } from 'ethers';
+import { HashableTodo, HashScheme, HashService } from './hash.service';
+import { MerkleService } from './merkle.service';
+import { AnchorMode } from '../types/enums';
+import { canonicalizeJson } from '../utils/canonical-json';
+
+export const PROOF_BUNDLE_FORMAT = 'todo-proof/v1';
+
+/**
+ * The TodoRegistry reads and events a verification needs, so bundles can be checked
+ * against any deployment without its manifest
+ */
+const TODO_REGISTRY_VERIFIER_ABI = [
+  'event TodoCreated(string indexed todoId, bytes32 todoHash, address indexed owner, uint256 timestamp)',
+  'event TodoUpdated(string indexed todoId, bytes32 oldHash, bytes32 newHash, uint256 timestamp)',
+  'event BatchAnchored(uint256 indexed batchId, bytes32 root, uint256 count, address indexed submitter, uint256 timestamp)',
+  'function todoExistsByID(string todoId) view returns (bool)',
+  'function getTodo(string todoId) view returns (bytes32 todoHash, address owner, uint256 timestamp, bool isDeleted)',
+  'function verifyTodo(string todoId, bytes32 expectedHash) view returns (bool)',
+  'function getBatch(uint256 batchId) view returns (bytes32 root, uint256 count, address submitter, uint256 timestamp)',
+  'function verifyBatchInclusion(uint256 batchId, bytes32 leaf, bytes32[] proof) view returns (bool)',
+  'function isApprovedOperator(address owner, address operator) view returns (bool)',
+];
+
+/**
+ * Todo content exactly as hashed: dates as ISO strings, absent optional fields as null
+ */
+export interface ProofTodoData {
+  userId: string;
+  title: string;
+  description: string | null;
+  isCompleted: boolean;
+  completedAt: string | null;
+  priority: string | null;
+  dueDate: string | null;
+  createdAt: string;
+}
+
+/**
+ * Where the hash was anchored
+ * Per-todo: the transaction that wrote the hash. Batch: the batch transaction plus the
+ * todo's Merkle proof against the batch root.
+ */
+export interface ProofAnchor {
+  mode: AnchorMode;
+  chainId: number;
+  contractAddress: string;
+  transactionHash: string;
+  blockNumber: number;
+  batchId?: number;
+  merkleRoot?: string;
+  merkleProof?: string[];
+}
+
+/**
+ * Portable proof that a todo with this content was anchored on chain
+ * Signed (EIP-191) by the wallet that anchored it, over the canonical JSON of every
+ * other field; the salt is included so a third party can recompute the hash.
+ */
+export interface ProofBundle {
+  format: typeof PROOF_BUNDLE_FORMAT;
+  todoId: string;
+  todo: ProofTodoData;
+  isDeleted: boolean;
+  hashScheme: HashScheme;
+  todoHash: string;
+  anchor: ProofAnchor;
+  issuedAt: string;
+  signer: string;
+  signature: string;
+}
+
+export type UnsignedProofBundle = Omit<ProofBundle, 'signature'>;
+
+export interface ProofVerificationResult {
+  isValid: boolean;
+  checks: {
+    hashMatchesData: boolean; // The todo data (and salt) hash to todoHash
+    signatureValid: boolean; // The bundle is signed by its signer
+    signerTrusted: boolean | null; // The signer is the issuing service's wallet (null: not checked)
+    signerIsAnchorOwner: boolean; // The signer owns the todo (or anchored the batch), or is an operator its owner approved
+    transactionConfirmed: boolean; // The anchor transaction is mined, succeeded, hit the contract
+    anchoredOnChain: boolean; // The contract holds the hash (or the batch includes the leaf)
+  };
+  currentOnChain: boolean | null; // Per-todo: hash and deletion state are still the latest
+  confirmations: number;
+  chain: {
+    owner: string | null;
+    todoHash: string | null;
+    isDeleted: boolean | null;
+  };
+}
+
+/**
+ * The exact message signed for a bundle
+ */
+export const getProofSigningPayload = (bundle: UnsignedProofBundle | ProofBundle): string =>
+  // Undefined members are left out, which strips the signature from a full bundle
+  canonicalizeJson({ ...bundle, signature: undefined });
+
+export const toProofTodoData = (todo: HashableTodo): ProofTodoData => ({
+  userId: todo.userId!.toString(),
+  title: todo.title ?? '',
+  description: todo.description ?? null,
+  isCompleted: todo.isCompleted ?? false,
+  completedAt: todo.completedAt?.toISOString() ?? null,
+  priority: todo.priority ?? null,
+  dueDate: todo.dueDate?.toISOString() ?? null,
+  createdAt: todo.createdAt!.toISOString(),
+});
+
+const fromProofTodoData = (data: ProofTodoData): HashableTodo => ({
+  userId: data.userId,
+  title: data.title,
+  description: data.description,
+  isCompleted: data.isCompleted,
+  completedAt: data.completedAt ? new Date(data.completedAt) : null,
+  priority: data.priority,
+  dueDate: data.dueDate ? new Date(data.dueDate) : null,
+  createdAt: new Date(data.createdAt),
+});
+
+const sameHex = (a?: string | null, b?: string | null): boolean =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * ProofVerifier
+ * Checks a proof bundle against TodoRegistry using nothing but an RPC provider
+ * (no database), so the same checks run in the API and in standalone tools
+ */
+export class ProofVerifier {
+  private provider: ethers.Provider;
+  private hashService: HashService;
+  private merkleService: MerkleService;
+
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+    this.hashService = new HashService();
+    this.merkleService = new MerkleService();
+  }
+
+  /**
+   * Check a bundle; trustedSigner is the wallet of the service that issued it. Anyone can
+   * anchor a hash or batch and sign a bundle for it, so a bundle only proves the issuer
+   * held the data when its signer (and so the todo's operator or the batch's submitter)
+   * is that wallet. Without trustedSigner, signerTrusted is null and isn't counted.
+   */
+  async verify(bundle: ProofBundle, trustedSigner?: string): Promise<ProofVerificationResult> {
+    const { anchor } = bundle;
+
+    const network = await this.provider.getNetwork();
+    if (Number(network.chainId) !== anchor.chainId) {
+      throw new Error(
+        `Provider is on chain ${network.chainId}, but the proof is for chain ${anchor.chainId}`
+      );
+    }
+
+    const contract = new ethers.Contract(
+      anchor.contractAddress,
+      TODO_REGISTRY_VERIFIER_ABI,
+      this.provider
+    );
+
+    const recomputedHash = this.hashService.generateTodoHash(
+      fromProofTodoData(bundle.todo),
+      bundle.hashScheme
+    );
+    const hashMatchesData = sameHex(recomputedHash, bundle.todoHash);
+    const signatureValid = this.verifySignature(bundle);
+
+    const receipt = await this.provider.getTransactionReceipt(anchor.transactionHash);
+    const transactionConfirmed =
+      !!receipt &&
+      receipt.status === 1 &&
+      receipt.blockNumber === anchor.blockNumber &&
+      sameHex(receipt.to, anchor.contractAddress);
+    const confirmations = receipt ? await receipt.confirmations() : 0;
+    const logs = transactionConfirmed ? receipt!.logs : [];
+
+    const onChain =
+      anchor.mode === AnchorMode.BATCH
+        ? await this.checkBatchAnchor(contract, bundle, logs)
+        : await this.checkTodoAnchor(contract, bundle, logs);
+
+    const checks = {
+      hashMatchesData,
+      signatureValid,
+      signerTrusted: trustedSigner === undefined ? null : sameHex(bundle.signer, trustedSigner),
+      signerIsAnchorOwner:
+        sameHex(onChain.chain.owner, bundle.signer) ||
+        (anchor.mode === AnchorMode.PER_TODO &&
+          (await this.isApprovedOperator(contract, onChain.chain.owner, bundle.signer))),
+      transactionConfirmed,
+      anchoredOnChain: transactionConfirmed && onChain.anchored,
+    };
+
+    return {
+      isValid: Object.values(checks).every((passed) => passed !== false),
+      checks,
+      currentOnChain: onChain.current,
+      confirmations,
+      chain: onChain.chain,
+    };
+  }
+
+  /**
+   * Whether the owner approved the signer to anchor its todos (TodoRegistryV2; a v1
+   * registry has no operators, so the call fails and counts as no)
+   */
+  private async isApprovedOperator(
+    contract: ethers.Contract,
+    owner: string | null,
+    signer: string
+  ): Promise<boolean> {
+    if (!owner) {
+      return false;
+    }
+
+    try {
+      return await contract.isApprovedOperator(owner, signer);
+    } catch {
+      return false;
+    }
+  }
+
+  private verifySignature(bundle: ProofBundle): boolean {
+    try {
+      const recovered = ethers.verifyMessage(getProofSigningPayload(bundle), bundle.signature);
+      return sameHex(recovered, bundle.signer);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Per-todo: the anchor transaction wrote this hash, or the hash is the current record
+   */
+  private async checkTodoAnchor(
+    contract: ethers.Contract,
+    bundle: ProofBundle,
+    logs: readonly ethers.Log[]
+  ): Promise<{ anchored: boolean; current: boolean; chain: ProofVerificationResult['chain'] }> {
+    const todoIdTopic = ethers.id(bundle.todoId);
+
+    const wroteHash = logs.some((log) => {
+      if (!sameHex(log.address, bundle.anchor.contractAddress) || log.topics[1] !== todoIdTopic) {
+        return false;
+      }
+
+      const parsed = contract.interface.parseLog(log);
+      return (
+        (parsed?.name === 'TodoCreated' && sameHex(parsed.args.todoHash, bundle.todoHash)) ||
+        (parsed?.name === 'TodoUpdated' && sameHex(parsed.args.newHash, bundle.todoHash))
+      );
+    });
+
+    if (!(await contract.todoExistsByID(bundle.todoId))) {
+      return {
+        anchored: false,
+        current: false,
+        chain: { owner: null, todoHash: null, isDeleted: null },
+      };
+    }
+
+    const [[todoHash, owner, , isDeleted], isCurrentHash] = await Promise.all([
+      contract.getTodo(bundle.todoId),
+      contract.verifyTodo(bundle.todoId, bundle.todoHash),
+    ]);
+
+    return {
+      anchored: wroteHash || isCurrentHash,
+      current: isCurrentHash && isDeleted === bundle.isDeleted,
+      chain: { owner, todoHash, isDeleted },
+    };
+  }
+
+  /**
+   * Batch: the anchor transaction created the batch, and the contract accepts the
+   * leaf (todoId, hash, deletion state) with the bundle's proof
+   */
+  private async checkBatchAnchor(
+    contract: ethers.Contract,
+    bundle: ProofBundle,
+    logs: readonly ethers.Log[]
+  ): Promise<{ anchored: boolean; current: null; chain: ProofVerificationResult['chain'] }> {
+    const { batchId, merkleRoot, merkleProof } = bundle.anchor;
+    const notAnchored = {
+      anchored: false,
+      current: null,
+      chain: { owner: null, todoHash: null, isDeleted: null },
+    };
+
+    if (!batchId || !merkleRoot || !merkleProof) {
+      return notAnchored;
+    }
+
+    let batch: { root: string; submitter: string };
+    try {
+      const [root, , submitter] = await contract.getBatch(batchId);
+      batch = { root, submitter };
+    } catch {
+      return notAnchored;
+    }
+
+    const createdBatch = logs.some((log) => {
+      if (!sameHex(log.address, bundle.anchor.contractAddress)) {
+        return false;
+      }
+
+      const parsed = contract.interface.parseLog(log);
+      return parsed?.name === 'BatchAnchored' && Number(parsed.args.batchId) === batchId;
+    });
+
+    const leaf = this.merkleService.computeLeaf(bundle.todoId, bundle.todoHash, bundle.isDeleted);
+    const included =
+      sameHex(batch.root, merkleRoot) &&
+      (await contract.verifyBatchInclusion(batchId, leaf, merkleProof));
+
+    return {
+      anchored: createdBatch && included,
+      current: null,
+      chain: {
+        owner: batch.submitter,
+        todoHash: included ? bundle.todoHash : null,
+        isDeleted: included ? bundle.isDeleted : null,
+      },
+    };
+  }
+}
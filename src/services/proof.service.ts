@@ -0,0 +1,178 @@
+import { TodoRepository } from '../repositories/todo.repository';
+import { BlockchainSyncRepository } from '../repositories/blockchain-sync.repository';
+import { getAnchorBackend } from './anchor-backend.service';
+import { getRpcProvider } from './rpc-provider.service';
+import { HashService } from './hash.service';
+import {
+  getProofSigningPayload,
+  PROOF_BUNDLE_FORMAT,
+  ProofAnchor,
+  ProofBundle,
+  ProofVerificationResult,
+  ProofVerifier,
+  toProofTodoData,
+  UnsignedProofBundle,
+} from './proof-verifier.service';
+import { ITodo } from '../models/todo.model';
+import { ApiError } from '../utils/api-error';
+import logger from '../utils/logger';
+import { config } from '../config';
+import { getContractConfig } from '../config/contracts';
+import { getNetworkConfig } from '../config/networks';
+import { AnchorMode, BlockchainSyncStatus } from '../types/enums';
+
+/**
+ * ProofService
+ * Issues signed proof bundles for anchored todos and verifies bundles for anyone
+ * Bundles name the chain and contract they were anchored on; any enabled network's
+ * deployment can be verified
+ */
+export class ProofService {
+  private todoRepository: TodoRepository;
+  private blockchainSyncRepository: BlockchainSyncRepository;
+  private hashService: HashService;
+  private proofVerifiers: Map<string, ProofVerifier>;
+
+  constructor() {
+    this.todoRepository = new TodoRepository();
+    this.blockchainSyncRepository = new BlockchainSyncRepository();
+    this.hashService = new HashService();
+    this.proofVerifiers = new Map();
+  }
+
+  /**
+   * Build and sign a proof bundle for a todo's anchored state
+   */
+  async getProof(todoId: string, userId: string): Promise<ProofBundle> {
+    const todo = await this.todoRepository.findByIdWithDeleted(todoId, userId);
+
+    if (!todo) {
+      throw ApiError.notFound('Todo not found');
+    }
+
+    if (todo.blockchainSyncStatus !== BlockchainSyncStatus.SYNCED || !todo.blockchainHash) {
+      throw ApiError.badRequest('Todo is not anchored on blockchain yet');
+    }
+
+    // The bundle must describe exactly what was anchored, so refuse if the data has drifted
+    const scheme = this.hashService.getAnchoredScheme(todo);
+    const todoHash = this.hashService.generateTodoHash(todo, scheme);
+
+    if (todoHash !== todo.blockchainHash) {
+      throw ApiError.conflict('Todo data does not match its anchored hash', 'HASH_MISMATCH');
+    }
+
+    const anchorBackend = getAnchorBackend(todo.blockchainNetwork);
+
+    const unsigned: UnsignedProofBundle = {
+      format: PROOF_BUNDLE_FORMAT,
+      todoId: todo._id.toString(),
+      todo: toProofTodoData(todo),
+      isDeleted: todo.isDeleted,
+      hashScheme: scheme,
+      todoHash,
+      anchor: await this.getAnchor(todo, todoHash),
+      issuedAt: new Date().toISOString(),
+      signer: anchorBackend.getWalletAddress(),
+    };
+
+    const signature = await anchorBackend.signMessage(getProofSigningPayload(unsigned));
+
+    logger.info('Proof bundle issued', { todoId, anchorMode: unsigned.anchor.mode });
+
+    return { ...unsigned, signature };
+  }
+
+  /**
+   * Verify a proof bundle against the chain (no account or database record needed)
+   * Only bundles for an enabled network's chain and contract (or the registry it
+   * replaced), signed by that network's anchoring wallet, can be valid
+   */
+  async verifyProof(bundle: ProofBundle): Promise<ProofVerificationResult> {
+    const { chainId, contractAddress } = bundle.anchor;
+    const deployments = config.blockchain.networks.flatMap((name) => {
+      const { address, predecessor } = getContractConfig(name);
+      return [address, ...(predecessor ? [predecessor.address] : [])].map((registry) => ({
+        network: name,
+        chainId: getNetworkConfig(name).chainId,
+        contractAddress: registry,
+      }));
+    });
+    const network = deployments.find(
+      (deployment) =>
+        deployment.chainId === chainId &&
+        deployment.contractAddress.toLowerCase() === contractAddress.toLowerCase()
+    )?.network;
+
+    if (!network) {
+      throw ApiError.badRequest('Proof was not anchored by this deployment', 'UNKNOWN_ANCHOR', {
+        deployments: deployments.map((deployment) => ({
+          chainId: deployment.chainId,
+          contractAddress: deployment.contractAddress,
+        })),
+      });
+    }
+
+    // Only bundles this deployment's wallet signed (and so anchored) are trusted
+    const result = await this.getProofVerifier(network).verify(
+      bundle,
+      getAnchorBackend(network).getWalletAddress()
+    );
+
+    logger.info('Proof bundle verified', {
+      todoId: bundle.todoId,
+      network,
+      isValid: result.isValid,
+      checks: result.checks,
+    });
+
+    return result;
+  }
+
+  private getProofVerifier(network: string): ProofVerifier {
+    let proofVerifier = this.proofVerifiers.get(network);
+
+    if (!proofVerifier) {
+      // Quorum reads: no single RPC endpoint can make a proof pass or fail
+      proofVerifier = new ProofVerifier(getRpcProvider(network, 'quorum'));
+      this.proofVerifiers.set(network, proofVerifier);
+    }
+
+    return proofVerifier;
+  }
+
+  /**
+   * Locate the transaction that anchored the todo's current hash
+   */
+  private async getAnchor(todo: ITodo, todoHash: string): Promise<ProofAnchor> {
+    // Todos anchored before deployments were recorded are on the default network
+    const target = getAnchorBackend(todo.blockchainNetwork).getAnchorTarget();
+    const base = {
+      chainId: todo.blockchainChainId ?? target.chainId,
+      contractAddress: todo.blockchainContractAddress ?? target.contractAddress,
+    };
+
+    if (todo.merkleBatchId && todo.merkleRoot && todo.merkleProof) {
+      return {
+        ...base,
+        mode: AnchorMode.BATCH,
+        transactionHash: todo.blockchainTxHash!,
+        blockNumber: todo.blockchainBlockNumber!,
+        batchId: todo.merkleBatchId,
+        merkleRoot: todo.merkleRoot,
+        merkleProof: [...todo.merkleProof],
+      };
+    }
+
+    // blockchainTxHash may point at a later delete/restore, which doesn't carry the hash
+    const sync = await this.blockchainSyncRepository.findAnchoringSync(todo._id, todoHash);
+    const transactionHash = sync?.transactionHash ?? todo.blockchainTxHash;
+    const blockNumber = sync?.blockNumber ?? todo.blockchainBlockNumber;
+
+    if (!transactionHash || blockNumber === undefined) {
+      throw ApiError.conflict('Anchoring transaction for this todo is not recorded', 'NO_ANCHOR');
+    }
+
+    return { ...base, mode: AnchorMode.PER_TODO, transactionHash, blockNumber };
+  }
+}
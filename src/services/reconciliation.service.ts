@@ -0,0 +1,427 @@
+import { TodoRepository } from '../repositories/todo.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { DriftReportRepository } from '../repositories/drift-report.repository';
+import {
+  AnchorBackend,
+  getAnchorBackend,
+  hasEventIndex,
+  isAnchoringEnabled,
+} from './anchor-backend.service';
+import { getEventIndexerService } from './event-indexer.service';
+import { HashService } from './hash.service';
+import { MerkleService } from './merkle.service';
+import { ITodo } from '../models/todo.model';
+import { IDriftItem, IDriftReport, DriftReportTrigger } from '../models/drift-report.model';
+import { ApiError } from '../utils/api-error';
+import logger from '../utils/logger';
+import { config } from '../config';
+import { CONSTANTS } from '../config/constants';
+import { AnchorMode, DriftType } from '../types/enums';
+
+/**
+ * What the chain says about a todo, however it was read
+ */
+interface ChainTodoState {
+  todoHash?: string;
+  isDeleted?: boolean;
+  owner: string;
+}
+
+interface ReconciliationTotals {
+  scanned: number;
+  failedChecks: number;
+  driftCount: number;
+  countsByType: Record<DriftType, number>;
+  items: IDriftItem[];
+  itemsTruncated: boolean;
+}
+
+const emptyDriftCounts = (): Record<DriftType, number> =>
+  Object.fromEntries(Object.values(DriftType).map((type) => [type, 0])) as Record<
+    DriftType,
+    number
+  >;
+
+/**
+ * ReconciliationService
+ * Compares every SYNCED todo in MongoDB with its on-chain anchor and writes a drift report
+ *
+ * - Each todo is checked on the network it was anchored on
+ * - Per-todo anchors are read from the event index when it is populated; anything that
+ *   looks wrong there is re-checked against the contract before it is reported
+ * - Batch anchors are checked by verifying the stored Merkle proof against the batch root
+ * - A per-todo anchor may be owned by our wallet, the wallet its user linked, or a
+ *   wallet that approved ours as its operator
+ * - A drifted todo is only reported if it is still SYNCED and unchanged once checked,
+ *   so edits racing the scan don't show up as drift
+ */
+export class ReconciliationService {
+  private todoRepository: TodoRepository;
+  private userRepository: UserRepository;
+  private driftReportRepository: DriftReportRepository;
+  private hashService: HashService;
+  private merkleService: MerkleService;
+
+  constructor() {
+    this.todoRepository = new TodoRepository();
+    this.userRepository = new UserRepository();
+    this.driftReportRepository = new DriftReportRepository();
+    this.hashService = new HashService();
+    this.merkleService = new MerkleService();
+  }
+
+  /**
+   * Run a full reconciliation and return the finished report
+   */
+  async run(trigger: DriftReportTrigger, triggeredBy?: string): Promise<IDriftReport> {
+    const report = await this.openReport(trigger, triggeredBy);
+    return this.execute(report);
+  }
+
+  /**
+   * Start a reconciliation in the background and return its (running) report
+   */
+  async start(trigger: DriftReportTrigger, triggeredBy?: string): Promise<IDriftReport> {
+    const report = await this.openReport(trigger, triggeredBy);
+
+    this.execute(report).catch((error) => {
+      logger.error('Background reconciliation failed', {
+        reportId: report._id.toString(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+
+    return report;
+  }
+
+  /**
+   * Get the most recent completed report
+   */
+  async getLatestReport(): Promise<IDriftReport> {
+    const report = await this.driftReportRepository.findLatestCompleted();
+
+    if (!report) {
+      throw ApiError.notFound('No reconciliation report yet');
+    }
+
+    return report;
+  }
+
+  /**
+   * Get a report by ID (e.g. to poll an admin-triggered run)
+   */
+  async getReport(reportId: string): Promise<IDriftReport> {
+    const report = await this.driftReportRepository.findById(reportId);
+
+    if (!report) {
+      throw ApiError.notFound('Reconciliation report not found');
+    }
+
+    return report;
+  }
+
+  /**
+   * Open a report, refusing to start while another run is in progress
+   */
+  private async openReport(
+    trigger: DriftReportTrigger,
+    triggeredBy?: string
+  ): Promise<IDriftReport> {
+    if (!isAnchoringEnabled()) {
+      throw ApiError.badRequest(
+        'Blockchain anchoring is disabled, there is no chain to reconcile with',
+        'ANCHORING_DISABLED'
+      );
+    }
+
+    const staleBefore = new Date(Date.now() - CONSTANTS.BLOCKCHAIN.RECONCILIATION_STALE_RUN);
+    const running = await this.driftReportRepository.findRunningSince(staleBefore);
+
+    if (running) {
+      throw ApiError.conflict('A reconciliation run is already in progress', 'CONFLICT', {
+        reportId: running._id.toString(),
+      });
+    }
+
+    return this.driftReportRepository.start(trigger, triggeredBy);
+  }
+
+  /**
+   * Walk all SYNCED todos page by page and close the report with the results
+   */
+  private async execute(report: IDriftReport): Promise<IDriftReport> {
+    const { RECONCILIATION_PAGE_SIZE, RECONCILIATION_MAX_REPORT_ITEMS } = CONSTANTS.BLOCKCHAIN;
+
+    const totals: ReconciliationTotals = {
+      scanned: 0,
+      failedChecks: 0,
+      driftCount: 0,
+      countsByType: emptyDriftCounts(),
+      items: [],
+      itemsTruncated: false,
+    };
+
+    logger.info('Reconciliation started', {
+      reportId: report._id.toString(),
+      trigger: report.trigger,
+    });
+
+    try {
+      const indexedNetworks = await this.getIndexedNetworks();
+      const expectedOwner = getAnchorBackend().getWalletAddress();
+      let afterId: ITodo['_id'] | null = null;
+
+      for (;;) {
+        const todos = await this.todoRepository.getSyncedPage(afterId, RECONCILIATION_PAGE_SIZE);
+
+        if (todos.length === 0) {
+          break;
+        }
+
+        for (const todo of todos) {
+          totals.scanned++;
+
+          try {
+            const network = todo.blockchainNetwork || config.blockchain.network;
+            const item = await this.checkTodo(todo, expectedOwner, indexedNetworks.has(network));
+
+            if (!item || !(await this.todoRepository.isUnchangedSince(todo))) {
+              continue;
+            }
+
+            totals.driftCount++;
+            item.types.forEach((type) => totals.countsByType[type]++);
+
+            if (totals.items.length < RECONCILIATION_MAX_REPORT_ITEMS) {
+              totals.items.push(item);
+            } else {
+              totals.itemsTruncated = true;
+            }
+          } catch (error) {
+            // One unreadable todo shouldn't abort the whole scan; it's counted instead
+            totals.failedChecks++;
+            logger.warn('Reconciliation check failed', {
+              todoId: todo._id.toString(),
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+
+        afterId = todos[todos.length - 1]._id;
+      }
+
+      const completed = await this.driftReportRepository.complete(report._id, totals);
+
+      logger.info('Reconciliation completed', {
+        reportId: report._id.toString(),
+        scanned: totals.scanned,
+        driftCount: totals.driftCount,
+        failedChecks: totals.failedChecks,
+      });
+
+      return completed!;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      await this.driftReportRepository.fail(report._id, message, totals.scanned);
+
+      logger.error('Reconciliation failed', {
+        reportId: report._id.toString(),
+        scanned: totals.scanned,
+        error: message,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Networks whose event index is populated and can be read instead of the contract
+   */
+  private async getIndexedNetworks(): Promise<Set<string>> {
+    if (!hasEventIndex()) {
+      return new Set();
+    }
+
+    const ready = await Promise.all(
+      config.blockchain.networks.map((network) => getEventIndexerService(network).isReady())
+    );
+
+    return new Set(config.blockchain.networks.filter((_, i) => ready[i]));
+  }
+
+  /**
+   * Check one todo against its anchor, returning a drift item or null if it matches
+   */
+  private async checkTodo(
+    todo: ITodo,
+    expectedOwner: string,
+    useIndex: boolean
+  ): Promise<IDriftItem | null> {
+    // Hash current data with the scheme (and salt) that produced the anchored hash
+    const mongoHash = this.hashService.generateTodoHash(
+      todo,
+      this.hashService.getAnchoredScheme(todo)
+    );
+
+    if (todo.merkleBatchId && todo.merkleProof) {
+      return this.checkBatchedTodo(todo, mongoHash, expectedOwner, useIndex);
+    }
+
+    const todoId = todo._id.toString();
+    const anchorBackend = getAnchorBackend(todo.blockchainNetwork);
+    const expectedOwners = await this.getExpectedOwners(todo, expectedOwner);
+
+    if (useIndex) {
+      const indexed = await getEventIndexerService(todo.blockchainNetwork).getTodoState(todoId);
+
+      if (indexed && this.classify(todo, mongoHash, indexed, expectedOwners).length === 0) {
+        return null;
+      }
+    }
+
+    // The index may lag or be incomplete; the contract has the final say on suspects
+    if (!(await anchorBackend.todoExists(todoId))) {
+      return this.toDriftItem(todo, mongoHash, expectedOwner, [DriftType.MISSING_ON_CHAIN]);
+    }
+
+    const onChain = await anchorBackend.getTodo(todoId);
+
+    // A wallet unlinked since keeps its todos, which are still ours to write while it approves us
+    if (
+      !isOneOf(onChain.owner, expectedOwners) &&
+      anchorBackend.supportsWalletOwnership() &&
+      (await anchorBackend.isApprovedOperator(onChain.owner))
+    ) {
+      expectedOwners.push(onChain.owner);
+    }
+
+    const types = this.classify(todo, mongoHash, onChain, expectedOwners);
+
+    return types.length > 0
+      ? this.toDriftItem(todo, mongoHash, expectedOwner, types, onChain)
+      : null;
+  }
+
+  /**
+   * Check a batch-anchored todo by re-verifying its stored Merkle proof
+   * The leaf commits to (todoId, hash, isDeleted), so the anchored values are recovered
+   * by trying the current hash, the recorded hash and both deletion flags
+   */
+  private async checkBatchedTodo(
+    todo: ITodo,
+    mongoHash: string,
+    expectedOwner: string,
+    useIndex: boolean
+  ): Promise<IDriftItem | null> {
+    const todoId = todo._id.toString();
+    const batchId = todo.merkleBatchId!;
+
+    const batch =
+      (useIndex && (await getEventIndexerService(todo.blockchainNetwork).getBatch(batchId))) ||
+      (await this.readBatch(getAnchorBackend(todo.blockchainNetwork), batchId));
+
+    if (!batch) {
+      return this.toDriftItem(todo, mongoHash, expectedOwner, [DriftType.MISSING_ON_CHAIN]);
+    }
+
+    const candidateHashes = [...new Set([mongoHash, todo.blockchainHash ?? mongoHash])];
+    const anchored = candidateHashes
+      .flatMap((todoHash) =>
+        [todo.isDeleted, !todo.isDeleted].map((isDeleted) => ({ todoHash, isDeleted }))
+      )
+      .find(({ todoHash, isDeleted }) =>
+        this.merkleService.verifyProof(
+          this.merkleService.computeLeaf(todoId, todoHash, isDeleted),
+          todo.merkleProof!,
+          batch.root
+        )
+      );
+
+    const onChain: ChainTodoState = { ...anchored, owner: batch.submitter };
+    const types = this.classify(todo, mongoHash, onChain, [expectedOwner]);
+
+    // Neither hash is in the batch: the stored hash or proof was altered
+    if (!anchored) {
+      types.unshift(DriftType.TAMPERED_IN_DB);
+    }
+
+    return types.length > 0
+      ? this.toDriftItem(todo, mongoHash, expectedOwner, types, onChain, batchId)
+      : null;
+  }
+
+  /**
+   * Read a batch from the contract, or null if it was never anchored
+   */
+  private async readBatch(
+    anchorBackend: AnchorBackend,
+    batchId: number
+  ): Promise<{ root: string; submitter: string } | null> {
+    try {
+      return await anchorBackend.getBatch(batchId);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Batch does not exist')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Wallets that may own a todo's per-todo anchor: ours, and the user's linked wallet
+   * (todos anchored before the user linked it stay owned by ours)
+   */
+  private async getExpectedOwners(todo: ITodo, expectedOwner: string): Promise<string[]> {
+    const user = await this.userRepository.findById(todo.userId);
+
+    return user?.walletAddress ? [expectedOwner, user.walletAddress] : [expectedOwner];
+  }
+
+  private classify(
+    todo: ITodo,
+    mongoHash: string,
+    onChain: ChainTodoState,
+    expectedOwners: string[]
+  ): DriftType[] {
+    const types: DriftType[] = [];
+
+    if (onChain.todoHash && onChain.todoHash.toLowerCase() !== mongoHash.toLowerCase()) {
+      types.push(DriftType.TAMPERED_IN_DB);
+    }
+    if (onChain.isDeleted !== undefined && onChain.isDeleted !== todo.isDeleted) {
+      types.push(DriftType.DELETION_MISMATCH);
+    }
+    if (!isOneOf(onChain.owner, expectedOwners)) {
+      types.push(DriftType.OWNER_MISMATCH);
+    }
+
+    return types;
+  }
+
+  private toDriftItem(
+    todo: ITodo,
+    mongoHash: string,
+    expectedOwner: string,
+    types: DriftType[],
+    onChain?: ChainTodoState,
+    batchId?: number
+  ): IDriftItem {
+    return {
+      todoId: todo._id,
+      userId: todo.userId,
+      types,
+      anchorMode: batchId !== undefined ? AnchorMode.BATCH : AnchorMode.PER_TODO,
+      mongoHash,
+      chainHash: onChain?.todoHash,
+      mongoIsDeleted: todo.isDeleted,
+      chainIsDeleted: onChain?.isDeleted,
+      expectedOwner,
+      chainOwner: onChain?.owner,
+      batchId,
+    };
+  }
+}
+
+const isOneOf = (address: string, addresses: string[]): boolean =>
+  addresses.some((candidate) => candidate.toLowerCase() === address.toLowerCase());
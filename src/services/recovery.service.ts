@@ -0,0 +1,610 @@
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { CONSTANTS } from '../config/constants';
+import { getContractConfig } from '../config/contracts';
+import { getNetworkConfig } from '../config/networks';
+import { ITodo, Todo } from '../models/todo.model';
+import { TodoRepository } from '../repositories/todo.repository';
+import { BlockchainSyncOperation, BlockchainSyncStatus, RecoveryStatus } from '../types/enums';
+import { HashService } from './hash.service';
+import { MerkleService } from './merkle.service';
+import { PROOF_BUNDLE_FORMAT, ProofBundle } from './proof-verifier.service';
+import { getRpcProvider } from './rpc-provider.service';
+import { getAnchorBackend } from './anchor-backend.service';
+import logger from '../utils/logger';
+
+/**
+ * The TodoRegistry events a todo's history is rebuilt from (v1 and v2), and the create
+ * calls a lost todo's ID can be read back from
+ */
+const TODO_REGISTRY_HISTORY_ABI = [
+  'event TodoCreated(string indexed todoId, bytes32 todoHash, address indexed owner, uint256 timestamp)',
+  'event TodoUpdated(string indexed todoId, bytes32 oldHash, bytes32 newHash, uint256 timestamp)',
+  'event TodoDeleted(string indexed todoId, uint256 timestamp)',
+  'event TodoRestored(string indexed todoId, uint256 timestamp)',
+  'event TodoMigrated(string indexed todoId, bytes32 todoHash, address indexed owner, bool isDeleted)',
+  'event BatchAnchored(uint256 indexed batchId, bytes32 root, uint256 count, address indexed submitter, uint256 timestamp)',
+  'event BatchMigrated(uint256 indexed batchId, bytes32 root)',
+  'function createTodo(string todoId, bytes32 todoHash)',
+  'function createTodo(string todoId, bytes32 todoHash, uint16 schemaVersion)',
+  'function createTodoFor(string todoId, bytes32 todoHash, uint16 schemaVersion, address owner)',
+];
+
+/**
+ * A registry whose event log is read (and the block it was deployed in)
+ */
+export interface RegistryLocation {
+  address: string;
+  deployBlock: number;
+}
+
+/**
+ * A todo's on-chain record, replayed from its events
+ */
+export interface AnchoredTodo {
+  todoHash: string; // Current hash
+  hashes: string[]; // Every hash anchored for it, oldest first
+  owner: string;
+  isDeleted: boolean;
+  contractAddress: string; // Registry that last wrote it
+  transactionHash: string; // Latest write
+  blockNumber: number;
+  createdTransactionHash: string;
+}
+
+/**
+ * A Merkle batch root on chain
+ * Anyone can anchor a batch, so its submitter is what ties it to this deployment.
+ * BatchMigrated doesn't name one: a migrated batch keeps the submitter of the
+ * predecessor's BatchAnchored event, or has none if that wasn't read.
+ */
+export interface AnchoredBatch {
+  root: string;
+  submitter?: string;
+  migrated: boolean; // Copied from the predecessor registry by the deployer
+}
+
+/**
+ * Everything the registries' event logs say, up to toBlock
+ * Todo events index the keccak256 of the todo ID, so todos are keyed by that hash
+ */
+export interface RegistryHistory {
+  chainId: number;
+  toBlock: number;
+  todos: Map<string, AnchoredTodo>;
+  batches: Map<number, AnchoredBatch>;
+}
+
+/**
+ * A backup record compared with the chain
+ */
+export interface RecoveryAssessment {
+  todo: ITodo;
+  status: RecoveryStatus;
+  reason?: string; // Why a record isn't authentic
+  anchored?: AnchoredTodo;
+  batchRoot?: string; // Set when its Merkle proof is what made it authentic
+}
+
+/**
+ * An on-chain todo no backup record covers: it existed, but its data is gone
+ */
+export interface LostTodo {
+  todoId?: string; // Read from the creating transaction, when it called the registry directly
+  todoIdHash: string;
+  todoHash: string;
+  owner: string;
+  isDeleted: boolean;
+}
+
+export interface RecoveryOptions {
+  dryRun?: boolean; // Compare only; nothing is written to MongoDB
+  overwrite?: boolean; // Replace every existing todo with its backup copy
+}
+
+export interface RecoveryReport {
+  network: string;
+  chainId: number;
+  scannedToBlock: number;
+  records: number; // Backup entries read
+  restored: number; // Todos written to MongoDB (0 in a dry run)
+  kept: number; // Existing todos left as they are, the backup copy being no better
+  countsByStatus: Record<RecoveryStatus, number>;
+  flagged: { todoId: string; userId: string; status: RecoveryStatus; reason: string }[];
+  lost: LostTodo[];
+  invalid: { index: number; error: string }[]; // Entries that aren't valid todos
+  skipped: number; // Entries for another network
+}
+
+// Which copy of a todo to keep when a backup has several
+const STATUS_RANK: Record<RecoveryStatus, number> = {
+  [RecoveryStatus.AUTHENTIC]: 0,
+  [RecoveryStatus.OUTDATED]: 1,
+  [RecoveryStatus.UNANCHORED]: 2,
+  [RecoveryStatus.UNMATCHED]: 3,
+};
+
+/**
+ * RegistryHistoryReader
+ * Replays TodoRegistry event logs into every todo's anchored hashes and deletion state,
+ * straight from the chain (the event index lives in MongoDB, which can't be trusted here)
+ */
+export class RegistryHistoryReader {
+  private provider: ethers.Provider;
+  private registries: RegistryLocation[];
+  private registryInterface: ethers.Interface;
+
+  constructor(provider: ethers.Provider, registries: RegistryLocation[]) {
+    this.provider = provider;
+    this.registries = registries;
+    this.registryInterface = new ethers.Interface(TODO_REGISTRY_HISTORY_ABI);
+  }
+
+  /**
+   * Read every registry's log from its deploy block to toBlock (the latest by default)
+   */
+  async read(toBlock?: number): Promise<RegistryHistory> {
+    const network = await this.provider.getNetwork();
+    const history: RegistryHistory = {
+      chainId: Number(network.chainId),
+      toBlock: toBlock ?? (await this.provider.getBlockNumber()),
+      todos: new Map(),
+      batches: new Map(),
+    };
+
+    const fromBlock = Math.min(...this.registries.map((registry) => registry.deployBlock));
+    const range = CONSTANTS.BLOCKCHAIN.INDEXER_BLOCK_RANGE;
+
+    for (let start = fromBlock; start <= history.toBlock; start += range) {
+      const logs = await this.provider.getLogs({
+        address: this.registries.map((registry) => registry.address),
+        fromBlock: start,
+        toBlock: Math.min(start + range - 1, history.toBlock),
+      });
+
+      for (const log of logs) {
+        this.apply(history, log);
+      }
+    }
+
+    return history;
+  }
+
+  /**
+   * The todo ID a create transaction was called with, if it called the registry directly
+   */
+  async findCreatedTodoId(transactionHash: string): Promise<string | undefined> {
+    const tx = await this.provider.getTransaction(transactionHash);
+    const call = tx && this.registryInterface.parseTransaction({ data: tx.data });
+
+    return call?.name === 'createTodo' || call?.name === 'createTodoFor'
+      ? (call.args.todoId as string)
+      : undefined;
+  }
+
+  private apply(history: RegistryHistory, log: ethers.Log): void {
+    const parsed = this.registryInterface.parseLog(log);
+
+    if (!parsed) {
+      return;
+    }
+
+    if (parsed.name === 'BatchAnchored') {
+      history.batches.set(Number(parsed.args.batchId), {
+        root: parsed.args.root,
+        submitter: parsed.args.submitter,
+        migrated: false,
+      });
+      return;
+    }
+
+    if (parsed.name === 'BatchMigrated') {
+      const batchId = Number(parsed.args.batchId);
+      const original = history.batches.get(batchId);
+      history.batches.set(batchId, {
+        root: parsed.args.root,
+        submitter: original && original.root === parsed.args.root ? original.submitter : undefined,
+        migrated: true,
+      });
+      return;
+    }
+
+    const todoIdHash = log.topics[1];
+    const todo = history.todos.get(todoIdHash);
+    const written = {
+      contractAddress: log.address,
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+    };
+
+    switch (parsed.name) {
+      case 'TodoCreated':
+      case 'TodoMigrated':
+        // A migrated todo keeps the history it has on the registry it came from
+        history.todos.set(todoIdHash, {
+          ...written,
+          todoHash: parsed.args.todoHash,
+          hashes: [...(todo?.hashes ?? []), parsed.args.todoHash],
+          owner: parsed.args.owner,
+          isDeleted: parsed.name === 'TodoMigrated' ? parsed.args.isDeleted : false,
+          createdTransactionHash: todo?.createdTransactionHash ?? log.transactionHash,
+        });
+        break;
+      case 'TodoUpdated':
+        if (todo) {
+          Object.assign(todo, written, { todoHash: parsed.args.newHash });
+          todo.hashes.push(parsed.args.newHash);
+        }
+        break;
+      case 'TodoDeleted':
+      case 'TodoRestored':
+        if (todo) {
+          Object.assign(todo, written, { isDeleted: parsed.name === 'TodoDeleted' });
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * RecoveryService
+ * Rebuilds the Todo collection of one network from a backup, using the chain as witness
+ *
+ * 1. Backup entries (Todo documents, or proof bundles from GET /todos/:id/proof) are
+ *    read into todos
+ * 2. The registries' event logs are replayed up to the network's confirmation depth
+ * 3. Each todo's data is hashed with its recorded scheme and compared with its anchors:
+ *    - AUTHENTIC: matches its current hash and deletion state (or its Merkle proof
+ *      checks out against the root of a batch the anchoring wallet submitted, or one
+ *      migrated from the predecessor); restored as SYNCED
+ *    - OUTDATED: matches an earlier hash only; the newer data is lost
+ *    - UNMATCHED: matches none of its hashes, or the backup claims an anchor the chain
+ *      doesn't have
+ *    - UNANCHORED: never anchored; restored PENDING, so the sync job anchors it
+ * 4. Todos are written under their original IDs, tagged with recoveryStatus. Missing
+ *    todos are inserted; an existing one is only replaced by an AUTHENTIC copy when it
+ *    isn't AUTHENTIC itself (or always, with overwrite)
+ *
+ * OUTDATED and UNMATCHED todos are restored as FAILED with their retries used up, so
+ * their data is never anchored over what the chain holds. On-chain todos that no backup
+ * entry covers are reported as lost.
+ *
+ * Backups are read as they are: decrypting an encrypted export is out of scope (the app
+ * has no export format of its own), so it must be decrypted first.
+ */
+export class RecoveryService {
+  private network: string;
+  private todoRepository: TodoRepository;
+  private hashService: HashService;
+  private merkleService: MerkleService;
+
+  constructor(network: string = config.blockchain.network) {
+    this.network = network;
+    this.todoRepository = new TodoRepository();
+    this.hashService = new HashService();
+    this.merkleService = new MerkleService();
+  }
+
+  /**
+   * Compare backup entries with the chain and restore them (unless dryRun)
+   */
+  async recover(
+    entries: Record<string, unknown>[],
+    options: RecoveryOptions = {}
+  ): Promise<RecoveryReport> {
+    const { confirmations } = getNetworkConfig(this.network);
+    const contractConfig = getContractConfig(this.network);
+
+    // Reads go through a quorum of the network's endpoints, so one node can't forge history
+    const reader = new RegistryHistoryReader(getRpcProvider(this.network, 'quorum'), [
+      ...(contractConfig.predecessor ? [contractConfig.predecessor] : []),
+      contractConfig,
+    ]);
+
+    const anchoringWallet = getAnchorBackend(this.network).getWalletAddress();
+    const latest = await getRpcProvider(this.network).getBlockNumber();
+    const history = await reader.read(latest - (confirmations - 1));
+
+    const report: RecoveryReport = {
+      network: this.network,
+      chainId: history.chainId,
+      scannedToBlock: history.toBlock,
+      records: entries.length,
+      restored: 0,
+      kept: 0,
+      countsByStatus: {
+        [RecoveryStatus.AUTHENTIC]: 0,
+        [RecoveryStatus.OUTDATED]: 0,
+        [RecoveryStatus.UNMATCHED]: 0,
+        [RecoveryStatus.UNANCHORED]: 0,
+      },
+      flagged: [],
+      lost: [],
+      invalid: [],
+      skipped: 0,
+    };
+
+    const todos: ITodo[] = [];
+
+    entries.forEach((entry, index) => {
+      const document = this.isProofBundle(entry)
+        ? this.fromProofBundle(entry, history.chainId)
+        : entry;
+
+      if (!document) {
+        report.skipped++;
+        return;
+      }
+
+      const todo = new Todo(document);
+      const error = todo.validateSync();
+
+      if (error) {
+        report.invalid.push({ index, error: error.message });
+      } else if ((todo.blockchainNetwork || config.blockchain.network) !== this.network) {
+        report.skipped++;
+      } else {
+        todos.push(todo);
+      }
+    });
+
+    const assessments = this.assess(todos, history, anchoringWallet);
+
+    for (const assessment of assessments) {
+      const { todo, status, reason } = assessment;
+      report.countsByStatus[status]++;
+
+      if (reason) {
+        report.flagged.push({
+          todoId: todo._id.toString(),
+          userId: todo.userId.toString(),
+          status,
+          reason,
+        });
+      }
+    }
+
+    const covered = new Set(assessments.map(({ todo }) => ethers.id(todo._id.toString())));
+
+    for (const [todoIdHash, anchored] of history.todos) {
+      if (!covered.has(todoIdHash)) {
+        report.lost.push({
+          todoId: await reader.findCreatedTodoId(anchored.createdTransactionHash),
+          todoIdHash,
+          todoHash: anchored.todoHash,
+          owner: anchored.owner,
+          isDeleted: anchored.isDeleted,
+        });
+      }
+    }
+
+    if (!options.dryRun) {
+      // Existing todos are judged the same way, so a live copy is never replaced by a worse one
+      const existing = await this.todoRepository.findManyByIdsWithDeleted(
+        assessments.map(({ todo }) => todo._id)
+      );
+      const existingStatus = new Map(
+        this.assess(existing, history, anchoringWallet).map(({ todo, status }) => [
+          todo._id.toString(),
+          status,
+        ])
+      );
+
+      const recoveredAt = new Date();
+      const restores = assessments.flatMap((assessment) => {
+        const current = existingStatus.get(assessment.todo._id.toString());
+        const replace =
+          current !== undefined &&
+          (options.overwrite ||
+            (assessment.status === RecoveryStatus.AUTHENTIC &&
+              current !== RecoveryStatus.AUTHENTIC));
+
+        if (current !== undefined && !replace) {
+          return [];
+        }
+
+        return [{ todo: this.toRestoredTodo(assessment, history, recoveredAt), replace }];
+      });
+
+      await this.todoRepository.restoreMany(restores);
+      report.restored = restores.length;
+      report.kept = assessments.length - restores.length;
+    }
+
+    logger.info('Chain recovery finished', {
+      network: this.network,
+      dryRun: Boolean(options.dryRun),
+      records: report.records,
+      restored: report.restored,
+      kept: report.kept,
+      countsByStatus: report.countsByStatus,
+      lost: report.lost.length,
+      invalid: report.invalid.length,
+    });
+
+    return report;
+  }
+
+  /**
+   * Compare todos with the chain's history
+   * anchoringWallet is the network's wallet, which batches must have been submitted by.
+   * When a todo appears more than once, the copy that compares best is kept.
+   */
+  assess(todos: ITodo[], history: RegistryHistory, anchoringWallet: string): RecoveryAssessment[] {
+    const assessments = new Map<string, RecoveryAssessment>();
+
+    for (const todo of todos) {
+      const assessment = this.assessTodo(todo, history, anchoringWallet);
+      const todoId = todo._id.toString();
+      const kept = assessments.get(todoId);
+
+      if (!kept || STATUS_RANK[assessment.status] < STATUS_RANK[kept.status]) {
+        assessments.set(todoId, assessment);
+      }
+    }
+
+    return Array.from(assessments.values());
+  }
+
+  private assessTodo(
+    todo: ITodo,
+    history: RegistryHistory,
+    anchoringWallet: string
+  ): RecoveryAssessment {
+    const todoId = todo._id.toString();
+    const anchored = history.todos.get(ethers.id(todoId));
+    const batch =
+      todo.merkleBatchId !== undefined ? history.batches.get(todo.merkleBatchId) : undefined;
+
+    let hash: string;
+    try {
+      hash = this.hashService.generateTodoHash(todo, this.hashService.getAnchoredScheme(todo));
+    } catch (error) {
+      const reason = `Data cannot be hashed: ${error instanceof Error ? error.message : error}`;
+      return { todo, status: RecoveryStatus.UNMATCHED, reason, anchored };
+    }
+
+    const matches = (anchoredHash: string) => anchoredHash.toLowerCase() === hash.toLowerCase();
+
+    if (anchored && matches(anchored.todoHash) && anchored.isDeleted === todo.isDeleted) {
+      return { todo, status: RecoveryStatus.AUTHENTIC, anchored };
+    }
+
+    if (
+      batch &&
+      todo.merkleProof &&
+      this.merkleService.verifyProof(
+        this.merkleService.computeLeaf(todoId, hash, todo.isDeleted),
+        todo.merkleProof,
+        batch.root
+      )
+    ) {
+      const trusted = batch.submitter
+        ? batch.submitter.toLowerCase() === anchoringWallet.toLowerCase()
+        : batch.migrated;
+
+      if (!trusted) {
+        const reason = `Batch ${todo.merkleBatchId} was submitted by ${batch.submitter}, not the anchoring wallet`;
+        return { todo, status: RecoveryStatus.UNMATCHED, reason, anchored };
+      }
+
+      return { todo, status: RecoveryStatus.AUTHENTIC, anchored, batchRoot: batch.root };
+    }
+
+    if (anchored?.hashes.some(matches)) {
+      const reason = matches(anchored.todoHash)
+        ? `Deletion state differs from the chain (deleted on chain: ${anchored.isDeleted})`
+        : 'Data matches an earlier anchor; the chain has a newer version';
+      return { todo, status: RecoveryStatus.OUTDATED, reason, anchored };
+    }
+
+    if (anchored || batch) {
+      const reason = 'Data matches none of the todo hashes anchored on chain';
+      return { todo, status: RecoveryStatus.UNMATCHED, reason, anchored };
+    }
+
+    if (todo.blockchainTxHash || todo.merkleBatchId !== undefined) {
+      const reason = 'Backup records an anchor the chain does not have';
+      return { todo, status: RecoveryStatus.UNMATCHED, reason };
+    }
+
+    return { todo, status: RecoveryStatus.UNANCHORED };
+  }
+
+  /**
+   * The todo as written back, with its sync state set from the assessment
+   */
+  private toRestoredTodo(
+    { todo, status, reason, anchored, batchRoot }: RecoveryAssessment,
+    history: RegistryHistory,
+    recoveredAt: Date
+  ): ITodo {
+    todo.set({
+      recoveryStatus: status,
+      recoveredAt,
+      blockchainNetwork: this.network,
+      syncRetryCount: 0,
+      lastSyncAttempt: undefined,
+      anchorDeferredUntil: undefined,
+      batchQueuedAt: undefined,
+      blockchainSyncError: undefined,
+    });
+
+    switch (status) {
+      case RecoveryStatus.AUTHENTIC:
+        todo.set({
+          blockchainSyncStatus: BlockchainSyncStatus.SYNCED,
+          blockchainChainId: history.chainId,
+          ...(batchRoot
+            ? { merkleRoot: batchRoot }
+            : {
+                blockchainHash: anchored!.todoHash,
+                blockchainContractAddress: anchored!.contractAddress,
+                blockchainTxHash: anchored!.transactionHash,
+                blockchainBlockNumber: anchored!.blockNumber,
+              }),
+        });
+        break;
+      case RecoveryStatus.UNANCHORED:
+        todo.set({
+          blockchainSyncStatus: BlockchainSyncStatus.PENDING,
+          blockchainSyncOperation: todo.isDeleted
+            ? BlockchainSyncOperation.DELETE
+            : BlockchainSyncOperation.CREATE,
+        });
+        break;
+      default:
+        // Retries used up: re-anchoring would overwrite what the chain proves
+        todo.set({
+          blockchainSyncStatus: BlockchainSyncStatus.FAILED,
+          blockchainSyncError: `Recovered from backup: ${reason}`,
+          syncRetryCount: CONSTANTS.BLOCKCHAIN.MAX_RETRY_ATTEMPTS,
+        });
+    }
+
+    return todo;
+  }
+
+  private isProofBundle(
+    entry: Record<string, unknown>
+  ): entry is Record<string, unknown> & ProofBundle {
+    return entry.format === PROOF_BUNDLE_FORMAT;
+  }
+
+  /**
+   * A Todo document from a proof bundle, or null when it was anchored on another chain
+   */
+  private fromProofBundle(bundle: ProofBundle, chainId: number): Record<string, unknown> | null {
+    const { todo, hashScheme, anchor } = bundle;
+
+    if (anchor.chainId !== chainId) {
+      return null;
+    }
+
+    return {
+      _id: bundle.todoId,
+      userId: todo.userId,
+      title: todo.title,
+      description: todo.description ?? undefined,
+      isCompleted: todo.isCompleted,
+      completedAt: todo.completedAt ?? undefined,
+      priority: todo.priority ?? undefined,
+      dueDate: todo.dueDate ?? undefined,
+      createdAt: todo.createdAt,
+      updatedAt: bundle.issuedAt,
+      isDeleted: bundle.isDeleted,
+      hashVersion: hashScheme.version,
+      hashAlgorithm: hashScheme.algorithm,
+      hashSalt: hashScheme.salt,
+      blockchainHash: bundle.todoHash,
+      blockchainNetwork: this.network,
+      blockchainChainId: anchor.chainId,
+      blockchainContractAddress: anchor.contractAddress,
+      blockchainTxHash: anchor.transactionHash,
+      blockchainBlockNumber: anchor.blockNumber,
+      merkleBatchId: anchor.batchId,
+      merkleRoot: anchor.merkleRoot,
+      merkleProof: anchor.merkleProof,
+    };
+  }
+}
@@ -0,0 +1,291 @@
+import { ethers, Contract } from 'ethers';
+import { CONSTANTS } from '../config/constants';
+
+/**
+ * The TodoRegistry (v1) reads and events a migration replays
+ */
+const PREDECESSOR_ABI = [
+  'event TodoCreated(string indexed todoId, bytes32 todoHash, address indexed owner, uint256 timestamp)',
+  'event BatchAnchored(uint256 indexed batchId, bytes32 root, uint256 count, address indexed submitter, uint256 timestamp)',
+  'function createTodo(string todoId, bytes32 todoHash)',
+  'function getTodo(string todoId) view returns (bytes32 todoHash, address owner, uint256 timestamp, bool isDeleted)',
+  'function getBatch(uint256 batchId) view returns (bytes32 root, uint256 count, address submitter, uint256 timestamp)',
+];
+
+/**
+ * The TodoRegistryV2 functions a migration calls
+ */
+const SUCCESSOR_ABI = [
+  'function predecessor() view returns (address)',
+  'function migrationFinalized() view returns (bool)',
+  'function migratedBatchLimit() view returns (uint256)',
+  'function todoExistsByID(string todoId) view returns (bool)',
+  'function getTodo(string todoId) view returns (bytes32 todoHash, address owner, uint256 timestamp, bool isDeleted)',
+  'function getBatch(uint256 batchId) view returns (bytes32 root, uint256 count, address submitter, uint256 timestamp)',
+  'function migrateTodos(string[] todoIds, bytes32[] todoHashes, address[] owners, uint256[] timestamps, bool[] deleted)',
+  'function migrateBatches(uint256[] batchIds, bytes32[] roots, uint256[] counts, address[] submitters, uint256[] timestamps)',
+  'function finalizeMigration()',
+];
+
+export interface MigratedTodo {
+  todoId: string;
+  todoHash: string;
+  owner: string;
+  timestamp: bigint;
+  isDeleted: boolean;
+}
+
+export interface MigratedBatch {
+  batchId: number;
+  root: string;
+  count: number;
+  submitter: string;
+  timestamp: bigint;
+}
+
+/**
+ * What a migration will copy, read from the predecessor's event log and current state
+ */
+export interface MigrationPlan {
+  todos: MigratedTodo[]; // Not yet in the successor
+  batches: MigratedBatch[]; // Not yet in the successor
+  alreadyMigrated: { todos: number; batches: number };
+  unresolvedTodoIdHashes: string[]; // TodoCreated logs whose todo ID couldn't be recovered
+  unreservedBatchIds: number[]; // Anchored on the predecessor after the successor was deployed
+}
+
+/**
+ * RegistryMigrator
+ * Copies a TodoRegistry's todos and batches into the TodoRegistryV2 that replaces it
+ *
+ * todoId is an indexed string in TodoCreated, so logs only carry its keccak256; the ID
+ * itself is recovered from the calldata of the createTodo transaction that emitted it.
+ * Records are copied as they currently stand on the predecessor, and anything already in
+ * the successor is skipped, so an interrupted migration can simply be run again.
+ */
+export class RegistryMigrator {
+  private provider: ethers.Provider;
+  private predecessor: Contract;
+  private successor: Contract;
+  private fromBlock: number;
+
+  constructor(
+    predecessorAddress: string,
+    successorAddress: string,
+    signer: ethers.Signer,
+    fromBlock = 0
+  ) {
+    if (!signer.provider) {
+      throw new Error('Migration signer must be connected to a provider');
+    }
+
+    this.provider = signer.provider;
+    this.predecessor = new ethers.Contract(predecessorAddress, PREDECESSOR_ABI, this.provider);
+    this.successor = new ethers.Contract(successorAddress, SUCCESSOR_ABI, signer);
+    this.fromBlock = fromBlock;
+  }
+
+  /**
+   * Replay the predecessor's event log into the list of records still to copy
+   */
+  async plan(): Promise<MigrationPlan> {
+    const predecessorAddress = await this.predecessor.getAddress();
+    const linked: string = await this.successor.predecessor();
+
+    if (linked.toLowerCase() !== predecessorAddress.toLowerCase()) {
+      throw new Error(`Successor registry replaces ${linked}, not ${predecessorAddress}`);
+    }
+
+    if (await this.successor.migrationFinalized()) {
+      throw new Error('Successor registry has already finalized its migration');
+    }
+
+    const createdLogs = await this.getLogs('TodoCreated');
+    const batchLogs = await this.getLogs('BatchAnchored');
+
+    const plan: MigrationPlan = {
+      todos: [],
+      batches: [],
+      alreadyMigrated: { todos: 0, batches: 0 },
+      unresolvedTodoIdHashes: [],
+      unreservedBatchIds: [],
+    };
+
+    for (const log of createdLogs) {
+      const todoId = await this.recoverTodoId(log);
+
+      if (todoId === null) {
+        plan.unresolvedTodoIdHashes.push(log.topics[1]);
+        continue;
+      }
+
+      if (await this.successor.todoExistsByID(todoId)) {
+        plan.alreadyMigrated.todos++;
+        continue;
+      }
+
+      const [todoHash, owner, timestamp, isDeleted] = await this.predecessor.getTodo(todoId);
+      plan.todos.push({ todoId, todoHash, owner, timestamp, isDeleted });
+    }
+
+    const batchLimit = Number(await this.successor.migratedBatchLimit());
+
+    for (const log of batchLogs) {
+      const batchId = Number(this.predecessor.interface.parseLog(log)!.args.batchId);
+
+      if (batchId > batchLimit) {
+        plan.unreservedBatchIds.push(batchId);
+        continue;
+      }
+
+      if (await this.successorHasBatch(batchId)) {
+        plan.alreadyMigrated.batches++;
+        continue;
+      }
+
+      const [root, count, submitter, timestamp] = await this.predecessor.getBatch(batchId);
+      plan.batches.push({ batchId, root, count: Number(count), submitter, timestamp });
+    }
+
+    return plan;
+  }
+
+  /**
+   * Copy a plan's records into the successor, chunkSize records per transaction
+   * Returns the migration transaction hashes
+   */
+  async migrate(plan: MigrationPlan, chunkSize = 50): Promise<string[]> {
+    const txHashes: string[] = [];
+
+    for (let i = 0; i < plan.todos.length; i += chunkSize) {
+      const chunk = plan.todos.slice(i, i + chunkSize);
+      const tx = await this.successor.migrateTodos(
+        chunk.map((todo) => todo.todoId),
+        chunk.map((todo) => todo.todoHash),
+        chunk.map((todo) => todo.owner),
+        chunk.map((todo) => todo.timestamp),
+        chunk.map((todo) => todo.isDeleted)
+      );
+      txHashes.push((await tx.wait()).hash);
+    }
+
+    for (let i = 0; i < plan.batches.length; i += chunkSize) {
+      const chunk = plan.batches.slice(i, i + chunkSize);
+      const tx = await this.successor.migrateBatches(
+        chunk.map((batch) => batch.batchId),
+        chunk.map((batch) => batch.root),
+        chunk.map((batch) => batch.count),
+        chunk.map((batch) => batch.submitter),
+        chunk.map((batch) => batch.timestamp)
+      );
+      txHashes.push((await tx.wait()).hash);
+    }
+
+    return txHashes;
+  }
+
+  /**
+   * Compare every record of a plan between both registries
+   * Returns a description of each mismatch (empty when the copy is exact)
+   */
+  async verify(plan: MigrationPlan): Promise<string[]> {
+    const mismatches: string[] = [];
+
+    for (const { todoId } of plan.todos) {
+      const [expected, actual] = await Promise.all([
+        this.predecessor.getTodo(todoId),
+        this.successor
+          .todoExistsByID(todoId)
+          .then((exists: boolean) => (exists ? this.successor.getTodo(todoId) : null)),
+      ]);
+
+      if (!actual) {
+        mismatches.push(`Todo ${todoId} is missing from the successor`);
+      } else if (!recordsMatch(expected, actual)) {
+        mismatches.push(`Todo ${todoId} differs from the predecessor`);
+      }
+    }
+
+    for (const { batchId } of plan.batches) {
+      const expected = await this.predecessor.getBatch(batchId);
+      const actual = (await this.successorHasBatch(batchId))
+        ? await this.successor.getBatch(batchId)
+        : null;
+
+      if (!actual) {
+        mismatches.push(`Batch ${batchId} is missing from the successor`);
+      } else if (!recordsMatch(expected, actual)) {
+        mismatches.push(`Batch ${batchId} differs from the predecessor`);
+      }
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * Close the successor to further imports
+   */
+  async finalize(): Promise<string> {
+    const tx = await this.successor.finalizeMigration();
+    return (await tx.wait()).hash;
+  }
+
+  /**
+   * Fetch a predecessor event's logs in INDEXER_BLOCK_RANGE chunks (RPC providers cap
+   * the range of eth_getLogs)
+   */
+  private async getLogs(eventName: string): Promise<ethers.Log[]> {
+    const topic = this.predecessor.interface.getEvent(eventName)!.topicHash;
+    const address = await this.predecessor.getAddress();
+    const latest = await this.provider.getBlockNumber();
+    const logs: ethers.Log[] = [];
+
+    for (
+      let from = this.fromBlock;
+      from <= latest;
+      from += CONSTANTS.BLOCKCHAIN.INDEXER_BLOCK_RANGE
+    ) {
+      const toBlock = Math.min(from + CONSTANTS.BLOCKCHAIN.INDEXER_BLOCK_RANGE - 1, latest);
+      logs.push(
+        ...(await this.provider.getLogs({ address, topics: [topic], fromBlock: from, toBlock }))
+      );
+    }
+
+    return logs;
+  }
+
+  /**
+   * Recover the todo ID of a TodoCreated log from its transaction's calldata
+   * Returns null if the todo wasn't created by a direct createTodo call
+   */
+  private async recoverTodoId(log: ethers.Log): Promise<string | null> {
+    const tx = await this.provider.getTransaction(log.transactionHash);
+    const parsed = tx && this.predecessor.interface.parseTransaction(tx);
+
+    if (parsed?.name !== 'createTodo') {
+      return null;
+    }
+
+    const todoId: string = parsed.args.todoId;
+    return ethers.id(todoId) === log.topics[1] ? todoId : null;
+  }
+
+  private async successorHasBatch(batchId: number): Promise<boolean> {
+    try {
+      await this.successor.getBatch(batchId);
+      return true;
+    } catch (error) {
+      const err = error as { reason?: string; message?: string } | undefined;
+      if (
+        err?.reason === 'Batch does not exist' ||
+        err?.message?.includes('Batch does not exist')
+      ) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+const recordsMatch = (expected: ethers.Result, actual: ethers.Result): boolean =>
+  expected.every((value, i) => String(value).toLowerCase() === String(actual[i]).toLowerCase());
@@ -0,0 +1,387 @@
+import { ethers } from 'ethers';
+import { CONSTANTS } from '../config/constants';
+import { getNetworkConfig, RpcEndpointConfig } from '../config/networks';
+import logger from '../utils/logger';
+import { CircuitBreaker, getCircuitBreaker } from './circuit-breaker.service';
+
+type JsonRpcPayload = ethers.JsonRpcPayload | ethers.JsonRpcPayload[];
+type JsonRpcResponse = (ethers.JsonRpcResult | ethers.JsonRpcError)[];
+
+/**
+ * - failover: the first endpoint (by preference and health) that answers is used
+ * - quorum: endpoints are asked until answers agreeing with each other reach the network's
+ *   rpcQuorum weight
+ */
+export type RpcMode = 'failover' | 'quorum';
+
+export interface RpcEndpointHealth {
+  host: string; // Host only: URLs often carry API keys
+  weight: number;
+  score: number; // 0-1, see RpcEndpoint.getScore()
+  requests: number;
+  failures: number;
+  outvoted: number; // Answers that disagreed with the quorum
+  latencyMs: number; // Rolling average
+  lastError?: string;
+}
+
+export interface RpcPoolHealth {
+  network: string;
+  quorum: number;
+  endpoints: RpcEndpointHealth[];
+}
+
+// Weight of the latest outcome in an endpoint's rolling success rate
+const HEALTH_SMOOTHING = 0.25;
+
+// Answers that legitimately differ between healthy nodes (one block apart, fee estimates)
+// or that only one node needs to accept; never voted on
+const UNVOTED_METHODS = new Set([
+  'eth_blockNumber',
+  'eth_chainId',
+  'eth_gasPrice',
+  'eth_maxPriorityFeePerGas',
+  'eth_feeHistory',
+  'eth_estimateGas',
+  'eth_getTransactionCount',
+  'eth_sendRawTransaction',
+]);
+
+/**
+ * Short message of an ethers error (the full message embeds the request URL)
+ */
+function describeError(error: unknown): string {
+  const err = error as { shortMessage?: string; message?: string } | undefined;
+  return err?.shortMessage || err?.message || String(error);
+}
+
+/**
+ * What two endpoints must both have answered to agree
+ * Error responses are compared by revert data only (clients word messages differently)
+ */
+function voteKey(response: JsonRpcResponse): string {
+  return JSON.stringify(
+    response
+      .map((item) =>
+        'error' in item
+          ? { id: item.id, error: item.error.data ?? null }
+          : { id: item.id, result: item.result }
+      )
+      .sort((a, b) => a.id - b.id)
+  );
+}
+
+/**
+ * One RPC endpoint and its health
+ *
+ * The score is a rolling success rate: failures and outvoted answers pull it down,
+ * answers pull it back up. An endpoint that is not being used (because it scored low)
+ * recovers towards 1 over RPC_ENDPOINT_RECOVERY_TIME, so it is tried again eventually.
+ */
+class RpcEndpoint {
+  public readonly weight: number;
+  public readonly host: string;
+  private url: string;
+  private timeout: number;
+  private health = 1;
+  private requests = 0;
+  private failures = 0;
+  private outvoted = 0;
+  private latencyMs = 0;
+  private lastError?: string;
+  private scoredAt?: number; // When health was last updated
+
+  constructor({ url, weight, timeout }: RpcEndpointConfig) {
+    this.url = url;
+    this.host = new URL(url).host;
+    this.weight = weight;
+    this.timeout = timeout;
+  }
+
+  async send(payload: JsonRpcPayload): Promise<JsonRpcResponse> {
+    const request = new ethers.FetchRequest(this.url);
+    request.timeout = this.timeout;
+    request.body = JSON.stringify(payload);
+    request.setHeader('content-type', 'application/json');
+
+    const startedAt = Date.now();
+    this.requests++;
+
+    try {
+      const response = await request.send();
+      response.assertOk();
+
+      const body = response.bodyJson;
+      this.latencyMs = Math.round(
+        this.latencyMs * (1 - HEALTH_SMOOTHING) + (Date.now() - startedAt) * HEALTH_SMOOTHING
+      );
+      this.record(true);
+
+      return Array.isArray(body) ? body : [body];
+    } catch (error) {
+      this.failures++;
+      this.lastError = describeError(error);
+      this.record(false);
+      throw error;
+    }
+  }
+
+  /**
+   * Record an answer that disagreed with the quorum (a lagging or misbehaving node)
+   */
+  recordOutvoted(): void {
+    this.outvoted++;
+    this.lastError = 'Answer disagreed with the quorum';
+    this.record(false);
+  }
+
+  getScore(): number {
+    if (this.scoredAt === undefined) {
+      return this.health;
+    }
+
+    const recovered = Math.min(
+      1,
+      (Date.now() - this.scoredAt) / CONSTANTS.BLOCKCHAIN.RPC_ENDPOINT_RECOVERY_TIME
+    );
+    return this.health + (1 - this.health) * recovered;
+  }
+
+  isHealthy(): boolean {
+    return this.getScore() >= CONSTANTS.BLOCKCHAIN.RPC_ENDPOINT_MIN_SCORE;
+  }
+
+  getHealth(): RpcEndpointHealth {
+    return {
+      host: this.host,
+      weight: this.weight,
+      score: Math.round(this.getScore() * 100) / 100,
+      requests: this.requests,
+      failures: this.failures,
+      outvoted: this.outvoted,
+      latencyMs: this.latencyMs,
+      lastError: this.lastError,
+    };
+  }
+
+  private record(succeeded: boolean): void {
+    this.health = this.getScore() * (1 - HEALTH_SMOOTHING) + (succeeded ? HEALTH_SMOOTHING : 0);
+    this.scoredAt = Date.now();
+  }
+}
+
+/**
+ * RpcEndpointPool
+ * A network's RPC endpoints (networks.json rpcEndpoints), in order of preference
+ *
+ * Healthy endpoints are tried in their configured order, then unhealthy ones by score.
+ * A quorum read asks just enough endpoints for an agreeing answer to reach the quorum, and
+ * more only when answers fail or disagree, so one lying or lagging node can neither make
+ * a read pass nor fail on its own.
+ */
+export class RpcEndpointPool {
+  private network: string;
+  private endpoints: RpcEndpoint[];
+  private quorum: number;
+
+  constructor(network: string, endpoints: RpcEndpointConfig[], quorum: number) {
+    this.network = network;
+    this.endpoints = endpoints.map((endpoint) => new RpcEndpoint(endpoint));
+    this.quorum = quorum;
+  }
+
+  async send(payload: JsonRpcPayload, mode: RpcMode): Promise<JsonRpcResponse> {
+    const methods = (Array.isArray(payload) ? payload : [payload]).map(({ method }) => method);
+
+    if (mode === 'quorum' && !methods.some((method) => UNVOTED_METHODS.has(method))) {
+      return this.sendWithQuorum(payload);
+    }
+
+    return this.sendWithFailover(payload);
+  }
+
+  getHealth(): RpcPoolHealth {
+    return {
+      network: this.network,
+      quorum: this.quorum,
+      endpoints: this.endpoints.map((endpoint) => endpoint.getHealth()),
+    };
+  }
+
+  private async sendWithFailover(payload: JsonRpcPayload): Promise<JsonRpcResponse> {
+    const errors: string[] = [];
+
+    for (const endpoint of this.getPreferredEndpoints()) {
+      try {
+        return await endpoint.send(payload);
+      } catch (error) {
+        errors.push(`${endpoint.host}: ${describeError(error)}`);
+      }
+    }
+
+    throw new Error(`All RPC endpoints failed on ${this.network} (${errors.join('; ')})`);
+  }
+
+  private async sendWithQuorum(payload: JsonRpcPayload): Promise<JsonRpcResponse> {
+    const endpoints = this.getPreferredEndpoints();
+    const answers = new Map<
+      string,
+      { response: JsonRpcResponse; weight: number; endpoints: RpcEndpoint[] }
+    >();
+    const errors: string[] = [];
+    let next = 0;
+
+    while (next < endpoints.length) {
+      // Ask enough endpoints that the leading answer could reach the quorum
+      const leading = Math.max(0, ...Array.from(answers.values()).map(({ weight }) => weight));
+      const round: RpcEndpoint[] = [];
+      let roundWeight = 0;
+
+      while (next < endpoints.length && leading + roundWeight < this.quorum) {
+        round.push(endpoints[next]);
+        roundWeight += endpoints[next].weight;
+        next++;
+      }
+
+      const results = await Promise.allSettled(round.map((endpoint) => endpoint.send(payload)));
+
+      results.forEach((result, i) => {
+        if (result.status === 'rejected') {
+          errors.push(`${round[i].host}: ${describeError(result.reason)}`);
+          return;
+        }
+
+        const key = voteKey(result.value);
+        const answer = answers.get(key) || { response: result.value, weight: 0, endpoints: [] };
+        answer.weight += round[i].weight;
+        answer.endpoints.push(round[i]);
+        answers.set(key, answer);
+      });
+
+      const agreed = Array.from(answers.values()).find(({ weight }) => weight >= this.quorum);
+
+      if (agreed) {
+        for (const answer of answers.values()) {
+          if (answer !== agreed) {
+            answer.endpoints.forEach((endpoint) => endpoint.recordOutvoted());
+          }
+        }
+
+        if (answers.size > 1) {
+          logger.warn('RPC endpoints disagreed, answer outvoted', {
+            network: this.network,
+            outvoted: Array.from(answers.values())
+              .filter((answer) => answer !== agreed)
+              .flatMap((answer) => answer.endpoints.map((endpoint) => endpoint.host)),
+          });
+        }
+
+        return agreed.response;
+      }
+    }
+
+    if (answers.size === 0) {
+      throw new Error(`All RPC endpoints failed on ${this.network} (${errors.join('; ')})`);
+    }
+
+    throw new Error(
+      `No RPC quorum on ${this.network}: ${answers.size} different answers` +
+        (errors.length > 0 ? ` (${errors.join('; ')})` : '')
+    );
+  }
+
+  private getPreferredEndpoints(): RpcEndpoint[] {
+    const healthy = this.endpoints.filter((endpoint) => endpoint.isHealthy());
+    const unhealthy = this.endpoints
+      .filter((endpoint) => !endpoint.isHealthy())
+      .sort((a, b) => b.getScore() - a.getScore());
+
+    return [...healthy, ...unhealthy];
+  }
+}
+
+/**
+ * JSON-RPC provider backed by an endpoint pool, behind the network's circuit breaker
+ * The breaker only sees a failure when every endpoint failed (or no quorum was reached);
+ * RPC error responses such as reverts are answers, not failures
+ */
+export class PooledJsonRpcProvider extends ethers.JsonRpcApiProvider {
+  private pool: RpcEndpointPool;
+  private mode: RpcMode;
+  private circuitBreaker: CircuitBreaker;
+
+  constructor(
+    chainId: number,
+    pool: RpcEndpointPool,
+    mode: RpcMode,
+    circuitBreaker: CircuitBreaker
+  ) {
+    // Static network: no chain id lookup that would hang while the nodes are down
+    // Quorum reads are sent one by one, so each request is voted on separately
+    super(undefined, {
+      staticNetwork: ethers.Network.from(chainId),
+      ...(mode === 'quorum' && { batchMaxCount: 1 }),
+    });
+
+    this.pool = pool;
+    this.mode = mode;
+    this.circuitBreaker = circuitBreaker;
+  }
+
+  getCircuitBreaker(): CircuitBreaker {
+    return this.circuitBreaker;
+  }
+
+  async _send(payload: JsonRpcPayload): Promise<JsonRpcResponse> {
+    return this.circuitBreaker.execute(() => this.pool.send(payload, this.mode));
+  }
+}
+
+interface RpcClients {
+  pool: RpcEndpointPool;
+  providers: Record<RpcMode, PooledJsonRpcProvider>;
+}
+
+/**
+ * One endpoint pool (and circuit breaker) per network, shared by every RPC client
+ */
+const rpcClients = new Map<string, RpcClients>();
+
+function getRpcClients(network: string): RpcClients {
+  let clients = rpcClients.get(network);
+
+  if (!clients) {
+    const { chainId, rpcEndpoints, rpcQuorum } = getNetworkConfig(network);
+    const pool = new RpcEndpointPool(network, rpcEndpoints, rpcQuorum);
+    const circuitBreaker = getCircuitBreaker(network, () =>
+      pool.send({ method: 'eth_blockNumber', params: [], id: 0, jsonrpc: '2.0' }, 'failover')
+    );
+
+    clients = {
+      pool,
+      providers: {
+        failover: new PooledJsonRpcProvider(chainId, pool, 'failover', circuitBreaker),
+        quorum: new PooledJsonRpcProvider(chainId, pool, 'quorum', circuitBreaker),
+      },
+    };
+    rpcClients.set(network, clients);
+  }
+
+  return clients;
+}
+
+/**
+ * Get a network's RPC provider
+ * failover (the default) for writes and routine reads; quorum for reads that verify
+ * anchors, so no single endpoint decides them
+ */
+export function getRpcProvider(network: string, mode: RpcMode = 'failover'): PooledJsonRpcProvider {
+  return getRpcClients(network).providers[mode];
+}
+
+/**
+ * Health of every network's endpoints (for the health endpoint)
+ */
+export function getRpcEndpointHealth(): RpcPoolHealth[] {
+  return Array.from(rpcClients.values()).map(({ pool }) => pool.getHealth());
+}
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { SiweNonceRepository } from '../repositories/siwe-nonce.repository';
+import { SiweVerifyDTO } from '../dtos/auth/siwe.dto';
+import { ApiError } from '../utils/api-error';
+import { parseSiweMessage, SiweMessage } from '../utils/siwe';
+import { config } from '../config';
+import { CONSTANTS } from '../config/constants';
+import { getNetworkConfig } from '../config/networks';
+
+export interface SiweNonce {
+  nonce: string;
+  expiresAt: Date;
+}
+
+/**
+ * SiweService
+ * Issues Sign-In with Ethereum (EIP-4361) nonces and checks signed messages
+ *
+ * A message is accepted once: it must name our domain and one of our networks, be
+ * within its validity window, be signed by the address it names (EOA signatures only)
+ * and carry a nonce we issued that hasn't been used.
+ */
+export class SiweService {
+  private siweNonceRepository: SiweNonceRepository;
+
+  constructor() {
+    this.siweNonceRepository = new SiweNonceRepository();
+  }
+
+  async createNonce(): Promise<SiweNonce> {
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const expiresAt = new Date(Date.now() + CONSTANTS.WALLET.SIWE_NONCE_TTL * 1000);
+
+    await this.siweNonceRepository.create(nonce, expiresAt);
+
+    return { nonce, expiresAt };
+  }
+
+  /**
+   * Check a signed message and return the (checksummed) address that signed in
+   */
+  async verify(data: SiweVerifyDTO): Promise<string> {
+    const message = this.parse(data.message);
+
+    if (message.domain !== config.siwe.domain) {
+      throw ApiError.badRequest(
+        `Message is for ${message.domain}, not ${config.siwe.domain}`,
+        'SIWE_DOMAIN_MISMATCH'
+      );
+    }
+
+    const chainIds = config.blockchain.networks.map((network) => getNetworkConfig(network).chainId);
+    if (!chainIds.includes(message.chainId)) {
+      throw ApiError.badRequest(
+        `Chain ${message.chainId} is not supported (supported: ${chainIds.join(', ')})`,
+        'UNSUPPORTED_CHAIN'
+      );
+    }
+
+    const now = Date.now();
+    if (message.expirationTime && Date.parse(message.expirationTime) <= now) {
+      throw ApiError.unauthorized('Sign-in message has expired', 'SIWE_MESSAGE_EXPIRED');
+    }
+    if (message.notBefore && Date.parse(message.notBefore) > now) {
+      throw ApiError.unauthorized('Sign-in message is not valid yet', 'SIWE_MESSAGE_NOT_YET_VALID');
+    }
+
+    const address = ethers.getAddress(message.address);
+    if (recoverSigner(data.message, data.signature) !== address) {
+      throw ApiError.unauthorized('Signature was not made by this wallet', 'INVALID_SIGNATURE');
+    }
+
+    // Last, so a bad request doesn't use up the nonce
+    if (!(await this.siweNonceRepository.consume(message.nonce))) {
+      throw ApiError.unauthorized('Nonce is unknown, expired or already used', 'INVALID_NONCE');
+    }
+
+    return address;
+  }
+
+  private parse(message: string): SiweMessage {
+    try {
+      const parsed = parseSiweMessage(message);
+
+      // EIP-4361 requires the EIP-55 checksummed form (getAddress throws on a bad checksum)
+      if (ethers.getAddress(parsed.address) !== parsed.address) {
+        throw new Error('Address must be EIP-55 checksummed');
+      }
+
+      return parsed;
+    } catch (error) {
+      throw ApiError.badRequest(
+        `Invalid sign-in message: ${(error as Error).message}`,
+        'INVALID_SIWE_MESSAGE'
+      );
+    }
+  }
+}
+
+const recoverSigner = (message: string, signature: string): string | null => {
+  try {
+    return ethers.verifyMessage(message, signature);
+  } catch {
+    return null;
+  }
+};
@@ -1,13 +1,85 @@
-import mongoose from 'mongoose';
+import mongoose, { ClientSession } from 'mongoose';
 import { TodoRepository, TodoFilters, PaginationOptions } from '../repositories/todo.repository';
-import { BlockchainService } from './blockchain.service';
-import { HashService } from './hash.service';
+import { BlockchainSyncRepository } from '../repositories/blockchain-sync.repository';
+import { OutboxRepository } from '../repositories/outbox.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { BatchAnchorResult, TodoChainEvent, TransactionResult } from './blockchain.service';
+import {
+  AnchorBackend,
+  getAnchorBackend,
+  hasEventIndex,
+  isAnchoringEnabled,
+} from './anchor-backend.service';
+import { CircuitOpenError } from './circuit-breaker.service';
+import { getEventIndexerService } from './event-indexer.service';
+import { GasAccountingService } from './gas-accounting.service';
+import { HashScheme, HashService, VersionedHash } from './hash.service';
+import { MerkleService } from './merkle.service';
 import { CreateTodoDTO } from '../dtos/todo/create-todo.dto';
 import { UpdateTodoDTO } from '../dtos/todo/update-todo.dto';
 import { ApiError } from '../utils/api-error';
 import logger from '../utils/logger';
 import { ITodo } from '../models/todo.model';
-import { BlockchainSyncStatus, TodoPriority } from '../types/enums';
+import { IOutboxEntry } from '../models/outbox.model';
+import { config } from '../config';
+import { CONSTANTS } from '../config/constants';
+import {
+  AnchorMode,
+  BlockchainSyncOperation,
+  BlockchainSyncStatus,
+  HashAlgorithm,
+  HashVersion,
+  TodoPriority,
+} from '../types/enums';
+
+/**
+ * Result of checking a todo against its on-chain anchor
+ * Batch-anchored todos are checked by Merkle proof and also report their batch
+ */
+export interface TodoVerificationResult {
+  isValid: boolean;
+  hashMatches: boolean;
+  deletionMismatch: boolean;
+  mongoHash: string;
+  blockchainHash: string;
+  hashVersion: HashVersion; // Scheme mongoHash was computed with (the anchored hash's)
+  hashAlgorithm: HashAlgorithm;
+  salted: boolean;
+  mongoIsDeleted: boolean;
+  blockchainSyncStatus: BlockchainSyncStatus;
+  anchorMode: AnchorMode;
+  blockchainData: any;
+}
+
+/**
+ * One step in a todo's anchoring timeline
+ * Ledger entries come from BlockchainSync; chain-only entries are events with no ledger row
+ */
+export interface TodoHistoryEntry {
+  operation: BlockchainSyncOperation;
+  status: 'pending' | 'confirmed' | 'failed';
+  todoHash: string;
+  hashVersion?: HashVersion;
+  hashAlgorithm?: HashAlgorithm;
+  transactionHash?: string;
+  blockNumber?: number;
+  gasUsed?: number;
+  effectiveGasPrice?: number; // Wei per gas
+  retryCount?: number;
+  errorMessage?: string;
+  createdAt?: Date;
+  confirmedAt?: Date;
+  batchId?: number; // Set when the operation was anchored in a Merkle batch
+  recordedInLedger: boolean;
+  chainEvent: TodoChainEvent | null;
+}
+
+const EVENT_OPERATIONS: Record<TodoChainEvent['event'], BlockchainSyncOperation> = {
+  TodoCreated: BlockchainSyncOperation.CREATE,
+  TodoUpdated: BlockchainSyncOperation.UPDATE,
+  TodoDeleted: BlockchainSyncOperation.DELETE,
+  TodoRestored: BlockchainSyncOperation.RESTORE,
+};
 
 /**
  * TodoService
@@ -15,48 +87,76 @@ import { BlockchainSyncStatus, TodoPriority } from '../types/enums';
  *
  * Strategy: Eventual Consistency
  * - MongoDB writes are immediate (fast user response)
- * - Blockchain writes are async (don't block user)
+ * - Blockchain writes are async (don't block user), queued through a transactional
+ *   outbox so they survive process restarts (at-least-once, idempotent replay)
  * - Failed blockchain syncs are retried in background
+ * - Operations of users over their monthly gas budget, or on a network whose fees are
+ *   over its fee cap, are deferred, not dropped
+ * - While a network's RPC circuit is open, its operations are parked (todos stay PENDING)
+ *   instead of failing, and resume once the circuit closes
+ * - Operations go to the anchor backend (BLOCKCHAIN_BACKEND); with anchoring disabled
+ *   todos are kept in MongoDB only and marked LOCAL_ONLY
+ *
+ * Each todo is anchored on one network, chosen when it is created (BLOCKCHAIN_NETWORK
+ * by default, or any network in BLOCKCHAIN_NETWORKS); every operation on it goes there
+ *
+ * Anchoring mode (BLOCKCHAIN_ANCHOR_MODE):
+ * - per-todo: every operation sends its own TodoRegistry transaction
+ * - batch: operations queue the todo; a job anchors the Merkle root of all queued
+ *   todos in one transaction and stores each todo's proof
  */
 export class TodoService {
   private todoRepository: TodoRepository;
-  private blockchainService: BlockchainService;
+  private blockchainSyncRepository: BlockchainSyncRepository;
+  private outboxRepository: OutboxRepository;
+  private userRepository: UserRepository;
+  private gasAccountingService: GasAccountingService;
   private hashService: HashService;
+  private merkleService: MerkleService;
+  private anchorMode: AnchorMode;
 
   constructor() {
     this.todoRepository = new TodoRepository();
-    this.blockchainService = new BlockchainService();
-    this.hashService = new HashService();
+    this.blockchainSyncRepository = new BlockchainSyncRepository();
+    this.outboxRepository = new OutboxRepository();
+    this.userRepository = new UserRepository();
+    this.gasAccountingService = new GasAccountingService();
+    this.hashService = new HashService(config.hashing);
+    this.merkleService = new MerkleService();
+    this.anchorMode = config.blockchain.anchorMode;
   }
 
   /**
    * Create a new todo
-   * 1. Save to MongoDB immediately
-   * 2. Generate hash
-   * 3. Sync to blockchain asynchronously
+   * 1. Save to MongoDB and enqueue the chain operation in one transaction
+   * 2. The outbox dispatcher hashes and syncs to blockchain in the background
    */
   async createTodo(userId: string, data: CreateTodoDTO): Promise<ITodo> {
-    // Step 1: Create todo in MongoDB
-    const todo = await this.todoRepository.create({
-      userId: new mongoose.Types.ObjectId(userId),
-      title: data.title,
-      description: data.description,
-      priority: data.priority || TodoPriority.MEDIUM,
-      dueDate: data.dueDate,
-      isCompleted: false,
-      blockchainSyncStatus: BlockchainSyncStatus.PENDING,
-    });
+    const todo = await mongoose.connection.transaction(async (session) => {
+      // Step 1: Create todo in MongoDB
+      const created = await this.todoRepository.create(
+        {
+          userId: new mongoose.Types.ObjectId(userId),
+          title: data.title,
+          description: data.description,
+          priority: data.priority || TodoPriority.MEDIUM,
+          dueDate: data.dueDate,
+          isCompleted: false,
+          blockchainNetwork: data.network ?? config.blockchain.network,
+          blockchainSyncStatus: BlockchainSyncStatus.PENDING,
+          blockchainSyncOperation: BlockchainSyncOperation.CREATE,
+        },
+        session
+      );
 
-    logger.info('Todo created in MongoDB', { todoId: todo._id.toString() });
+      // Step 2: Record the intent to anchor it (committed with the todo)
+      await this.enqueueSync(created, BlockchainSyncOperation.CREATE, session);
 
-    // Step 2: Async blockchain sync (don't await - let it run in background)
-    this.syncToBlockchain(todo).catch((error) => {
-      logger.error('Background blockchain sync failed', {
-        todoId: todo._id.toString(),
-        error: error.message,
-      });
+      return created;
     });
 
+    logger.info('Todo created in MongoDB', { todoId: todo._id.toString() });
+
     return todo;
   }
 
@@ -86,33 +186,33 @@ export class TodoService {
 
   /**
    * Update a todo
-   * 1. Update MongoDB
-   * 2. Regenerate hash
-   * 3. Update blockchain asynchronously
+   * 1. Update MongoDB and enqueue the chain operation in one transaction
+   * 2. The outbox dispatcher regenerates the hash and updates blockchain
    */
   async updateTodo(todoId: string, userId: string, data: UpdateTodoDTO): Promise<ITodo> {
-    const todo = await this.getTodoById(todoId, userId);
+    const updatedTodo = await mongoose.connection.transaction(async (session) => {
+      const updated = await this.todoRepository.update(
+        todoId,
+        userId,
+        {
+          ...data,
+          blockchainSyncStatus: BlockchainSyncStatus.PENDING,
+          blockchainSyncOperation: BlockchainSyncOperation.UPDATE,
+        },
+        session
+      );
 
-    // Update fields
-    const updatedTodo = await this.todoRepository.update(todoId, userId, {
-      ...data,
-      blockchainSyncStatus: BlockchainSyncStatus.PENDING,
-    });
+      if (!updated) {
+        throw ApiError.notFound('Todo not found');
+      }
 
-    if (!updatedTodo) {
-      throw ApiError.notFound('Todo not found');
-    }
-
-    logger.info('Todo updated in MongoDB', { todoId });
+      await this.enqueueSync(updated, BlockchainSyncOperation.UPDATE, session);
 
-    // Async blockchain update
-    this.updateOnBlockchain(updatedTodo).catch((error) => {
-      logger.error('Background blockchain update failed', {
-        todoId,
-        error: error.message,
-      });
+      return updated;
     });
 
+    logger.info('Todo updated in MongoDB', { todoId });
+
     return updatedTodo;
   }
 
@@ -120,7 +220,21 @@ export class TodoService {
    * Toggle todo completion status
    */
   async toggleComplete(todoId: string, userId: string): Promise<ITodo> {
-    const todo = await this.todoRepository.toggleComplete(todoId, userId);
+    const todo = await mongoose.connection.transaction(async (session) => {
+      const toggled = await this.todoRepository.toggleComplete(todoId, userId, session);
+
+      if (!toggled) {
+        throw ApiError.notFound('Todo not found');
+      }
+
+      await this.enqueueSync(toggled, BlockchainSyncOperation.UPDATE, session);
+
+      return this.todoRepository.markSyncQueued(
+        toggled._id,
+        BlockchainSyncOperation.UPDATE,
+        session
+      );
+    });
 
     if (!todo) {
       throw ApiError.notFound('Todo not found');
@@ -131,46 +245,51 @@ export class TodoService {
       isCompleted: todo.isCompleted,
     });
 
-    // Update blockchain
-    this.updateOnBlockchain(todo).catch((error) => {
-      logger.error('Background blockchain update failed', {
-        todoId,
-        error: error.message,
-      });
-    });
-
     return todo;
   }
 
   /**
    * Delete a todo (soft delete)
-   * Also marks as deleted on blockchain
+   * Also marks as deleted on blockchain (PENDING until the deletion is anchored)
    */
   async deleteTodo(todoId: string, userId: string): Promise<void> {
-    const todo = await this.getTodoById(todoId, userId);
+    await mongoose.connection.transaction(async (session) => {
+      const deleted = await this.todoRepository.softDelete(todoId, userId, session);
 
-    const deleted = await this.todoRepository.softDelete(todoId, userId);
+      if (!deleted) {
+        throw ApiError.notFound('Todo not found');
+      }
 
-    if (!deleted) {
-      throw ApiError.notFound('Todo not found');
-    }
+      await this.todoRepository.markSyncQueued(
+        deleted._id,
+        BlockchainSyncOperation.DELETE,
+        session
+      );
+      await this.enqueueSync(deleted, BlockchainSyncOperation.DELETE, session);
+    });
 
     logger.info('Todo soft deleted', { todoId });
-
-    // Delete on blockchain
-    this.deleteOnBlockchain(todoId).catch((error) => {
-      logger.error('Background blockchain delete failed', {
-        todoId,
-        error: error.message,
-      });
-    });
   }
 
   /**
    * Restore a deleted todo
    */
   async restoreTodo(todoId: string, userId: string): Promise<ITodo> {
-    const todo = await this.todoRepository.restore(todoId, userId);
+    const todo = await mongoose.connection.transaction(async (session) => {
+      const restored = await this.todoRepository.restore(todoId, userId, session);
+
+      if (!restored) {
+        throw ApiError.notFound('Todo not found or not deleted');
+      }
+
+      await this.enqueueSync(restored, BlockchainSyncOperation.RESTORE, session);
+
+      return this.todoRepository.markSyncQueued(
+        restored._id,
+        BlockchainSyncOperation.RESTORE,
+        session
+      );
+    });
 
     if (!todo) {
       throw ApiError.notFound('Todo not found or not deleted');
@@ -178,45 +297,62 @@ export class TodoService {
 
     logger.info('Todo restored', { todoId });
 
-    // Restore on blockchain
-    this.restoreOnBlockchain(todoId).catch((error) => {
-      logger.error('Background blockchain restore failed', {
-        todoId,
-        error: error.message,
-      });
-    });
-
     return todo;
   }
 
   /**
    * Verify todo integrity against blockchain
+   * Checks both the data hash and the deletion state (soft-deleted todos included)
    */
-  async verifyTodo(todoId: string, userId: string): Promise<{
-    isValid: boolean;
-    mongoHash: string;
-    blockchainHash: string;
-    blockchainData: any;
-  }> {
-    const todo = await this.getTodoById(todoId, userId);
+  async verifyTodo(todoId: string, userId: string): Promise<TodoVerificationResult> {
+    const todo = await this.todoRepository.findByIdWithDeleted(todoId, userId);
+
+    if (!todo) {
+      throw ApiError.notFound('Todo not found');
+    }
 
-    if (todo.blockchainSyncStatus !== BlockchainSyncStatus.SYNCED) {
+    if (todo.blockchainSyncStatus === BlockchainSyncStatus.LOCAL_ONLY) {
+      throw ApiError.badRequest(
+        'Todo is stored locally only, blockchain anchoring was disabled when it last changed',
+        'LOCAL_ONLY'
+      );
+    }
+
+    // A todo with a pending/failed delete or restore is still verifiable: that's the
+    // case where MongoDB and the chain may disagree on deletion state
+    if (!todo.blockchainHash) {
       throw ApiError.badRequest('Todo not yet synced to blockchain');
     }
 
-    // Generate current hash
-    const currentHash = this.hashService.generateTodoHash(todo);
+    // Hash current data with the scheme (and salt) that produced the anchored hash
+    const scheme = this.hashService.getAnchoredScheme(todo);
+    const currentHash = this.hashService.generateTodoHash(todo, scheme);
+
+    // Latest anchor was a Merkle batch: verify inclusion instead of the per-todo record
+    if (todo.merkleBatchId && todo.merkleProof) {
+      return this.verifyBatchedTodo(todo, currentHash, scheme);
+    }
 
     // Get blockchain data
-    const blockchainData = await this.blockchainService.getTodo(todoId);
+    const anchorBackend = getAnchorBackend(todo.blockchainNetwork);
+    const blockchainData = await anchorBackend.getTodo(todoId);
 
     // Verify
-    const isValid = await this.blockchainService.verifyTodo(todoId, currentHash);
+    const hashMatches = await anchorBackend.verifyTodo(todoId, currentHash);
+    const deletionMismatch = todo.isDeleted !== blockchainData.isDeleted;
 
     return {
-      isValid,
+      isValid: hashMatches && !deletionMismatch,
+      hashMatches,
+      deletionMismatch,
       mongoHash: currentHash,
       blockchainHash: blockchainData.todoHash,
+      hashVersion: scheme.version,
+      hashAlgorithm: scheme.algorithm,
+      salted: !!scheme.salt,
+      mongoIsDeleted: todo.isDeleted,
+      blockchainSyncStatus: todo.blockchainSyncStatus,
+      anchorMode: AnchorMode.PER_TODO,
       blockchainData: {
         owner: blockchainData.owner,
         timestamp: blockchainData.timestamp.toString(),
@@ -225,6 +361,101 @@ export class TodoService {
     };
   }
 
+  /**
+   * Get the full anchoring timeline for a todo
+   * Merges BlockchainSync ledger rows with TodoRegistry events (matched by tx hash).
+   * Events come from the local index once the indexer has run, otherwise from the RPC;
+   * the index trails the chain by the confirmation depth.
+   */
+  async getTodoHistory(
+    todoId: string,
+    userId: string
+  ): Promise<{
+    todoId: string;
+    isDeleted: boolean;
+    blockchainSyncStatus: BlockchainSyncStatus;
+    currentHash?: string;
+    timeline: TodoHistoryEntry[];
+  }> {
+    const todo = await this.todoRepository.findByIdWithDeleted(todoId, userId);
+
+    if (!todo) {
+      throw ApiError.notFound('Todo not found');
+    }
+
+    const eventIndexerService = hasEventIndex()
+      ? getEventIndexerService(todo.blockchainNetwork)
+      : null;
+
+    const [syncs, events] = await Promise.all([
+      this.blockchainSyncRepository.findByTodo(todo._id),
+      eventIndexerService && (await eventIndexerService.isReady())
+        ? eventIndexerService.getTodoEvents(todoId)
+        : getAnchorBackend(todo.blockchainNetwork).getTodoEvents(todoId),
+    ]);
+
+    const eventsByTxHash = new Map(events.map((event) => [event.transactionHash, event]));
+    const matchedTxHashes = new Set<string>();
+
+    const ledgerEntries: TodoHistoryEntry[] = syncs.map((sync) => {
+      const chainEvent = (sync.transactionHash && eventsByTxHash.get(sync.transactionHash)) || null;
+
+      if (chainEvent) {
+        matchedTxHashes.add(chainEvent.transactionHash);
+      }
+
+      return {
+        operation: sync.operation,
+        status: sync.status,
+        todoHash: sync.todoHash,
+        hashVersion: sync.hashVersion ?? HashVersion.V1,
+        hashAlgorithm: sync.hashAlgorithm ?? HashAlgorithm.SHA256,
+        transactionHash: sync.transactionHash,
+        blockNumber: sync.blockNumber,
+        gasUsed: sync.gasUsed,
+        effectiveGasPrice: sync.effectiveGasPrice,
+        retryCount: sync.retryCount,
+        errorMessage: sync.errorMessage,
+        createdAt: sync.createdAt,
+        confirmedAt: sync.confirmedAt,
+        batchId: sync.metadata?.batchId,
+        recordedInLedger: true,
+        chainEvent,
+      };
+    });
+
+    // Events written before the ledger existed (or by another writer)
+    const chainOnlyEntries: TodoHistoryEntry[] = events
+      .filter((event) => !matchedTxHashes.has(event.transactionHash))
+      .map((event) => ({
+        operation: EVENT_OPERATIONS[event.event],
+        status: 'confirmed',
+        todoHash: event.todoHash || '',
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        recordedInLedger: false,
+        chainEvent: event,
+      }));
+
+    // Chronological: mined entries by block time, unmined ones by when they were recorded
+    const entryTime = (entry: TodoHistoryEntry) =>
+      entry.chainEvent
+        ? Number(entry.chainEvent.timestamp) * 1000
+        : (entry.createdAt?.getTime() ?? 0);
+
+    const timeline = [...ledgerEntries, ...chainOnlyEntries].sort(
+      (a, b) => entryTime(a) - entryTime(b)
+    );
+
+    return {
+      todoId,
+      isDeleted: todo.isDeleted,
+      blockchainSyncStatus: todo.blockchainSyncStatus,
+      currentHash: todo.blockchainHash,
+      timeline,
+    };
+  }
+
   /**
    * Get user's todo statistics
    */
@@ -237,33 +468,474 @@ export class TodoService {
     return this.todoRepository.countByStatus(userId);
   }
 
+  /**
+   * Retry the blockchain operation recorded on a todo
+   * Used by the background sync job for FAILED and stuck PENDING todos
+   */
+  async retrySync(todo: ITodo): Promise<void> {
+    const operation = todo.blockchainSyncOperation || BlockchainSyncOperation.CREATE;
+
+    logger.info('Retrying blockchain sync', {
+      todoId: todo._id.toString(),
+      operation,
+      attempt: todo.syncRetryCount + 1,
+    });
+
+    await this.executeOperation(todo, operation);
+  }
+
+  /**
+   * Deliver an outbox entry to the blockchain
+   * Reads the todo's current state, so replaying an entry is safe
+   * Throws CircuitOpenError (todo left PENDING) while the network's RPC circuit is open
+   */
+  async dispatchOutboxEntry(entry: IOutboxEntry): Promise<void> {
+    const todo = await this.todoRepository.findByIdWithDeleted(entry.todoId, entry.userId);
+
+    if (!todo) {
+      logger.warn('Outbox entry references a missing todo', {
+        entryId: entry._id.toString(),
+        todoId: entry.todoId.toString(),
+      });
+      return;
+    }
+
+    await this.executeOperation(todo, entry.operation);
+  }
+
+  /**
+   * Anchor every todo queued for a Merkle batch (batch anchor mode)
+   * 1. Hash each queued todo into a leaf (todoId, hash, deletion state)
+   * 2. Anchor the tree's root in one transaction
+   * 3. Store each todo's proof; todos changed meanwhile stay queued for the next batch
+   * Todos on different networks go into separate batches, one per network
+   * Returns the number of todos marked as anchored
+   */
+  async anchorPendingBatch(): Promise<number> {
+    const todos = await this.todoRepository.getBatchQueue(CONSTANTS.BLOCKCHAIN.BATCH_MAX_SIZE);
+    const todosByNetwork = new Map<string, ITodo[]>();
+
+    for (const todo of todos) {
+      const network = todo.blockchainNetwork || config.blockchain.network;
+      todosByNetwork.set(network, [...(todosByNetwork.get(network) || []), todo]);
+    }
+
+    let anchored = 0;
+
+    for (const [network, networkTodos] of todosByNetwork) {
+      const anchorBackend = getAnchorBackend(network);
+
+      // RPC circuit is open, or fees are over the network's cap: the network's todos stay
+      // queued for a later batch
+      if (!anchorBackend.isAvailable() || (await anchorBackend.getFeeDeferral())) {
+        continue;
+      }
+
+      anchored += await this.anchorBatch(network, networkTodos);
+    }
+
+    return anchored;
+  }
+
+  /**
+   * Re-check todos whose transactions are waiting for confirmations
+   * - Enough confirmations: SYNCED
+   * - Dropped by a reorg (or reverted when re-mined): the operation is re-queued
+   *   through the outbox, and its ledger rows are marked failed
+   * Todos sharing a transaction (a Merkle batch) are checked with one receipt lookup
+   */
+  async checkConfirmations(limit: number): Promise<{ confirmed: number; requeued: number }> {
+    const todos = await this.todoRepository.getConfirmingSyncs(limit);
+    const todosByTxHash = new Map<string, ITodo[]>();
+
+    for (const todo of todos) {
+      const txHash = todo.blockchainTxHash || '';
+      todosByTxHash.set(txHash, [...(todosByTxHash.get(txHash) || []), todo]);
+    }
+
+    const result = { confirmed: 0, requeued: 0 };
+
+    for (const [txHash, txTodos] of todosByTxHash) {
+      // Todos sharing a transaction were anchored on the same network
+      const anchorBackend = getAnchorBackend(txTodos[0].blockchainNetwork);
+
+      // RPC circuit is open: check again once it closes
+      if (!anchorBackend.isAvailable()) {
+        continue;
+      }
+
+      const status = await anchorBackend.checkConfirmation(txHash);
+
+      if (status.state === 'confirmed') {
+        for (const todo of txTodos) {
+          if (await this.todoRepository.markConfirmed(todo._id, txHash, status.blockNumber!)) {
+            result.confirmed++;
+          }
+        }
+        continue;
+      }
+
+      if (status.state !== 'dropped' && status.state !== 'reverted') {
+        continue;
+      }
+
+      const reason =
+        status.state === 'dropped'
+          ? 'Transaction dropped by chain reorg'
+          : 'Transaction reverted after chain reorg';
+
+      logger.warn('Anchoring transaction lost to a reorg, re-queuing', {
+        txHash,
+        network: anchorBackend.getNetwork(),
+        state: status.state,
+        todos: txTodos.length,
+      });
+
+      await this.blockchainSyncRepository.markFailedByTransaction(txHash, reason);
+
+      for (const todo of txTodos) {
+        if (await this.requeueAfterReorg(todo, reason)) {
+          result.requeued++;
+        }
+      }
+    }
+
+    return result;
+  }
+
   // ==================== PRIVATE BLOCKCHAIN SYNC METHODS ====================
 
+  /**
+   * Anchor one Merkle batch of queued todos on a network
+   */
+  private async anchorBatch(network: string, todos: ITodo[]): Promise<number> {
+    const anchorBackend = getAnchorBackend(network);
+
+    const items = todos.map((todo) => {
+      const todoHash = this.hashService.hashTodo(todo);
+      return {
+        todo,
+        todoHash,
+        leaf: this.merkleService.computeLeaf(todo._id.toString(), todoHash.hash, todo.isDeleted),
+      };
+    });
+
+    const tree = this.merkleService.buildTree(items.map((item) => item.leaf));
+
+    const syncs = await this.blockchainSyncRepository.createMany(
+      items.map(({ todo, todoHash }) => ({
+        todoId: todo._id,
+        userId: todo.userId,
+        operation: todo.blockchainSyncOperation || BlockchainSyncOperation.CREATE,
+        network,
+        todoHash: todoHash.hash,
+        hashVersion: todoHash.version,
+        hashAlgorithm: todoHash.algorithm,
+        retryCount: todo.syncRetryCount,
+      }))
+    );
+    const syncIds = syncs.map((sync) => sync._id);
+
+    let result: BatchAnchorResult;
+
+    try {
+      result = await anchorBackend.anchorBatch(tree.root, items.length);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      await this.blockchainSyncRepository.markManyFailed(syncIds, message);
+      await this.todoRepository.markBatchFailed(
+        todos.map((todo) => todo._id),
+        message
+      );
+
+      logger.error('Failed to anchor todo batch', { network, size: items.length, error: message });
+      return 0;
+    }
+
+    await this.blockchainSyncRepository.markManyConfirmed(
+      syncIds,
+      { ...result, gasUsed: Math.ceil(result.gasUsed / items.length) },
+      {
+        anchorMode: AnchorMode.BATCH,
+        batchId: result.batchId,
+        merkleRoot: tree.root,
+        batchSize: items.length,
+        batchGasUsed: result.gasUsed,
+      }
+    );
+
+    const status = this.needsConfirmations(anchorBackend)
+      ? BlockchainSyncStatus.CONFIRMING
+      : BlockchainSyncStatus.SYNCED;
+    let anchored = 0;
+
+    for (let i = 0; i < items.length; i++) {
+      const applied = await this.todoRepository.markBatchAnchored(items[i].todo, {
+        anchoredHash: items[i].todoHash,
+        txHash: result.txHash,
+        blockNumber: result.blockNumber,
+        batchId: result.batchId,
+        merkleRoot: tree.root,
+        merkleProof: tree.proofs[i],
+        status,
+        target: anchorBackend.getAnchorTarget(),
+      });
+
+      if (applied) {
+        anchored++;
+      }
+    }
+
+    logger.info('Todo batch anchored', {
+      network,
+      batchId: result.batchId,
+      size: items.length,
+      anchored,
+      txHash: result.txHash,
+    });
+
+    return anchored;
+  }
+
+  /**
+   * Enqueue a chain operation in the outbox (inside the caller's transaction)
+   */
+  private async enqueueSync(
+    todo: ITodo,
+    operation: BlockchainSyncOperation,
+    session: ClientSession
+  ): Promise<void> {
+    await this.outboxRepository.enqueue(
+      { todoId: todo._id, userId: todo.userId, operation },
+      session
+    );
+  }
+
+  /**
+   * Run a chain operation for a todo
+   */
+  private async executeOperation(todo: ITodo, operation: BlockchainSyncOperation): Promise<void> {
+    // Anchoring is disabled: the todo is kept in MongoDB only, and labelled as such
+    if (!isAnchoringEnabled()) {
+      await this.todoRepository.markLocalOnly(todo._id, operation);
+      logger.info('Todo kept local-only, blockchain anchoring is disabled', {
+        todoId: todo._id.toString(),
+        operation,
+      });
+      return;
+    }
+
+    // Owner is over their monthly gas budget: hold the operation (the sync job resumes it)
+    const deferredUntil = await this.gasAccountingService.getAnchorDeferral(todo.userId);
+    if (deferredUntil) {
+      await this.todoRepository.markAnchorDeferred(todo._id, operation, deferredUntil);
+      logger.info('Todo anchoring deferred, owner is over their gas budget', {
+        todoId: todo._id.toString(),
+        operation,
+        deferredUntil,
+      });
+      return;
+    }
+
+    // Batch mode: the todo's current state goes into the next Merkle batch
+    if (this.anchorMode === AnchorMode.BATCH) {
+      await this.todoRepository.markBatchQueued(todo._id, operation);
+      logger.info('Todo queued for Merkle batch', { todoId: todo._id.toString(), operation });
+      return;
+    }
+
+    const todoId = todo._id.toString();
+    const anchorBackend = getAnchorBackend(todo.blockchainNetwork);
+
+    // RPC circuit is open: park the operation (the todo stays PENDING) instead of sending
+    // it; callers put it back for when the circuit closes
+    anchorBackend.assertAvailable();
+
+    // Network fees are over its cap: hold the operation until they are checked again
+    const feeDeferredUntil = await anchorBackend.getFeeDeferral();
+    if (feeDeferredUntil) {
+      await this.todoRepository.markAnchorDeferred(todo._id, operation, feeDeferredUntil);
+      logger.info('Todo anchoring deferred, network fees are above the cap', {
+        todoId,
+        network: anchorBackend.getNetwork(),
+        operation,
+        deferredUntil: feeDeferredUntil,
+      });
+      return;
+    }
+
+    const existsOnChain = await anchorBackend.todoExists(todoId);
+
+    switch (operation) {
+      case BlockchainSyncOperation.CREATE:
+      case BlockchainSyncOperation.UPDATE:
+        // A previous create may have reached the chain before failing to update MongoDB
+        if (existsOnChain) {
+          await this.updateOnBlockchain(todo);
+        } else {
+          await this.syncToBlockchain(todo);
+        }
+        break;
+      case BlockchainSyncOperation.DELETE:
+      case BlockchainSyncOperation.RESTORE: {
+        const shouldBeDeleted = operation === BlockchainSyncOperation.DELETE;
+
+        if (!existsOnChain) {
+          // Nothing anchored yet: anchor the todo first (new records start restored)
+          const created = await this.syncToBlockchain(todo, operation);
+          if (!created || !shouldBeDeleted) {
+            break;
+          }
+        } else {
+          const { isDeleted } = await anchorBackend.getTodo(todoId);
+          if (isDeleted === shouldBeDeleted) {
+            logger.info('Deletion state already anchored on blockchain', { todoId, isDeleted });
+            await this.todoRepository.markSynced(todo._id);
+            break;
+          }
+        }
+
+        if (shouldBeDeleted) {
+          await this.deleteOnBlockchain(todo);
+        } else {
+          await this.restoreOnBlockchain(todo);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Put a todo whose transaction was lost back through the outbox
+   * The todo's current state is what gets re-anchored
+   */
+  private async requeueAfterReorg(todo: ITodo, reason: string): Promise<boolean> {
+    const operation = todo.blockchainSyncOperation || BlockchainSyncOperation.CREATE;
+
+    return mongoose.connection.transaction(async (session) => {
+      const requeued = await this.todoRepository.markReorgDropped(todo, operation, reason, session);
+
+      // Moved on since (e.g. a newer operation is already queued)
+      if (!requeued) {
+        return false;
+      }
+
+      await this.enqueueSync(requeued, operation, session);
+      return true;
+    });
+  }
+
+  /**
+   * Record a mined chain operation on the todo
+   * Final right away on networks that need a single confirmation, otherwise
+   * CONFIRMING until the confirmation watcher sees enough blocks
+   */
+  private async markAnchored(
+    todo: ITodo,
+    result: TransactionResult,
+    anchoredHash?: VersionedHash
+  ): Promise<void> {
+    const anchorBackend = getAnchorBackend(todo.blockchainNetwork);
+    // Only writes that carry a hash (create/update) record where the todo is anchored
+    // (a todo not migrated yet is still written on the predecessor registry)
+    const target = anchoredHash && {
+      ...anchorBackend.getAnchorTarget(),
+      contractAddress: result.contractAddress,
+    };
+
+    if (this.needsConfirmations(anchorBackend)) {
+      await this.todoRepository.markConfirming(
+        todo._id,
+        result.txHash,
+        result.blockNumber,
+        anchoredHash,
+        target
+      );
+    } else {
+      await this.todoRepository.markSynced(todo._id, result.txHash, anchoredHash, target);
+    }
+  }
+
+  private needsConfirmations(anchorBackend: AnchorBackend): boolean {
+    return anchorBackend.getRequiredConfirmations() > 1;
+  }
+
+  /**
+   * Send a chain operation and record it in the BlockchainSync audit ledger
+   * The ledger row moves from pending to confirmed (with receipt data) or failed
+   */
+  private async recordOperation(
+    todo: ITodo,
+    operation: BlockchainSyncOperation,
+    todoHash: VersionedHash,
+    send: () => Promise<TransactionResult>
+  ): Promise<TransactionResult> {
+    const sync = await this.blockchainSyncRepository.create({
+      todoId: todo._id,
+      userId: todo.userId,
+      operation,
+      network: getAnchorBackend(todo.blockchainNetwork).getNetwork(),
+      todoHash: todoHash.hash,
+      hashVersion: todoHash.version,
+      hashAlgorithm: todoHash.algorithm,
+      retryCount: todo.syncRetryCount,
+    });
+
+    try {
+      const result = await send();
+      await this.blockchainSyncRepository.markConfirmed(sync._id, result);
+      return result;
+    } catch (error) {
+      await this.blockchainSyncRepository.markFailed(
+        sync._id,
+        error instanceof Error ? error.message : String(error)
+      );
+      throw error;
+    }
+  }
+
   /**
    * Sync a new todo to blockchain
+   * pendingOperation is what a retry should replay if this fails (a deletion of a todo
+   * that was never anchored creates it first, but must still be retried as a deletion)
    */
-  private async syncToBlockchain(todo: ITodo): Promise<void> {
+  private async syncToBlockchain(
+    todo: ITodo,
+    pendingOperation: BlockchainSyncOperation = BlockchainSyncOperation.CREATE
+  ): Promise<boolean> {
     try {
       const todoId = todo._id.toString();
 
+      await this.todoRepository.markSyncAttempt(todo._id, pendingOperation);
+
       // Generate hash
-      const hash = this.hashService.generateTodoHash(todo);
+      const hash = this.hashService.hashTodo(todo);
 
-      logger.info('Syncing todo to blockchain', { todoId, hash });
+      logger.info('Syncing todo to blockchain', { todoId, hash: hash.hash });
 
-      // Create on blockchain
-      const txHash = await this.blockchainService.createTodo(todoId, hash);
+      // Create on blockchain, owned by the user's linked wallet if they have one
+      const user = await this.userRepository.findById(todo.userId);
+      const result = await this.recordOperation(todo, BlockchainSyncOperation.CREATE, hash, () =>
+        getAnchorBackend(todo.blockchainNetwork).createTodo(
+          todoId,
+          hash.hash,
+          hash.version,
+          user?.walletAddress
+        )
+      );
 
       // Update MongoDB with blockchain info
-      await this.todoRepository.update(todoId, todo.userId, {
-        blockchainHash: hash,
-        blockchainTxHash: txHash,
-        blockchainSyncStatus: BlockchainSyncStatus.SYNCED,
-        blockchainSyncedAt: new Date(),
-      });
+      await this.markAnchored(todo, result, hash);
 
-      logger.info('Todo synced to blockchain successfully', { todoId, txHash });
+      logger.info('Todo synced to blockchain successfully', { todoId, txHash: result.txHash });
+      return true;
     } catch (error) {
+      // RPC circuit opened mid-operation: leave the todo PENDING to be retried
+      if (error instanceof CircuitOpenError) {
+        throw error;
+      }
+
       logger.error('Failed to sync todo to blockchain', {
         todoId: todo._id.toString(),
         error: error instanceof Error ? error.message : String(error),
@@ -276,6 +948,7 @@ export class TodoService {
         undefined,
         error instanceof Error ? error.message : 'Unknown error'
       );
+      return false;
     }
   }
 
@@ -286,24 +959,28 @@ export class TodoService {
     try {
       const todoId = todo._id.toString();
 
-      // Generate new hash
-      const newHash = this.hashService.generateTodoHash(todo);
+      await this.todoRepository.markSyncAttempt(todo._id, BlockchainSyncOperation.UPDATE);
+
+      // Generate new hash (re-anchoring also moves older todos to the current scheme)
+      const newHash = this.hashService.hashTodo(todo);
 
-      logger.info('Updating todo on blockchain', { todoId, newHash });
+      logger.info('Updating todo on blockchain', { todoId, newHash: newHash.hash });
 
       // Update on blockchain
-      const txHash = await this.blockchainService.updateTodo(todoId, newHash);
+      const result = await this.recordOperation(todo, BlockchainSyncOperation.UPDATE, newHash, () =>
+        getAnchorBackend(todo.blockchainNetwork).updateTodo(todoId, newHash.hash, newHash.version)
+      );
 
       // Update MongoDB
-      await this.todoRepository.update(todoId, todo.userId, {
-        blockchainHash: newHash,
-        blockchainTxHash: txHash,
-        blockchainSyncStatus: BlockchainSyncStatus.SYNCED,
-        blockchainSyncedAt: new Date(),
-      });
+      await this.markAnchored(todo, result, newHash);
 
-      logger.info('Todo updated on blockchain successfully', { todoId, txHash });
+      logger.info('Todo updated on blockchain successfully', { todoId, txHash: result.txHash });
     } catch (error) {
+      // RPC circuit opened mid-operation: leave the todo PENDING to be retried
+      if (error instanceof CircuitOpenError) {
+        throw error;
+      }
+
       logger.error('Failed to update todo on blockchain', {
         todoId: todo._id.toString(),
         error: error instanceof Error ? error.message : String(error),
@@ -321,36 +998,146 @@ export class TodoService {
   /**
    * Delete todo on blockchain
    */
-  private async deleteOnBlockchain(todoId: string): Promise<void> {
+  private async deleteOnBlockchain(todo: ITodo): Promise<void> {
+    const todoId = todo._id.toString();
+
     try {
+      await this.todoRepository.markSyncAttempt(todo._id, BlockchainSyncOperation.DELETE);
+
       logger.info('Deleting todo on blockchain', { todoId });
 
-      const txHash = await this.blockchainService.deleteTodo(todoId);
+      const result = await this.recordOperation(
+        todo,
+        BlockchainSyncOperation.DELETE,
+        this.getAnchoredHash(todo),
+        () => getAnchorBackend(todo.blockchainNetwork).deleteTodo(todoId)
+      );
 
-      logger.info('Todo deleted on blockchain successfully', { todoId, txHash });
+      await this.markAnchored(todo, result);
+
+      logger.info('Todo deleted on blockchain successfully', { todoId, txHash: result.txHash });
     } catch (error) {
+      // RPC circuit opened mid-operation: leave the todo PENDING to be retried
+      if (error instanceof CircuitOpenError) {
+        throw error;
+      }
+
       logger.error('Failed to delete todo on blockchain', {
         todoId,
         error: error instanceof Error ? error.message : String(error),
       });
+
+      await this.todoRepository.updateBlockchainStatus(
+        todo._id,
+        BlockchainSyncStatus.FAILED,
+        undefined,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
     }
   }
 
   /**
    * Restore todo on blockchain
    */
-  private async restoreOnBlockchain(todoId: string): Promise<void> {
+  private async restoreOnBlockchain(todo: ITodo): Promise<void> {
+    const todoId = todo._id.toString();
+
     try {
+      await this.todoRepository.markSyncAttempt(todo._id, BlockchainSyncOperation.RESTORE);
+
       logger.info('Restoring todo on blockchain', { todoId });
 
-      const txHash = await this.blockchainService.restoreTodo(todoId);
+      const result = await this.recordOperation(
+        todo,
+        BlockchainSyncOperation.RESTORE,
+        this.getAnchoredHash(todo),
+        () => getAnchorBackend(todo.blockchainNetwork).restoreTodo(todoId)
+      );
+
+      await this.markAnchored(todo, result);
 
-      logger.info('Todo restored on blockchain successfully', { todoId, txHash });
+      logger.info('Todo restored on blockchain successfully', { todoId, txHash: result.txHash });
     } catch (error) {
+      // RPC circuit opened mid-operation: leave the todo PENDING to be retried
+      if (error instanceof CircuitOpenError) {
+        throw error;
+      }
+
       logger.error('Failed to restore todo on blockchain', {
         todoId,
         error: error instanceof Error ? error.message : String(error),
       });
+
+      await this.todoRepository.updateBlockchainStatus(
+        todo._id,
+        BlockchainSyncStatus.FAILED,
+        undefined,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
     }
   }
+
+  /**
+   * Verify a batch-anchored todo by Merkle proof against the batch root on chain
+   * The leaf covers the deletion state too, so a failed proof is retried with the
+   * opposite state to tell a deletion mismatch from modified data
+   */
+  private async verifyBatchedTodo(
+    todo: ITodo,
+    currentHash: string,
+    scheme: HashScheme
+  ): Promise<TodoVerificationResult> {
+    const todoId = todo._id.toString();
+    const batchId = todo.merkleBatchId!;
+    const proof = todo.merkleProof!;
+
+    const anchorBackend = getAnchorBackend(todo.blockchainNetwork);
+    const batch = await anchorBackend.getBatch(batchId);
+
+    const leaf = this.merkleService.computeLeaf(todoId, currentHash, todo.isDeleted);
+    let hashMatches = await anchorBackend.verifyBatchInclusion(batchId, leaf, proof);
+    let deletionMismatch = false;
+
+    if (!hashMatches) {
+      const flippedLeaf = this.merkleService.computeLeaf(todoId, currentHash, !todo.isDeleted);
+      hashMatches = await anchorBackend.verifyBatchInclusion(batchId, flippedLeaf, proof);
+      deletionMismatch = hashMatches;
+    }
+
+    return {
+      isValid: hashMatches && !deletionMismatch,
+      hashMatches,
+      deletionMismatch,
+      mongoHash: currentHash,
+      blockchainHash: todo.blockchainHash!,
+      hashVersion: scheme.version,
+      hashAlgorithm: scheme.algorithm,
+      salted: !!scheme.salt,
+      mongoIsDeleted: todo.isDeleted,
+      blockchainSyncStatus: todo.blockchainSyncStatus,
+      anchorMode: AnchorMode.BATCH,
+      blockchainData: {
+        batchId,
+        merkleRoot: batch.root,
+        merkleProof: proof,
+        leaf,
+        batchSize: batch.count,
+        submitter: batch.submitter,
+        timestamp: batch.timestamp.toString(),
+        // Only known when the proof verified with one of the two states
+        isDeleted: hashMatches ? todo.isDeleted !== deletionMismatch : null,
+      },
+    };
+  }
+
+  /**
+   * Hash currently anchored for a todo (delete/restore don't write a new one)
+   */
+  private getAnchoredHash(todo: ITodo): VersionedHash {
+    if (!todo.blockchainHash) {
+      return this.hashService.hashTodo(todo);
+    }
+
+    return { ...this.hashService.getAnchoredScheme(todo), hash: todo.blockchainHash };
+  }
 }
@@ -0,0 +1,383 @@
+import { ethers } from 'ethers';
+import { CONSTANTS } from '../config/constants';
+import { getNetworkConfig } from '../config/networks';
+import logger from '../utils/logger';
+
+export interface TransactionQueueOptions {
+  stuckTimeoutMs: number; // Resubmit if not mined within this window
+  feeBumpPercent: number; // Fee increase per resubmission (nodes require >= 10%)
+  maxResubmissions: number;
+  pollIntervalMs: number;
+  maxFeePerGas?: bigint; // Fee cap (wei per gas); fees and bumps never go past it
+  maxPriorityFeePerGas?: bigint; // Tip (wei per gas) used instead of the node's suggestion
+}
+
+/**
+ * Fee a mined transaction was sent with (wei per gas)
+ * capped: the fee cap held it below what the node suggested (or below a full bump)
+ */
+export interface TransactionFee {
+  maxFeePerGas?: number;
+  maxPriorityFeePerGas?: number;
+  gasPrice?: number; // Legacy (pre-EIP-1559) networks
+  capped: boolean;
+}
+
+export interface SubmittedTransaction {
+  receipt: ethers.TransactionReceipt;
+  fee: TransactionFee;
+}
+
+export interface TransactionQueueDepth {
+  address: string;
+  waiting: number; // Not yet broadcast (waiting for a nonce)
+  inFlight: number; // Broadcast, waiting for a receipt
+  nextNonce?: number;
+}
+
+type FeeOverrides = Pick<
+  ethers.TransactionRequest,
+  'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'
+>;
+
+const DEFAULT_OPTIONS: TransactionQueueOptions = {
+  stuckTimeoutMs: CONSTANTS.BLOCKCHAIN.TX_STUCK_TIMEOUT,
+  feeBumpPercent: CONSTANTS.BLOCKCHAIN.TX_FEE_BUMP_PERCENT,
+  maxResubmissions: CONSTANTS.BLOCKCHAIN.TX_MAX_RESUBMISSIONS,
+  pollIntervalMs: CONSTANTS.BLOCKCHAIN.TX_RECEIPT_POLL_INTERVAL,
+};
+
+const NONCE_ERROR_PATTERNS = ['nonce too low', 'nonce has already been used', 'NONCE_EXPIRED'];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * TransactionQueue
+ * Serializes transaction submission for a single signer with a local nonce manager
+ *
+ * - Nonces are assigned in submission order from a local counter (synced from the node's
+ *   pending count on first use and after nonce errors), so concurrent writes never collide
+ * - Broadcasting is serialized; waiting for receipts is not (many txs can be in flight)
+ * - A tx that isn't mined within stuckTimeoutMs, or that the node dropped, is resubmitted
+ *   with the same nonce and fees bumped by feeBumpPercent
+ * - With a fee cap, fees are never set above it; a tx whose fees are already at the cap is
+ *   left to be mined instead of being resubmitted
+ */
+export class TransactionQueue {
+  private signer: ethers.Signer;
+  private provider: ethers.Provider;
+  private options: TransactionQueueOptions;
+  private address?: string;
+  private nextNonce?: number;
+  private submissionChain: Promise<unknown> = Promise.resolve();
+  private waiting = 0;
+  private inFlight = 0;
+
+  constructor(signer: ethers.Signer, options: Partial<TransactionQueueOptions> = {}) {
+    if (!signer.provider) {
+      throw new Error('TransactionQueue requires a signer connected to a provider');
+    }
+
+    this.signer = signer;
+    this.provider = signer.provider;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Queue a transaction and wait for its receipt (and the fee it was mined with)
+   * Reverts surface from gas estimation before a nonce is consumed
+   */
+  async submit(
+    label: string,
+    buildRequest: () => Promise<ethers.TransactionRequest>
+  ): Promise<SubmittedTransaction> {
+    this.waiting++;
+
+    let broadcast: { tx: ethers.TransactionResponse; request: ethers.TransactionRequest };
+
+    try {
+      broadcast = await this.enqueue(() => this.broadcast(label, buildRequest));
+    } finally {
+      this.waiting--;
+    }
+
+    this.inFlight++;
+
+    try {
+      return await this.waitForReceipt(label, broadcast.tx, broadcast.request);
+    } finally {
+      this.inFlight--;
+    }
+  }
+
+  /**
+   * Whether the network's current fees (base fee plus tip) are over the fee cap
+   * Always false without a cap
+   */
+  async isOverFeeCap(): Promise<boolean> {
+    const cap = this.options.maxFeePerGas;
+
+    if (cap === undefined) {
+      return false;
+    }
+
+    const [block, feeData] = await Promise.all([
+      this.provider.getBlock('latest'),
+      this.provider.getFeeData(),
+    ]);
+
+    if (block?.baseFeePerGas == null) {
+      return (feeData.gasPrice ?? 0n) > cap;
+    }
+
+    const tip = this.options.maxPriorityFeePerGas ?? feeData.maxPriorityFeePerGas ?? 0n;
+    return block.baseFeePerGas + tip > cap;
+  }
+
+  /**
+   * Current queue depth (for monitoring)
+   */
+  getDepth(): TransactionQueueDepth {
+    return {
+      address: this.address || '',
+      waiting: this.waiting,
+      inFlight: this.inFlight,
+      nextNonce: this.nextNonce,
+    };
+  }
+
+  /**
+   * Run a task after every previously queued broadcast has finished
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.submissionChain.then(task);
+    this.submissionChain = result.catch(() => undefined);
+    return result;
+  }
+
+  private async broadcast(
+    label: string,
+    buildRequest: () => Promise<ethers.TransactionRequest>,
+    isNonceRetry = false
+  ): Promise<{ tx: ethers.TransactionResponse; request: ethers.TransactionRequest }> {
+    const nonce = await this.getNextNonce();
+    const baseRequest = await buildRequest();
+
+    const request: ethers.TransactionRequest = {
+      ...baseRequest,
+      nonce,
+      ...(await this.getFeeOverrides()),
+    };
+
+    try {
+      const tx = await this.signer.sendTransaction(request);
+      this.nextNonce = nonce + 1;
+
+      logger.info('Transaction broadcast', { label, nonce, txHash: tx.hash });
+
+      return { tx, request: { ...request, gasLimit: tx.gasLimit } };
+    } catch (error) {
+      // Anything unexpected may mean our counter drifted - resync on next use
+      this.nextNonce = undefined;
+
+      if (!isNonceRetry && this.isNonceError(error)) {
+        logger.warn('Nonce out of sync, resyncing from node', { label, nonce });
+        return this.broadcast(label, buildRequest, true);
+      }
+
+      throw error;
+    }
+  }
+
+  private async waitForReceipt(
+    label: string,
+    tx: ethers.TransactionResponse,
+    request: ethers.TransactionRequest
+  ): Promise<SubmittedTransaction> {
+    // Every request broadcast for this nonce, by hash; any of them may end up mined
+    const requests = new Map([[tx.hash, request]]);
+    let currentRequest = request;
+
+    for (let attempt = 0; attempt <= this.options.maxResubmissions; attempt++) {
+      const receipt = await this.pollReceipt([...requests.keys()], this.options.stuckTimeoutMs);
+
+      if (receipt) {
+        if (receipt.status !== 1) {
+          throw new Error(`Transaction ${receipt.hash} reverted (${label})`);
+        }
+        return { receipt, fee: this.toTransactionFee(requests.get(receipt.hash)!) };
+      }
+
+      if (attempt === this.options.maxResubmissions) {
+        break;
+      }
+
+      const bumped = this.bumpFees(currentRequest);
+
+      if (!bumped) {
+        logger.warn('Transaction stuck at the fee cap, waiting instead of resubmitting', {
+          label,
+          nonce: currentRequest.nonce,
+          attempt: attempt + 1,
+        });
+        continue;
+      }
+
+      currentRequest = { ...currentRequest, ...bumped };
+
+      try {
+        const previousTxHash = [...requests.keys()].pop();
+        const replacement = await this.signer.sendTransaction(currentRequest);
+        requests.set(replacement.hash, currentRequest);
+
+        logger.warn('Transaction stuck or dropped, resubmitted with bumped fees', {
+          label,
+          nonce: currentRequest.nonce,
+          previousTxHash,
+          txHash: replacement.hash,
+          attempt: attempt + 1,
+        });
+      } catch (error) {
+        // The original may have been mined between our poll and the resubmit
+        if (!this.isNonceError(error)) {
+          throw error;
+        }
+      }
+    }
+
+    // Nonce may now be a gap - resync so later submissions aren't stuck behind it
+    this.nextNonce = undefined;
+
+    throw new Error(
+      `Transaction not mined after ${this.options.maxResubmissions} resubmissions (${label}, nonce ${currentRequest.nonce})`
+    );
+  }
+
+  private async pollReceipt(
+    hashes: string[],
+    timeoutMs: number
+  ): Promise<ethers.TransactionReceipt | null> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      for (const hash of hashes) {
+        const receipt = await this.provider.getTransactionReceipt(hash);
+        if (receipt) {
+          return receipt;
+        }
+      }
+
+      await sleep(this.options.pollIntervalMs);
+    }
+
+    return null;
+  }
+
+  private async getNextNonce(): Promise<number> {
+    if (this.nextNonce === undefined) {
+      this.address = this.address || (await this.signer.getAddress());
+      this.nextNonce = await this.provider.getTransactionCount(this.address, 'pending');
+    }
+
+    return this.nextNonce;
+  }
+
+  private async getFeeOverrides(): Promise<FeeOverrides> {
+    const feeData = await this.provider.getFeeData();
+
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      const tip = this.options.maxPriorityFeePerGas ?? feeData.maxPriorityFeePerGas;
+      // Keep the node's headroom over the base fee, with our tip in place of its own
+      const maxFeePerGas = this.capFee(feeData.maxFeePerGas - feeData.maxPriorityFeePerGas + tip);
+
+      return {
+        maxFeePerGas,
+        maxPriorityFeePerGas: tip < maxFeePerGas ? tip : maxFeePerGas,
+      };
+    }
+
+    return { gasPrice: feeData.gasPrice === null ? null : this.capFee(feeData.gasPrice) };
+  }
+
+  /**
+   * Fees for a replacement, or null when the cap leaves no room for the bump nodes require
+   */
+  private bumpFees(request: ethers.TransactionRequest): FeeOverrides | null {
+    const bump = (value: ethers.BigNumberish) =>
+      this.capFee((BigInt(value) * BigInt(100 + this.options.feeBumpPercent) + 99n) / 100n);
+    // Nodes only accept a replacement paying at least 10% more
+    const replaces = (value: ethers.BigNumberish, bumped: bigint) =>
+      bumped * 10n >= BigInt(value) * 11n;
+
+    if (request.maxFeePerGas != null && request.maxPriorityFeePerGas != null) {
+      const maxFeePerGas = bump(request.maxFeePerGas);
+      const tip = bump(request.maxPriorityFeePerGas);
+      const maxPriorityFeePerGas = tip < maxFeePerGas ? tip : maxFeePerGas;
+
+      return replaces(request.maxFeePerGas, maxFeePerGas) &&
+        replaces(request.maxPriorityFeePerGas, maxPriorityFeePerGas)
+        ? { maxFeePerGas, maxPriorityFeePerGas }
+        : null;
+    }
+
+    const gasPrice = bump(request.gasPrice ?? 0);
+    return replaces(request.gasPrice ?? 0, gasPrice) ? { gasPrice } : null;
+  }
+
+  private capFee(value: bigint): bigint {
+    const cap = this.options.maxFeePerGas;
+    return cap !== undefined && value > cap ? cap : value;
+  }
+
+  private toTransactionFee(request: ethers.TransactionRequest): TransactionFee {
+    const cap = this.options.maxFeePerGas;
+    const fee = request.maxFeePerGas ?? request.gasPrice;
+
+    return {
+      maxFeePerGas: request.maxFeePerGas != null ? Number(request.maxFeePerGas) : undefined,
+      maxPriorityFeePerGas:
+        request.maxPriorityFeePerGas != null ? Number(request.maxPriorityFeePerGas) : undefined,
+      gasPrice: request.maxFeePerGas == null && fee != null ? Number(fee) : undefined,
+      capped: cap !== undefined && fee != null && BigInt(fee) >= cap,
+    };
+  }
+
+  private isNonceError(error: unknown): boolean {
+    const err = error as { code?: string; message?: string } | undefined;
+    return NONCE_ERROR_PATTERNS.some(
+      (pattern) => err?.code === pattern || Boolean(err?.message?.includes(pattern))
+    );
+  }
+}
+
+/**
+ * One queue per signing address and network, shared by every BlockchainService instance
+ * (the same wallet has an independent nonce sequence on each chain)
+ */
+const queues = new Map<string, { network: string; queue: TransactionQueue }>();
+
+export function getTransactionQueue(wallet: ethers.Wallet, network: string): TransactionQueue {
+  const key = `${network}:${wallet.address.toLowerCase()}`;
+  let entry = queues.get(key);
+
+  if (!entry) {
+    const { maxFeePerGas, maxPriorityFeePerGas } = getNetworkConfig(network).fees;
+    entry = {
+      network,
+      queue: new TransactionQueue(wallet, { maxFeePerGas, maxPriorityFeePerGas }),
+    };
+    queues.set(key, entry);
+  }
+
+  return entry.queue;
+}
+
+/**
+ * Depth of every active queue (for the health endpoint)
+ */
+export function getTransactionQueueDepths(): (TransactionQueueDepth & { network: string })[] {
+  return Array.from(queues.values()).map(({ network, queue }) => ({
+    network,
+    ...queue.getDepth(),
+  }));
+}
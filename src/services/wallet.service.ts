@@ -0,0 +1,178 @@
+import { ethers } from 'ethers';
+import { UserRepository } from '../repositories/user.repository';
+import { OperatorApprovalRequest } from './blockchain.service';
+import { AnchorBackend, getAnchorBackend } from './anchor-backend.service';
+import { SiweService } from './siwe.service';
+import { LinkWalletDTO, WalletApprovalRequestDTO } from '../dtos/auth/wallet.dto';
+import { SiweVerifyDTO } from '../dtos/auth/siwe.dto';
+import { ApiError } from '../utils/api-error';
+import { CONSTANTS } from '../config/constants';
+import logger from '../utils/logger';
+
+export interface LinkedWallet {
+  walletAddress: string;
+  network: string;
+  txHash: string;
+}
+
+/**
+ * WalletService
+ * Links a user's Ethereum address so their todos are owned by it on chain
+ *
+ * The wallet signs an EIP-712 approval of the anchoring wallet as the operator of its
+ * todos, which the server relays to the registry. That one signature proves the user
+ * controls the address and lets the server create todos for it (TodoRegistryV2 only).
+ *
+ * A wallet can also be linked with a Sign-In with Ethereum message. That links it for
+ * signing in only: its todos are owned by it once it has approved the anchoring wallet.
+ */
+export class WalletService {
+  private userRepository: UserRepository;
+  private siweService: SiweService;
+
+  constructor() {
+    this.userRepository = new UserRepository();
+    this.siweService = new SiweService();
+  }
+
+  /**
+   * Typed data for the wallet to sign (eth_signTypedData_v4)
+   */
+  async getApprovalRequest(
+    userId: string,
+    data: WalletApprovalRequestDTO
+  ): Promise<OperatorApprovalRequest> {
+    const address = ethers.getAddress(data.address);
+    await this.assertAvailable(userId, address);
+
+    const anchorBackend = this.getWalletAnchorBackend(data.network);
+    const deadline = Math.floor(Date.now() / 1000) + CONSTANTS.WALLET.APPROVAL_SIGNATURE_TTL;
+
+    return anchorBackend.getOperatorApprovalRequest(address, true, deadline);
+  }
+
+  /**
+   * Check the signed approval, relay it on chain and link the wallet to the user
+   */
+  async linkWallet(userId: string, data: LinkWalletDTO): Promise<LinkedWallet> {
+    const address = ethers.getAddress(data.address);
+    await this.assertAvailable(userId, address);
+
+    if (data.deadline < Math.floor(Date.now() / 1000)) {
+      throw ApiError.badRequest(
+        'Wallet approval has expired, request a new one',
+        'SIGNATURE_EXPIRED'
+      );
+    }
+
+    const anchorBackend = this.getWalletAnchorBackend(data.network);
+
+    // Checked here first so a bad signature is a 400, not a reverted (and paid for) relay
+    const request = await anchorBackend.getOperatorApprovalRequest(address, true, data.deadline);
+    if (recoverSigner(request, data.signature) !== address) {
+      throw ApiError.badRequest('Signature was not made by this wallet', 'INVALID_SIGNATURE');
+    }
+
+    const result = await anchorBackend.setOperatorApprovalBySig(
+      address,
+      true,
+      data.deadline,
+      data.signature
+    );
+
+    const user = await this.userRepository.setWalletAddress(userId, address);
+
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+
+    logger.info('Wallet linked', {
+      userId,
+      walletAddress: address,
+      network: anchorBackend.getNetwork(),
+      txHash: result.txHash,
+    });
+
+    return {
+      walletAddress: address,
+      network: anchorBackend.getNetwork(),
+      txHash: result.txHash,
+    };
+  }
+
+  /**
+   * Link the wallet that signed a Sign-In with Ethereum message
+   */
+  async linkSiweWallet(userId: string, data: SiweVerifyDTO): Promise<string> {
+    const address = await this.siweService.verify(data);
+    await this.assertAvailable(userId, address);
+
+    const user = await this.userRepository.setWalletAddress(userId, address);
+
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+
+    logger.info('Wallet linked', { userId, walletAddress: address });
+
+    return address;
+  }
+
+  /**
+   * Unlink the user's wallet
+   * New todos are anchored under the anchoring wallet again. Todos the wallet already
+   * owns stay its own on chain, and its operator approval stands until it revokes it.
+   */
+  async unlinkWallet(userId: string): Promise<void> {
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+    if (!user.walletAddress) {
+      throw ApiError.badRequest('No wallet is linked to this account', 'NO_WALLET_LINKED');
+    }
+    if (!user.email) {
+      throw ApiError.badRequest(
+        'This account signs in with its wallet, so the wallet cannot be unlinked',
+        'WALLET_REQUIRED'
+      );
+    }
+
+    await this.userRepository.unsetWalletAddress(userId);
+
+    logger.info('Wallet unlinked', { userId, walletAddress: user.walletAddress });
+  }
+
+  /**
+   * A wallet can only be linked to one user (deleted users keep theirs)
+   */
+  private async assertAvailable(userId: string, address: string): Promise<void> {
+    const owner = await this.userRepository.findByWalletAddressWithDeleted(address);
+
+    if (owner && owner._id.toString() !== userId) {
+      throw ApiError.conflict('Wallet is linked to another account', 'WALLET_IN_USE');
+    }
+  }
+
+  private getWalletAnchorBackend(network?: string): AnchorBackend {
+    const anchorBackend = getAnchorBackend(network);
+
+    if (!anchorBackend.supportsWalletOwnership()) {
+      throw ApiError.badRequest(
+        `The registry on ${anchorBackend.getNetwork()} does not support wallet ownership`,
+        'WALLET_OWNERSHIP_UNSUPPORTED'
+      );
+    }
+
+    return anchorBackend;
+  }
+}
+
+const recoverSigner = (request: OperatorApprovalRequest, signature: string): string | null => {
+  try {
+    return ethers.verifyTypedData(request.domain, request.types, request.message, signature);
+  } catch {
+    return null;
+  }
+};
@@ -12,8 +12,10 @@ export enum TodoPriority {
 
 export enum BlockchainSyncStatus {
   PENDING = 'pending',
+  CONFIRMING = 'confirming', // Mined, waiting for the network's confirmation depth
   SYNCED = 'synced',
   FAILED = 'failed',
+  LOCAL_ONLY = 'local-only', // Kept in MongoDB only: anchoring is disabled (BLOCKCHAIN_BACKEND)
 }
 
 export enum BlockchainSyncOperation {
@@ -23,6 +25,41 @@ export enum BlockchainSyncOperation {
   RESTORE = 'restore',
 }
 
+export enum AnchorMode {
+  PER_TODO = 'per-todo', // One transaction per todo mutation
+  BATCH = 'batch', // Merkle root of many todo hashes per transaction
+}
+
+export enum AnchorBackendType {
+  ETHERS = 'ethers', // TodoRegistry contract over JSON-RPC
+  MEMORY = 'memory', // In-process simulation of TodoRegistryV2 (state is lost on restart)
+  DISABLED = 'disabled', // No anchoring: todos are kept in MongoDB only
+}
+
+export enum HashVersion {
+  V1 = 1, // SHA-256 of '|'-joined fields (original scheme, kept for verifying old anchors)
+  V2 = 2, // RFC 8785 canonical JSON, digested with the todo's hashAlgorithm (optionally salted)
+}
+
+export enum HashAlgorithm {
+  SHA256 = 'sha256',
+  KECCAK256 = 'keccak256', // Matches Solidity's keccak256(bytes(...))
+}
+
+export enum DriftType {
+  TAMPERED_IN_DB = 'tampered_in_db', // MongoDB data no longer hashes to the anchored hash
+  MISSING_ON_CHAIN = 'missing_on_chain', // Marked synced, but no record/batch on chain
+  DELETION_MISMATCH = 'deletion_mismatch', // isDeleted differs between MongoDB and chain
+  OWNER_MISMATCH = 'owner_mismatch', // Anchored by a wallet other than ours
+}
+
+export enum RecoveryStatus {
+  AUTHENTIC = 'authentic', // Data hashes to the todo's current on-chain anchor
+  OUTDATED = 'outdated', // Data matches an earlier anchor; the chain has a newer version
+  UNMATCHED = 'unmatched', // Data matches none of the todo's on-chain hashes
+  UNANCHORED = 'unanchored', // Nothing on chain, and the backup claims no anchor
+}
+
 export enum Environment {
   DEVELOPMENT = 'development',
   PRODUCTION = 'production',
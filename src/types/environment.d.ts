@@ -13,11 +13,22 @@ declare namespace NodeJS {
     JWT_EXPIRES_IN: string;
     JWT_REFRESH_EXPIRES_IN: string;
 
+    // Sign-In with Ethereum
+    SIWE_DOMAIN?: string;
+
     // Blockchain
+    BLOCKCHAIN_BACKEND?: 'ethers' | 'memory' | 'disabled';
     BLOCKCHAIN_RPC_URL: string;
     BLOCKCHAIN_PRIVATE_KEY: string;
-    BLOCKCHAIN_CONTRACT_ADDRESS?: string;
     BLOCKCHAIN_NETWORK: string;
+    BLOCKCHAIN_NETWORKS?: string;
+    BLOCKCHAIN_NETWORKS_FILE?: string;
+    BLOCKCHAIN_DEPLOYMENTS_DIR?: string;
+    BLOCKCHAIN_ANCHOR_MODE?: 'per-todo' | 'batch';
+
+    // Todo Hashing
+    TODO_HASH_ALGORITHM?: 'sha256' | 'keccak256';
+    TODO_HASH_SALTED?: string;
 
     // CORS
     CORS_ORIGIN: string;
@@ -0,0 +1,34 @@
+/**
+ * Serialize a value as RFC 8785 (JCS) canonical JSON
+ * No whitespace, object keys sorted by UTF-16 code units. RFC 8785 specifies the
+ * ECMAScript number and string serialization, so JSON.stringify is exact for primitives.
+ * Like JSON.stringify, object members whose value is undefined are left out.
+ */
+export const canonicalizeJson = (value: unknown): string => {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error('Cannot canonicalize a non-finite number');
+    }
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalizeJson).join(',')}]`;
+  }
+
+  if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const record = value as Record<string, unknown>;
+    const members = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalizeJson(record[key])}`);
+
+    return `{${members.join(',')}}`;
+  }
+
+  throw new Error(`Cannot canonicalize a value of type ${typeof value}`);
+};
@@ -2,3 +2,5 @@ export { default as logger } from './logger';
 export * from './api-error';
 export * from './api-response';
 export * from './pagination';
+export * from './canonical-json';
+export * from './siwe';
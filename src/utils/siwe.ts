@@ -0,0 +1,118 @@
+/**
+ * Fields of a Sign-In with Ethereum (EIP-4361) message
+ */
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources: string[];
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+// Tagged fields in the order EIP-4361 lays them out, with whether they are required
+const FIELDS: [tag: string, key: keyof SiweMessage, required: boolean][] = [
+  ['URI', 'uri', true],
+  ['Version', 'version', true],
+  ['Chain ID', 'chainId', true],
+  ['Nonce', 'nonce', true],
+  ['Issued At', 'issuedAt', true],
+  ['Expiration Time', 'expirationTime', false],
+  ['Not Before', 'notBefore', false],
+  ['Request ID', 'requestId', false],
+];
+
+/**
+ * Parse an EIP-4361 message (the exact text the wallet signed)
+ * Throws if the text doesn't follow the EIP-4361 layout. The address is returned as
+ * written; callers check it against the signature.
+ */
+export const parseSiweMessage = (message: string): SiweMessage => {
+  const lines = message.split('\n');
+  let line = 0;
+
+  const header = lines[line++];
+  if (!header?.endsWith(HEADER_SUFFIX)) {
+    throw new Error('Not a Sign-In with Ethereum message');
+  }
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+
+  const address = lines[line++];
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address ?? '')) {
+    throw new Error('Message has no valid address');
+  }
+
+  if (lines[line++] !== '') {
+    throw new Error('Expected an empty line after the address');
+  }
+
+  // The statement (optional) is followed by another empty line
+  let statement: string | undefined;
+  if (!lines[line]?.startsWith('URI: ')) {
+    statement = lines[line++];
+    if (lines[line++] !== '') {
+      throw new Error('Expected an empty line after the statement');
+    }
+  }
+
+  const values: Record<string, string> = {};
+  for (const [tag, key, required] of FIELDS) {
+    const prefix = `${tag}: `;
+
+    if (lines[line]?.startsWith(prefix)) {
+      values[key] = lines[line++].slice(prefix.length);
+    } else if (required) {
+      throw new Error(`Message is missing the ${tag} field`);
+    }
+  }
+
+  const resources: string[] = [];
+  if (lines[line] === 'Resources:') {
+    line++;
+    while (lines[line]?.startsWith('- ')) {
+      resources.push(lines[line++].slice(2));
+    }
+  }
+
+  if (line !== lines.length) {
+    throw new Error(`Unexpected content on line ${line + 1} of the message`);
+  }
+
+  if (values.version !== '1') {
+    throw new Error(`Unsupported message version ${values.version}`);
+  }
+
+  const chainId = Number(values.chainId);
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+    throw new Error(`Invalid chain ID ${values.chainId}`);
+  }
+
+  for (const key of ['issuedAt', 'expirationTime', 'notBefore'] as const) {
+    if (values[key] !== undefined && Number.isNaN(Date.parse(values[key]))) {
+      throw new Error(`Invalid timestamp ${values[key]}`);
+    }
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri: values.uri,
+    version: values.version,
+    chainId,
+    nonce: values.nonce,
+    issuedAt: values.issuedAt,
+    expirationTime: values.expirationTime,
+    notBefore: values.notBefore,
+    requestId: values.requestId,
+    resources,
+  };
+};